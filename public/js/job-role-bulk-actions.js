@@ -0,0 +1,55 @@
+/**
+ * Admin Job Role List - Bulk action selection
+ * Handles select all, the selected count and the extend closing date field
+ */
+
+document.addEventListener("DOMContentLoaded", () => {
+	const form = document.getElementById("bulkActionsForm");
+
+	if (!form) {
+		return;
+	}
+
+	const selectAll = document.getElementById("bulkSelectAll");
+	const checkboxes = document.querySelectorAll(".bulk-select");
+	const actionSelect = document.getElementById("bulkAction");
+	const closingDateField = document.getElementById("bulkClosingDateField");
+	const closingDateInput = document.getElementById("bulkClosingDate");
+	const selectedCount = document.getElementById("bulkSelectedCount");
+	const submitButton = document.getElementById("bulkActionSubmit");
+
+	const updateSelection = () => {
+		const checked = Array.from(checkboxes).filter((box) => box.checked);
+		selectedCount.textContent = String(checked.length);
+		submitButton.disabled = checked.length === 0;
+		if (selectAll) {
+			selectAll.checked =
+				checked.length > 0 && checked.length === checkboxes.length;
+			selectAll.indeterminate =
+				checked.length > 0 && checked.length < checkboxes.length;
+		}
+	};
+
+	selectAll?.addEventListener("change", () => {
+		checkboxes.forEach((box) => {
+			box.checked = selectAll.checked;
+		});
+		updateSelection();
+	});
+
+	checkboxes.forEach((box) => {
+		box.addEventListener("change", updateSelection);
+	});
+
+	// The closing date field stays visible without JavaScript
+	const updateClosingDateField = () => {
+		const isExtend = actionSelect.value === "extend";
+		closingDateField.classList.toggle("hidden", !isExtend);
+		closingDateInput.required = isExtend;
+	};
+
+	actionSelect.addEventListener("change", updateClosingDateField);
+
+	updateSelection();
+	updateClosingDateField();
+});
@@ -0,0 +1,56 @@
+/**
+ * Shortlist toggle buttons
+ * Progressive enhancement: sends PUT/DELETE requests to /shortlist/:id and
+ * updates the button in place. Without JavaScript the forms post and redirect
+ */
+
+document.addEventListener("DOMContentLoaded", () => {
+	const setShortlisted = (form, shortlisted) => {
+		const jobRoleId = form.dataset.jobRoleId;
+		form.dataset.shortlisted = String(shortlisted);
+		form.action = shortlisted
+			? `/shortlist/${jobRoleId}/remove`
+			: `/shortlist/${jobRoleId}`;
+
+		const button = form.querySelector('button[type="submit"]');
+		button.setAttribute("aria-pressed", String(shortlisted));
+		form.querySelector(".shortlist-icon").textContent = shortlisted ? "★" : "☆";
+		form.querySelector(".shortlist-label").textContent = shortlisted
+			? "Shortlisted"
+			: "Add to shortlist";
+	};
+
+	document.querySelectorAll(".shortlist-form").forEach((form) => {
+		form.addEventListener("submit", async (event) => {
+			event.preventDefault();
+			const button = form.querySelector('button[type="submit"]');
+			const shortlisted = form.dataset.shortlisted === "true";
+			button.disabled = true;
+
+			try {
+				const response = await fetch(`/shortlist/${form.dataset.jobRoleId}`, {
+					method: shortlisted ? "DELETE" : "PUT",
+					headers: { Accept: "application/json" },
+				});
+
+				if (response.status === 401) {
+					window.location.href = "/login";
+					return;
+				}
+
+				const data = await response.json();
+				if (response.ok && data.success) {
+					setShortlisted(form, data.shortlisted);
+				} else {
+					alert(data.message || "Failed to update your shortlist.");
+				}
+			} catch (error) {
+				console.error("Error updating shortlist:", error);
+				form.submit();
+				return;
+			}
+
+			button.disabled = false;
+		});
+	});
+});
@@ -11,6 +11,12 @@ export const APP_CONFIG = {
 		COOKIE_MAX_AGE: 24 * 60 * 60 * 1000, // 24 hours
 		COOKIE_NAME: "connect.sid",
 	},
+
+	// Closing of job roles past their closing date
+	// Override with JOB_ROLE_AUTO_CLOSE_INTERVAL_MINUTES (0 disables it)
+	JOB_ROLE_AUTO_CLOSE: {
+		DEFAULT_INTERVAL_MINUTES: 60,
+	},
 } as const;
 
 /**
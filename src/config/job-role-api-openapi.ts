@@ -0,0 +1,311 @@
+/**
+ * OpenAPI document for the public job role JSON API (/api/v1)
+ * Served at /api/v1/openapi.json; parameter limits come from the same
+ * constants the endpoints validate against so the two stay in step
+ */
+
+import { DEFAULT_LIMIT, MAX_LIMIT } from "../models/pagination.js";
+import { MAX_FILTER_VALUES } from "../utils/job-role-filters.js";
+import { JOB_ROLE_SORT_FIELDS } from "../utils/job-role-sort.js";
+
+const multiValueParameter = (name: string, description: string) => ({
+	name,
+	in: "query",
+	description: `${description} Repeat the parameter to match any of several values (at most ${MAX_FILTER_VALUES}).`,
+	schema: {
+		type: "array",
+		items: { type: "string" },
+		maxItems: MAX_FILTER_VALUES,
+	},
+	style: "form",
+	explode: true,
+});
+
+const errorResponse = (description: string) => ({
+	description,
+	content: {
+		"application/json": {
+			schema: { $ref: "#/components/schemas/ErrorResponse" },
+		},
+	},
+});
+
+export const JOB_ROLE_API_OPENAPI = {
+	openapi: "3.0.3",
+	info: {
+		title: "Kainos Job Roles API",
+		version: "1.0.0",
+		description:
+			"Read-only access to published job roles. Drafts and roles scheduled for later publication are never returned. Search, filter, sort and pagination parameters behave exactly like the /job-roles and /jobs/search pages.",
+	},
+	servers: [{ url: "/api/v1" }],
+	paths: {
+		"/job-roles": {
+			get: {
+				summary: "List published job roles",
+				description:
+					"Without search text or filters the roles come back in backend order. Pagination totals come from the backend, so a page can hold fewer roles than the limit once unpublished roles are removed.",
+				operationId: "listJobRoles",
+				parameters: [
+					{
+						name: "page",
+						in: "query",
+						schema: { type: "integer", minimum: 1, default: 1 },
+					},
+					{
+						name: "limit",
+						in: "query",
+						schema: {
+							type: "integer",
+							minimum: 1,
+							maximum: MAX_LIMIT,
+							default: DEFAULT_LIMIT,
+						},
+					},
+					{
+						name: "search",
+						in: "query",
+						description:
+							"Case-insensitive text search on the role name (or also the description and responsibilities with searchMode=fulltext).",
+						schema: { type: "string" },
+					},
+					{
+						name: "searchMode",
+						in: "query",
+						description:
+							"fulltext ranks roles by relevance and adds relevance, matchedFields and snippet to each result. Ignored without search text.",
+						schema: {
+							type: "string",
+							enum: ["title", "fulltext"],
+							default: "title",
+						},
+					},
+					multiValueParameter("capability", "Filter by capability."),
+					multiValueParameter("location", "Filter by location."),
+					multiValueParameter("band", "Filter by band."),
+					{
+						name: "status",
+						in: "query",
+						schema: { type: "string", example: "Open" },
+					},
+					{
+						name: "closingAfter",
+						in: "query",
+						description: "Only roles closing on or after this date.",
+						schema: { type: "string", format: "date" },
+					},
+					{
+						name: "closingBefore",
+						in: "query",
+						description: "Only roles closing on or before this date.",
+						schema: { type: "string", format: "date" },
+					},
+					{
+						name: "minOpenPositions",
+						in: "query",
+						schema: { type: "integer", minimum: 1 },
+					},
+					{
+						name: "sort",
+						in: "query",
+						schema: { type: "string", enum: [...JOB_ROLE_SORT_FIELDS] },
+					},
+					{
+						name: "order",
+						in: "query",
+						description: "Only used together with sort.",
+						schema: { type: "string", enum: ["asc", "desc"], default: "asc" },
+					},
+				],
+				responses: {
+					"200": {
+						description: "A page of job roles",
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["success", "data", "pagination"],
+									properties: {
+										success: { type: "boolean", enum: [true] },
+										data: {
+											type: "array",
+											items: { $ref: "#/components/schemas/JobRole" },
+										},
+										pagination: { $ref: "#/components/schemas/Pagination" },
+									},
+								},
+							},
+						},
+					},
+					"400": errorResponse("A query parameter is invalid"),
+					"404": errorResponse("The requested page does not exist"),
+					"500": errorResponse("The job roles could not be loaded"),
+				},
+			},
+		},
+		"/job-roles/filters": {
+			get: {
+				summary: "List the values accepted by the filters",
+				operationId: "getJobRoleFilters",
+				responses: {
+					"200": {
+						description: "Filter values",
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["success", "data"],
+									properties: {
+										success: { type: "boolean", enum: [true] },
+										data: { $ref: "#/components/schemas/FilterOptions" },
+									},
+								},
+							},
+						},
+					},
+					"500": errorResponse("The filter values could not be loaded"),
+				},
+			},
+		},
+		"/job-roles/{id}": {
+			get: {
+				summary: "Get a published job role",
+				operationId: "getJobRole",
+				parameters: [
+					{
+						name: "id",
+						in: "path",
+						required: true,
+						schema: { type: "integer", minimum: 1 },
+					},
+				],
+				responses: {
+					"200": {
+						description:
+							"The job role with its description and responsibilities",
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["success", "data"],
+									properties: {
+										success: { type: "boolean", enum: [true] },
+										data: { $ref: "#/components/schemas/JobRoleDetail" },
+									},
+								},
+							},
+						},
+					},
+					"400": errorResponse("The ID is not a positive whole number"),
+					"404": errorResponse("No published job role has this ID"),
+					"500": errorResponse("The job role could not be loaded"),
+				},
+			},
+		},
+	},
+	components: {
+		schemas: {
+			JobRole: {
+				type: "object",
+				required: [
+					"jobRoleId",
+					"roleName",
+					"location",
+					"capability",
+					"band",
+					"closingDate",
+					"status",
+					"numberOfOpenPositions",
+				],
+				properties: {
+					jobRoleId: { type: "integer" },
+					roleName: { type: "string" },
+					location: { type: "string" },
+					capability: { type: "string" },
+					band: { type: "string" },
+					closingDate: { type: "string", format: "date" },
+					status: { type: "string", example: "Open" },
+					numberOfOpenPositions: { type: "integer" },
+					publishDate: { type: "string", format: "date" },
+					relevance: {
+						type: "number",
+						description: "Full-text searches only",
+					},
+					matchedFields: {
+						type: "array",
+						description: "Full-text searches only",
+						items: {
+							type: "string",
+							enum: ["roleName", "description", "responsibilities"],
+						},
+					},
+					snippet: {
+						type: "string",
+						description:
+							"Full-text searches only, when the match is outside the role name",
+					},
+				},
+			},
+			JobRoleDetail: {
+				allOf: [
+					{ $ref: "#/components/schemas/JobRole" },
+					{
+						type: "object",
+						required: ["description", "responsibilities", "jobSpecLink"],
+						properties: {
+							description: { type: "string" },
+							responsibilities: { type: "string" },
+							jobSpecLink: { type: "string" },
+						},
+					},
+				],
+			},
+			Pagination: {
+				type: "object",
+				required: [
+					"currentPage",
+					"totalPages",
+					"totalCount",
+					"limit",
+					"hasNext",
+					"hasPrevious",
+				],
+				properties: {
+					currentPage: { type: "integer" },
+					totalPages: { type: "integer" },
+					totalCount: { type: "integer" },
+					limit: { type: "integer" },
+					hasNext: { type: "boolean" },
+					hasPrevious: { type: "boolean" },
+				},
+			},
+			FilterOptions: {
+				type: "object",
+				required: ["capabilities", "locations", "bands"],
+				properties: {
+					capabilities: { type: "array", items: { type: "string" } },
+					locations: { type: "array", items: { type: "string" } },
+					bands: { type: "array", items: { type: "string" } },
+				},
+			},
+			ErrorResponse: {
+				type: "object",
+				required: ["success", "error"],
+				properties: {
+					success: { type: "boolean", enum: [false] },
+					error: {
+						type: "object",
+						required: ["code", "message"],
+						properties: {
+							code: {
+								type: "string",
+								enum: ["invalid_parameter", "not_found", "internal_error"],
+							},
+							message: { type: "string" },
+						},
+					},
+				},
+			},
+		},
+	},
+} as const;
@@ -0,0 +1,258 @@
+/**
+ * Tests for the bulk job role action endpoint in AdminController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleValidator } from "../utils/job-role-validator.js";
+import { AdminController } from "./admin-controller.js";
+
+describe("AdminController - bulk job role actions", () => {
+	let adminController: AdminController;
+	let mockJobRoleService: JobRoleService;
+	let mockReq: Partial<Request>;
+	let mockRes: Partial<Response>;
+
+	const jobRole = (
+		jobRoleId: number,
+		overrides: Partial<JobRoleDetailedResponse> = {}
+	): JobRoleDetailedResponse => ({
+		jobRoleId,
+		roleName: `Role ${jobRoleId}`,
+		description: "Description",
+		responsibilities: "Responsibilities",
+		jobSpecLink: "https://example.com/spec",
+		location: "Remote",
+		capability: "Engineering",
+		band: "Mid",
+		closingDate: "2099-01-31",
+		status: "Open",
+		numberOfOpenPositions: 2,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		mockJobRoleService = {
+			getJobRoles: vi.fn(),
+			getJobRoleById: vi.fn(async (id: number) =>
+				id === 404 ? null : jobRole(id)
+			),
+			createJobRole: vi.fn(),
+			updateJobRole: vi.fn(async (id: number) => jobRole(id)),
+			deleteJobRole: vi.fn().mockResolvedValue(true),
+			searchJobRoles: vi.fn(),
+		} as unknown as JobRoleService;
+
+		adminController = new AdminController(
+			mockJobRoleService,
+			new JobRoleValidator()
+		);
+
+		mockReq = { body: {}, params: {}, query: {} };
+		mockRes = {
+			render: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		};
+	});
+
+	it("should close each selected job role and report per-role results", async () => {
+		mockReq.body = { action: "close", jobRoleIds: ["1", "404", "2"] };
+		vi.mocked(mockJobRoleService.updateJobRole).mockImplementation(
+			async (id) => {
+				if (id === 2) {
+					throw new Error("Backend rejected the update");
+				}
+				return jobRole(id);
+			}
+		);
+
+		await adminController.bulkUpdateJobRoles(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockJobRoleService.updateJobRole).toHaveBeenCalledWith(
+			1,
+			expect.objectContaining({ status: "Closed", closingDate: "2099-01-31" })
+		);
+		expect(mockRes.render).toHaveBeenCalledWith("job-role-bulk-action.njk", {
+			report: {
+				action: "close",
+				actionLabel: "Close",
+				results: [
+					{ jobRoleId: 1, roleName: "Role 1", success: true },
+					{
+						jobRoleId: 404,
+						roleName: "",
+						success: false,
+						error: "Job role not found.",
+					},
+					{
+						jobRoleId: 2,
+						roleName: "Role 2",
+						success: false,
+						error: "Backend rejected the update",
+					},
+				],
+				succeededCount: 1,
+				failedCount: 2,
+			},
+		});
+	});
+
+	it("should reopen and put job roles on hold", async () => {
+		mockReq.body = { action: "hold", jobRoleIds: "7" };
+
+		await adminController.bulkUpdateJobRoles(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockJobRoleService.updateJobRole).toHaveBeenCalledWith(
+			7,
+			expect.objectContaining({ status: "On Hold" })
+		);
+
+		mockReq.body = { action: "reopen", jobRoleIds: "7" };
+
+		await adminController.bulkUpdateJobRoles(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockJobRoleService.updateJobRole).toHaveBeenLastCalledWith(
+			7,
+			expect.objectContaining({ status: "Open" })
+		);
+	});
+
+	it("should extend closing dates that are earlier than the new date", async () => {
+		vi.mocked(mockJobRoleService.getJobRoleById).mockImplementation(
+			async (id) =>
+				jobRole(id, {
+					closingDate: id === 1 ? "2099-01-31" : "2099-12-31T00:00:00.000Z",
+				})
+		);
+		mockReq.body = {
+			action: "extend",
+			jobRoleIds: ["1", "2"],
+			closingDate: "2099-06-30",
+		};
+
+		await adminController.bulkUpdateJobRoles(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockJobRoleService.updateJobRole).toHaveBeenCalledTimes(1);
+		expect(mockJobRoleService.updateJobRole).toHaveBeenCalledWith(
+			1,
+			expect.objectContaining({ closingDate: "2099-06-30", status: "Open" })
+		);
+		expect(mockRes.render).toHaveBeenCalledWith(
+			"job-role-bulk-action.njk",
+			expect.objectContaining({
+				report: expect.objectContaining({
+					succeededCount: 1,
+					failedCount: 1,
+					results: expect.arrayContaining([
+						expect.objectContaining({
+							jobRoleId: 2,
+							error:
+								"New closing date must be after the current closing date (2099-12-31).",
+						}),
+					]),
+				}),
+			})
+		);
+	});
+
+	it("should ask for confirmation before deleting", async () => {
+		mockReq.body = { action: "delete", jobRoleIds: ["1", "404"] };
+
+		await adminController.bulkUpdateJobRoles(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockJobRoleService.deleteJobRole).not.toHaveBeenCalled();
+		expect(mockRes.render).toHaveBeenCalledWith("job-role-bulk-action.njk", {
+			confirmation: {
+				action: "delete",
+				actionLabel: "Delete",
+				jobRoleIds: [1, 404],
+				closingDate: undefined,
+				jobRoles: [jobRole(1)],
+			},
+		});
+	});
+
+	it("should delete once confirmed and report roles that could not be deleted", async () => {
+		mockReq.body = {
+			action: "delete",
+			jobRoleIds: ["1", "2"],
+			confirmed: "true",
+		};
+		vi.mocked(mockJobRoleService.deleteJobRole).mockImplementation(
+			async (id) => id === 1
+		);
+
+		await adminController.bulkUpdateJobRoles(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockJobRoleService.deleteJobRole).toHaveBeenCalledTimes(2);
+		expect(mockRes.render).toHaveBeenCalledWith(
+			"job-role-bulk-action.njk",
+			expect.objectContaining({
+				report: expect.objectContaining({
+					succeededCount: 1,
+					failedCount: 1,
+					results: [
+						{ jobRoleId: 1, roleName: "Role 1", success: true },
+						{
+							jobRoleId: 2,
+							roleName: "Role 2",
+							success: false,
+							error: "The job role could not be deleted.",
+						},
+					],
+				}),
+			})
+		);
+	});
+
+	it("should return 400 for an invalid request", async () => {
+		mockReq.body = { action: "close" };
+
+		await adminController.bulkUpdateJobRoles(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockRes.status).toHaveBeenCalledWith(400);
+		expect(mockRes.render).toHaveBeenCalledWith("error.njk", {
+			message: "Please select at least one job role.",
+		});
+		expect(mockJobRoleService.updateJobRole).not.toHaveBeenCalled();
+	});
+
+	it("should return 500 when the confirmation page cannot be loaded", async () => {
+		mockReq.body = { action: "delete", jobRoleIds: "1" };
+		vi.mocked(mockJobRoleService.getJobRoleById).mockRejectedValue(
+			new Error("Network error")
+		);
+
+		await adminController.bulkUpdateJobRoles(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockRes.status).toHaveBeenCalledWith(500);
+	});
+});
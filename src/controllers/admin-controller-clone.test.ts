@@ -0,0 +1,159 @@
+/**
+ * Tests for cloning job roles in AdminController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleValidator } from "../utils/job-role-validator.js";
+import { DEFAULT_REFERENCE_DATA } from "../utils/reference-data.js";
+import { AdminController } from "./admin-controller.js";
+
+describe("AdminController - clone job role", () => {
+	let adminController: AdminController;
+	let mockJobRoleService: JobRoleService;
+	let mockReq: Partial<Request>;
+	let mockRes: Partial<Response>;
+
+	const sourceJobRole: JobRoleDetailedResponse = {
+		jobRoleId: 12,
+		roleName: "Senior Software Engineer",
+		description: "We are looking for an experienced software engineer",
+		responsibilities:
+			"Design and develop scalable applications, mentor junior developers",
+		jobSpecLink: "https://sharepoint.example.com/job-spec",
+		location: "Belfast, Northern Ireland",
+		capability: "Engineering",
+		band: "Senior",
+		closingDate: "2099-01-31",
+		status: "Closed",
+		numberOfOpenPositions: 3,
+		publishDate: "2098-12-01",
+	};
+
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		mockJobRoleService = {
+			getJobRoles: vi.fn(),
+			getJobRoleById: vi.fn().mockResolvedValue(sourceJobRole),
+			createJobRole: vi.fn(),
+			updateJobRole: vi.fn(),
+			deleteJobRole: vi.fn(),
+		} as unknown as JobRoleService;
+
+		adminController = new AdminController(
+			mockJobRoleService,
+			new JobRoleValidator()
+		);
+
+		mockReq = { body: {}, params: { id: "12" }, query: {} };
+		mockRes = {
+			render: vi.fn(),
+			redirect: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		};
+	});
+
+	it("should pre-fill the create form without ID, status or dates", async () => {
+		await adminController.getCloneJobRole(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockJobRoleService.getJobRoleById).toHaveBeenCalledWith(12);
+		expect(mockRes.render).toHaveBeenCalledWith("job-role-create.njk", {
+			formData: {
+				roleName: "Senior Software Engineer",
+				description: "We are looking for an experienced software engineer",
+				responsibilities:
+					"Design and develop scalable applications, mentor junior developers",
+				jobSpecLink: "https://sharepoint.example.com/job-spec",
+				location: "Belfast, Northern Ireland",
+				capability: "Engineering",
+				band: "Senior",
+				closingDate: "",
+				numberOfOpenPositions: "3",
+			},
+			clonedFrom: { jobRoleId: 12, roleName: "Senior Software Engineer" },
+			referenceData: DEFAULT_REFERENCE_DATA,
+		});
+	});
+
+	it("should create a new role from the cloned form once a closing date is set", async () => {
+		await adminController.getCloneJobRole(
+			mockReq as Request,
+			mockRes as Response
+		);
+		const { formData } = vi.mocked(mockRes.render).mock.calls[0]?.[1] as {
+			formData: Record<string, string>;
+		};
+		vi.mocked(mockJobRoleService.createJobRole).mockResolvedValue({
+			...sourceJobRole,
+			jobRoleId: 13,
+			location: "Remote",
+			status: "Open",
+		});
+
+		mockReq.body = {
+			...formData,
+			location: "Remote",
+			closingDate: "2099-06-30",
+		};
+		await adminController.createJobRole(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockJobRoleService.createJobRole).toHaveBeenCalledWith(
+			expect.objectContaining({
+				roleName: "Senior Software Engineer",
+				location: "Remote",
+				closingDate: "2099-06-30",
+				status: "Open",
+				numberOfOpenPositions: 3,
+			})
+		);
+		expect(mockRes.redirect).toHaveBeenCalledWith("/job-roles/13?created=true");
+	});
+
+	it("should return 400 for an invalid job role ID", async () => {
+		mockReq.params = { id: "abc" };
+
+		await adminController.getCloneJobRole(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockRes.status).toHaveBeenCalledWith(400);
+		expect(mockJobRoleService.getJobRoleById).not.toHaveBeenCalled();
+	});
+
+	it("should return 404 when the job role does not exist", async () => {
+		vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(null);
+
+		await adminController.getCloneJobRole(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockRes.status).toHaveBeenCalledWith(404);
+		expect(mockRes.render).toHaveBeenCalledWith("error.njk", {
+			message: expect.stringContaining("Job role not found"),
+		});
+	});
+
+	it("should render an error when the service fails", async () => {
+		vi.mocked(mockJobRoleService.getJobRoleById).mockRejectedValue(
+			new Error("Backend unavailable")
+		);
+
+		await adminController.getCloneJobRole(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockRes.status).toHaveBeenCalledWith(500);
+	});
+});
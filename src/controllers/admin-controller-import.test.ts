@@ -0,0 +1,201 @@
+/**
+ * Tests for the bulk job role import endpoints in AdminController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleValidator } from "../utils/job-role-validator.js";
+import { AdminController } from "./admin-controller.js";
+
+describe("AdminController - job role import", () => {
+	let adminController: AdminController;
+	let mockJobRoleService: JobRoleService;
+	let mockReq: Partial<Request>;
+	let mockRes: Partial<Response>;
+
+	const header =
+		"Role Name,Description,Responsibilities,Job Spec Link,Location,Capability,Band,Closing Date,Status,Open Positions";
+	const validRow =
+		"Data Engineer,Build data pipelines,Own data quality end to end,https://example.com/spec,Remote,Analytics,Mid,2099-01-31,Open,2";
+	const invalidRow =
+		"QA Lead,Leads the QA team,Sets the test strategy,https://example.com/qa,Atlantis,Quality Assurance,Senior,2099-02-01,Open,1";
+	const csv = [header, validRow, invalidRow].join("\n");
+
+	const uploadedFile = (content: string): Express.Multer.File =>
+		({
+			buffer: Buffer.from(content, "utf8"),
+			originalname: "roles.csv",
+			mimetype: "text/csv",
+		}) as Express.Multer.File;
+
+	beforeEach(() => {
+		mockJobRoleService = {
+			getJobRoles: vi.fn(),
+			getJobRoleById: vi.fn(),
+			createJobRole: vi.fn(),
+			updateJobRole: vi.fn(),
+			deleteJobRole: vi.fn(),
+			searchJobRoles: vi.fn(),
+		} as unknown as JobRoleService;
+
+		adminController = new AdminController(
+			mockJobRoleService,
+			new JobRoleValidator()
+		);
+
+		mockReq = { body: {}, params: {}, query: {} };
+		mockRes = {
+			render: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		};
+	});
+
+	describe("getImportJobRoles", () => {
+		it("should render the import page with the required columns", () => {
+			adminController.getImportJobRoles(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"job-role-import.njk",
+				expect.objectContaining({
+					requiredColumns: expect.arrayContaining([
+						"Role Name",
+						"Job Spec Link",
+					]),
+					maxRows: 200,
+				})
+			);
+		});
+	});
+
+	describe("importJobRoles", () => {
+		it("should report per-row results without creating anything on a dry run", async () => {
+			mockReq.file = uploadedFile(csv);
+			mockReq.body = { mode: "dry-run" };
+
+			await adminController.importJobRoles(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockJobRoleService.createJobRole).not.toHaveBeenCalled();
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"job-role-import.njk",
+				expect.objectContaining({
+					report: expect.objectContaining({
+						dryRun: true,
+						totalCount: 2,
+						validCount: 1,
+						invalidCount: 1,
+						results: [
+							expect.objectContaining({ rowNumber: 2, isValid: true }),
+							expect.objectContaining({
+								rowNumber: 3,
+								isValid: false,
+								error: expect.stringContaining('Invalid location: "Atlantis"'),
+							}),
+						],
+					}),
+					csvContent: csv,
+				})
+			);
+		});
+
+		it("should create valid rows from carried-over content and summarise failures", async () => {
+			mockReq.body = { mode: "import", csvContent: csv };
+			vi.mocked(mockJobRoleService.createJobRole).mockResolvedValue({
+				jobRoleId: 42,
+			} as Awaited<ReturnType<JobRoleService["createJobRole"]>>);
+
+			await adminController.importJobRoles(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockJobRoleService.createJobRole).toHaveBeenCalledTimes(1);
+			expect(mockJobRoleService.createJobRole).toHaveBeenCalledWith(
+				expect.objectContaining({
+					roleName: "Data Engineer",
+					status: "Open",
+					numberOfOpenPositions: 2,
+				})
+			);
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"job-role-import.njk",
+				expect.objectContaining({
+					report: expect.objectContaining({
+						dryRun: false,
+						createdCount: 1,
+						failedCount: 1,
+					}),
+					csvContent: undefined,
+				})
+			);
+		});
+
+		it("should record backend failures against the row", async () => {
+			vi.spyOn(console, "error").mockImplementation(() => {});
+			mockReq.file = uploadedFile([header, validRow].join("\n"));
+			mockReq.body = { mode: "import" };
+			vi.mocked(mockJobRoleService.createJobRole).mockRejectedValue(
+				new Error("Backend validation failed")
+			);
+
+			await adminController.importJobRoles(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"job-role-import.njk",
+				expect.objectContaining({
+					report: expect.objectContaining({
+						createdCount: 0,
+						failedCount: 1,
+						results: [
+							expect.objectContaining({
+								created: false,
+								error: "Backend validation failed",
+							}),
+						],
+					}),
+				})
+			);
+		});
+
+		it("should return 400 when no file is uploaded", async () => {
+			await adminController.importJobRoles(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"job-role-import.njk",
+				expect.objectContaining({
+					error: "Please choose a CSV file to upload.",
+				})
+			);
+		});
+
+		it("should return 400 when required columns are missing", async () => {
+			mockReq.file = uploadedFile("Role Name,Band\nTester,Junior");
+
+			await adminController.importJobRoles(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"job-role-import.njk",
+				expect.objectContaining({
+					error: expect.stringContaining("Missing required column(s)"),
+				})
+			);
+		});
+	});
+});
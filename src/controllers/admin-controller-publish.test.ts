@@ -0,0 +1,249 @@
+/**
+ * Tests for draft and scheduled publishing in AdminController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { toLocalDateString } from "../utils/closing-date.js";
+import { JobRoleValidator } from "../utils/job-role-validator.js";
+import { AdminController } from "./admin-controller.js";
+
+describe("AdminController - draft and scheduled publishing", () => {
+	let adminController: AdminController;
+	let mockJobRoleService: JobRoleService;
+	let mockReq: Partial<Request>;
+	let mockRes: Partial<Response>;
+
+	const jobRole = (
+		overrides: Partial<JobRoleDetailedResponse> = {}
+	): JobRoleDetailedResponse => ({
+		jobRoleId: 7,
+		roleName: "Software Engineer",
+		description: "Description",
+		responsibilities: "Responsibilities",
+		jobSpecLink: "https://example.com/spec",
+		location: "Belfast, Northern Ireland",
+		capability: "Engineering",
+		band: "Senior",
+		closingDate: "2099-12-31",
+		status: "Draft",
+		numberOfOpenPositions: 2,
+		...overrides,
+	});
+
+	const validFormData = {
+		roleName: "Senior Software Engineer",
+		description: "We are looking for an experienced software engineer",
+		responsibilities:
+			"Design and develop scalable applications, mentor junior developers",
+		jobSpecLink: "https://sharepoint.example.com/job-spec",
+		location: "Belfast, Northern Ireland",
+		capability: "Engineering",
+		band: "Senior",
+		closingDate: "2099-12-31",
+		numberOfOpenPositions: "5",
+	};
+
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		mockJobRoleService = {
+			getJobRoles: vi.fn(),
+			getJobRoleById: vi.fn(async () => jobRole()),
+			createJobRole: vi.fn(async () => jobRole()),
+			updateJobRole: vi.fn(async (_id: number, data) =>
+				jobRole({ ...data, numberOfOpenPositions: 2 })
+			),
+			deleteJobRole: vi.fn(),
+			searchJobRoles: vi.fn(),
+		} as unknown as JobRoleService;
+
+		adminController = new AdminController(
+			mockJobRoleService,
+			new JobRoleValidator()
+		);
+
+		mockReq = { body: {}, params: {}, query: {} };
+		mockRes = {
+			render: vi.fn(),
+			redirect: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		};
+	});
+
+	describe("createJobRole", () => {
+		it("should save a job role as a draft when requested", async () => {
+			mockReq.body = { ...validFormData, status: "Draft" };
+
+			await adminController.createJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockJobRoleService.createJobRole).toHaveBeenCalledWith(
+				expect.objectContaining({ status: "Draft" })
+			);
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/job-roles/7?created=true"
+			);
+		});
+
+		it("should pass a publish date through to the service", async () => {
+			mockReq.body = { ...validFormData, publishDate: " 2099-06-01 " };
+
+			await adminController.createJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockJobRoleService.createJobRole).toHaveBeenCalledWith(
+				expect.objectContaining({ status: "Open", publishDate: "2099-06-01" })
+			);
+		});
+
+		it("should reject a publish date after the closing date", async () => {
+			mockReq.body = {
+				...validFormData,
+				status: "Draft",
+				publishDate: "2100-01-01",
+			};
+
+			await adminController.createJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"job-role-create.njk",
+				expect.objectContaining({
+					error: "Publish date must be on or before the closing date.",
+					formData: expect.objectContaining({
+						status: "Draft",
+						publishDate: "2100-01-01",
+					}),
+				})
+			);
+			expect(mockJobRoleService.createJobRole).not.toHaveBeenCalled();
+		});
+
+		it("should reject an invalid publish date format", async () => {
+			mockReq.body = { ...validFormData, publishDate: "01/06/2099" };
+
+			await adminController.createJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"job-role-create.njk",
+				expect.objectContaining({
+					error: "Invalid publish date format. Please use YYYY-MM-DD format.",
+				})
+			);
+		});
+	});
+
+	describe("publishJobRole", () => {
+		it("should open a draft job role with today's publish date", async () => {
+			mockReq.params = { id: "7" };
+
+			await adminController.publishJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockJobRoleService.updateJobRole).toHaveBeenCalledWith(
+				7,
+				expect.objectContaining({
+					status: "Open",
+					publishDate: toLocalDateString(new Date()),
+				})
+			);
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/job-roles/7?updated=true"
+			);
+		});
+
+		it("should publish a scheduled job role immediately", async () => {
+			mockReq.params = { id: "7" };
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(
+				jobRole({ status: "Open", publishDate: "2099-01-01" })
+			);
+
+			await adminController.publishJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockJobRoleService.updateJobRole).toHaveBeenCalledWith(
+				7,
+				expect.objectContaining({
+					publishDate: toLocalDateString(new Date()),
+				})
+			);
+		});
+
+		it("should leave already published job roles unchanged", async () => {
+			mockReq.params = { id: "7" };
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(
+				jobRole({ status: "Closed" })
+			);
+
+			await adminController.publishJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockJobRoleService.updateJobRole).not.toHaveBeenCalled();
+			expect(mockRes.redirect).toHaveBeenCalledWith("/job-roles/7");
+		});
+
+		it("should return 400 for an invalid job role ID", async () => {
+			mockReq.params = { id: "abc" };
+
+			await adminController.publishJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+			expect(mockJobRoleService.getJobRoleById).not.toHaveBeenCalled();
+		});
+
+		it("should return 404 when the job role does not exist", async () => {
+			mockReq.params = { id: "7" };
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(null);
+
+			await adminController.publishJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(404);
+		});
+
+		it("should render an error when the update fails", async () => {
+			mockReq.params = { id: "7" };
+			vi.mocked(mockJobRoleService.updateJobRole).mockRejectedValue(
+				new Error("Backend unavailable")
+			);
+
+			await adminController.publishJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(500);
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"error.njk",
+				expect.objectContaining({
+					message: expect.stringContaining("couldn't publish"),
+				})
+			);
+		});
+	});
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for AdminController using admin-managed reference data
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleService } from "../services/job-role-service.js";
+import type { ReferenceDataService } from "../services/reference-data-service.js";
+import { JobRoleValidator } from "../utils/job-role-validator.js";
+import { DEFAULT_REFERENCE_DATA } from "../utils/reference-data.js";
+import { AdminController } from "./admin-controller.js";
+
+describe("AdminController - reference data", () => {
+	let adminController: AdminController;
+	let mockJobRoleService: JobRoleService;
+	let mockReferenceDataService: ReferenceDataService;
+	let mockReq: Partial<Request>;
+	let mockRes: Partial<Response>;
+
+	const referenceData = {
+		locations: ["Belfast, Northern Ireland", "Dublin, Ireland"],
+		capabilities: ["Engineering", "Security"],
+		bands: ["Mid", "Lead"],
+		statuses: ["Open", "Closed", "Draft"],
+	};
+
+	const formData = {
+		roleName: "Security Engineer",
+		description: "We are looking for an experienced security engineer",
+		responsibilities: "Run threat modelling sessions and review designs",
+		jobSpecLink: "https://sharepoint.example.com/job-spec",
+		location: "Dublin, Ireland",
+		capability: "Security",
+		band: "Lead",
+		closingDate: "2099-06-30",
+		numberOfOpenPositions: "2",
+	};
+
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		mockJobRoleService = {
+			getJobRoles: vi.fn(),
+			getJobRoleById: vi.fn(),
+			createJobRole: vi.fn().mockResolvedValue({
+				...formData,
+				jobRoleId: 7,
+				status: "Open",
+				numberOfOpenPositions: 2,
+			}),
+			updateJobRole: vi.fn(),
+			deleteJobRole: vi.fn(),
+		} as unknown as JobRoleService;
+
+		mockReferenceDataService = {
+			getReferenceData: vi.fn().mockResolvedValue(referenceData),
+			addValue: vi.fn(),
+			renameValue: vi.fn(),
+			deleteValue: vi.fn(),
+		};
+
+		adminController = new AdminController(
+			mockJobRoleService,
+			new JobRoleValidator(),
+			null,
+			mockReferenceDataService
+		);
+
+		mockReq = { body: {}, params: {}, query: {} };
+		mockRes = {
+			render: vi.fn(),
+			redirect: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		};
+	});
+
+	it("should render the create form with the managed lists", async () => {
+		await adminController.getCreateJobRole(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockRes.render).toHaveBeenCalledWith("job-role-create.njk", {
+			referenceData,
+		});
+	});
+
+	it("should accept values that were added by an admin", async () => {
+		mockReq.body = formData;
+
+		await adminController.createJobRole(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockJobRoleService.createJobRole).toHaveBeenCalledWith(
+			expect.objectContaining({
+				location: "Dublin, Ireland",
+				capability: "Security",
+				band: "Lead",
+			})
+		);
+		expect(mockRes.redirect).toHaveBeenCalledWith("/job-roles/7?created=true");
+	});
+
+	it("should reject values that were removed by an admin", async () => {
+		mockReq.body = { ...formData, band: "Senior" };
+
+		await adminController.createJobRole(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockJobRoleService.createJobRole).not.toHaveBeenCalled();
+		expect(mockRes.status).toHaveBeenCalledWith(400);
+		expect(mockRes.render).toHaveBeenCalledWith(
+			"job-role-create.njk",
+			expect.objectContaining({ referenceData })
+		);
+	});
+
+	it("should fall back to the default lists when the service fails", async () => {
+		vi.mocked(mockReferenceDataService.getReferenceData).mockRejectedValue(
+			new Error("Disk error")
+		);
+
+		await adminController.getCreateJobRole(
+			mockReq as Request,
+			mockRes as Response
+		);
+
+		expect(mockRes.render).toHaveBeenCalledWith("job-role-create.njk", {
+			referenceData: DEFAULT_REFERENCE_DATA,
+		});
+	});
+});
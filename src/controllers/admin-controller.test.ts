@@ -7,6 +7,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
 import type { JobRoleService } from "../services/job-role-service.js";
 import { JobRoleValidator } from "../utils/job-role-validator.js";
+import { DEFAULT_REFERENCE_DATA } from "../utils/reference-data.js";
 import { AdminController } from "./admin-controller.js";
 
 describe("AdminController", () => {
@@ -36,6 +37,7 @@ describe("AdminController", () => {
 		mockReq = {
 			body: {},
 			params: {},
+			query: {},
 		};
 
 		mockRes = {
@@ -46,19 +48,24 @@ describe("AdminController", () => {
 	});
 
 	describe("getCreateJobRole", () => {
-		it("should render job-role-create.njk template", () => {
-			adminController.getCreateJobRole(mockReq as Request, mockRes as Response);
+		it("should render job-role-create.njk template with the reference data", async () => {
+			await adminController.getCreateJobRole(
+				mockReq as Request,
+				mockRes as Response
+			);
 
-			expect(mockRes.render).toHaveBeenCalledWith("job-role-create.njk");
+			expect(mockRes.render).toHaveBeenCalledWith("job-role-create.njk", {
+				referenceData: DEFAULT_REFERENCE_DATA,
+			});
 		});
 
-		it("should be called without errors", () => {
-			expect(() => {
+		it("should be called without errors", async () => {
+			await expect(
 				adminController.getCreateJobRole(
 					mockReq as Request,
 					mockRes as Response
-				);
-			}).not.toThrow();
+				)
+			).resolves.toBeUndefined();
 		});
 	});
 
@@ -152,6 +159,7 @@ describe("AdminController", () => {
 					closingDate: "",
 					numberOfOpenPositions: "1",
 				},
+				referenceData: DEFAULT_REFERENCE_DATA,
 			});
 		});
 
@@ -353,6 +361,7 @@ describe("AdminController", () => {
 				error:
 					"Sorry, we couldn't create the job role at this time. Please try again later.",
 				formData: mockReq.body,
+				referenceData: DEFAULT_REFERENCE_DATA,
 			});
 		});
 
@@ -486,6 +495,7 @@ describe("AdminController", () => {
 			expect(mockJobRoleService.getJobRoleById).toHaveBeenCalledWith(1);
 			expect(mockRes.render).toHaveBeenCalledWith("job-role-edit.njk", {
 				jobRole: mockJobRole,
+				referenceData: DEFAULT_REFERENCE_DATA,
 			});
 		});
 
@@ -878,5 +888,122 @@ describe("AdminController", () => {
 				expect.stringContaining('"Belfast, Northern Ireland"')
 			);
 		});
+
+		it("should pass filters and formatting options through to the export", async () => {
+			mockReq.query = {
+				columns: ["roleName", "numberOfOpenPositions", "description"],
+				delimiter: "semicolon",
+				capability: "Engineering",
+				status: "Open",
+			};
+			mockJobRoleService.getAllJobRolesForExport = vi.fn().mockResolvedValue([
+				{
+					jobRoleId: 1,
+					roleName: "Software Engineer",
+					location: "Belfast, Northern Ireland",
+					capability: "Engineering",
+					band: "Senior",
+					closingDate: "2025-12-31",
+					status: "Open",
+					numberOfOpenPositions: 2,
+					description: "Builds things",
+					responsibilities: "",
+					jobSpecLink: "",
+				},
+			]);
+			mockRes.setHeader = vi.fn();
+			mockRes.send = vi.fn();
+
+			await adminController.exportJobRoles(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockJobRoleService.getAllJobRolesForExport).toHaveBeenCalledWith({
+				capability: "Engineering",
+				status: "Open",
+			});
+			expect(mockRes.send).toHaveBeenCalledWith(
+				"Role Name;Open Positions;Description\nSoftware Engineer;2;Builds things"
+			);
+		});
+
+		it("should return 400 for invalid export options", async () => {
+			mockReq.query = { columns: "salary" };
+			mockJobRoleService.getAllJobRolesForExport = vi.fn();
+
+			await adminController.exportJobRoles(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+			expect(mockRes.render).toHaveBeenCalledWith("error.njk", {
+				message: "Unknown export column(s): salary",
+			});
+			expect(mockJobRoleService.getAllJobRolesForExport).not.toHaveBeenCalled();
+		});
+
+		it("should explain when no job roles match the filters", async () => {
+			mockReq.query = { band: "Junior" };
+			mockJobRoleService.getAllJobRolesForExport = vi
+				.fn()
+				.mockResolvedValue([]);
+
+			await adminController.exportJobRoles(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(404);
+			expect(mockRes.render).toHaveBeenCalledWith("error.njk", {
+				message:
+					"No job roles match the selected filters. Please adjust the filters and try again.",
+			});
+		});
+	});
+
+	describe("getExportOptions", () => {
+		it("should render the export form with filter options and columns", async () => {
+			const filterOptions = {
+				capabilities: ["Engineering"],
+				locations: ["Belfast, Northern Ireland"],
+				bands: ["Senior"],
+			};
+			mockJobRoleService.getFilterOptions = vi
+				.fn()
+				.mockResolvedValue(filterOptions);
+
+			await adminController.getExportOptions(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"job-role-export.njk",
+				expect.objectContaining({
+					filterOptions,
+					statuses: ["Open", "Closed", "On Hold", "Draft"],
+					columns: expect.objectContaining({
+						numberOfOpenPositions: "Open Positions",
+						description: "Description",
+					}),
+				})
+			);
+		});
+
+		it("should render an error page when filter options fail to load", async () => {
+			vi.spyOn(console, "error").mockImplementation(() => {});
+			mockJobRoleService.getFilterOptions = vi
+				.fn()
+				.mockRejectedValue(new Error("Backend down"));
+
+			await adminController.getExportOptions(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(500);
+		});
 	});
 });
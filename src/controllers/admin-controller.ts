@@ -4,37 +4,159 @@
  */
 
 import type { Request, Response } from "express";
+import type { ReferenceData } from "../models/reference-data.js";
+import type { JobRoleAuditStore } from "../services/job-role-audit-store.js";
 import type { JobRoleService } from "../services/job-role-service.js";
+import type { ReferenceDataService } from "../services/reference-data-service.js";
+import { toLocalDateString } from "../utils/closing-date.js";
+import {
+	DEFAULT_JOB_ROLE_EXPORT_COLUMNS,
+	generateCsvFilename,
+	JOB_ROLE_EXPORT_COLUMNS,
+	jobRolesToCsv,
+} from "../utils/csv-export.js";
+import {
+	MAX_IMPORT_ROWS,
+	parseJobRoleImportCsv,
+	REQUIRED_IMPORT_COLUMNS,
+} from "../utils/csv-import.js";
+import { recordJobRoleAudit } from "../utils/job-role-audit.js";
+import {
+	BULK_JOB_ROLE_ACTION_LABELS,
+	BULK_JOB_ROLE_ACTION_STATUSES,
+	type BulkJobRoleAction,
+	isDestructiveBulkJobRoleAction,
+	validateBulkJobRoleAction,
+} from "../utils/job-role-bulk-actions.js";
+import {
+	EXPORT_DATE_FORMATS,
+	type JobRoleExportQuery,
+	validateJobRoleExportParams,
+} from "../utils/job-role-export-validation.js";
 import type { JobRoleValidator } from "../utils/job-role-validator.js";
+import {
+	DRAFT_STATUS,
+	isJobRolePublished,
+} from "../utils/job-role-visibility.js";
+import { DEFAULT_REFERENCE_DATA } from "../utils/reference-data.js";
 import { validateJobRoleId } from "../utils/validation.js";
 
+/**
+ * Outcome for a single row of a bulk job role import
+ */
+interface JobRoleImportRowResult {
+	rowNumber: number;
+	roleName: string;
+	isValid: boolean;
+	created: boolean;
+	jobRoleId?: number;
+	error?: string;
+}
+
+/**
+ * Outcome for a single job role in a bulk action
+ */
+interface BulkJobRoleActionResult {
+	jobRoleId: number;
+	roleName: string;
+	success: boolean;
+	error?: string;
+}
+
 export class AdminController {
 	private jobRoleService: JobRoleService;
 	private jobRoleValidator: JobRoleValidator;
+	private auditStore: JobRoleAuditStore | null;
+	private referenceDataService: ReferenceDataService | null;
 
 	constructor(
 		jobRoleService: JobRoleService,
-		jobRoleValidator: JobRoleValidator
+		jobRoleValidator: JobRoleValidator,
+		auditStore: JobRoleAuditStore | null = null,
+		referenceDataService: ReferenceDataService | null = null
 	) {
 		this.jobRoleService = jobRoleService;
 		this.jobRoleValidator = jobRoleValidator;
+		this.auditStore = auditStore;
+		this.referenceDataService = referenceDataService;
 	}
 
 	/**
 	 * GET /admin/job-roles/new
 	 * Renders the form for creating a new job role
-	 * Displays dropdowns for bands and capabilities from the database
+	 * Displays dropdowns for locations, capabilities and bands from the
+	 * reference data lists
 	 */
-	public getCreateJobRole = (_req: Request, res: Response): void => {
-		// TODO: Fetch bands and capabilities from database when backend supports it
-		// For now, using constants from validator
-		res.render("job-role-create.njk");
+	public getCreateJobRole = async (
+		_req: Request,
+		res: Response
+	): Promise<void> => {
+		const referenceData = await this.getReferenceData();
+		res.render("job-role-create.njk", { referenceData });
+	};
+
+	/**
+	 * GET /admin/job-roles/:id/clone
+	 * Renders the create job role form pre-filled from an existing role
+	 * ID, status and dates are left blank so the copy is scheduled afresh
+	 */
+	public getCloneJobRole = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		try {
+			const jobRoleId = validateJobRoleId(req.params["id"]);
+
+			if (jobRoleId === null) {
+				res.status(400).render("error.njk", {
+					message:
+						"Invalid job role ID provided. Please provide a valid numeric ID.",
+				});
+				return;
+			}
+
+			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+
+			if (!jobRole) {
+				res.status(404).render("error.njk", {
+					message:
+						"Job role not found. The role you're looking for may have been removed or doesn't exist.",
+				});
+				return;
+			}
+
+			res.render("job-role-create.njk", {
+				formData: {
+					roleName: jobRole.roleName,
+					description: jobRole.description,
+					responsibilities: jobRole.responsibilities,
+					jobSpecLink: jobRole.jobSpecLink,
+					location: jobRole.location,
+					capability: jobRole.capability,
+					band: jobRole.band,
+					closingDate: "",
+					numberOfOpenPositions: String(jobRole.numberOfOpenPositions),
+				},
+				clonedFrom: {
+					jobRoleId: jobRole.jobRoleId,
+					roleName: jobRole.roleName,
+				},
+				referenceData: await this.getReferenceData(),
+			});
+		} catch (error) {
+			console.error("Error in AdminController.getCloneJobRole:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't load the job role to clone at this time. Please try again later.",
+			});
+		}
 	};
 
 	/**
 	 * POST /admin/job-roles
 	 * Creates a new job role and saves it to the database
-	 * Validates input data and sets status to "open" automatically
+	 * Validates input data and sets status to "Open", or "Draft" when the
+	 * admin saves the role as a draft
 	 */
 	public createJobRole = async (req: Request, res: Response): Promise<void> => {
 		// Extract form data from request body
@@ -48,8 +170,17 @@ export class AdminController {
 			band,
 			closingDate,
 			numberOfOpenPositions,
+			publishDate,
+			status,
 		} = req.body;
 
+		// New roles are published straight away unless saved as a draft
+		const initialStatus = status === DRAFT_STATUS ? DRAFT_STATUS : "Open";
+		const trimmedPublishDate =
+			typeof publishDate === "string" ? publishDate.trim() : "";
+
+		const referenceData = await this.getReferenceData();
+
 		// Preserve form data for error cases
 		const preservedFormData = {
 			roleName: roleName || "",
@@ -61,6 +192,8 @@ export class AdminController {
 			band: band || "",
 			closingDate: closingDate || "",
 			numberOfOpenPositions: numberOfOpenPositions || "1",
+			...(trimmedPublishDate ? { publishDate: trimmedPublishDate } : {}),
+			...(initialStatus === DRAFT_STATUS ? { status: initialStatus } : {}),
 		};
 
 		try {
@@ -72,23 +205,29 @@ export class AdminController {
 					: "1";
 
 			// Validate all fields using the injected validator
-			const validationResult = this.jobRoleValidator.validateJobRole({
-				roleName: roleName?.trim() || "",
-				description: description?.trim() || "",
-				responsibilities: responsibilities?.trim() || "",
-				jobSpecLink: jobSpecLink?.trim() || "",
-				location: location?.trim() || "",
-				capability: capability?.trim() || "",
-				band: band?.trim() || "",
-				closingDate: closingDate?.trim() || "",
-				status: "Open", // Status is always set to "Open" for new roles
-				numberOfOpenPositions: numberOfOpenPositionsStr,
-			});
+			const validationResult = this.jobRoleValidator.validateJobRole(
+				{
+					roleName: roleName?.trim() || "",
+					description: description?.trim() || "",
+					responsibilities: responsibilities?.trim() || "",
+					jobSpecLink: jobSpecLink?.trim() || "",
+					location: location?.trim() || "",
+					capability: capability?.trim() || "",
+					band: band?.trim() || "",
+					closingDate: closingDate?.trim() || "",
+					status: initialStatus,
+					numberOfOpenPositions: numberOfOpenPositionsStr,
+					...(trimmedPublishDate ? { publishDate: trimmedPublishDate } : {}),
+				},
+				false,
+				referenceData
+			);
 
 			if (!validationResult.isValid) {
 				res.status(400).render("job-role-create.njk", {
 					error: validationResult.error,
 					formData: preservedFormData, // Pass back original form data
+					referenceData,
 				});
 				return;
 			}
@@ -96,7 +235,7 @@ export class AdminController {
 			// Parse validated number of positions as number for service
 			const positions = parseInt(numberOfOpenPositionsStr, 10);
 
-			// Create the job role via service with status set to "Open"
+			// Create the job role via service as Open (or Draft)
 			const newJobRole = await this.jobRoleService.createJobRole({
 				roleName: roleName.trim(),
 				description: description.trim(),
@@ -106,10 +245,19 @@ export class AdminController {
 				capability: capability.trim(),
 				band: band.trim(),
 				closingDate: closingDate.trim(),
-				status: "Open", // Automatically set to "Open" as per acceptance criteria
+				status: initialStatus,
 				numberOfOpenPositions: positions,
+				...(trimmedPublishDate ? { publishDate: trimmedPublishDate } : {}),
 			});
 
+			await recordJobRoleAudit(
+				this.auditStore,
+				req,
+				newJobRole.jobRoleId,
+				null,
+				newJobRole
+			);
+
 			// Redirect to the newly created job role's detail page with success indicator
 			res.redirect(`/job-roles/${newJobRole.jobRoleId}?created=true`);
 		} catch (error) {
@@ -119,6 +267,141 @@ export class AdminController {
 				error:
 					"Sorry, we couldn't create the job role at this time. Please try again later.",
 				formData: preservedFormData, // Pass back preserved form data
+				referenceData,
+			});
+		}
+	};
+
+	/**
+	 * GET /admin/job-roles/import
+	 * Renders the bulk job role import page
+	 */
+	public getImportJobRoles = (_req: Request, res: Response): void => {
+		res.render("job-role-import.njk", {
+			requiredColumns: REQUIRED_IMPORT_COLUMNS.map(
+				(column) => JOB_ROLE_EXPORT_COLUMNS[column]
+			),
+			maxRows: MAX_IMPORT_ROWS,
+		});
+	};
+
+	/**
+	 * POST /admin/job-roles/import
+	 * Validates an uploaded job role CSV and, unless running as a dry run,
+	 * creates every valid row
+	 * The CSV can come from the uploaded file or from the csvContent field
+	 * carried over from a previous dry run
+	 */
+	public importJobRoles = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		const viewData = {
+			requiredColumns: REQUIRED_IMPORT_COLUMNS.map(
+				(column) => JOB_ROLE_EXPORT_COLUMNS[column]
+			),
+			maxRows: MAX_IMPORT_ROWS,
+		};
+
+		try {
+			const csvContent = req.file
+				? req.file.buffer.toString("utf8")
+				: typeof req.body?.csvContent === "string"
+					? req.body.csvContent
+					: "";
+
+			if (!csvContent.trim()) {
+				res.status(400).render("job-role-import.njk", {
+					...viewData,
+					error: "Please choose a CSV file to upload.",
+				});
+				return;
+			}
+
+			const parsed = parseJobRoleImportCsv(csvContent);
+
+			if (parsed.error) {
+				res.status(400).render("job-role-import.njk", {
+					...viewData,
+					error: parsed.error,
+				});
+				return;
+			}
+
+			const dryRun = req.body?.mode !== "import";
+			const referenceData = await this.getReferenceData();
+			const results: JobRoleImportRowResult[] = [];
+
+			for (const row of parsed.rows) {
+				const validation = this.jobRoleValidator.validateJobRole(
+					row.data,
+					false,
+					referenceData
+				);
+				const result: JobRoleImportRowResult = {
+					rowNumber: row.rowNumber,
+					roleName: row.data.roleName,
+					isValid: validation.isValid,
+					created: false,
+				};
+
+				if (!validation.isValid) {
+					result.error = validation.error ?? "Invalid job role.";
+				} else if (!dryRun) {
+					try {
+						const jobRole = await this.jobRoleService.createJobRole({
+							...row.data,
+							numberOfOpenPositions: parseInt(
+								row.data.numberOfOpenPositions,
+								10
+							),
+						});
+						result.created = true;
+						result.jobRoleId = jobRole.jobRoleId;
+						await recordJobRoleAudit(
+							this.auditStore,
+							req,
+							jobRole.jobRoleId,
+							null,
+							jobRole
+						);
+					} catch (error) {
+						console.error(
+							`Error in AdminController.importJobRoles (row ${row.rowNumber}):`,
+							error
+						);
+						result.error =
+							error instanceof Error
+								? error.message
+								: "Failed to create job role.";
+					}
+				}
+
+				results.push(result);
+			}
+
+			const validCount = results.filter((result) => result.isValid).length;
+
+			res.render("job-role-import.njk", {
+				...viewData,
+				report: {
+					dryRun,
+					results,
+					totalCount: results.length,
+					validCount,
+					invalidCount: results.length - validCount,
+					createdCount: results.filter((result) => result.created).length,
+					failedCount: results.filter((result) => result.error).length,
+				},
+				// Carried into the confirm form so the file doesn't need re-uploading
+				csvContent: dryRun && validCount > 0 ? csvContent : undefined,
+			});
+		} catch (error) {
+			console.error("Error in AdminController.importJobRoles:", error);
+			res.status(500).render("job-role-import.njk", {
+				...viewData,
+				error:
+					"Sorry, we couldn't import the job roles at this time. Please try again later.",
 			});
 		}
 	};
@@ -155,6 +438,7 @@ export class AdminController {
 
 			res.render("job-role-edit.njk", {
 				jobRole,
+				referenceData: await this.getReferenceData(),
 			});
 		} catch (error) {
 			console.error("Error in AdminController.getEditJobRole:", error);
@@ -194,8 +478,13 @@ export class AdminController {
 				closingDate,
 				status,
 				numberOfOpenPositions,
+				publishDate,
 			} = req.body;
 
+			const trimmedPublishDate =
+				typeof publishDate === "string" ? publishDate.trim() : "";
+			const referenceData = await this.getReferenceData();
+
 			// Validate all fields using the injected validator (isUpdate = true to allow past dates)
 			const validationResult = this.jobRoleValidator.validateJobRole(
 				{
@@ -209,8 +498,10 @@ export class AdminController {
 					closingDate,
 					status,
 					numberOfOpenPositions,
+					...(trimmedPublishDate ? { publishDate: trimmedPublishDate } : {}),
 				},
-				true
+				true,
+				referenceData
 			);
 
 			if (!validationResult.isValid) {
@@ -219,6 +510,7 @@ export class AdminController {
 				res.status(400).render("job-role-edit.njk", {
 					error: validationResult.error,
 					jobRole: jobRole || req.body, // Use existing data or fallback to submitted data
+					referenceData,
 				});
 				return;
 			}
@@ -226,6 +518,11 @@ export class AdminController {
 			// Parse validated number of positions
 			const positions = parseInt(numberOfOpenPositions, 10);
 
+			// Snapshot the current version for the audit history
+			const previousJobRole = this.auditStore
+				? await this.jobRoleService.getJobRoleById(jobRoleId)
+				: null;
+
 			// Update the job role via service
 			const updatedJobRole = await this.jobRoleService.updateJobRole(
 				jobRoleId,
@@ -240,9 +537,20 @@ export class AdminController {
 					closingDate: closingDate.trim(),
 					status: status.trim(),
 					numberOfOpenPositions: positions,
+					...(trimmedPublishDate ? { publishDate: trimmedPublishDate } : {}),
 				}
 			);
 
+			if (previousJobRole) {
+				await recordJobRoleAudit(
+					this.auditStore,
+					req,
+					jobRoleId,
+					previousJobRole,
+					updatedJobRole
+				);
+			}
+
 			// Redirect to the updated job role's detail page with success indicator
 			res.redirect(`/job-roles/${updatedJobRole.jobRoleId}?updated=true`);
 		} catch (error) {
@@ -259,28 +567,207 @@ export class AdminController {
 				error:
 					"Sorry, we couldn't update the job role at this time. Please try again later.",
 				jobRole: jobRole || req.body, // Pass back job role or form data
+				referenceData: await this.getReferenceData(),
+			});
+		}
+	};
+
+	/**
+	 * POST /admin/job-roles/:id/publish
+	 * Publishes a draft or scheduled job role immediately by setting its
+	 * status to "Open" and its publish date to today
+	 */
+	public publishJobRole = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		try {
+			const jobRoleId = validateJobRoleId(req.params["id"]);
+
+			if (jobRoleId === null) {
+				res.status(400).render("error.njk", {
+					message:
+						"Invalid job role ID provided. Please provide a valid numeric ID.",
+				});
+				return;
+			}
+
+			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+
+			if (!jobRole) {
+				res.status(404).render("error.njk", {
+					message:
+						"Job role not found. The role you're looking for may have been removed or doesn't exist.",
+				});
+				return;
+			}
+
+			if (isJobRolePublished(jobRole)) {
+				res.redirect(`/job-roles/${jobRoleId}`);
+				return;
+			}
+
+			const publishedJobRole = await this.jobRoleService.updateJobRole(
+				jobRoleId,
+				{
+					...jobRole,
+					status: "Open",
+					publishDate: toLocalDateString(new Date()),
+				}
+			);
+			await recordJobRoleAudit(
+				this.auditStore,
+				req,
+				jobRoleId,
+				jobRole,
+				publishedJobRole
+			);
+
+			res.redirect(`/job-roles/${jobRoleId}?updated=true`);
+		} catch (error) {
+			console.error("Error in AdminController.publishJobRole:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't publish the job role at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * POST /admin/job-roles/bulk
+	 * Applies a bulk action (close, reopen, hold, extend or delete) to the
+	 * selected job roles and reports the outcome for each one
+	 * Destructive actions render a confirmation page until confirmed=true
+	 */
+	public bulkUpdateJobRoles = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		try {
+			const validation = validateBulkJobRoleAction(req.body ?? {});
+
+			if (!validation.isValid || !validation.action) {
+				res.status(400).render("error.njk", {
+					message: validation.error,
+				});
+				return;
+			}
+
+			const { action, jobRoleIds, closingDate } = validation;
+			const actionLabel = BULK_JOB_ROLE_ACTION_LABELS[action];
+
+			if (
+				isDestructiveBulkJobRoleAction(action) &&
+				req.body?.confirmed !== "true"
+			) {
+				const jobRoles = await Promise.all(
+					jobRoleIds.map((id) => this.jobRoleService.getJobRoleById(id))
+				);
+
+				res.render("job-role-bulk-action.njk", {
+					confirmation: {
+						action,
+						actionLabel,
+						jobRoleIds,
+						closingDate,
+						jobRoles: jobRoles.filter((jobRole) => jobRole !== null),
+					},
+				});
+				return;
+			}
+
+			// Apply one at a time so a failure only affects its own role
+			const results: BulkJobRoleActionResult[] = [];
+			for (const jobRoleId of jobRoleIds) {
+				results.push(
+					await this.applyBulkAction(req, action, jobRoleId, closingDate)
+				);
+			}
+
+			const succeededCount = results.filter((result) => result.success).length;
+
+			res.render("job-role-bulk-action.njk", {
+				report: {
+					action,
+					actionLabel,
+					results,
+					succeededCount,
+					failedCount: results.length - succeededCount,
+				},
+			});
+		} catch (error) {
+			console.error("Error in AdminController.bulkUpdateJobRoles:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't apply the bulk action at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * GET /admin/job-roles/export/options
+	 * Renders the form for building a custom job role export
+	 */
+	public getExportOptions = async (
+		_req: Request,
+		res: Response
+	): Promise<void> => {
+		try {
+			const filterOptions = await this.jobRoleService.getFilterOptions();
+			const referenceData = await this.getReferenceData();
+
+			res.render("job-role-export.njk", {
+				filterOptions,
+				statuses: referenceData.statuses,
+				columns: JOB_ROLE_EXPORT_COLUMNS,
+				defaultColumns: DEFAULT_JOB_ROLE_EXPORT_COLUMNS,
+				dateFormats: EXPORT_DATE_FORMATS,
+			});
+		} catch (error) {
+			console.error("Error in AdminController.getExportOptions:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't load the export options at this time. Please try again later.",
 			});
 		}
 	};
 
 	/**
 	 * GET /admin/job-roles/export
-	 * Exports all job roles to a CSV file
-	 * Downloads CSV file with all job role information for stakeholder reporting
+	 * Exports job roles to a CSV file
+	 * Downloads CSV file with job role information for stakeholder reporting
+	 * Accepts columns, delimiter, bom and dateFormat options plus the same
+	 * search/capability/location/band/status filters as the job role search
 	 */
 	public exportJobRoles = async (
-		_req: Request,
+		req: Request,
 		res: Response
 	): Promise<void> => {
 		try {
-			// Fetch all job roles for export
-			const jobRoles = await this.jobRoleService.getAllJobRolesForExport();
+			const validation = validateJobRoleExportParams(
+				req.query as JobRoleExportQuery
+			);
+
+			if (!validation.isValid) {
+				res.status(400).render("error.njk", {
+					message: validation.error,
+				});
+				return;
+			}
+
+			const hasFilters = Object.keys(validation.filters).length > 0;
+
+			// Fetch all matching job roles for export
+			const jobRoles = await this.jobRoleService.getAllJobRolesForExport(
+				validation.filters
+			);
 
 			// Check if we have data to export
 			if (!jobRoles || jobRoles.length === 0) {
 				res.status(404).render("error.njk", {
-					message:
-						"No job roles available to export. Please ensure the backend is running and has data.",
+					message: hasFilters
+						? "No job roles match the selected filters. Please adjust the filters and try again."
+						: "No job roles available to export. Please ensure the backend is running and has data.",
 				});
 				return;
 			}
@@ -288,10 +775,7 @@ export class AdminController {
 			console.log(`Exporting ${jobRoles.length} job role(s) to CSV`);
 
 			// Convert to CSV format
-			const { jobRolesToCsv, generateCsvFilename } = await import(
-				"../utils/csv-export.js"
-			);
-			const csvContent = jobRolesToCsv(jobRoles);
+			const csvContent = jobRolesToCsv(jobRoles, validation.options);
 			const filename = generateCsvFilename("job-roles-export");
 
 			// Set headers for CSV download
@@ -311,4 +795,112 @@ export class AdminController {
 			});
 		}
 	};
+
+	/**
+	 * Loads the reference data lists, falling back to the defaults on failure
+	 */
+	private async getReferenceData(): Promise<ReferenceData> {
+		if (!this.referenceDataService) {
+			return DEFAULT_REFERENCE_DATA;
+		}
+
+		try {
+			return await this.referenceDataService.getReferenceData();
+		} catch (error) {
+			console.error("Error loading reference data:", error);
+			return DEFAULT_REFERENCE_DATA;
+		}
+	}
+
+	/**
+	 * Applies a bulk action to a single job role, capturing any failure
+	 */
+	private async applyBulkAction(
+		req: Request,
+		action: BulkJobRoleAction,
+		jobRoleId: number,
+		closingDate: string | undefined
+	): Promise<BulkJobRoleActionResult> {
+		let roleName = "";
+
+		try {
+			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+
+			if (!jobRole) {
+				return {
+					jobRoleId,
+					roleName,
+					success: false,
+					error: "Job role not found.",
+				};
+			}
+
+			roleName = jobRole.roleName;
+
+			if (action === "delete") {
+				const deleted = await this.jobRoleService.deleteJobRole(jobRoleId);
+				if (!deleted) {
+					return {
+						jobRoleId,
+						roleName,
+						success: false,
+						error: "The job role could not be deleted.",
+					};
+				}
+				await recordJobRoleAudit(
+					this.auditStore,
+					req,
+					jobRoleId,
+					jobRole,
+					null
+				);
+				return { jobRoleId, roleName, success: true };
+			}
+
+			if (action === "extend" && closingDate) {
+				const currentClosingDate = jobRole.closingDate.slice(0, 10);
+				if (closingDate <= currentClosingDate) {
+					return {
+						jobRoleId,
+						roleName,
+						success: false,
+						error: `New closing date must be after the current closing date (${currentClosingDate}).`,
+					};
+				}
+			}
+
+			const updatedJobRole = await this.jobRoleService.updateJobRole(
+				jobRoleId,
+				{
+					...jobRole,
+					status: BULK_JOB_ROLE_ACTION_STATUSES[action] ?? jobRole.status,
+					closingDate:
+						action === "extend" && closingDate
+							? closingDate
+							: jobRole.closingDate,
+				}
+			);
+			await recordJobRoleAudit(
+				this.auditStore,
+				req,
+				jobRoleId,
+				jobRole,
+				updatedJobRole
+			);
+
+			return { jobRoleId, roleName, success: true };
+		} catch (error) {
+			console.error(
+				`Error in AdminController.bulkUpdateJobRoles (job role ${jobRoleId}):`,
+				error
+			);
+			return {
+				jobRoleId,
+				roleName,
+				success: false,
+				error:
+					error instanceof Error ? error.message : "Failed to update job role.",
+			};
+		}
+	}
 }
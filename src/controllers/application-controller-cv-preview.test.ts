@@ -0,0 +1,391 @@
+/**
+ * Tests for in-browser CV previews in ApplicationController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ApplicantDisplay } from "../models/applicant-display.js";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { ApplicationService } from "../services/application-service.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { createZip } from "../utils/xlsx-export.js";
+import { ApplicationController } from "./application-controller.js";
+
+describe("ApplicationController - CV previews", () => {
+	let controller: ApplicationController;
+	let applicationService: ApplicationService;
+	let jobRoleService: JobRoleService;
+	let res: Response;
+
+	const jobRole: JobRoleDetailedResponse = {
+		jobRoleId: 4,
+		roleName: "Software Engineer",
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Associate",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 2,
+		description: "Build things",
+		responsibilities: "Ship things",
+		jobSpecLink: "",
+	};
+
+	const applicant = (
+		applicationId: number,
+		overrides: Partial<ApplicantDisplay> = {}
+	): ApplicantDisplay => ({
+		applicationId,
+		applicantName: `Applicant ${applicationId}`,
+		applicantEmail: `applicant${applicationId}@example.com`,
+		hasCv: true,
+		cvFileName: "cv.pdf",
+		status: "pending",
+		submittedAt: "2025-01-01T09:00:00Z",
+		...overrides,
+	});
+
+	const docx = createZip([
+		{ name: "[Content_Types].xml", data: Buffer.from("<Types/>") },
+		{
+			name: "word/document.xml",
+			data: Buffer.from(
+				"<w:document><w:body><w:p><w:r><w:t>Jane &lt;Doe&gt;</w:t></w:r></w:p></w:body></w:document>"
+			),
+		},
+	]);
+
+	const listPage = (
+		applicants: ApplicantDisplay[],
+		currentPage = 1,
+		totalPages = 1
+	) => ({
+		applicants,
+		pagination: {
+			currentPage,
+			totalPages,
+			totalApplicants: totalPages * 3,
+			applicantsPerPage: 3,
+			hasNextPage: currentPage < totalPages,
+			hasPreviousPage: currentPage > 1,
+		},
+		jobRole: { id: 4, roleName: "Software Engineer", status: "Open" },
+	});
+
+	const createRequest = (
+		params: Record<string, string>,
+		query: Record<string, string> = {}
+	) => ({ params, query }) as unknown as Request;
+
+	beforeEach(() => {
+		applicationService = {
+			getApplicantsByJobRole: vi
+				.fn()
+				.mockResolvedValue(
+					listPage([applicant(11), applicant(12), applicant(13)])
+				),
+			downloadApplicationCv: vi.fn().mockResolvedValue({
+				buffer: Buffer.from("%PDF-1.4\n%%EOF\n"),
+				fileName: "Jane Doe CV.pdf",
+				mimeType: "application/pdf",
+			}),
+		} as unknown as ApplicationService;
+		jobRoleService = {
+			getJobRoleById: vi.fn().mockResolvedValue(jobRole),
+		} as unknown as JobRoleService;
+		controller = new ApplicationController(applicationService, jobRoleService);
+		res = {
+			render: vi.fn(),
+			send: vi.fn(),
+			setHeader: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	describe("getCvPreview", () => {
+		it("should render a PDF preview with links to neighbouring applicants", async () => {
+			await controller.getCvPreview(
+				createRequest(
+					{ id: "4", applicationId: "12" },
+					{ status: "pending", sort: "name", order: "asc" }
+				),
+				res
+			);
+
+			expect(applicationService.getApplicantsByJobRole).toHaveBeenCalledTimes(
+				1
+			);
+			expect(applicationService.getApplicantsByJobRole).toHaveBeenCalledWith(
+				4,
+				1,
+				10,
+				{ status: "pending", sort: "name", order: "asc" }
+			);
+			// PDFs are embedded from the inline endpoint rather than fetched here
+			expect(applicationService.downloadApplicationCv).not.toHaveBeenCalled();
+			expect(res.render).toHaveBeenCalledWith("applicant-cv-preview.njk", {
+				jobRole,
+				applicant: applicant(12),
+				position: 2,
+				totalApplicants: 3,
+				previousUrl:
+					"/job-roles/4/applicants/11/cv?page=1&limit=10&sort=name&order=asc&status=pending",
+				nextUrl:
+					"/job-roles/4/applicants/13/cv?page=1&limit=10&sort=name&order=asc&status=pending",
+				applicantsUrl:
+					"/job-roles/4/applicants?page=1&limit=10&sort=name&order=asc&status=pending",
+				preview: { kind: "pdf" },
+			});
+		});
+
+		it("should link across list pages from the first and last applicants on a page", async () => {
+			const pages: Record<number, ApplicantDisplay[]> = {
+				1: [applicant(11), applicant(12), applicant(13)],
+				2: [applicant(14), applicant(15), applicant(16)],
+				3: [applicant(17), applicant(18), applicant(19)],
+			};
+			vi.mocked(applicationService.getApplicantsByJobRole).mockImplementation(
+				async (_jobRoleId, page = 1) => listPage(pages[page] ?? [], page, 3)
+			);
+
+			await controller.getCvPreview(
+				createRequest(
+					{ id: "4", applicationId: "14" },
+					{ page: "2", limit: "3" }
+				),
+				res
+			);
+
+			expect(applicationService.getApplicantsByJobRole).toHaveBeenCalledTimes(
+				2
+			);
+			expect(res.render).toHaveBeenCalledWith(
+				"applicant-cv-preview.njk",
+				expect.objectContaining({
+					position: 4,
+					totalApplicants: 9,
+					previousUrl:
+						"/job-roles/4/applicants/13/cv?page=1&limit=3&sort=submittedAt&order=desc",
+					nextUrl:
+						"/job-roles/4/applicants/15/cv?page=2&limit=3&sort=submittedAt&order=desc",
+					applicantsUrl:
+						"/job-roles/4/applicants?page=2&limit=3&sort=submittedAt&order=desc",
+				})
+			);
+		});
+
+		it("should reject invalid list pages", async () => {
+			await controller.getCvPreview(
+				createRequest({ id: "4", applicationId: "11" }, { limit: "500" }),
+				res
+			);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(applicationService.getApplicantsByJobRole).not.toHaveBeenCalled();
+		});
+
+		it("should convert DOCX CVs to HTML", async () => {
+			vi.mocked(applicationService.getApplicantsByJobRole).mockResolvedValue(
+				listPage([applicant(11, { cvFileName: "cv.docx" })])
+			);
+			vi.mocked(applicationService.downloadApplicationCv).mockResolvedValue({
+				buffer: docx,
+				fileName: "cv.docx",
+				mimeType: "application/octet-stream",
+			});
+
+			await controller.getCvPreview(
+				createRequest({ id: "4", applicationId: "11" }),
+				res
+			);
+
+			expect(res.render).toHaveBeenCalledWith(
+				"applicant-cv-preview.njk",
+				expect.objectContaining({
+					previousUrl: null,
+					nextUrl: null,
+					applicantsUrl:
+						"/job-roles/4/applicants?page=1&limit=10&sort=submittedAt&order=desc",
+					preview: { kind: "docx", html: "<p>Jane &lt;Doe&gt;</p>" },
+				})
+			);
+		});
+
+		it("should offer a download for formats that can't be previewed", async () => {
+			vi.mocked(applicationService.getApplicantsByJobRole).mockResolvedValue(
+				listPage([applicant(11, { cvFileName: "cv.doc" })])
+			);
+			vi.mocked(applicationService.downloadApplicationCv).mockResolvedValue({
+				buffer: Buffer.from("not a document"),
+				fileName: "cv.doc",
+				mimeType: "application/msword",
+			});
+
+			await controller.getCvPreview(
+				createRequest({ id: "4", applicationId: "11" }),
+				res
+			);
+
+			expect(res.render).toHaveBeenCalledWith(
+				"applicant-cv-preview.njk",
+				expect.objectContaining({ preview: { kind: "unsupported" } })
+			);
+		});
+
+		it("should still render the page when the CV can't be fetched", async () => {
+			vi.mocked(applicationService.getApplicantsByJobRole).mockResolvedValue(
+				listPage([applicant(11, { cvFileName: "cv.docx" })])
+			);
+			vi.mocked(applicationService.downloadApplicationCv).mockRejectedValue(
+				new Error("CV not found")
+			);
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+
+			await controller.getCvPreview(
+				createRequest({ id: "4", applicationId: "11" }),
+				res
+			);
+
+			expect(res.render).toHaveBeenCalledWith(
+				"applicant-cv-preview.njk",
+				expect.objectContaining({ preview: { kind: "unavailable" } })
+			);
+			consoleSpy.mockRestore();
+		});
+
+		it("should mark applicants without an uploaded CV", async () => {
+			vi.mocked(applicationService.getApplicantsByJobRole).mockResolvedValue(
+				listPage([
+					applicant(11, { hasCv: false, resumeUrl: "https://example.com/cv" }),
+					applicant(12, { hasCv: false }),
+				])
+			);
+
+			await controller.getCvPreview(
+				createRequest({ id: "4", applicationId: "11" }),
+				res
+			);
+			await controller.getCvPreview(
+				createRequest({ id: "4", applicationId: "12" }),
+				res
+			);
+
+			expect(vi.mocked(res.render).mock.calls.map((call) => call[1])).toEqual([
+				expect.objectContaining({ preview: { kind: "external" } }),
+				expect.objectContaining({ preview: { kind: "none" } }),
+			]);
+		});
+
+		it("should return 404 for an applicant outside the filtered list", async () => {
+			await controller.getCvPreview(
+				createRequest({ id: "4", applicationId: "99" }),
+				res
+			);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+			expect(res.render).toHaveBeenCalledWith("error.njk", {
+				message: "Applicant not found for this job role.",
+			});
+		});
+
+		it("should return 404 when the job role does not exist", async () => {
+			vi.mocked(jobRoleService.getJobRoleById).mockResolvedValue(null);
+
+			await controller.getCvPreview(
+				createRequest({ id: "4", applicationId: "11" }),
+				res
+			);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+			expect(applicationService.getApplicantsByJobRole).not.toHaveBeenCalled();
+		});
+
+		it("should reject invalid IDs and query parameters", async () => {
+			await controller.getCvPreview(
+				createRequest({ id: "4", applicationId: "abc" }),
+				res
+			);
+			await controller.getCvPreview(
+				createRequest({ id: "4", applicationId: "11" }, { sort: "salary" }),
+				res
+			);
+
+			expect(res.status).toHaveBeenNthCalledWith(1, 400);
+			expect(res.status).toHaveBeenNthCalledWith(2, 400);
+			expect(jobRoleService.getJobRoleById).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("downloadCv", () => {
+		it("should send a sanitised, encoded file name", async () => {
+			vi.mocked(applicationService.downloadApplicationCv).mockResolvedValue({
+				buffer: docx,
+				fileName: '../Zoë "CV"\r\n.pdf',
+				mimeType: "application/octet-stream",
+			});
+
+			await controller.downloadCv(createRequest({ id: "12" }), res);
+
+			expect(res.setHeader).toHaveBeenCalledWith(
+				"Content-Disposition",
+				"attachment; filename=\"Zo_ _CV.docx\"; filename*=UTF-8''Zo%C3%AB%20_CV.docx"
+			);
+			expect(res.send).toHaveBeenCalledWith(docx);
+		});
+	});
+
+	describe("viewCvInline", () => {
+		it("should stream PDFs inline with a safe file name", async () => {
+			vi.mocked(applicationService.downloadApplicationCv).mockResolvedValue({
+				buffer: Buffer.from("%PDF-1.4\n%%EOF\n"),
+				fileName: 'Zoë "CV".pdf',
+				mimeType: "application/octet-stream",
+			});
+
+			await controller.viewCvInline(createRequest({ id: "12" }), res);
+
+			expect(res.setHeader).toHaveBeenCalledWith(
+				"Content-Type",
+				"application/pdf"
+			);
+			expect(res.setHeader).toHaveBeenCalledWith(
+				"Content-Disposition",
+				"inline; filename=\"Zo_ _CV.pdf\"; filename*=UTF-8''Zo%C3%AB%20_CV.pdf"
+			);
+			expect(res.setHeader).toHaveBeenCalledWith(
+				"X-Content-Type-Options",
+				"nosniff"
+			);
+			expect(res.send).toHaveBeenCalledWith(Buffer.from("%PDF-1.4\n%%EOF\n"));
+		});
+
+		it("should refuse to display files that are not PDFs", async () => {
+			vi.mocked(applicationService.downloadApplicationCv).mockResolvedValue({
+				buffer: docx,
+				fileName: "cv.pdf",
+				mimeType: "application/pdf",
+			});
+
+			await controller.viewCvInline(createRequest({ id: "12" }), res);
+
+			expect(res.status).toHaveBeenCalledWith(415);
+			expect(res.setHeader).not.toHaveBeenCalled();
+		});
+
+		it("should return 404 when the CV does not exist", async () => {
+			vi.mocked(applicationService.downloadApplicationCv).mockRejectedValue(
+				new Error("CV not found")
+			);
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+
+			await controller.viewCvInline(createRequest({ id: "12" }), res);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+			consoleSpy.mockRestore();
+		});
+	});
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for CV content checks and malware scanning in ApplicationController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { ApplicationService } from "../services/application-service.js";
+import type { CvScanner } from "../services/cv-scanner.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { ApplicationController } from "./application-controller.js";
+
+describe("ApplicationController - CV upload checks", () => {
+	let controller: ApplicationController;
+	let applicationService: ApplicationService;
+	let jobRoleService: JobRoleService;
+	let cvScanner: CvScanner;
+	let res: Response;
+
+	const jobRole: JobRoleDetailedResponse = {
+		jobRoleId: 4,
+		roleName: "Software Engineer",
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Associate",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 2,
+		description: "Build things",
+		responsibilities: "Ship things",
+		jobSpecLink: "",
+	};
+
+	const createFile = (
+		content: string,
+		originalname = "resume.pdf"
+	): Express.Multer.File =>
+		({
+			fieldname: "cv",
+			originalname,
+			mimetype: "application/pdf",
+			buffer: Buffer.from(content),
+			size: content.length,
+		}) as Express.Multer.File;
+
+	const createRequest = (
+		file: Express.Multer.File,
+		body: Record<string, string> = {}
+	) =>
+		({
+			params: { id: "4" },
+			query: {},
+			body: {
+				applicantName: "Jane Doe",
+				applicantEmail: "jane@example.com",
+				...body,
+			},
+			file,
+			session: {},
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		applicationService = {
+			submitApplication: vi.fn().mockResolvedValue({ applicationId: 1 }),
+			updateApplication: vi.fn().mockResolvedValue({ applicationId: 1 }),
+			getUserApplications: vi.fn().mockResolvedValue([]),
+		} as unknown as ApplicationService;
+		jobRoleService = {
+			getJobRoleById: vi.fn().mockResolvedValue(jobRole),
+		} as unknown as JobRoleService;
+		cvScanner = { scan: vi.fn().mockResolvedValue({ isClean: true }) };
+		controller = new ApplicationController(
+			applicationService,
+			jobRoleService,
+			null,
+			cvScanner
+		);
+		res = {
+			render: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	it("should reject a renamed executable labelled as a PDF", async () => {
+		await controller.submitApplication(
+			createRequest(createFile("MZ\x90\x00 not a document")),
+			res
+		);
+
+		expect(res.status).toHaveBeenCalledWith(400);
+		expect(res.render).toHaveBeenCalledWith("error.njk", {
+			message: expect.stringContaining("doesn't appear to be a PDF"),
+		});
+		expect(cvScanner.scan).not.toHaveBeenCalled();
+		expect(applicationService.submitApplication).not.toHaveBeenCalled();
+	});
+
+	it("should forward a scanned file under a sanitised name", async () => {
+		await controller.submitApplication(
+			createRequest(createFile("%PDF-1.4\n%%EOF\n", "../../<Jane> CV.pdf")),
+			res
+		);
+
+		expect(cvScanner.scan).toHaveBeenCalledWith(
+			Buffer.from("%PDF-1.4\n%%EOF\n")
+		);
+		expect(applicationService.submitApplication).toHaveBeenCalledWith(
+			4,
+			"Jane Doe",
+			"jane@example.com",
+			undefined,
+			expect.objectContaining({
+				originalname: "Jane_ CV.pdf",
+				mimetype: "application/pdf",
+			})
+		);
+	});
+
+	it("should reject files the scanner flags", async () => {
+		vi.mocked(cvScanner.scan).mockResolvedValue({
+			isClean: false,
+			threat: "Eicar-Test-Signature",
+		});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		await controller.submitApplication(
+			createRequest(createFile("%PDF-1.4\n%%EOF\n")),
+			res
+		);
+
+		expect(res.status).toHaveBeenCalledWith(400);
+		expect(res.render).toHaveBeenCalledWith("error.njk", {
+			message: expect.stringContaining("failed our virus check"),
+		});
+		expect(applicationService.submitApplication).not.toHaveBeenCalled();
+		vi.mocked(console.warn).mockRestore();
+	});
+
+	it("should refuse uploads while the scanner is unavailable", async () => {
+		vi.mocked(cvScanner.scan).mockRejectedValue(new Error("ECONNREFUSED"));
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		await controller.submitApplication(
+			createRequest(createFile("%PDF-1.4\n%%EOF\n")),
+			res
+		);
+
+		expect(res.status).toHaveBeenCalledWith(503);
+		expect(applicationService.submitApplication).not.toHaveBeenCalled();
+		consoleSpy.mockRestore();
+	});
+
+	it("should check replacement CVs when editing an application", async () => {
+		applicationService.getApplicationById = vi.fn().mockResolvedValue({
+			applicationId: 12,
+			jobRoleId: 4,
+			applicantEmail: "jane@example.com",
+		});
+
+		await controller.submitApplication(
+			{
+				...createRequest(createFile("#!/bin/sh\nrm -rf /"), {
+					editApplicationId: "12",
+				}),
+				session: { user: { email: "jane@example.com" } },
+			} as unknown as Request,
+			res
+		);
+
+		expect(res.status).toHaveBeenCalledWith(400);
+		expect(applicationService.updateApplication).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,278 @@
+/**
+ * Tests for application drafts in ApplicationController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { ApplicationService } from "../services/application-service.js";
+import { InMemoryApplicationDraftStore } from "../services/in-memory-application-draft-store.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { ApplicationController } from "./application-controller.js";
+
+describe("ApplicationController - drafts", () => {
+	let controller: ApplicationController;
+	let draftStore: InMemoryApplicationDraftStore;
+	let applicationService: ApplicationService;
+	let jobRoleService: JobRoleService;
+	let res: Response;
+
+	const jobRole = (
+		overrides: Partial<JobRoleDetailedResponse> = {}
+	): JobRoleDetailedResponse => ({
+		jobRoleId: 4,
+		roleName: "Software Engineer",
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Associate",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 2,
+		description: "Build things",
+		responsibilities: "Ship things",
+		jobSpecLink: "",
+		...overrides,
+	});
+
+	const draftContent = {
+		applicantName: "Jane Doe",
+		applicantEmail: "jane@example.com",
+		coverLetter: "Dear team",
+	};
+
+	const createRequest = (
+		overrides: Partial<Request> = {},
+		user: Record<string, unknown> | null = {
+			userId: "7",
+			email: "jane@example.com",
+		}
+	) =>
+		({
+			params: { id: "4" },
+			query: {},
+			body: {},
+			session: user ? { isAuthenticated: true, user } : {},
+			...overrides,
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		draftStore = new InMemoryApplicationDraftStore();
+		applicationService = {
+			submitApplication: vi.fn().mockResolvedValue({ applicationId: 1 }),
+			getUserApplications: vi.fn().mockResolvedValue([]),
+		} as unknown as ApplicationService;
+		jobRoleService = {
+			getJobRoleById: vi.fn().mockResolvedValue(jobRole()),
+		} as unknown as JobRoleService;
+		controller = new ApplicationController(
+			applicationService,
+			jobRoleService,
+			draftStore
+		);
+		res = {
+			render: vi.fn(),
+			json: vi.fn(),
+			redirect: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	describe("saveApplicationDraft", () => {
+		it("should save the draft for the signed-in user", async () => {
+			await controller.saveApplicationDraft(
+				createRequest({ body: draftContent }),
+				res
+			);
+
+			expect(res.json).toHaveBeenCalledWith({
+				success: true,
+				message: "Draft saved",
+				saved: true,
+				updatedAt: expect.any(String),
+			});
+			await expect(draftStore.getDraft("7", 4)).resolves.toMatchObject(
+				draftContent
+			);
+		});
+
+		it("should clear the draft when the content is empty", async () => {
+			await draftStore.saveDraft("7", 4, draftContent);
+
+			await controller.saveApplicationDraft(
+				createRequest({ body: { coverLetter: "  " } }),
+				res
+			);
+
+			expect(res.json).toHaveBeenCalledWith({
+				success: true,
+				message: "Draft cleared",
+				saved: false,
+			});
+			await expect(draftStore.getDraft("7", 4)).resolves.toBeNull();
+		});
+
+		it("should require a signed-in user", async () => {
+			await controller.saveApplicationDraft(
+				createRequest({ body: draftContent }, null),
+				res
+			);
+
+			expect(res.status).toHaveBeenCalledWith(401);
+			await expect(draftStore.listDrafts("7")).resolves.toEqual([]);
+		});
+
+		it("should reject a cover letter over the limit", async () => {
+			await controller.saveApplicationDraft(
+				createRequest({ body: { coverLetter: "a".repeat(5001) } }),
+				res
+			);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(res.json).toHaveBeenCalledWith({
+				success: false,
+				message: "Cover letter must not exceed 5000 characters",
+			});
+		});
+
+		it("should not save drafts for unpublished roles", async () => {
+			vi.mocked(jobRoleService.getJobRoleById).mockResolvedValue(
+				jobRole({ status: "Draft" })
+			);
+
+			await controller.saveApplicationDraft(
+				createRequest({ body: draftContent }),
+				res
+			);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+		});
+
+		it("should not save drafts once the role has closed", async () => {
+			vi.mocked(jobRoleService.getJobRoleById).mockResolvedValue(
+				jobRole({ closingDate: "2000-01-01" })
+			);
+
+			await controller.saveApplicationDraft(
+				createRequest({ body: draftContent }),
+				res
+			);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			await expect(draftStore.listDrafts("7")).resolves.toEqual([]);
+		});
+	});
+
+	describe("getApplicationForm", () => {
+		it("should offer to continue a saved draft", async () => {
+			const draft = await draftStore.saveDraft("7", 4, draftContent);
+
+			await controller.getApplicationForm(createRequest(), res);
+
+			expect(res.render).toHaveBeenCalledWith(
+				"job-application-form.njk",
+				expect.objectContaining({
+					canSaveDraft: true,
+					autosaveSeconds: 30,
+					draft,
+					isDraftResumed: false,
+				})
+			);
+		});
+
+		it("should fill the form from the draft when resuming", async () => {
+			await draftStore.saveDraft("7", 4, draftContent);
+
+			await controller.getApplicationForm(
+				createRequest({ query: { draft: "resume" } }),
+				res
+			);
+
+			expect(res.render).toHaveBeenCalledWith(
+				"job-application-form.njk",
+				expect.objectContaining({ isDraftResumed: true })
+			);
+		});
+
+		it("should not enable drafts for signed-out users", async () => {
+			await controller.getApplicationForm(createRequest({}, null), res);
+
+			const context = vi.mocked(res.render).mock.calls[0]?.[1];
+			expect(context).not.toHaveProperty("canSaveDraft");
+			expect(context).not.toHaveProperty("draft");
+		});
+	});
+
+	describe("submitApplication", () => {
+		it("should discard the draft once the application is submitted", async () => {
+			await draftStore.saveDraft("7", 4, draftContent);
+
+			await controller.submitApplication(
+				createRequest({
+					body: draftContent,
+					file: {
+						originalname: "cv.pdf",
+						mimetype: "application/pdf",
+						size: 1024,
+						buffer: Buffer.from("%PDF-1.4\n%%EOF\n"),
+					} as Express.Multer.File,
+				}),
+				res
+			);
+
+			expect(res.render).toHaveBeenCalledWith(
+				"application-success.njk",
+				expect.anything()
+			);
+			await expect(draftStore.getDraft("7", 4)).resolves.toBeNull();
+		});
+	});
+
+	describe("deleteApplicationDraft", () => {
+		it("should discard the draft and return to the applications page", async () => {
+			await draftStore.saveDraft("7", 4, draftContent);
+
+			await controller.deleteApplicationDraft(createRequest(), res);
+
+			expect(res.redirect).toHaveBeenCalledWith(
+				"/applications?draft=discarded"
+			);
+			await expect(draftStore.getDraft("7", 4)).resolves.toBeNull();
+		});
+
+		it("should only return to pages on this site", async () => {
+			await controller.deleteApplicationDraft(
+				createRequest({ body: { returnTo: "//evil.example.com" } }),
+				res
+			);
+
+			expect(res.redirect).toHaveBeenCalledWith(
+				"/applications?draft=discarded"
+			);
+		});
+	});
+
+	describe("getUserApplications", () => {
+		it("should list drafts with their job roles", async () => {
+			await draftStore.saveDraft("7", 4, draftContent);
+			await draftStore.saveDraft("7", 9, draftContent);
+			vi.mocked(jobRoleService.getJobRoleById).mockImplementation(async (id) =>
+				id === 4 ? jobRole() : null
+			);
+
+			await controller.getUserApplications(createRequest(), res);
+
+			const context = vi.mocked(res.render).mock.calls[0]?.[1] as {
+				drafts: { jobRoleId: number; canContinue: boolean }[];
+			};
+			expect(
+				context.drafts.map(({ jobRoleId, canContinue }) => ({
+					jobRoleId,
+					canContinue,
+				}))
+			).toEqual([
+				{ jobRoleId: 9, canContinue: false },
+				{ jobRoleId: 4, canContinue: true },
+			]);
+		});
+	});
+});
@@ -0,0 +1,305 @@
+/**
+ * Tests for duplicate application detection in ApplicationController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ApplicantDisplay } from "../models/applicant-display.js";
+import type { ApplicationResponse } from "../models/application-request.js";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { ApplicationService } from "../services/application-service.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { ApplicationController } from "./application-controller.js";
+
+describe("ApplicationController - duplicate applications", () => {
+	let controller: ApplicationController;
+	let applicationService: ApplicationService;
+	let jobRoleService: JobRoleService;
+	let res: Response;
+
+	const jobRole: JobRoleDetailedResponse = {
+		jobRoleId: 4,
+		roleName: "Software Engineer",
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Associate",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 2,
+		description: "Build things",
+		responsibilities: "Ship things",
+		jobSpecLink: "",
+	};
+
+	const existingApplication = (
+		overrides: Partial<ApplicationResponse> = {}
+	): ApplicationResponse => ({
+		applicationId: 12,
+		jobRoleId: 4,
+		applicantName: "Jane Doe",
+		applicantEmail: "jane@example.com",
+		status: "pending",
+		submittedAt: "2030-01-01T10:00:00Z",
+		...overrides,
+	});
+
+	const cvFile = {
+		originalname: "cv.pdf",
+		mimetype: "application/pdf",
+		size: 1024,
+		buffer: Buffer.from("%PDF-1.4\n%%EOF\n"),
+	} as Express.Multer.File;
+
+	const createSubmitRequest = (sessionEmail?: string) =>
+		({
+			params: { id: "4" },
+			query: {},
+			body: {
+				applicantName: "Jane Doe",
+				applicantEmail: "Jane@Example.com",
+				coverLetter: "Dear team",
+			},
+			file: cvFile,
+			session: sessionEmail
+				? { isAuthenticated: true, user: { email: sessionEmail } }
+				: {},
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		applicationService = {
+			submitApplication: vi.fn().mockResolvedValue(existingApplication()),
+			getUserApplications: vi.fn().mockResolvedValue([]),
+			getApplicationById: vi.fn().mockResolvedValue(existingApplication()),
+			getApplicantsByJobRole: vi.fn(),
+		} as unknown as ApplicationService;
+		jobRoleService = {
+			getJobRoleById: vi.fn().mockResolvedValue(jobRole),
+		} as unknown as JobRoleService;
+		controller = new ApplicationController(applicationService, jobRoleService);
+		res = {
+			render: vi.fn(),
+			redirect: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	describe("submitApplication", () => {
+		it("should send the owner to the edit flow for an existing application", async () => {
+			vi.mocked(applicationService.getUserApplications).mockResolvedValue([
+				existingApplication(),
+			]);
+
+			await controller.submitApplication(
+				createSubmitRequest("jane@example.com"),
+				res
+			);
+
+			expect(applicationService.getUserApplications).toHaveBeenCalledWith(
+				"Jane@Example.com"
+			);
+			expect(res.redirect).toHaveBeenCalledWith(
+				"/job-roles/4/apply?edit=12&duplicate=1"
+			);
+			expect(applicationService.submitApplication).not.toHaveBeenCalled();
+		});
+
+		it("should reject a duplicate without revealing the existing application", async () => {
+			vi.mocked(applicationService.getUserApplications).mockResolvedValue([
+				existingApplication(),
+			]);
+
+			await controller.submitApplication(
+				createSubmitRequest("someone.else@example.com"),
+				res
+			);
+
+			expect(res.status).toHaveBeenCalledWith(409);
+			expect(res.redirect).not.toHaveBeenCalled();
+			expect(applicationService.submitApplication).not.toHaveBeenCalled();
+		});
+
+		it("should allow applying again after withdrawing", async () => {
+			vi.mocked(applicationService.getUserApplications).mockResolvedValue([
+				existingApplication({ status: "withdrawn" }),
+				existingApplication({ applicationId: 13, jobRoleId: 5 }),
+			]);
+
+			await controller.submitApplication(createSubmitRequest(), res);
+
+			expect(applicationService.submitApplication).toHaveBeenCalled();
+			expect(res.render).toHaveBeenCalledWith(
+				"application-success.njk",
+				expect.anything()
+			);
+		});
+
+		it("should still submit when the duplicate check fails", async () => {
+			vi.mocked(applicationService.getUserApplications).mockRejectedValue(
+				new Error("Network error")
+			);
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+
+			await controller.submitApplication(createSubmitRequest(), res);
+
+			expect(applicationService.submitApplication).toHaveBeenCalled();
+			consoleSpy.mockRestore();
+		});
+	});
+
+	describe("getApplicationForm", () => {
+		it("should explain why the edit form was opened", async () => {
+			await controller.getApplicationForm(
+				{
+					params: { id: "4" },
+					query: { edit: "12", duplicate: "1" },
+					session: { user: { email: "jane@example.com" } },
+				} as unknown as Request,
+				res
+			);
+
+			expect(res.render).toHaveBeenCalledWith(
+				"job-application-form.njk",
+				expect.objectContaining({
+					isEditMode: true,
+					notice: expect.stringContaining("You have already applied"),
+				})
+			);
+		});
+
+		it("should open the edit form it redirected to when the email case differs", async () => {
+			vi.mocked(applicationService.getUserApplications).mockResolvedValue([
+				existingApplication(),
+			]);
+			const session = {
+				isAuthenticated: true,
+				user: { email: "Jane@Example.com" },
+			};
+
+			await controller.submitApplication(
+				{ ...createSubmitRequest(), session } as unknown as Request,
+				res
+			);
+			const redirectUrl = new URL(
+				vi.mocked(res.redirect).mock.calls[0]?.[0] as unknown as string,
+				"http://localhost"
+			);
+			await controller.getApplicationForm(
+				{
+					params: { id: "4" },
+					query: Object.fromEntries(redirectUrl.searchParams),
+					session,
+				} as unknown as Request,
+				res
+			);
+
+			expect(res.status).not.toHaveBeenCalled();
+			expect(res.render).toHaveBeenCalledWith(
+				"job-application-form.njk",
+				expect.objectContaining({
+					isEditMode: true,
+					existingApplication: existingApplication(),
+				})
+			);
+		});
+	});
+
+	describe("getApplicants", () => {
+		const applicant = (
+			applicationId: number,
+			applicantEmail: string,
+			status = "pending"
+		): ApplicantDisplay => ({
+			applicationId,
+			applicantName: "Applicant",
+			applicantEmail,
+			status,
+			submittedAt: "2030-01-01T10:00:00Z",
+		});
+
+		const page = (
+			applicants: ApplicantDisplay[],
+			currentPage: number,
+			totalPages: number
+		) => ({
+			applicants,
+			pagination: {
+				currentPage,
+				totalPages,
+				totalApplicants: 3,
+				applicantsPerPage: 10,
+				hasNextPage: currentPage < totalPages,
+				hasPreviousPage: currentPage > 1,
+			},
+			jobRole: { id: 4, roleName: "Software Engineer", status: "Open" },
+		});
+
+		it("should flag duplicates on other pages by looking up each email on the page", async () => {
+			vi.mocked(applicationService.getApplicantsByJobRole).mockImplementation(
+				async (_jobRoleId, pageNumber = 1, _limit = 10, query = {}) =>
+					query.search === "jane@example.com"
+						? page(
+								[
+									applicant(1, "jane@example.com"),
+									applicant(3, "JANE@example.com"),
+									applicant(4, "mary-jane@example.com"),
+									applicant(5, "jane@example.com", "withdrawn"),
+								],
+								1,
+								1
+							)
+						: page(
+								pageNumber === 1
+									? [applicant(1, "jane@example.com")]
+									: [applicant(3, "JANE@example.com")],
+								pageNumber,
+								3
+							)
+			);
+
+			await controller.getApplicants(
+				{ params: { id: "4" }, query: { limit: "1" } } as unknown as Request,
+				res
+			);
+
+			expect(applicationService.getApplicantsByJobRole).toHaveBeenCalledTimes(
+				2
+			);
+			expect(applicationService.getApplicantsByJobRole).toHaveBeenCalledWith(
+				4,
+				1,
+				100,
+				{ search: "jane@example.com" }
+			);
+			expect(res.render).toHaveBeenCalledWith(
+				"job-applicants-list.njk",
+				expect.objectContaining({ duplicateCounts: { 1: 2, 3: 2 } })
+			);
+		});
+
+		it("should not flag anything when each candidate applied once", async () => {
+			vi.mocked(applicationService.getApplicantsByJobRole).mockResolvedValue(
+				page(
+					[
+						applicant(1, "jane@example.com"),
+						applicant(2, "jane@example.com", "withdrawn"),
+					],
+					1,
+					1
+				)
+			);
+
+			await controller.getApplicants(
+				{ params: { id: "4" }, query: {} } as unknown as Request,
+				res
+			);
+
+			expect(applicationService.getApplicantsByJobRole).toHaveBeenCalledTimes(
+				1
+			);
+			const context = vi.mocked(res.render).mock.calls[0]?.[1];
+			expect(context).not.toHaveProperty("duplicateCounts");
+		});
+	});
+});
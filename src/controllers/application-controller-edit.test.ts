@@ -0,0 +1,217 @@
+/**
+ * Tests for editing an existing application in ApplicationController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ApplicationResponse } from "../models/application-request.js";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { ApplicationService } from "../services/application-service.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { ApplicationController } from "./application-controller.js";
+
+describe("ApplicationController - editing applications", () => {
+	let controller: ApplicationController;
+	let applicationService: ApplicationService;
+	let jobRoleService: JobRoleService;
+	let res: Response;
+
+	const jobRole: JobRoleDetailedResponse = {
+		jobRoleId: 4,
+		roleName: "Software Engineer",
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Associate",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 2,
+		description: "Build things",
+		responsibilities: "Ship things",
+		jobSpecLink: "",
+	};
+
+	const application: ApplicationResponse = {
+		applicationId: 12,
+		jobRoleId: 4,
+		applicantName: "Jane Doe",
+		applicantEmail: "jane@example.com",
+		status: "pending",
+		submittedAt: "2030-01-01T10:00:00Z",
+	};
+
+	const sessions = {
+		anonymous: {},
+		otherUser: {
+			isAuthenticated: true,
+			user: { userId: "2", email: "someone@example.com" },
+		},
+		owner: {
+			isAuthenticated: true,
+			user: { userId: "1", email: "Jane@Example.com" },
+		},
+	};
+
+	const createFormRequest = (
+		session: keyof typeof sessions,
+		edit = "12"
+	): Request =>
+		({
+			params: { id: "4" },
+			query: { edit },
+			session: sessions[session],
+		}) as unknown as Request;
+
+	const cvFile = {
+		originalname: "cv.pdf",
+		mimetype: "application/pdf",
+		size: 1024,
+		buffer: Buffer.from("%PDF-1.4\n%%EOF\n"),
+	} as Express.Multer.File;
+
+	const createSubmitRequest = (
+		session: keyof typeof sessions,
+		editApplicationId = "12"
+	): Request =>
+		({
+			params: { id: "4" },
+			query: {},
+			body: {
+				applicantName: "Jane Doe",
+				applicantEmail: "jane@example.com",
+				coverLetter: "Updated cover letter",
+				editApplicationId,
+			},
+			file: cvFile,
+			session: sessions[session],
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		applicationService = {
+			getApplicationById: vi.fn().mockResolvedValue(application),
+			updateApplication: vi.fn().mockResolvedValue(application),
+			submitApplication: vi.fn(),
+			getUserApplications: vi.fn().mockResolvedValue([]),
+		} as unknown as ApplicationService;
+		jobRoleService = {
+			getJobRoleById: vi.fn().mockResolvedValue(jobRole),
+		} as unknown as JobRoleService;
+		controller = new ApplicationController(applicationService, jobRoleService);
+		res = {
+			render: vi.fn(),
+			redirect: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	describe("getApplicationForm", () => {
+		it("should send signed-out users to the login page", async () => {
+			await controller.getApplicationForm(createFormRequest("anonymous"), res);
+
+			expect(res.redirect).toHaveBeenCalledWith("/login");
+			expect(applicationService.getApplicationById).not.toHaveBeenCalled();
+			expect(res.render).not.toHaveBeenCalled();
+		});
+
+		it("should refuse to open another user's application", async () => {
+			await controller.getApplicationForm(createFormRequest("otherUser"), res);
+
+			expect(res.status).toHaveBeenCalledWith(403);
+			expect(res.render).toHaveBeenCalledWith("unauthorized.njk", {
+				message: "You do not have permission to edit this application.",
+			});
+		});
+
+		it("should open the owner's application for editing", async () => {
+			await controller.getApplicationForm(createFormRequest("owner"), res);
+
+			expect(res.status).not.toHaveBeenCalled();
+			expect(res.render).toHaveBeenCalledWith(
+				"job-application-form.njk",
+				expect.objectContaining({
+					existingApplication: application,
+					isEditMode: true,
+				})
+			);
+		});
+
+		it("should return 404 when the application does not exist", async () => {
+			vi.mocked(applicationService.getApplicationById).mockRejectedValue(
+				new Error("Application not found")
+			);
+
+			await controller.getApplicationForm(createFormRequest("owner"), res);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+			expect(res.render).toHaveBeenCalledWith("error.njk", {
+				message: "Application not found.",
+			});
+		});
+
+		it("should return 400 for an application on another job role", async () => {
+			vi.mocked(applicationService.getApplicationById).mockResolvedValue({
+				...application,
+				jobRoleId: 5,
+			});
+
+			await controller.getApplicationForm(createFormRequest("owner"), res);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+		});
+	});
+
+	describe("submitApplication", () => {
+		it("should send signed-out users to the login page", async () => {
+			await controller.submitApplication(createSubmitRequest("anonymous"), res);
+
+			expect(res.redirect).toHaveBeenCalledWith("/login");
+			expect(applicationService.updateApplication).not.toHaveBeenCalled();
+		});
+
+		it("should refuse to update another user's application", async () => {
+			await controller.submitApplication(createSubmitRequest("otherUser"), res);
+
+			expect(res.status).toHaveBeenCalledWith(403);
+			expect(res.render).toHaveBeenCalledWith("unauthorized.njk", {
+				message: "You do not have permission to edit this application.",
+			});
+			expect(applicationService.updateApplication).not.toHaveBeenCalled();
+		});
+
+		it("should update the owner's application", async () => {
+			await controller.submitApplication(createSubmitRequest("owner"), res);
+
+			expect(applicationService.getApplicationById).toHaveBeenCalledWith(12);
+			expect(applicationService.updateApplication).toHaveBeenCalledWith(
+				12,
+				"Updated cover letter",
+				expect.objectContaining({ originalname: "cv.pdf" })
+			);
+			expect(res.render).toHaveBeenCalledWith(
+				"application-success.njk",
+				expect.objectContaining({ isEdit: true })
+			);
+		});
+
+		it("should not update an application on another job role", async () => {
+			vi.mocked(applicationService.getApplicationById).mockResolvedValue({
+				...application,
+				jobRoleId: 5,
+			});
+
+			await controller.submitApplication(createSubmitRequest("owner"), res);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(applicationService.updateApplication).not.toHaveBeenCalled();
+		});
+
+		it("should reject an invalid application ID", async () => {
+			await controller.submitApplication(
+				createSubmitRequest("owner", "abc"),
+				res
+			);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(applicationService.getApplicationById).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for the applicant export endpoint in ApplicationController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ApplicantsPageResponse } from "../models/applicant-display.js";
+import type { ApplicationService } from "../services/application-service.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { ApplicationController } from "./application-controller.js";
+
+describe("ApplicationController - exportApplicants", () => {
+	let applicationController: ApplicationController;
+	let mockApplicationService: ApplicationService;
+	let mockJobRoleService: JobRoleService;
+	let mockRequest: Partial<Request>;
+	let mockResponse: Partial<Response>;
+
+	const buildPage = (
+		page: number,
+		hasNextPage: boolean
+	): ApplicantsPageResponse => ({
+		applicants: [
+			{
+				applicationId: page,
+				applicantName: `Applicant ${page}`,
+				applicantEmail: `applicant${page}@example.com`,
+				status: "pending",
+				submittedAt: "2025-10-20T10:00:00Z",
+				hasCv: page === 1,
+			},
+		],
+		pagination: {
+			currentPage: page,
+			totalPages: 2,
+			totalApplicants: 2,
+			applicantsPerPage: 100,
+			hasNextPage,
+			hasPreviousPage: page > 1,
+		},
+		jobRole: { id: 5, roleName: "Software Engineer", status: "Open" },
+	});
+
+	beforeEach(() => {
+		mockApplicationService = {
+			submitApplication: vi.fn(),
+			getApplicantsByJobRole: vi.fn(),
+			downloadApplicationCv: vi.fn(),
+			getUserApplications: vi.fn(),
+			getApplicationById: vi.fn(),
+			updateApplication: vi.fn(),
+			withdrawApplication: vi.fn(),
+			updateApplicationStatus: vi.fn(),
+		};
+
+		mockJobRoleService = {
+			getJobRoles: vi.fn(),
+			getJobRoleById: vi.fn().mockResolvedValue({ jobRoleId: 5 }),
+		};
+
+		applicationController = new ApplicationController(
+			mockApplicationService,
+			mockJobRoleService
+		);
+
+		mockRequest = {
+			params: { id: "5" },
+			query: {},
+		};
+
+		mockResponse = {
+			send: vi.fn(),
+			setHeader: vi.fn(),
+			render: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		};
+
+		vi.mocked(mockApplicationService.getApplicantsByJobRole)
+			.mockResolvedValueOnce(buildPage(1, true))
+			.mockResolvedValueOnce(buildPage(2, false));
+	});
+
+	it("should export every page of applicants as CSV by default", async () => {
+		await applicationController.exportApplicants(
+			mockRequest as Request,
+			mockResponse as Response
+		);
+
+		expect(mockApplicationService.getApplicantsByJobRole).toHaveBeenCalledTimes(
+			2
+		);
+		expect(mockResponse.setHeader).toHaveBeenCalledWith(
+			"Content-Type",
+			"text/csv"
+		);
+		expect(mockResponse.setHeader).toHaveBeenCalledWith(
+			"Content-Disposition",
+			expect.stringMatching(
+				/^attachment; filename="job-role-5-applicants-.*\.csv"$/
+			)
+		);
+		expect(mockResponse.send).toHaveBeenCalledWith(
+			[
+				"Name,Email,Status,Submitted At,Updated At,Has CV",
+				"Applicant 1,applicant1@example.com,pending,2025-10-20T10:00:00Z,,Yes",
+				"Applicant 2,applicant2@example.com,pending,2025-10-20T10:00:00Z,,No",
+			].join("\n")
+		);
+	});
+
+	it("should pass the active status filter to the service", async () => {
+		mockRequest.query = { status: "Under Review" };
+
+		await applicationController.exportApplicants(
+			mockRequest as Request,
+			mockResponse as Response
+		);
+
+		expect(mockApplicationService.getApplicantsByJobRole).toHaveBeenCalledWith(
+			5,
+			1,
+			100,
+			{ sort: "submittedAt", order: "desc", status: "under_review" }
+		);
+	});
+
+	it("should export an XLSX workbook when requested", async () => {
+		mockRequest.query = { format: "XLSX" };
+
+		await applicationController.exportApplicants(
+			mockRequest as Request,
+			mockResponse as Response
+		);
+
+		expect(mockResponse.setHeader).toHaveBeenCalledWith(
+			"Content-Type",
+			"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+		);
+		expect(mockResponse.setHeader).toHaveBeenCalledWith(
+			"Content-Disposition",
+			expect.stringMatching(/\.xlsx"$/)
+		);
+		const body = vi.mocked(mockResponse.send).mock.calls[0]?.[0] as Buffer;
+		expect(Buffer.isBuffer(body)).toBe(true);
+		expect(body.subarray(0, 2).toString()).toBe("PK");
+	});
+
+	it("should return 400 for an unsupported format", async () => {
+		mockRequest.query = { format: "pdf" };
+
+		await applicationController.exportApplicants(
+			mockRequest as Request,
+			mockResponse as Response
+		);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(400);
+		expect(mockResponse.render).toHaveBeenCalledWith("error.njk", {
+			message: "Export format must be either csv or xlsx.",
+		});
+	});
+
+	it("should return 400 for an invalid status filter", async () => {
+		mockRequest.query = { status: "archived" };
+
+		await applicationController.exportApplicants(
+			mockRequest as Request,
+			mockResponse as Response
+		);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(400);
+		expect(
+			mockApplicationService.getApplicantsByJobRole
+		).not.toHaveBeenCalled();
+	});
+
+	it("should return 400 for an invalid job role ID", async () => {
+		mockRequest.params = { id: "abc" };
+
+		await applicationController.exportApplicants(
+			mockRequest as Request,
+			mockResponse as Response
+		);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(400);
+	});
+
+	it("should return 404 when the job role does not exist", async () => {
+		vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(null);
+
+		await applicationController.exportApplicants(
+			mockRequest as Request,
+			mockResponse as Response
+		);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(404);
+		expect(mockResponse.send).not.toHaveBeenCalled();
+	});
+
+	it("should return 500 when fetching applicants fails", async () => {
+		vi.mocked(mockApplicationService.getApplicantsByJobRole).mockReset();
+		vi.mocked(mockApplicationService.getApplicantsByJobRole).mockRejectedValue(
+			new Error("Backend down")
+		);
+
+		await applicationController.exportApplicants(
+			mockRequest as Request,
+			mockResponse as Response
+		);
+
+		expect(mockResponse.status).toHaveBeenCalledWith(500);
+		expect(mockResponse.render).toHaveBeenCalledWith("error.njk", {
+			message:
+				"Sorry, we couldn't export the applicants at this time. Please try again later.",
+		});
+	});
+});
@@ -0,0 +1,259 @@
+/**
+ * Tests for the applicant status pipeline endpoints in ApplicationController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ApplicationResponse } from "../models/application-request.js";
+import type { ApplicationService } from "../services/application-service.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { ApplicationController } from "./application-controller.js";
+
+describe("ApplicationController - application status", () => {
+	let applicationController: ApplicationController;
+	let mockApplicationService: ApplicationService;
+	let mockJobRoleService: JobRoleService;
+	let mockRequest: Partial<Request>;
+	let mockResponse: Partial<Response>;
+
+	const pendingApplication: ApplicationResponse = {
+		applicationId: 7,
+		jobRoleId: 3,
+		applicantName: "John Doe",
+		applicantEmail: "john@example.com",
+		status: "pending",
+		submittedAt: "2025-10-20T10:00:00Z",
+	};
+
+	beforeEach(() => {
+		mockApplicationService = {
+			submitApplication: vi.fn(),
+			getApplicantsByJobRole: vi.fn(),
+			downloadApplicationCv: vi.fn(),
+			getUserApplications: vi.fn(),
+			getApplicationById: vi.fn(),
+			updateApplication: vi.fn(),
+			withdrawApplication: vi.fn(),
+			updateApplicationStatus: vi.fn(),
+		};
+
+		mockJobRoleService = {
+			getJobRoles: vi.fn(),
+			getJobRoleById: vi.fn(),
+		};
+
+		applicationController = new ApplicationController(
+			mockApplicationService,
+			mockJobRoleService
+		);
+
+		mockRequest = {
+			params: { id: "7" },
+			body: { status: "under_review" },
+		};
+
+		mockResponse = {
+			json: vi.fn(),
+			redirect: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		};
+	});
+
+	describe("updateApplicationStatus (AJAX)", () => {
+		it("should move an application to an allowed next status", async () => {
+			vi.mocked(mockApplicationService.getApplicationById).mockResolvedValue(
+				pendingApplication
+			);
+			vi.mocked(
+				mockApplicationService.updateApplicationStatus
+			).mockResolvedValue({ ...pendingApplication, status: "under_review" });
+
+			await applicationController.updateApplicationStatus(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(
+				mockApplicationService.updateApplicationStatus
+			).toHaveBeenCalledWith(7, "under_review");
+			expect(mockResponse.status).toHaveBeenCalledWith(200);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				success: true,
+				message: "Application status updated to Under Review",
+				data: { ...pendingApplication, status: "under_review" },
+			});
+		});
+
+		it("should normalise the requested status before updating", async () => {
+			mockRequest.body = { status: "Under Review" };
+			vi.mocked(mockApplicationService.getApplicationById).mockResolvedValue(
+				pendingApplication
+			);
+			vi.mocked(
+				mockApplicationService.updateApplicationStatus
+			).mockResolvedValue({ ...pendingApplication, status: "under_review" });
+
+			await applicationController.updateApplicationStatus(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(
+				mockApplicationService.updateApplicationStatus
+			).toHaveBeenCalledWith(7, "under_review");
+		});
+
+		it("should reject illegal jumps in the pipeline", async () => {
+			mockRequest.body = { status: "hired" };
+			vi.mocked(mockApplicationService.getApplicationById).mockResolvedValue(
+				pendingApplication
+			);
+
+			await applicationController.updateApplicationStatus(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({
+					success: false,
+					message: "Cannot change application status from pending to hired",
+				})
+			);
+			expect(
+				mockApplicationService.updateApplicationStatus
+			).not.toHaveBeenCalled();
+		});
+
+		it("should reject unknown statuses without calling the backend", async () => {
+			mockRequest.body = { status: "archived" };
+
+			await applicationController.updateApplicationStatus(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockApplicationService.getApplicationById).not.toHaveBeenCalled();
+		});
+
+		it("should return 400 for an invalid application ID", async () => {
+			mockRequest.params = { id: "abc" };
+
+			await applicationController.updateApplicationStatus(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(400);
+			expect(mockResponse.json).toHaveBeenCalledWith(
+				expect.objectContaining({ message: "Invalid application ID" })
+			);
+		});
+
+		it("should return 404 when the application does not exist", async () => {
+			vi.mocked(mockApplicationService.getApplicationById).mockRejectedValue(
+				new Error("Application not found")
+			);
+
+			await applicationController.updateApplicationStatus(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(404);
+		});
+
+		it("should return 500 when the backend update fails", async () => {
+			vi.mocked(mockApplicationService.getApplicationById).mockResolvedValue(
+				pendingApplication
+			);
+			vi.mocked(
+				mockApplicationService.updateApplicationStatus
+			).mockRejectedValue(new Error("Backend server error"));
+
+			await applicationController.updateApplicationStatus(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(mockResponse.status).toHaveBeenCalledWith(500);
+			expect(mockResponse.json).toHaveBeenCalledWith({
+				success: false,
+				message: "Backend server error",
+			});
+		});
+	});
+
+	describe("updateApplicationStatusForm", () => {
+		it("should redirect back to the applicants list on success", async () => {
+			vi.mocked(mockApplicationService.getApplicationById).mockResolvedValue(
+				pendingApplication
+			);
+			vi.mocked(
+				mockApplicationService.updateApplicationStatus
+			).mockResolvedValue({ ...pendingApplication, status: "under_review" });
+
+			await applicationController.updateApplicationStatusForm(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(mockResponse.redirect).toHaveBeenCalledWith(
+				"/job-roles/3/applicants?success=status-updated"
+			);
+		});
+
+		it("should redirect with an error for an illegal transition", async () => {
+			mockRequest.body = { status: "offered" };
+			vi.mocked(mockApplicationService.getApplicationById).mockResolvedValue(
+				pendingApplication
+			);
+
+			await applicationController.updateApplicationStatusForm(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(mockResponse.redirect).toHaveBeenCalledWith(
+				"/job-roles/3/applicants?error=invalid-transition"
+			);
+		});
+
+		it("should fall back to the submitted job role ID when the application is missing", async () => {
+			mockRequest.body = { status: "under_review", jobRoleId: "3" };
+			vi.mocked(mockApplicationService.getApplicationById).mockRejectedValue(
+				new Error("Application not found")
+			);
+
+			await applicationController.updateApplicationStatusForm(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(mockResponse.redirect).toHaveBeenCalledWith(
+				"/job-roles/3/applicants?error=not-found"
+			);
+		});
+
+		it("should redirect with a server error when the update throws", async () => {
+			mockRequest.body = { status: "under_review", jobRoleId: "3" };
+			vi.mocked(mockApplicationService.getApplicationById).mockResolvedValue(
+				pendingApplication
+			);
+			vi.mocked(
+				mockApplicationService.updateApplicationStatus
+			).mockRejectedValue(new Error("Backend server error"));
+
+			await applicationController.updateApplicationStatusForm(
+				mockRequest as Request,
+				mockResponse as Response
+			);
+
+			expect(mockResponse.redirect).toHaveBeenCalledWith(
+				"/job-roles/3/applicants?error=server-error"
+			);
+		});
+	});
+});
@@ -16,6 +16,7 @@ const mockApplicationService: ApplicationService = {
 	submitApplication: vi.fn(),
 	getApplicantsByJobRole: vi.fn(),
 	downloadApplicationCv: vi.fn(),
+	getUserApplications: vi.fn().mockResolvedValue([]),
 };
 
 const mockJobRoleService: JobRoleService = {
@@ -74,7 +75,7 @@ describe("ApplicationController", () => {
 				location: "Belfast",
 				capability: "Engineering",
 				band: "Band 1",
-				closingDate: "2025-12-31",
+				closingDate: "2099-12-31",
 				status: "Open",
 				numberOfOpenPositions: 3,
 			};
@@ -123,6 +124,39 @@ describe("ApplicationController", () => {
 			});
 		});
 
+		it("should return 404 for draft and scheduled job roles", async () => {
+			const draftJobRole: JobRoleDetailedResponse = {
+				jobRoleId: 1,
+				roleName: "Software Engineer",
+				description: "Test description",
+				responsibilities: "Test responsibilities",
+				jobSpecLink: "http://example.com",
+				location: "Belfast",
+				capability: "Engineering",
+				band: "Band 1",
+				closingDate: "2099-12-31",
+				status: "Draft",
+				numberOfOpenPositions: 3,
+			};
+
+			for (const jobRole of [
+				draftJobRole,
+				{ ...draftJobRole, status: "Open", publishDate: "2099-01-01" },
+			]) {
+				vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(jobRole);
+
+				const req = createMockRequest({ id: "1" }) as Request;
+				const res = createMockResponse() as Response;
+
+				await controller.getApplicationForm(req, res);
+
+				expect(res.status).toHaveBeenCalledWith(404);
+				expect(res.render).toHaveBeenCalledWith("error.njk", {
+					message: expect.stringContaining("Job role not found"),
+				});
+			}
+		});
+
 		it("should return 400 if job role is closed", async () => {
 			const mockJobRole: JobRoleDetailedResponse = {
 				jobRoleId: 1,
@@ -133,7 +167,7 @@ describe("ApplicationController", () => {
 				location: "Belfast",
 				capability: "Engineering",
 				band: "Band 1",
-				closingDate: "2025-12-31",
+				closingDate: "2099-12-31",
 				status: "Closed",
 				numberOfOpenPositions: 0,
 			};
@@ -155,6 +189,38 @@ describe("ApplicationController", () => {
 			});
 		});
 
+		it("should return 400 if the closing date has passed even when the role is Open", async () => {
+			const mockJobRole: JobRoleDetailedResponse = {
+				jobRoleId: 1,
+				roleName: "Software Engineer",
+				description: "Test description",
+				responsibilities: "Test responsibilities",
+				jobSpecLink: "http://example.com",
+				location: "Belfast",
+				capability: "Engineering",
+				band: "Band 1",
+				closingDate: "2020-01-31",
+				status: "Open",
+				numberOfOpenPositions: 3,
+			};
+
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(
+				mockJobRole
+			);
+
+			const req = createMockRequest({ id: "1" }) as Request;
+			const res = createMockResponse() as Response;
+
+			await controller.getApplicationForm(req, res);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(res.render).toHaveBeenCalledWith("error.njk", {
+				message: expect.stringContaining(
+					"closing date for this job role has passed"
+				),
+			});
+		});
+
 		it("should auto-fill user data for authenticated users with AuthUser format", async () => {
 			const mockJobRole: JobRoleDetailedResponse = {
 				jobRoleId: 1,
@@ -165,7 +231,7 @@ describe("ApplicationController", () => {
 				location: "Belfast",
 				capability: "Engineering",
 				band: "Band 1",
-				closingDate: "2025-12-31",
+				closingDate: "2099-12-31",
 				status: "Open",
 				numberOfOpenPositions: 3,
 			};
@@ -215,7 +281,7 @@ describe("ApplicationController", () => {
 				location: "Belfast",
 				capability: "Engineering",
 				band: "Band 1",
-				closingDate: "2025-12-31",
+				closingDate: "2099-12-31",
 				status: "Open",
 				numberOfOpenPositions: 3,
 			};
@@ -264,7 +330,7 @@ describe("ApplicationController", () => {
 				location: "Belfast",
 				capability: "Engineering",
 				band: "Band 1",
-				closingDate: "2025-12-31",
+				closingDate: "2099-12-31",
 				status: "Open",
 				numberOfOpenPositions: 3,
 			};
@@ -340,7 +406,7 @@ describe("ApplicationController", () => {
 			originalname: "resume.pdf",
 			encoding: "7bit",
 			mimetype: "application/pdf",
-			buffer: Buffer.from("test"),
+			buffer: Buffer.from("%PDF-1.4\n%%EOF\n"),
 			size: 1024,
 			stream: null as never,
 			destination: "",
@@ -358,7 +424,7 @@ describe("ApplicationController", () => {
 				location: "Belfast",
 				capability: "Engineering",
 				band: "Band 1",
-				closingDate: "2025-12-31",
+				closingDate: "2099-12-31",
 				status: "Open",
 				numberOfOpenPositions: 3,
 			};
@@ -482,6 +548,44 @@ describe("ApplicationController", () => {
 			});
 		});
 
+		it("should reject submissions after the closing date even when the role is Open", async () => {
+			const mockJobRole: JobRoleDetailedResponse = {
+				jobRoleId: 1,
+				roleName: "Software Engineer",
+				description: "Test description",
+				responsibilities: "Test responsibilities",
+				jobSpecLink: "http://example.com",
+				location: "Belfast",
+				capability: "Engineering",
+				band: "Band 1",
+				closingDate: "2020-01-31",
+				status: "Open",
+				numberOfOpenPositions: 3,
+			};
+
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(
+				mockJobRole
+			);
+
+			const mockBody = {
+				applicantName: "John Doe",
+				applicantEmail: "john.doe@example.com",
+			};
+
+			const req = createMockRequest({ id: "1" }, mockBody, mockFile) as Request;
+			const res = createMockResponse() as Response;
+
+			await controller.submitApplication(req, res);
+
+			expect(mockApplicationService.submitApplication).not.toHaveBeenCalled();
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(res.render).toHaveBeenCalledWith("error.njk", {
+				message: expect.stringContaining(
+					"closing date for this job role has passed"
+				),
+			});
+		});
+
 		it("should handle missing cover letter gracefully", async () => {
 			const mockJobRole: JobRoleDetailedResponse = {
 				jobRoleId: 1,
@@ -492,7 +596,7 @@ describe("ApplicationController", () => {
 				location: "Belfast",
 				capability: "Engineering",
 				band: "Band 1",
-				closingDate: "2025-12-31",
+				closingDate: "2099-12-31",
 				status: "Open",
 				numberOfOpenPositions: 3,
 			};
@@ -551,7 +655,7 @@ describe("ApplicationController", () => {
 			band: "Associate",
 			status: "Open",
 			numberOfOpenPositions: 5,
-			closingDate: "2025-12-31",
+			closingDate: "2099-12-31",
 		};
 
 		const mockApplicantsResponse = {
@@ -607,12 +711,25 @@ describe("ApplicationController", () => {
 			expect(mockJobRoleService.getJobRoleById).toHaveBeenCalledWith(1);
 			expect(
 				mockApplicationService.getApplicantsByJobRole
-			).toHaveBeenCalledWith(1, 1, 10);
+			).toHaveBeenCalledWith(1, 1, 10, {
+				sort: "submittedAt",
+				order: "desc",
+			});
 			expect(res.render).toHaveBeenCalledWith("job-applicants-list.njk", {
 				applicants: mockApplicantsResponse.applicants,
 				pagination: mockApplicantsResponse.pagination,
+				paginationUrls: expect.objectContaining({
+					first:
+						"/job-roles/1/applicants?page=1&limit=10&sort=submittedAt&order=desc",
+				}),
 				jobRole: mockApplicantsResponse.jobRole,
 				currentPage: 1,
+				limit: 10,
+				applicantQuery: { sort: "submittedAt", order: "desc" },
+				statusTransitions: expect.any(Object),
+				statusLabels: expect.any(Object),
+				success: undefined,
+				error: undefined,
 			});
 		});
 
@@ -636,7 +753,85 @@ describe("ApplicationController", () => {
 
 			expect(
 				mockApplicationService.getApplicantsByJobRole
-			).toHaveBeenCalledWith(1, 2, 5);
+			).toHaveBeenCalledWith(1, 2, 5, {
+				sort: "submittedAt",
+				order: "desc",
+			});
+		});
+
+		it("should pass sort and filter parameters to the service", async () => {
+			const req = createMockRequest({ id: "1" }, {}, undefined, {
+				sort: "name",
+				order: "asc",
+				status: "Under Review",
+				search: "  jane ",
+			});
+			const res = createMockResponse();
+
+			(
+				mockJobRoleService.getJobRoleById as ReturnType<typeof vi.fn>
+			).mockResolvedValue(mockJobRole);
+			(
+				mockApplicationService.getApplicantsByJobRole as ReturnType<
+					typeof vi.fn
+				>
+			).mockResolvedValue({
+				...mockApplicantsResponse,
+				pagination: {
+					...mockApplicantsResponse.pagination,
+					totalPages: 3,
+				},
+			});
+
+			await controller.getApplicants(req as Request, res as Response);
+
+			expect(
+				mockApplicationService.getApplicantsByJobRole
+			).toHaveBeenCalledWith(1, 1, 10, {
+				sort: "name",
+				order: "asc",
+				status: "under_review",
+				search: "jane",
+			});
+			expect(res.render).toHaveBeenCalledWith(
+				"job-applicants-list.njk",
+				expect.objectContaining({
+					paginationUrls: expect.objectContaining({
+						next: "/job-roles/1/applicants?page=2&limit=10&sort=name&order=asc&status=under_review&search=jane",
+					}),
+				})
+			);
+		});
+
+		it("should return 400 for an invalid sort parameter", async () => {
+			const req = createMockRequest({ id: "1" }, {}, undefined, {
+				sort: "salary",
+			});
+			const res = createMockResponse();
+
+			await controller.getApplicants(req as Request, res as Response);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(res.render).toHaveBeenCalledWith("error.njk", {
+				message: "Sort must be one of: name, submittedAt, status",
+			});
+			expect(
+				mockApplicationService.getApplicantsByJobRole
+			).not.toHaveBeenCalled();
+		});
+
+		it("should return 400 for an unknown status filter", async () => {
+			const req = createMockRequest({ id: "1" }, {}, undefined, {
+				status: "archived",
+			});
+			const res = createMockResponse();
+
+			await controller.getApplicants(req as Request, res as Response);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(res.render).toHaveBeenCalledWith("error.njk", {
+				message: "Invalid status filter",
+			});
 		});
 
 		it("should return 400 for invalid job role ID", async () => {
@@ -3,28 +3,147 @@
  */
 
 import type { Request, Response } from "express";
+import {
+	authoriseApplication,
+	getAuthorisedApplication,
+	isApplicationOwner,
+} from "../middleware/application-access-middleware.js";
+import {
+	getSessionUserEmail,
+	getSessionUserId,
+} from "../middleware/auth-middleware.js";
+import type {
+	ApplicantDisplay,
+	ApplicantsQueryOptions,
+} from "../models/applicant-display.js";
+import type {
+	ApplicationDraft,
+	ApplicationDraftItem,
+} from "../models/application-draft.js";
 import type { ApplicationResponse } from "../models/application-request.js";
+import type { ApplicationDraftStore } from "../services/application-draft-store.js";
 import type { ApplicationService } from "../services/application-service.js";
+import type { CvScanner } from "../services/cv-scanner.js";
 import type { JobRoleService } from "../services/job-role-service.js";
+import { validateApplicantQueryParams } from "../utils/applicant-query.js";
+import {
+	APPLICATION_DRAFT_AUTOSAVE_SECONDS,
+	buildApplicationDraftItem,
+	isAcceptingApplications,
+	isApplicationDraftEmpty,
+	validateApplicationDraftContent,
+} from "../utils/application-draft.js";
+import {
+	APPLICATION_STATUS_LABELS,
+	APPLICATION_STATUS_TRANSITIONS,
+	isValidStatusTransition,
+	normaliseApplicationStatus,
+} from "../utils/application-status.js";
 import { validateApplicationData } from "../utils/application-validator.js";
+import { isClosingDatePassed } from "../utils/closing-date.js";
+import {
+	buildCvContentDisposition,
+	inspectCvFile,
+	validateCvFileContent,
+} from "../utils/cv-file-inspection.js";
+import { convertDocxToHtml } from "../utils/docx-preview.js";
+import {
+	countDuplicateApplications,
+	findActiveApplication,
+	isActiveApplication,
+	normaliseApplicantEmail,
+} from "../utils/duplicate-applications.js";
+import { isJobRolePublished } from "../utils/job-role-visibility.js";
+import { getSafeReturnPath } from "../utils/redirect.js";
+import {
+	buildApplicantsPaginationUrls,
+	buildApplicantsQueryString,
+} from "../utils/url-builder.js";
 import { validateJobRoleId } from "../utils/validation.js";
 
+/**
+ * Number of applicants requested per backend call when exporting
+ */
+const EXPORT_PAGE_SIZE = 100;
+
+const DUPLICATE_APPLICATION_MESSAGE =
+	"An application from this email address is already in progress for this job role. Log in with that email address to update your existing application instead of applying again.";
+
+const DUPLICATE_APPLICATION_NOTICE =
+	"You have already applied for this job role, so we've opened your existing application. You can update your cover letter or CV below instead of applying again.";
+
+const CLOSING_DATE_PASSED_MESSAGE =
+	"The closing date for this job role has passed, so it is no longer accepting applications. Please browse other opportunities.";
+
+const CV_INFECTED_MESSAGE =
+	"Your CV failed our virus check, so we can't accept it. Please scan your device and upload a clean copy.";
+
+const CV_SCAN_UNAVAILABLE_MESSAGE =
+	"We couldn't check your CV for viruses at the moment. Please try again in a few minutes.";
+
+/**
+ * Outcome of checking an uploaded CV before it is forwarded
+ * file is the copy to forward when the check passed
+ */
+interface CvUploadCheckResult {
+	statusCode: number;
+	message?: string;
+	file?: Express.Multer.File;
+}
+
+/**
+ * How an applicant's CV is shown on the preview page
+ * pdf is embedded from the inline CV endpoint, docx carries converted HTML,
+ * unsupported and unavailable fall back to a download link, external links
+ * to a CV hosted elsewhere and none means nothing was provided
+ */
+interface CvPreview {
+	kind: "pdf" | "docx" | "unsupported" | "unavailable" | "external" | "none";
+	html?: string;
+}
+
+/**
+ * An applicant and the page of the applicants list they appear on
+ */
+interface ApplicantOnPage {
+	applicant: ApplicantDisplay;
+	page: number;
+}
+
+/**
+ * Outcome of an admin status change, shared by the AJAX and form handlers
+ */
+interface StatusChangeResult {
+	statusCode: number;
+	message: string;
+	application?: ApplicationResponse;
+	jobRoleId?: number;
+}
+
 export class ApplicationController {
 	private applicationService: ApplicationService;
 	private jobRoleService: JobRoleService;
+	private draftStore: ApplicationDraftStore | null;
+	private cvScanner: CvScanner | null;
 
 	constructor(
 		applicationService: ApplicationService,
-		jobRoleService: JobRoleService
+		jobRoleService: JobRoleService,
+		draftStore: ApplicationDraftStore | null = null,
+		cvScanner: CvScanner | null = null
 	) {
 		this.applicationService = applicationService;
 		this.jobRoleService = jobRoleService;
+		this.draftStore = draftStore;
+		this.cvScanner = cvScanner;
 	}
 
 	/**
 	 * GET /job-roles/:id/apply
 	 * Renders the application form for a specific job role
 	 * Supports edit mode via ?edit=applicationId query parameter
+	 * Signed-in users with a saved draft are offered to continue it, and
+	 * ?draft=resume fills the form from the draft
 	 */
 	public getApplicationForm = async (
 		req: Request,
@@ -45,7 +164,8 @@ export class ApplicationController {
 			// Fetch job role to verify it exists and check eligibility
 			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
 
-			if (!jobRole) {
+			// Drafts and scheduled roles cannot be applied for until published
+			if (!jobRole || !isJobRolePublished(jobRole)) {
 				res.status(404).render("error.njk", {
 					message:
 						"Job role not found. The role you're looking for may have been removed or doesn't exist.",
@@ -53,45 +173,36 @@ export class ApplicationController {
 				return;
 			}
 
-			// Check for edit mode
-			const editId = req.query["edit"];
-			let existingApplication = null;
-
-			if (editId) {
-				const applicationId =
-					typeof editId === "string" ? Number.parseInt(editId, 10) : null;
+			// Reject once the closing date has passed, even if the role is still Open
+			if (isClosingDatePassed(jobRole.closingDate)) {
+				res.status(400).render("error.njk", {
+					message: CLOSING_DATE_PASSED_MESSAGE,
+				});
+				return;
+			}
 
-				if (applicationId && !Number.isNaN(applicationId)) {
-					try {
-						existingApplication =
-							await this.applicationService.getApplicationById(applicationId);
-
-						// Verify the application belongs to this job role
-						if (existingApplication.jobRoleId !== jobRoleId) {
-							res.status(400).render("error.njk", {
-								message: "This application does not belong to this job role.",
-							});
-							return;
-						}
+			// Check for edit mode; only the candidate who applied may edit
+			const editId = req.query["edit"];
+			let existingApplication: ApplicationResponse | null = null;
+
+			if (editId !== undefined) {
+				existingApplication = await authoriseApplication(
+					this.applicationService,
+					req,
+					res,
+					editId,
+					"edit"
+				);
+				if (!existingApplication) {
+					return;
+				}
 
-						// Verify the application belongs to the current user
-						if (req.session["user"]) {
-							const userEmail = req.session["user"].email;
-							if (existingApplication.applicantEmail !== userEmail) {
-								res.status(403).render("error.njk", {
-									message:
-										"You do not have permission to edit this application.",
-								});
-								return;
-							}
-						}
-					} catch (error) {
-						console.error("Error fetching application for edit:", error);
-						res.status(404).render("error.njk", {
-							message: "Application not found or could not be loaded.",
-						});
-						return;
-					}
+				// Verify the application belongs to this job role
+				if (existingApplication.jobRoleId !== jobRoleId) {
+					res.status(400).render("error.njk", {
+						message: "This application does not belong to this job role.",
+					});
+					return;
 				}
 			}
 
@@ -124,11 +235,32 @@ export class ApplicationController {
 					}
 				: null;
 
+			// Drafts are only kept for new applications by signed-in users
+			const userId = getSessionUserId(req);
+			const canSaveDraft =
+				!existingApplication && !!this.draftStore && !!userId;
+			const draft =
+				canSaveDraft && userId
+					? await this.getDraftSafely(userId, jobRoleId)
+					: null;
+
 			res.render("job-application-form.njk", {
 				jobRole,
 				user: userData,
 				existingApplication,
 				isEditMode: !!existingApplication,
+				...(canSaveDraft
+					? {
+							canSaveDraft,
+							autosaveSeconds: APPLICATION_DRAFT_AUTOSAVE_SECONDS,
+						}
+					: {}),
+				...(draft
+					? { draft, isDraftResumed: req.query["draft"] === "resume" }
+					: {}),
+				...(existingApplication && req.query["duplicate"] === "1"
+					? { notice: DUPLICATE_APPLICATION_NOTICE }
+					: {}),
 			});
 
 			if (existingApplication) {
@@ -170,20 +302,30 @@ export class ApplicationController {
 				return;
 			}
 
-			// Check if this is an update (edit mode)
+			// Check if this is an update (edit mode); only the candidate who
+			// applied may edit, and only their application for this role
 			const editId = req.body["editApplicationId"] as string | undefined;
 			const isEditMode = !!editId;
 			let applicationId: number | null = null;
 
 			if (isEditMode) {
-				applicationId =
-					typeof editId === "string" ? Number.parseInt(editId, 10) : null;
-				if (!applicationId || Number.isNaN(applicationId)) {
+				const existingApplication = await authoriseApplication(
+					this.applicationService,
+					req,
+					res,
+					editId,
+					"edit"
+				);
+				if (!existingApplication) {
+					return;
+				}
+				if (existingApplication.jobRoleId !== jobRoleId) {
 					res.status(400).render("error.njk", {
-						message: "Invalid application ID for edit.",
+						message: "This application does not belong to this job role.",
 					});
 					return;
 				}
+				applicationId = existingApplication.applicationId;
 			}
 
 			// Extract form data
@@ -213,7 +355,7 @@ export class ApplicationController {
 			// Verify job role exists and is open (skip open check for edit mode)
 			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
 
-			if (!jobRole) {
+			if (!jobRole || !isJobRolePublished(jobRole)) {
 				res.status(404).render("error.njk", {
 					message:
 						"Job role not found. The role you're applying for may have been removed.",
@@ -230,6 +372,43 @@ export class ApplicationController {
 				isEditMode,
 			});
 
+			// Reject once the closing date has passed, even if the role is still Open
+			if (isClosingDatePassed(jobRole.closingDate)) {
+				res.status(400).render("error.njk", {
+					message: CLOSING_DATE_PASSED_MESSAGE,
+				});
+				return;
+			}
+
+			// One active application per candidate and role: send the owner to
+			// the edit flow rather than creating a second application
+			if (!isEditMode) {
+				const duplicate = await this.findDuplicateApplication(
+					jobRoleId,
+					applicantEmail as string
+				);
+
+				if (duplicate) {
+					const sessionEmail = normaliseApplicantEmail(
+						req.session?.user?.email
+					);
+					if (
+						sessionEmail &&
+						sessionEmail === normaliseApplicantEmail(duplicate.applicantEmail)
+					) {
+						res.redirect(
+							`/job-roles/${jobRoleId}/apply?edit=${duplicate.applicationId}&duplicate=1`
+						);
+						return;
+					}
+
+					res.status(409).render("error.njk", {
+						message: DUPLICATE_APPLICATION_MESSAGE,
+					});
+					return;
+				}
+			}
+
 			// Only check eligibility for new applications, not edits
 			if (
 				!isEditMode &&
@@ -253,13 +432,26 @@ export class ApplicationController {
 				return;
 			}
 
+			// Check the CV's contents and scan it before it leaves this server
+			let cvUpload = cvFile;
+			if (cvFile) {
+				const cvCheck = await this.checkCvUpload(cvFile);
+				if (!cvCheck.file) {
+					res.status(cvCheck.statusCode).render("error.njk", {
+						message: cvCheck.message,
+					});
+					return;
+				}
+				cvUpload = cvCheck.file;
+			}
+
 			// Submit or update the application
 			let application: ApplicationResponse;
 			if (isEditMode && applicationId) {
 				application = await this.applicationService.updateApplication(
 					applicationId,
 					coverLetter,
-					cvFile
+					cvUpload
 				);
 			} else {
 				application = await this.applicationService.submitApplication(
@@ -267,10 +459,15 @@ export class ApplicationController {
 					applicantName as string,
 					applicantEmail as string,
 					coverLetter,
-					cvFile
+					cvUpload
 				);
 			}
 
+			// The draft is no longer needed once the application is in
+			if (!isEditMode) {
+				await this.discardSubmittedDraft(req, jobRoleId);
+			}
+
 			// Render success page
 			res.render("application-success.njk", {
 				application,
@@ -316,6 +513,7 @@ export class ApplicationController {
 	/**
 	 * GET /job-roles/:id/applicants
 	 * Renders the applicants list for a specific job role
+	 * Supports page, limit, sort (name|submittedAt|status), order, status and search query parameters
 	 */
 	public getApplicants = async (req: Request, res: Response): Promise<void> => {
 		try {
@@ -342,6 +540,23 @@ export class ApplicationController {
 				return;
 			}
 
+			// Validate sort and filter parameters
+			const queryValidation = validateApplicantQueryParams(
+				req.query["sort"] as string | undefined,
+				req.query["order"] as string | undefined,
+				req.query["status"] as string | undefined,
+				req.query["search"] as string | undefined
+			);
+
+			if (!queryValidation.isValid) {
+				res.status(400).render("error.njk", {
+					message: queryValidation.error,
+				});
+				return;
+			}
+
+			const applicantQuery = queryValidation.options;
+
 			// Fetch job role to verify it exists
 			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
 
@@ -357,14 +572,38 @@ export class ApplicationController {
 				await this.applicationService.getApplicantsByJobRole(
 					jobRoleId,
 					page,
-					limit
+					limit,
+					applicantQuery
 				);
 
+			const paginationUrls = buildApplicantsPaginationUrls(
+				`/job-roles/${jobRoleId}/applicants`,
+				applicantsData.pagination.currentPage,
+				applicantsData.pagination.totalPages,
+				limit,
+				applicantQuery
+			);
+
+			const duplicateCounts = await this.getDuplicateCounts(
+				jobRoleId,
+				applicantsData.applicants,
+				applicantQuery,
+				applicantsData.pagination.totalPages
+			);
+
 			res.render("job-applicants-list.njk", {
 				applicants: applicantsData.applicants,
 				pagination: applicantsData.pagination,
+				paginationUrls,
 				jobRole: applicantsData.jobRole,
 				currentPage: page,
+				limit,
+				applicantQuery,
+				statusTransitions: APPLICATION_STATUS_TRANSITIONS,
+				statusLabels: APPLICATION_STATUS_LABELS,
+				success: req.query["success"],
+				error: req.query["error"],
+				...(Object.keys(duplicateCounts).length > 0 ? { duplicateCounts } : {}),
 			});
 		} catch (error) {
 			console.error("Error in ApplicationController.getApplicants:", error);
@@ -390,6 +629,108 @@ export class ApplicationController {
 		}
 	};
 
+	/**
+	 * GET /admin/job-roles/:id/applicants/export
+	 * Exports every applicant for a job role as CSV (default) or XLSX (?format=xlsx)
+	 * Honours the same status, search and sort parameters as the applicants list
+	 */
+	public exportApplicants = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		try {
+			const jobRoleId = validateJobRoleId(req.params["id"]);
+
+			if (jobRoleId === null) {
+				res.status(400).render("error.njk", {
+					message:
+						"Invalid job role ID provided. Please provide a valid numeric ID.",
+				});
+				return;
+			}
+
+			const format = ((req.query["format"] as string) || "csv").toLowerCase();
+
+			if (format !== "csv" && format !== "xlsx") {
+				res.status(400).render("error.njk", {
+					message: "Export format must be either csv or xlsx.",
+				});
+				return;
+			}
+
+			const queryValidation = validateApplicantQueryParams(
+				req.query["sort"] as string | undefined,
+				req.query["order"] as string | undefined,
+				req.query["status"] as string | undefined,
+				req.query["search"] as string | undefined
+			);
+
+			if (!queryValidation.isValid) {
+				res.status(400).render("error.njk", {
+					message: queryValidation.error,
+				});
+				return;
+			}
+
+			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+
+			if (!jobRole) {
+				res.status(404).render("error.njk", {
+					message: "Job role not found.",
+				});
+				return;
+			}
+
+			const applicants = await this.fetchAllApplicants(
+				jobRoleId,
+				queryValidation.options
+			);
+
+			console.log(
+				`Exporting ${applicants.length} applicant(s) for job role ${jobRoleId} to ${format.toUpperCase()}`
+			);
+
+			const {
+				APPLICANT_EXPORT_HEADERS,
+				applicantToExportFields,
+				applicantsToCsv,
+				generateCsvFilename,
+			} = await import("../utils/csv-export.js");
+			const filename = generateCsvFilename(
+				`job-role-${jobRoleId}-applicants`,
+				format
+			);
+
+			res.setHeader(
+				"Content-Disposition",
+				`attachment; filename="${filename}"`
+			);
+
+			if (format === "xlsx") {
+				const { createXlsxWorkbook, XLSX_CONTENT_TYPE } = await import(
+					"../utils/xlsx-export.js"
+				);
+				res.setHeader("Content-Type", XLSX_CONTENT_TYPE);
+				res.send(
+					createXlsxWorkbook("Applicants", [
+						APPLICANT_EXPORT_HEADERS,
+						...applicants.map(applicantToExportFields),
+					])
+				);
+				return;
+			}
+
+			res.setHeader("Content-Type", "text/csv");
+			res.send(applicantsToCsv(applicants));
+		} catch (error) {
+			console.error("Error in ApplicationController.exportApplicants:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't export the applicants at this time. Please try again later.",
+			});
+		}
+	};
+
 	/**
 	 * GET /applications/:id/cv
 	 * Downloads CV file for a specific application (proxy to backend)
@@ -414,7 +755,11 @@ export class ApplicationController {
 			res.setHeader("Content-Type", cvData.mimeType);
 			res.setHeader(
 				"Content-Disposition",
-				`attachment; filename="${cvData.fileName}"`
+				buildCvContentDisposition(
+					"attachment",
+					cvData.fileName,
+					inspectCvFile(cvData.buffer).type
+				)
 			);
 			res.setHeader("Content-Length", cvData.buffer.length);
 
@@ -438,6 +783,185 @@ export class ApplicationController {
 		}
 	};
 
+	/**
+	 * GET /applications/:id/cv/inline
+	 * Streams a PDF CV for viewing in the browser rather than downloading it
+	 * Other formats are refused, as browsers can't display them inline
+	 */
+	public viewCvInline = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const applicationId = validateJobRoleId(req.params["id"]);
+
+			if (applicationId === null) {
+				res.status(400).render("error.njk", {
+					message: "Invalid application ID provided.",
+				});
+				return;
+			}
+
+			const cvData =
+				await this.applicationService.downloadApplicationCv(applicationId);
+
+			// Trust the contents rather than the stored MIME type, so nothing
+			// other than a PDF is ever rendered by the browser
+			if (inspectCvFile(cvData.buffer).type !== "pdf") {
+				res
+					.status(415)
+					.send(
+						"Only PDF CVs can be viewed in the browser. Please download it."
+					);
+				return;
+			}
+
+			res.setHeader("Content-Type", "application/pdf");
+			res.setHeader(
+				"Content-Disposition",
+				buildCvContentDisposition("inline", cvData.fileName, "pdf")
+			);
+			res.setHeader("Content-Length", cvData.buffer.length);
+			res.setHeader("X-Content-Type-Options", "nosniff");
+			res.setHeader("Cache-Control", "private, no-store");
+
+			res.send(cvData.buffer);
+		} catch (error) {
+			console.error("Error in ApplicationController.viewCvInline:", error);
+
+			if (error instanceof Error && error.message.includes("CV not found")) {
+				res.status(404).send("CV not found for this application");
+				return;
+			}
+
+			res
+				.status(500)
+				.send(
+					"Sorry, we couldn't load the CV at this time. Please try again later."
+				);
+		}
+	};
+
+	/**
+	 * GET /job-roles/:id/applicants/:applicationId/cv
+	 * Renders a viewer page for an applicant's CV with links to the previous
+	 * and next applicants, following the list's sort and filter parameters
+	 */
+	public getCvPreview = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const jobRoleId = validateJobRoleId(req.params["id"]);
+			const applicationId = validateJobRoleId(req.params["applicationId"]);
+
+			if (jobRoleId === null || applicationId === null) {
+				res.status(400).render("error.njk", {
+					message: "Invalid job role or application ID provided.",
+				});
+				return;
+			}
+
+			// The list page the preview was opened from
+			const page = Number.parseInt(req.query["page"] as string, 10) || 1;
+			const limit = Number.parseInt(req.query["limit"] as string, 10) || 10;
+
+			if (page < 1 || limit < 1 || limit > 50) {
+				res.status(400).render("error.njk", {
+					message: "Invalid pagination parameters.",
+				});
+				return;
+			}
+
+			const queryValidation = validateApplicantQueryParams(
+				req.query["sort"] as string | undefined,
+				req.query["order"] as string | undefined,
+				req.query["status"] as string | undefined,
+				req.query["search"] as string | undefined
+			);
+
+			if (!queryValidation.isValid) {
+				res.status(400).render("error.njk", {
+					message: queryValidation.error,
+				});
+				return;
+			}
+
+			const applicantQuery = queryValidation.options;
+			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+
+			if (!jobRole) {
+				res.status(404).render("error.njk", {
+					message: "Job role not found.",
+				});
+				return;
+			}
+
+			const listPage = await this.applicationService.getApplicantsByJobRole(
+				jobRoleId,
+				page,
+				limit,
+				applicantQuery
+			);
+			const applicants = listPage.applicants;
+			const index = applicants.findIndex(
+				(applicant) => applicant.applicationId === applicationId
+			);
+			const applicant = applicants[index];
+
+			if (!applicant) {
+				res.status(404).render("error.njk", {
+					message: "Applicant not found for this job role.",
+				});
+				return;
+			}
+
+			// Neighbours come from this page, or from the adjacent page at its edges
+			const before = applicants[index - 1];
+			const after = applicants[index + 1];
+			const previous = before
+				? { applicant: before, page }
+				: listPage.pagination.hasPreviousPage
+					? await this.getApplicantOnPage(
+							jobRoleId,
+							page - 1,
+							limit,
+							applicantQuery,
+							"last"
+						)
+					: null;
+			const next = after
+				? { applicant: after, page }
+				: listPage.pagination.hasNextPage
+					? await this.getApplicantOnPage(
+							jobRoleId,
+							page + 1,
+							limit,
+							applicantQuery,
+							"first"
+						)
+					: null;
+			const queryString = buildApplicantsQueryString(applicantQuery);
+			const listQuery = (listPageNumber: number) =>
+				`?page=${listPageNumber}&limit=${limit}${queryString}`;
+			const previewUrl = (neighbour: ApplicantOnPage | null) =>
+				neighbour
+					? `/job-roles/${jobRoleId}/applicants/${neighbour.applicant.applicationId}/cv${listQuery(neighbour.page)}`
+					: null;
+
+			res.render("applicant-cv-preview.njk", {
+				jobRole,
+				applicant,
+				position: (page - 1) * limit + index + 1,
+				totalApplicants: listPage.pagination.totalApplicants,
+				previousUrl: previewUrl(previous),
+				nextUrl: previewUrl(next),
+				applicantsUrl: `/job-roles/${jobRoleId}/applicants${listQuery(page)}`,
+				preview: await this.loadCvPreview(applicant),
+			});
+		} catch (error) {
+			console.error("Error in ApplicationController.getCvPreview:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't load this CV preview at this time. Please try again later.",
+			});
+		}
+	};
+
 	/**
 	 * GET /applications
 	 * Renders the user's applications page with filtering and search
@@ -529,11 +1053,19 @@ export class ApplicationController {
 				"apps"
 			);
 
+			const userId = getSessionUserId(req);
+			const drafts =
+				this.draftStore && userId ? await this.getDraftItems(userId) : null;
+
 			res.render("my-applications.njk", {
 				applications,
 				statusFilter,
 				searchQuery,
 				sortBy,
+				...(drafts ? { drafts } : {}),
+				...(req.query["draft"] === "discarded"
+					? { draftMessage: "Your draft application has been discarded." }
+					: {}),
 			});
 		} catch (error) {
 			console.error(
@@ -562,7 +1094,7 @@ export class ApplicationController {
 				return;
 			}
 
-			const userEmail = req.session["user"].email;
+			const userEmail = getSessionUserEmail(req);
 			const id = req.params["id"];
 			const applicationId = validateJobRoleId(id); // Reusing validation logic
 
@@ -573,21 +1105,24 @@ export class ApplicationController {
 				return;
 			}
 
-			// First, get the application to verify ownership and status
-			let existingApplication: ApplicationResponse;
-			try {
-				existingApplication =
-					await this.applicationService.getApplicationById(applicationId);
-			} catch (_error) {
-				res.status(404).json({
-					success: false,
-					message: "Application not found",
-				});
-				return;
+			// Routed requests arrive with the application the access policy
+			// loaded; otherwise get it to verify ownership and status
+			let existingApplication = getAuthorisedApplication(res);
+			if (!existingApplication) {
+				try {
+					existingApplication =
+						await this.applicationService.getApplicationById(applicationId);
+				} catch (_error) {
+					res.status(404).json({
+						success: false,
+						message: "Application not found",
+					});
+					return;
+				}
 			}
 
 			// Verify the application belongs to the current user
-			if (existingApplication.applicantEmail !== userEmail) {
+			if (userEmail === null || !isApplicationOwner(req, existingApplication)) {
 				res.status(403).json({
 					success: false,
 					message: "You do not have permission to withdraw this application",
@@ -650,4 +1185,508 @@ export class ApplicationController {
 			});
 		}
 	};
+
+	/**
+	 * PATCH /applications/:id/status
+	 * Moves an application to the next pipeline status (AJAX, admin only)
+	 */
+	public updateApplicationStatus = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		try {
+			const result = await this.changeApplicationStatus(
+				req.params["id"],
+				req.body?.["status"]
+			);
+
+			res.status(result.statusCode).json({
+				success: result.statusCode === 200,
+				message: result.message,
+				data: result.application,
+			});
+		} catch (error) {
+			console.error(
+				"Error in ApplicationController.updateApplicationStatus:",
+				error
+			);
+			res.status(500).json({
+				success: false,
+				message:
+					error instanceof Error
+						? error.message
+						: "Failed to update application status",
+			});
+		}
+	};
+
+	/**
+	 * POST /applications/:id/status
+	 * Handles status changes via form submission (without JavaScript)
+	 * Redirects back to the applicants list with a success/error indicator
+	 */
+	public updateApplicationStatusForm = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		const fallbackJobRoleId = validateJobRoleId(req.body?.["jobRoleId"]);
+
+		try {
+			const result = await this.changeApplicationStatus(
+				req.params["id"],
+				req.body?.["status"]
+			);
+
+			const jobRoleId = result.jobRoleId ?? fallbackJobRoleId;
+			const redirectBase =
+				jobRoleId !== null
+					? `/job-roles/${jobRoleId}/applicants`
+					: "/job-roles";
+
+			if (result.statusCode === 200) {
+				res.redirect(`${redirectBase}?success=status-updated`);
+				return;
+			}
+
+			const errorCode =
+				result.statusCode === 404
+					? "not-found"
+					: result.statusCode === 400
+						? "invalid-transition"
+						: "server-error";
+			res.redirect(`${redirectBase}?error=${errorCode}`);
+		} catch (error) {
+			console.error(
+				"Error in ApplicationController.updateApplicationStatusForm:",
+				error
+			);
+			res.redirect(
+				fallbackJobRoleId !== null
+					? `/job-roles/${fallbackJobRoleId}/applicants?error=server-error`
+					: "/job-roles?error=server-error"
+			);
+		}
+	};
+
+	/**
+	 * PUT /job-roles/:id/apply/draft
+	 * Autosaves the signed-in user's unfinished application (AJAX)
+	 * Saving empty content removes the draft
+	 */
+	public saveApplicationDraft = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		try {
+			const userId = getSessionUserId(req);
+			if (!userId) {
+				res.status(401).json({
+					success: false,
+					message: "Please log in to save a draft application.",
+				});
+				return;
+			}
+
+			if (!this.draftStore) {
+				res.status(404).json({
+					success: false,
+					message: "Draft applications are not available.",
+				});
+				return;
+			}
+
+			const jobRoleId = validateJobRoleId(req.params["id"]);
+			if (jobRoleId === null) {
+				res.status(400).json({
+					success: false,
+					message: "Invalid job role ID",
+				});
+				return;
+			}
+
+			const validation = validateApplicationDraftContent(req.body);
+			if (!validation.isValid) {
+				res.status(400).json({
+					success: false,
+					message: validation.error ?? "Invalid draft content",
+				});
+				return;
+			}
+
+			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+			if (!jobRole || !isJobRolePublished(jobRole)) {
+				res.status(404).json({
+					success: false,
+					message: "Job role not found",
+				});
+				return;
+			}
+
+			if (!isAcceptingApplications(jobRole)) {
+				res.status(400).json({
+					success: false,
+					message: "This job role is no longer accepting applications.",
+				});
+				return;
+			}
+
+			if (isApplicationDraftEmpty(validation.content)) {
+				await this.draftStore.deleteDraft(userId, jobRoleId);
+				res.json({ success: true, message: "Draft cleared", saved: false });
+				return;
+			}
+
+			const draft = await this.draftStore.saveDraft(
+				userId,
+				jobRoleId,
+				validation.content
+			);
+			res.json({
+				success: true,
+				message: "Draft saved",
+				saved: true,
+				updatedAt: draft.updatedAt,
+			});
+		} catch (error) {
+			console.error(
+				"Error in ApplicationController.saveApplicationDraft:",
+				error
+			);
+			res.status(500).json({
+				success: false,
+				message:
+					"Sorry, we couldn't save your draft at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * POST /job-roles/:id/apply/draft/delete
+	 * Discards the signed-in user's draft for a job role via form submission
+	 * Redirects to the returnTo page, or the applications page
+	 */
+	public deleteApplicationDraft = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		const userId = getSessionUserId(req);
+		if (!userId) {
+			res.redirect("/login");
+			return;
+		}
+
+		try {
+			const jobRoleId = validateJobRoleId(req.params["id"]);
+			if (jobRoleId !== null && this.draftStore) {
+				await this.draftStore.deleteDraft(userId, jobRoleId);
+			}
+
+			res.redirect(
+				getSafeReturnPath(req.body?.returnTo, "/applications?draft=discarded")
+			);
+		} catch (error) {
+			console.error(
+				"Error in ApplicationController.deleteApplicationDraft:",
+				error
+			);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't discard your draft at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * Collects every page of applicants for a job role, used by the export and
+	 * duplicate lookups
+	 */
+	private async fetchAllApplicants(
+		jobRoleId: number,
+		query: ApplicantsQueryOptions
+	): Promise<ApplicantDisplay[]> {
+		const applicants: ApplicantDisplay[] = [];
+		let page = 1;
+		let hasNextPage = true;
+
+		while (hasNextPage) {
+			const result = await this.applicationService.getApplicantsByJobRole(
+				jobRoleId,
+				page,
+				EXPORT_PAGE_SIZE,
+				query
+			);
+			applicants.push(...result.applicants);
+			hasNextPage = result.pagination.hasNextPage;
+			page++;
+		}
+
+		return applicants;
+	}
+
+	/**
+	 * Fetches the first or last applicant on a page of the applicants list,
+	 * used for the CV preview links across page boundaries
+	 */
+	private async getApplicantOnPage(
+		jobRoleId: number,
+		page: number,
+		limit: number,
+		query: ApplicantsQueryOptions,
+		position: "first" | "last"
+	): Promise<ApplicantOnPage | null> {
+		const { applicants } = await this.applicationService.getApplicantsByJobRole(
+			jobRoleId,
+			page,
+			limit,
+			query
+		);
+		const applicant =
+			position === "first" ? applicants[0] : applicants[applicants.length - 1];
+		return applicant ? { applicant, page } : null;
+	}
+
+	/**
+	 * Works out how to preview an applicant's CV
+	 * Uploads are stored with the extension of their detected format, so PDFs
+	 * are recognised by name without fetching them twice; anything else is
+	 * downloaded and inspected
+	 */
+	private async loadCvPreview(applicant: ApplicantDisplay): Promise<CvPreview> {
+		if (!applicant.hasCv) {
+			return { kind: applicant.resumeUrl ? "external" : "none" };
+		}
+		if (applicant.cvFileName?.toLowerCase().endsWith(".pdf")) {
+			return { kind: "pdf" };
+		}
+
+		try {
+			const cvData = await this.applicationService.downloadApplicationCv(
+				applicant.applicationId
+			);
+			const type = inspectCvFile(cvData.buffer).type;
+
+			if (type === "pdf") {
+				return { kind: "pdf" };
+			}
+			if (type === "docx") {
+				const html = convertDocxToHtml(cvData.buffer);
+				return html === null ? { kind: "unsupported" } : { kind: "docx", html };
+			}
+			return { kind: "unsupported" };
+		} catch (error) {
+			console.error("Error loading CV preview:", error);
+			return { kind: "unavailable" };
+		}
+	}
+
+	/**
+	 * Checks an uploaded CV's contents, then runs the malware scanner if one
+	 * is configured
+	 * Uploads are refused while the scanner is unavailable rather than
+	 * forwarded unscanned
+	 */
+	private async checkCvUpload(
+		file: Express.Multer.File
+	): Promise<CvUploadCheckResult> {
+		const validation = validateCvFileContent(file);
+		if (!validation.isValid || !validation.file) {
+			return {
+				statusCode: 400,
+				message: `Please correct the following errors: ${validation.error}`,
+			};
+		}
+
+		if (this.cvScanner) {
+			try {
+				const scan = await this.cvScanner.scan(validation.file.buffer);
+				if (!scan.isClean) {
+					console.warn("[ApplicationController] Rejected infected CV upload", {
+						threat: scan.threat,
+					});
+					return { statusCode: 400, message: CV_INFECTED_MESSAGE };
+				}
+			} catch (error) {
+				console.error("Error scanning CV upload:", error);
+				return { statusCode: 503, message: CV_SCAN_UNAVAILABLE_MESSAGE };
+			}
+		}
+
+		return { statusCode: 200, file: validation.file };
+	}
+
+	/**
+	 * Finds an active application for the same email address and job role
+	 * If the lookup fails the submission goes ahead, as the backend remains
+	 * the source of truth for applications
+	 */
+	private async findDuplicateApplication(
+		jobRoleId: number,
+		applicantEmail: string
+	): Promise<ApplicationResponse | null> {
+		try {
+			const applications = await this.applicationService.getUserApplications(
+				applicantEmail.trim()
+			);
+			return findActiveApplication(applications, jobRoleId, applicantEmail);
+		} catch (error) {
+			console.error("Error checking for duplicate applications:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Flags applicants with more than one active application for the role
+	 * Duplicates can span pages and filters, so unless the current page holds
+	 * every applicant, each email on the page is looked up on its own rather
+	 * than loading the whole list; failures only hide the flags
+	 */
+	private async getDuplicateCounts(
+		jobRoleId: number,
+		pageApplicants: ApplicantDisplay[],
+		query: ApplicantsQueryOptions,
+		totalPages: number
+	): Promise<Record<number, number>> {
+		try {
+			if (totalPages <= 1 && !query.status && !query.search) {
+				return countDuplicateApplications(pageApplicants);
+			}
+
+			const emails = new Set(
+				pageApplicants
+					.filter((applicant) => isActiveApplication(applicant.status))
+					.map((applicant) => normaliseApplicantEmail(applicant.applicantEmail))
+			);
+			// The search also matches names and longer emails, so only exact
+			// email matches are kept
+			const sameEmailApplicants = await Promise.all(
+				[...emails].map(async (email) =>
+					(await this.fetchAllApplicants(jobRoleId, { search: email })).filter(
+						(applicant) =>
+							normaliseApplicantEmail(applicant.applicantEmail) === email
+					)
+				)
+			);
+			return countDuplicateApplications(sameEmailApplicants.flat());
+		} catch (error) {
+			console.error("Error checking for duplicate applicants:", error);
+			return {};
+		}
+	}
+
+	/**
+	 * Validates and applies a status change against the pipeline transition table
+	 */
+	private async changeApplicationStatus(
+		idParam: string | undefined,
+		requestedStatus: unknown
+	): Promise<StatusChangeResult> {
+		const applicationId = validateJobRoleId(idParam); // Reusing validation for numeric IDs
+
+		if (applicationId === null) {
+			return { statusCode: 400, message: "Invalid application ID" };
+		}
+
+		const nextStatus =
+			typeof requestedStatus === "string"
+				? normaliseApplicationStatus(requestedStatus)
+				: null;
+
+		if (!nextStatus) {
+			return { statusCode: 400, message: "Invalid application status" };
+		}
+
+		let existingApplication: ApplicationResponse;
+		try {
+			existingApplication =
+				await this.applicationService.getApplicationById(applicationId);
+		} catch (_error) {
+			return { statusCode: 404, message: "Application not found" };
+		}
+
+		if (!isValidStatusTransition(existingApplication.status, nextStatus)) {
+			return {
+				statusCode: 400,
+				message: `Cannot change application status from ${existingApplication.status} to ${nextStatus}`,
+				jobRoleId: existingApplication.jobRoleId,
+			};
+		}
+
+		const application = await this.applicationService.updateApplicationStatus(
+			applicationId,
+			nextStatus
+		);
+
+		return {
+			statusCode: 200,
+			message: `Application status updated to ${APPLICATION_STATUS_LABELS[nextStatus]}`,
+			application,
+			jobRoleId: existingApplication.jobRoleId,
+		};
+	}
+
+	/**
+	 * Loads a user's draft for the application form
+	 * A failing draft store should not stop the form from loading
+	 */
+	private async getDraftSafely(
+		userId: string,
+		jobRoleId: number
+	): Promise<ApplicationDraft | null> {
+		try {
+			return (await this.draftStore?.getDraft(userId, jobRoleId)) ?? null;
+		} catch (error) {
+			console.error(`Error loading application draft ${jobRoleId}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Removes the draft for a job role after a successful submission
+	 * The application has already been sent, so failures are only logged
+	 */
+	private async discardSubmittedDraft(
+		req: Request,
+		jobRoleId: number
+	): Promise<void> {
+		const userId = getSessionUserId(req);
+		if (!userId || !this.draftStore) {
+			return;
+		}
+
+		try {
+			await this.draftStore.deleteDraft(userId, jobRoleId);
+		} catch (error) {
+			console.error(`Error discarding application draft ${jobRoleId}:`, error);
+		}
+	}
+
+	/**
+	 * Builds the drafts section of the applications page, most recent first
+	 * Roles that are no longer published are shown without their details
+	 */
+	private async getDraftItems(userId: string): Promise<ApplicationDraftItem[]> {
+		try {
+			const drafts = (await this.draftStore?.listDrafts(userId)) ?? [];
+			return await Promise.all(
+				drafts.map(async (draft) => {
+					let jobRole = null;
+					try {
+						jobRole = await this.jobRoleService.getJobRoleById(draft.jobRoleId);
+					} catch (error) {
+						console.error(
+							`Error loading job role ${draft.jobRoleId} for draft:`,
+							error
+						);
+					}
+					return buildApplicationDraftItem(
+						draft,
+						jobRole && isJobRolePublished(jobRole) ? jobRole : null
+					);
+				})
+			);
+		} catch (error) {
+			console.error("Error loading application drafts:", error);
+			return [];
+		}
+	}
 }
@@ -0,0 +1,276 @@
+/**
+ * Tests for JobRoleApiController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleApiController } from "./job-role-api-controller.js";
+
+describe("JobRoleApiController", () => {
+	let controller: JobRoleApiController;
+	let jobRoleService: JobRoleService;
+	let res: Response;
+
+	const openRole = {
+		jobRoleId: 1,
+		roleName: "Data Engineer",
+		location: "Belfast",
+		capability: "Data",
+		band: "Mid",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 1,
+	};
+	const draftRole = { ...openRole, jobRoleId: 2, status: "Draft" };
+
+	const page = {
+		data: [openRole, draftRole],
+		pagination: {
+			currentPage: 1,
+			totalPages: 1,
+			totalCount: 2,
+			limit: 12,
+			hasNext: false,
+			hasPrevious: false,
+		},
+	};
+
+	const createRequest = (
+		query: Record<string, string | string[]> = {},
+		params: Record<string, string> = {}
+	) => ({ query, params }) as unknown as Request;
+
+	beforeEach(() => {
+		jobRoleService = {
+			getJobRolesPaginated: vi.fn().mockResolvedValue(page),
+			searchJobRoles: vi.fn().mockResolvedValue(page),
+			searchJobRolesFullText: vi.fn().mockResolvedValue(page),
+			getJobRoleById: vi.fn(),
+			getFilterOptions: vi.fn().mockResolvedValue({
+				capabilities: ["Data"],
+				locations: ["Belfast"],
+				bands: ["Mid"],
+				statuses: ["Open"],
+			}),
+		} as unknown as JobRoleService;
+		controller = new JobRoleApiController(jobRoleService);
+		res = {
+			json: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	describe("listJobRoles", () => {
+		it("should return published job roles with pagination", async () => {
+			const publishedPage = {
+				data: [openRole],
+				pagination: { ...page.pagination, totalCount: 1 },
+			};
+			vi.mocked(jobRoleService.searchJobRoles).mockResolvedValue(publishedPage);
+
+			await controller.listJobRoles(createRequest(), res);
+
+			expect(jobRoleService.searchJobRoles).toHaveBeenCalledWith({
+				page: 1,
+				limit: 12,
+				publishedOnly: true,
+			});
+			expect(res.json).toHaveBeenCalledWith({
+				success: true,
+				...publishedPage,
+			});
+		});
+
+		it("should search with the same parameters as the HTML routes", async () => {
+			await controller.listJobRoles(
+				createRequest({
+					search: " engineer ",
+					location: ["Belfast", "Derry"],
+					sort: "closingDate",
+					order: "desc",
+					page: "1",
+					limit: "5",
+				}),
+				res
+			);
+
+			expect(jobRoleService.searchJobRoles).toHaveBeenCalledWith({
+				search: "engineer",
+				location: ["Belfast", "Derry"],
+				sort: "closingDate",
+				order: "desc",
+				page: 1,
+				limit: 5,
+				publishedOnly: true,
+			});
+			expect(jobRoleService.getJobRolesPaginated).not.toHaveBeenCalled();
+		});
+
+		it("should run a full-text search when requested", async () => {
+			await controller.listJobRoles(
+				createRequest({ search: "cloud", searchMode: "fulltext" }),
+				res
+			);
+
+			expect(jobRoleService.searchJobRolesFullText).toHaveBeenCalledWith(
+				expect.objectContaining({
+					search: "cloud",
+					searchMode: "fulltext",
+					publishedOnly: true,
+				})
+			);
+		});
+
+		it("should return an invalid_parameter error for bad pagination", async () => {
+			await controller.listJobRoles(createRequest({ page: "abc" }), res);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(res.json).toHaveBeenCalledWith({
+				success: false,
+				error: {
+					code: "invalid_parameter",
+					message: expect.stringContaining("Page"),
+				},
+			});
+		});
+
+		it("should return an invalid_parameter error for a bad sort", async () => {
+			await controller.listJobRoles(createRequest({ sort: "salary" }), res);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(res.json).toHaveBeenCalledWith({
+				success: false,
+				error: {
+					code: "invalid_parameter",
+					message:
+						"Sort must be one of: closingDate, roleName, band, numberOfOpenPositions",
+				},
+			});
+		});
+
+		it("should return a not_found error for a page beyond the last", async () => {
+			await controller.listJobRoles(createRequest({ page: "3" }), res);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+			expect(res.json).toHaveBeenCalledWith({
+				success: false,
+				error: {
+					code: "not_found",
+					message: "Page 3 does not exist. There are only 1 pages available.",
+				},
+			});
+		});
+
+		it("should return an internal_error when the service fails", async () => {
+			vi.mocked(jobRoleService.searchJobRoles).mockRejectedValue(
+				new Error("Network error")
+			);
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+
+			await controller.listJobRoles(createRequest(), res);
+
+			expect(res.status).toHaveBeenCalledWith(500);
+			expect(res.json).toHaveBeenCalledWith({
+				success: false,
+				error: { code: "internal_error", message: expect.any(String) },
+			});
+			consoleSpy.mockRestore();
+		});
+	});
+
+	describe("getJobRole", () => {
+		it("should return the job role", async () => {
+			const detailed = {
+				...openRole,
+				description: "Build pipelines",
+				responsibilities: "Own data quality",
+				jobSpecLink: "https://example.com/spec",
+			};
+			vi.mocked(jobRoleService.getJobRoleById).mockResolvedValue(detailed);
+
+			await controller.getJobRole(createRequest({}, { id: "1" }), res);
+
+			expect(jobRoleService.getJobRoleById).toHaveBeenCalledWith(1);
+			expect(res.json).toHaveBeenCalledWith({ success: true, data: detailed });
+		});
+
+		it("should return an invalid_parameter error for a bad ID", async () => {
+			await controller.getJobRole(createRequest({}, { id: "abc" }), res);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(res.json).toHaveBeenCalledWith({
+				success: false,
+				error: { code: "invalid_parameter", message: expect.any(String) },
+			});
+			expect(jobRoleService.getJobRoleById).not.toHaveBeenCalled();
+		});
+
+		it("should return a not_found error for missing and unpublished roles", async () => {
+			vi.mocked(jobRoleService.getJobRoleById)
+				.mockResolvedValueOnce(null)
+				.mockResolvedValueOnce({
+					...draftRole,
+					description: "",
+					responsibilities: "",
+					jobSpecLink: "",
+				});
+
+			await controller.getJobRole(createRequest({}, { id: "9" }), res);
+			await controller.getJobRole(createRequest({}, { id: "2" }), res);
+
+			expect(res.status).toHaveBeenNthCalledWith(1, 404);
+			expect(res.status).toHaveBeenNthCalledWith(2, 404);
+			expect(res.json).toHaveBeenCalledWith({
+				success: false,
+				error: { code: "not_found", message: expect.any(String) },
+			});
+		});
+	});
+
+	describe("getFilters", () => {
+		it("should return the capabilities, locations and bands", async () => {
+			await controller.getFilters(createRequest(), res);
+
+			expect(res.json).toHaveBeenCalledWith({
+				success: true,
+				data: {
+					capabilities: ["Data"],
+					locations: ["Belfast"],
+					bands: ["Mid"],
+				},
+			});
+		});
+	});
+
+	describe("getOpenApiDocument", () => {
+		it("should describe every endpoint", () => {
+			controller.getOpenApiDocument(createRequest(), res);
+
+			const document = vi.mocked(res.json).mock.calls[0]?.[0];
+			expect(document.openapi).toBe("3.0.3");
+			expect(Object.keys(document.paths)).toEqual([
+				"/job-roles",
+				"/job-roles/filters",
+				"/job-roles/{id}",
+			]);
+		});
+	});
+
+	describe("notFound", () => {
+		it("should return the JSON error envelope", () => {
+			controller.notFound(createRequest(), res);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+			expect(res.json).toHaveBeenCalledWith({
+				success: false,
+				error: {
+					code: "not_found",
+					message: "The requested API endpoint does not exist.",
+				},
+			});
+		});
+	});
+});
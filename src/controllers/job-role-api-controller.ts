@@ -0,0 +1,215 @@
+/**
+ * Job Role API Controller for the read-only JSON API under /api/v1
+ * Uses the same validation, search and pagination as the HTML job role
+ * routes, and only ever returns published job roles
+ */
+
+import type { Request, Response } from "express";
+import { JOB_ROLE_API_OPENAPI } from "../config/job-role-api-openapi.js";
+import type {
+	ApiErrorCode,
+	ApiErrorResponse,
+	ApiSuccessResponse,
+} from "../models/api-response.js";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import type { JobRoleFilterOptions } from "../models/job-role-search-params.js";
+import type { JobRoleSearchResult } from "../models/job-role-search-result.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import {
+	parseJobRoleSearchQuery,
+	searchJobRolesByMode,
+} from "../utils/job-role-search-query.js";
+import { isJobRolePublished } from "../utils/job-role-visibility.js";
+import { validatePaginationParams } from "../utils/pagination-validation.js";
+import { validateJobRoleId } from "../utils/validation.js";
+
+export class JobRoleApiController {
+	private jobRoleService: JobRoleService;
+
+	constructor(jobRoleService: JobRoleService) {
+		this.jobRoleService = jobRoleService;
+	}
+
+	/**
+	 * GET /api/v1/job-roles
+	 * Lists published job roles with the same pagination, search, filter and
+	 * sort parameters as /job-roles and /jobs/search
+	 */
+	public listJobRoles = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const paginationValidation = validatePaginationParams(
+				req.query["page"] as string,
+				req.query["limit"] as string
+			);
+
+			if (!paginationValidation.isValid) {
+				return this.sendError(
+					res,
+					400,
+					"invalid_parameter",
+					paginationValidation.error ?? "Invalid pagination parameters."
+				);
+			}
+
+			const searchValidation = parseJobRoleSearchQuery(req.query);
+
+			if (!searchValidation.isValid) {
+				return this.sendError(
+					res,
+					400,
+					"invalid_parameter",
+					searchValidation.error ?? "Invalid search parameters."
+				);
+			}
+			const { searchParams } = searchValidation;
+
+			// Unpublished roles are left out before paging, so the totals only
+			// count roles the public can see
+			const result = await searchJobRolesByMode(this.jobRoleService, {
+				...searchParams,
+				page: paginationValidation.page,
+				limit: paginationValidation.limit,
+				publishedOnly: true,
+			});
+
+			if (
+				result.pagination.totalPages > 0 &&
+				paginationValidation.page > result.pagination.totalPages
+			) {
+				return this.sendError(
+					res,
+					404,
+					"not_found",
+					`Page ${paginationValidation.page} does not exist. There are only ${result.pagination.totalPages} pages available.`
+				);
+			}
+
+			const body: ApiSuccessResponse<
+				(JobRoleResponse | JobRoleSearchResult)[]
+			> = {
+				success: true,
+				data: result.data,
+				pagination: result.pagination,
+			};
+			res.json(body);
+		} catch (error) {
+			console.error("Error in JobRoleApiController.listJobRoles:", error);
+			this.sendError(
+				res,
+				500,
+				"internal_error",
+				"Sorry, we couldn't load the job roles at this time. Please try again later."
+			);
+		}
+	};
+
+	/**
+	 * GET /api/v1/job-roles/:id
+	 * Returns a published job role with its full details
+	 * Drafts and scheduled roles are reported as not found
+	 */
+	public getJobRole = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const jobRoleId = validateJobRoleId(req.params["id"]);
+
+			if (jobRoleId === null) {
+				return this.sendError(
+					res,
+					400,
+					"invalid_parameter",
+					"Invalid job role ID provided. Please provide a valid numeric ID."
+				);
+			}
+
+			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+
+			if (!jobRole || !isJobRolePublished(jobRole)) {
+				return this.sendError(
+					res,
+					404,
+					"not_found",
+					"Job role not found. The role you're looking for may have been removed or doesn't exist."
+				);
+			}
+
+			const body: ApiSuccessResponse<JobRoleDetailedResponse> = {
+				success: true,
+				data: jobRole,
+			};
+			res.json(body);
+		} catch (error) {
+			console.error("Error in JobRoleApiController.getJobRole:", error);
+			this.sendError(
+				res,
+				500,
+				"internal_error",
+				"Sorry, we couldn't load the job role information at this time. Please try again later."
+			);
+		}
+	};
+
+	/**
+	 * GET /api/v1/job-roles/filters
+	 * Lists the capabilities, locations and bands accepted by the filters
+	 */
+	public getFilters = async (_req: Request, res: Response): Promise<void> => {
+		try {
+			const filterOptions = await this.jobRoleService.getFilterOptions();
+			const body: ApiSuccessResponse<JobRoleFilterOptions> = {
+				success: true,
+				data: {
+					capabilities: filterOptions.capabilities,
+					locations: filterOptions.locations,
+					bands: filterOptions.bands,
+				},
+			};
+			res.json(body);
+		} catch (error) {
+			console.error("Error in JobRoleApiController.getFilters:", error);
+			this.sendError(
+				res,
+				500,
+				"internal_error",
+				"Sorry, we couldn't load the filter options at this time. Please try again later."
+			);
+		}
+	};
+
+	/**
+	 * GET /api/v1/openapi.json
+	 * Serves the OpenAPI document describing this API
+	 */
+	public getOpenApiDocument = (_req: Request, res: Response): void => {
+		res.json(JOB_ROLE_API_OPENAPI);
+	};
+
+	/**
+	 * Fallback for unmatched /api/v1 paths, so API clients get the JSON error
+	 * envelope rather than the HTML 404 page
+	 */
+	public notFound = (_req: Request, res: Response): void => {
+		this.sendError(
+			res,
+			404,
+			"not_found",
+			"The requested API endpoint does not exist."
+		);
+	};
+
+	/**
+	 * Sends an error response in the API error envelope
+	 */
+	private sendError(
+		res: Response,
+		status: number,
+		code: ApiErrorCode,
+		message: string
+	): void {
+		const body: ApiErrorResponse = {
+			success: false,
+			error: { code, message },
+		};
+		res.status(status).json(body);
+	}
+}
@@ -0,0 +1,149 @@
+/**
+ * Tests for multi-value and range filters on JobRoleController list pages
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleController } from "./job-role-controller.js";
+
+describe("JobRoleController - filters", () => {
+	let controller: JobRoleController;
+	let jobRoleService: JobRoleService;
+	let res: Response;
+
+	const emptyPage = {
+		data: [],
+		pagination: {
+			currentPage: 1,
+			totalPages: 0,
+			totalCount: 0,
+			limit: 12,
+			hasNext: false,
+			hasPrevious: false,
+		},
+	};
+
+	const createRequest = (query: Record<string, string | string[]>) =>
+		({
+			params: {},
+			path: "/jobs/search",
+			originalUrl: "/jobs/search",
+			query,
+			session: {},
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		jobRoleService = {
+			searchJobRoles: vi.fn().mockResolvedValue(emptyPage),
+			searchJobRolesFullText: vi.fn().mockResolvedValue(emptyPage),
+			getFilterOptions: vi.fn().mockResolvedValue({
+				capabilities: [],
+				locations: [],
+				bands: [],
+			}),
+		} as unknown as JobRoleService;
+		controller = new JobRoleController(jobRoleService);
+		res = {
+			render: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	it("should search with every selected value and the range filters", async () => {
+		await controller.searchJobRoles(
+			createRequest({
+				capability: ["Engineering", "Testing"],
+				location: ["Belfast", "Remote"],
+				closingBefore: "2030-06-30",
+				minOpenPositions: "2",
+			}),
+			res
+		);
+
+		expect(jobRoleService.searchJobRoles).toHaveBeenCalledWith({
+			capability: ["Engineering", "Testing"],
+			location: ["Belfast", "Remote"],
+			closingBefore: "2030-06-30",
+			minOpenPositions: 2,
+			page: 1,
+			limit: 12,
+			publishedOnly: true,
+		});
+	});
+
+	it("should show each selected value as its own removable chip", async () => {
+		await controller.searchJobRoles(
+			createRequest({
+				search: "data",
+				searchMode: "fulltext",
+				capability: ["Engineering", "Testing"],
+				closingAfter: "2030-01-01",
+				sort: "roleName",
+			}),
+			res
+		);
+
+		const locals = vi.mocked(res.render).mock.calls[0]?.[1];
+		expect(locals?.["activeFilters"]).toEqual([
+			{
+				type: "search",
+				value: "data",
+				label: 'Search: "data" (titles and descriptions)',
+				removeUrl:
+					"/jobs/search?capability=Engineering&capability=Testing&closingAfter=2030-01-01&sort=roleName&order=asc",
+			},
+			{
+				type: "capability",
+				value: "Engineering",
+				label: "Capability: Engineering",
+				removeUrl:
+					"/jobs/search?search=data&searchMode=fulltext&capability=Testing&closingAfter=2030-01-01&sort=roleName&order=asc",
+			},
+			{
+				type: "capability",
+				value: "Testing",
+				label: "Capability: Testing",
+				removeUrl:
+					"/jobs/search?search=data&searchMode=fulltext&capability=Engineering&closingAfter=2030-01-01&sort=roleName&order=asc",
+			},
+			{
+				type: "closingAfter",
+				value: "2030-01-01",
+				label: "Closes on or after: 2030-01-01",
+				removeUrl:
+					"/jobs/search?search=data&searchMode=fulltext&capability=Engineering&capability=Testing&sort=roleName&order=asc",
+			},
+		]);
+	});
+
+	it("should link the last chip back to the plain search page", async () => {
+		await controller.searchJobRoles(createRequest({ band: "Mid" }), res);
+
+		const locals = vi.mocked(res.render).mock.calls[0]?.[1];
+		expect(locals?.["activeFilters"]).toEqual([
+			{
+				type: "band",
+				value: "Mid",
+				label: "Band: Mid",
+				removeUrl: "/jobs/search",
+			},
+		]);
+	});
+
+	it("should reject an invalid closing date range", async () => {
+		await controller.searchJobRoles(
+			createRequest({
+				closingAfter: "2030-06-01",
+				closingBefore: "2030-01-01",
+			}),
+			res
+		);
+
+		expect(res.status).toHaveBeenCalledWith(400);
+		expect(res.render).toHaveBeenCalledWith("pagination-error.njk", {
+			message: "The closing date range must start before it ends",
+		});
+		expect(jobRoleService.searchJobRoles).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for full-text search on JobRoleController list pages
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleController } from "./job-role-controller.js";
+
+describe("JobRoleController - full-text search", () => {
+	let controller: JobRoleController;
+	let jobRoleService: JobRoleService;
+	let res: Response;
+
+	const emptyPage = {
+		data: [],
+		pagination: {
+			currentPage: 1,
+			totalPages: 0,
+			totalCount: 0,
+			limit: 12,
+			hasNext: false,
+			hasPrevious: false,
+		},
+	};
+
+	const createRequest = (query: Record<string, string>) =>
+		({
+			params: {},
+			path: "/job-roles/search",
+			originalUrl: "/job-roles/search",
+			query,
+			session: {},
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		jobRoleService = {
+			searchJobRoles: vi.fn().mockResolvedValue(emptyPage),
+			searchJobRolesFullText: vi.fn().mockResolvedValue(emptyPage),
+			getFilterOptions: vi.fn().mockResolvedValue({
+				capabilities: [],
+				locations: [],
+				bands: [],
+			}),
+		} as unknown as JobRoleService;
+		controller = new JobRoleController(jobRoleService);
+		res = {
+			render: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	it("should run a full-text search and pass the highlight terms", async () => {
+		await controller.searchJobRoles(
+			createRequest({ search: "Kafka streams", searchMode: "fulltext" }),
+			res
+		);
+
+		expect(jobRoleService.searchJobRolesFullText).toHaveBeenCalledWith(
+			expect.objectContaining({
+				search: "Kafka streams",
+				searchMode: "fulltext",
+			})
+		);
+		expect(jobRoleService.searchJobRoles).not.toHaveBeenCalled();
+		expect(res.render).toHaveBeenCalledWith(
+			"job-role-list.njk",
+			expect.objectContaining({ highlightTerms: ["kafka", "streams"] })
+		);
+	});
+
+	it("should keep title search as the default", async () => {
+		await controller.searchJobRoles(createRequest({ search: "Kafka" }), res);
+
+		expect(jobRoleService.searchJobRoles).toHaveBeenCalledWith(
+			expect.not.objectContaining({ searchMode: "fulltext" })
+		);
+		expect(jobRoleService.searchJobRolesFullText).not.toHaveBeenCalled();
+	});
+
+	it("should ignore full-text mode without search text", async () => {
+		await controller.searchJobRoles(
+			createRequest({ searchMode: "fulltext", location: "Belfast" }),
+			res
+		);
+
+		expect(jobRoleService.searchJobRoles).toHaveBeenCalled();
+		const locals = vi.mocked(res.render).mock.calls[0]?.[1];
+		expect(locals).not.toHaveProperty("highlightTerms");
+	});
+});
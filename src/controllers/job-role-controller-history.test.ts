@@ -0,0 +1,276 @@
+/**
+ * Tests for job role audit history in JobRoleController and AdminController
+ */
+
+import type { Request, Response } from "express";
+import type { Session } from "express-session";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleAuditEntry } from "../models/job-role-audit.js";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleAuditStore } from "../services/job-role-audit-store.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleValidator } from "../utils/job-role-validator.js";
+import { AdminController } from "./admin-controller.js";
+import { JobRoleController } from "./job-role-controller.js";
+
+describe("Job role audit history", () => {
+	let mockJobRoleService: JobRoleService;
+	let auditStore: JobRoleAuditStore;
+	let res: Response;
+
+	const adminUser = {
+		userId: "7",
+		email: "ann@kainos.com",
+		forename: "Ann",
+		surname: "Admin",
+		role: "Admin",
+	};
+
+	const jobRole: JobRoleDetailedResponse = {
+		jobRoleId: 1,
+		roleName: "Software Engineer",
+		description: "Builds software",
+		responsibilities: "Writes code",
+		jobSpecLink: "https://example.com/spec",
+		location: "Remote",
+		capability: "Engineering",
+		band: "Mid",
+		closingDate: "2099-01-31",
+		status: "Open",
+		numberOfOpenPositions: 2,
+	};
+
+	const createRequest = (
+		overrides: Partial<Request> = {},
+		user: unknown = adminUser
+	) =>
+		({
+			params: { id: "1" },
+			query: {},
+			body: {},
+			session: { user } as unknown as Session,
+			...overrides,
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		mockJobRoleService = {
+			getJobRoleById: vi.fn().mockResolvedValue(jobRole),
+			createJobRole: vi.fn(),
+			updateJobRole: vi.fn(),
+			deleteJobRole: vi.fn().mockResolvedValue(true),
+		} as unknown as JobRoleService;
+
+		auditStore = {
+			record: vi.fn(),
+			getHistory: vi.fn().mockResolvedValue([]),
+		};
+
+		res = {
+			render: vi.fn(),
+			redirect: vi.fn(),
+			json: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	describe("JobRoleController.getJobRoleById", () => {
+		it("should render the history tab for admins", async () => {
+			const history: JobRoleAuditEntry[] = [
+				{
+					id: "a",
+					jobRoleId: 1,
+					action: "status_change",
+					actor: { name: "Ann Admin" },
+					timestamp: "2025-06-01T10:00:00.000Z",
+					changes: [{ field: "status", before: "Open", after: "Closed" }],
+				},
+			];
+			vi.mocked(auditStore.getHistory).mockResolvedValue(history);
+			const controller = new JobRoleController(mockJobRoleService, auditStore);
+
+			await controller.getJobRoleById(
+				createRequest({ query: { tab: "history" } }),
+				res
+			);
+
+			expect(auditStore.getHistory).toHaveBeenCalledWith(1);
+			expect(res.render).toHaveBeenCalledWith(
+				"job-role-information.njk",
+				expect.objectContaining({
+					canViewHistory: true,
+					activeTab: "history",
+					auditHistory: history,
+				})
+			);
+		});
+
+		it("should not load history on the details tab", async () => {
+			const controller = new JobRoleController(mockJobRoleService, auditStore);
+
+			await controller.getJobRoleById(createRequest(), res);
+
+			expect(auditStore.getHistory).not.toHaveBeenCalled();
+			expect(res.render).toHaveBeenCalledWith(
+				"job-role-information.njk",
+				expect.objectContaining({ canViewHistory: true, activeTab: "details" })
+			);
+		});
+
+		it("should hide history from non-admin users", async () => {
+			const controller = new JobRoleController(mockJobRoleService, auditStore);
+
+			await controller.getJobRoleById(
+				createRequest(
+					{ query: { tab: "history" } },
+					{ ...adminUser, role: "User" }
+				),
+				res
+			);
+
+			expect(auditStore.getHistory).not.toHaveBeenCalled();
+			expect(res.render).toHaveBeenCalledWith(
+				"job-role-information.njk",
+				expect.objectContaining({
+					canViewHistory: false,
+					activeTab: "details",
+					auditHistory: undefined,
+				})
+			);
+		});
+	});
+
+	describe("JobRoleController deletes", () => {
+		it("should record the deleted job role", async () => {
+			const controller = new JobRoleController(mockJobRoleService, auditStore);
+
+			await controller.deleteJobRoleForm(createRequest(), res);
+
+			expect(res.redirect).toHaveBeenCalledWith("/job-roles?success=deleted");
+			expect(auditStore.record).toHaveBeenCalledWith(
+				expect.objectContaining({
+					jobRoleId: 1,
+					action: "delete",
+					actor: { id: "7", name: "Ann Admin", email: "ann@kainos.com" },
+				})
+			);
+		});
+
+		it("should not record a failed delete", async () => {
+			vi.mocked(mockJobRoleService.deleteJobRole).mockResolvedValue(false);
+			const controller = new JobRoleController(mockJobRoleService, auditStore);
+
+			await controller.deleteJobRole(createRequest(), res);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+			expect(auditStore.record).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("AdminController", () => {
+		let controller: AdminController;
+
+		beforeEach(() => {
+			controller = new AdminController(
+				mockJobRoleService,
+				new JobRoleValidator(),
+				auditStore
+			);
+		});
+
+		it("should record a create", async () => {
+			vi.mocked(mockJobRoleService.createJobRole).mockResolvedValue(jobRole);
+
+			await controller.createJobRole(
+				createRequest({
+					body: {
+						roleName: jobRole.roleName,
+						description: jobRole.description,
+						responsibilities: jobRole.responsibilities,
+						jobSpecLink: jobRole.jobSpecLink,
+						location: jobRole.location,
+						capability: jobRole.capability,
+						band: jobRole.band,
+						closingDate: jobRole.closingDate,
+						numberOfOpenPositions: "2",
+					},
+				}),
+				res
+			);
+
+			expect(auditStore.record).toHaveBeenCalledWith(
+				expect.objectContaining({ jobRoleId: 1, action: "create" })
+			);
+		});
+
+		it("should record a field-level diff for an update", async () => {
+			const updated = { ...jobRole, band: "Senior", numberOfOpenPositions: 4 };
+			vi.mocked(mockJobRoleService.updateJobRole).mockResolvedValue(updated);
+
+			await controller.updateJobRole(
+				createRequest({
+					body: {
+						...jobRole,
+						band: "Senior",
+						numberOfOpenPositions: "4",
+					},
+				}),
+				res
+			);
+
+			expect(res.redirect).toHaveBeenCalledWith("/job-roles/1?updated=true");
+			expect(auditStore.record).toHaveBeenCalledWith({
+				jobRoleId: 1,
+				action: "update",
+				actor: { id: "7", name: "Ann Admin", email: "ann@kainos.com" },
+				changes: [
+					{ field: "band", before: "Mid", after: "Senior" },
+					{ field: "numberOfOpenPositions", before: 2, after: 4 },
+				],
+			});
+		});
+
+		it("should record bulk status changes", async () => {
+			vi.mocked(mockJobRoleService.updateJobRole).mockResolvedValue({
+				...jobRole,
+				status: "On Hold",
+			});
+
+			await controller.bulkUpdateJobRoles(
+				createRequest({ body: { action: "hold", jobRoleIds: "1" } }),
+				res
+			);
+
+			expect(auditStore.record).toHaveBeenCalledWith(
+				expect.objectContaining({
+					action: "status_change",
+					changes: [{ field: "status", before: "Open", after: "On Hold" }],
+				})
+			);
+		});
+
+		it("should still redirect when the audit store fails", async () => {
+			vi.mocked(auditStore.record).mockRejectedValue(new Error("Disk full"));
+			vi.mocked(mockJobRoleService.createJobRole).mockResolvedValue(jobRole);
+
+			await controller.createJobRole(
+				createRequest({
+					body: {
+						roleName: jobRole.roleName,
+						description: jobRole.description,
+						responsibilities: jobRole.responsibilities,
+						jobSpecLink: jobRole.jobSpecLink,
+						location: jobRole.location,
+						capability: jobRole.capability,
+						band: jobRole.band,
+						closingDate: jobRole.closingDate,
+					},
+				}),
+				res
+			);
+
+			expect(res.redirect).toHaveBeenCalledWith("/job-roles/1?created=true");
+		});
+	});
+});
@@ -107,7 +107,7 @@ describe("JobRoleController - Pagination", () => {
 				limit: 12,
 			});
 			(
-				mockJobRoleService.getJobRolesPaginated as ReturnType<typeof vi.fn>
+				mockJobRoleService.searchJobRoles as ReturnType<typeof vi.fn>
 			).mockResolvedValue(mockPaginatedResponse);
 
 			// Execute
@@ -119,9 +119,10 @@ describe("JobRoleController - Pagination", () => {
 			// Verify
 			expect(validatePaginationParams).toHaveBeenCalledWith("1", "12");
 			expect(mockJobRoleService.getFilterOptions).toHaveBeenCalled();
-			expect(mockJobRoleService.getJobRolesPaginated).toHaveBeenCalledWith({
+			expect(mockJobRoleService.searchJobRoles).toHaveBeenCalledWith({
 				page: 1,
 				limit: 12,
+				publishedOnly: true,
 			});
 			expect(mockResponse.render).toHaveBeenCalledWith("job-role-list.njk", {
 				jobRoles: mockPaginatedResponse.data,
@@ -141,6 +142,10 @@ describe("JobRoleController - Pagination", () => {
 					locations: ["Belfast, Northern Ireland", "London, England"],
 					bands: ["Junior", "Mid", "Senior"],
 				},
+				feedUrls: {
+					rss: "/job-roles/feed.rss",
+					atom: "/job-roles/feed.atom",
+				},
 			});
 		});
 
@@ -152,7 +157,7 @@ describe("JobRoleController - Pagination", () => {
 				limit: 12,
 			});
 			(
-				mockJobRoleService.getJobRolesPaginated as ReturnType<typeof vi.fn>
+				mockJobRoleService.searchJobRoles as ReturnType<typeof vi.fn>
 			).mockResolvedValue(mockPaginatedResponse);
 
 			// Execute
@@ -166,9 +171,10 @@ describe("JobRoleController - Pagination", () => {
 				undefined,
 				undefined
 			);
-			expect(mockJobRoleService.getJobRolesPaginated).toHaveBeenCalledWith({
+			expect(mockJobRoleService.searchJobRoles).toHaveBeenCalledWith({
 				page: 1,
 				limit: 12,
+				publishedOnly: true,
 			});
 		});
 	});
@@ -194,7 +200,7 @@ describe("JobRoleController - Pagination", () => {
 			expect(mockResponse.render).toHaveBeenCalledWith("pagination-error.njk", {
 				message: "Page must be a positive integer",
 			});
-			expect(mockJobRoleService.getJobRolesPaginated).not.toHaveBeenCalled();
+			expect(mockJobRoleService.searchJobRoles).not.toHaveBeenCalled();
 		});
 
 		it("should return 404 for page beyond available data", async () => {
@@ -217,7 +223,7 @@ describe("JobRoleController - Pagination", () => {
 			};
 
 			(
-				mockJobRoleService.getJobRolesPaginated as ReturnType<typeof vi.fn>
+				mockJobRoleService.searchJobRoles as ReturnType<typeof vi.fn>
 			).mockResolvedValue(mockResponseBeyondRange);
 
 			// Execute
@@ -254,7 +260,7 @@ describe("JobRoleController - Pagination", () => {
 			};
 
 			(
-				mockJobRoleService.getJobRolesPaginated as ReturnType<typeof vi.fn>
+				mockJobRoleService.searchJobRoles as ReturnType<typeof vi.fn>
 			).mockResolvedValue(emptyResponse);
 
 			// Execute
@@ -276,6 +282,10 @@ describe("JobRoleController - Pagination", () => {
 					locations: ["Belfast, Northern Ireland", "London, England"],
 					bands: ["Junior", "Mid", "Senior"],
 				},
+				feedUrls: {
+					rss: "/job-roles/feed.rss",
+					atom: "/job-roles/feed.atom",
+				},
 			});
 		});
 
@@ -287,7 +297,7 @@ describe("JobRoleController - Pagination", () => {
 				limit: 12,
 			});
 			(
-				mockJobRoleService.getJobRolesPaginated as ReturnType<typeof vi.fn>
+				mockJobRoleService.searchJobRoles as ReturnType<typeof vi.fn>
 			).mockRejectedValue(new Error("Database connection failed"));
 
 			// Execute
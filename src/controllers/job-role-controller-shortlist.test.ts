@@ -0,0 +1,78 @@
+/**
+ * Tests for the shortlist buttons on JobRoleController pages
+ */
+
+import type { Request, Response } from "express";
+import type { Session } from "express-session";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { InMemoryShortlistStore } from "../services/in-memory-shortlist-store.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleController } from "./job-role-controller.js";
+
+describe("JobRoleController - shortlist", () => {
+	let controller: JobRoleController;
+	let store: InMemoryShortlistStore;
+	let res: Response;
+
+	const jobRole = {
+		jobRoleId: 4,
+		roleName: "Data Engineer",
+		description: "",
+		responsibilities: "",
+		jobSpecLink: "",
+		location: "Belfast",
+		capability: "Data",
+		band: "Mid",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 1,
+	};
+
+	const createRequest = (user?: unknown) =>
+		({
+			params: { id: "4" },
+			path: "/job-roles/4",
+			originalUrl: "/job-roles/4",
+			query: {},
+			session: (user ? { user } : {}) as unknown as Session,
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		store = new InMemoryShortlistStore();
+		controller = new JobRoleController(
+			{
+				getJobRoleById: vi.fn().mockResolvedValue(jobRole),
+			} as unknown as JobRoleService,
+			null,
+			store
+		);
+		res = {
+			render: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	it("should pass the signed-in user's shortlisted roles to the view", async () => {
+		await store.addJobRole("7", 4);
+
+		await controller.getJobRoleById(
+			createRequest({ userId: "7", email: "c@example.com", role: "Applicant" }),
+			res
+		);
+
+		expect(res.render).toHaveBeenCalledWith(
+			"job-role-information.njk",
+			expect.objectContaining({
+				shortlistedJobRoleIds: [4],
+				shortlistReturnTo: "/job-roles/4",
+			})
+		);
+	});
+
+	it("should leave out the shortlist for anonymous visitors", async () => {
+		await controller.getJobRoleById(createRequest(), res);
+
+		const locals = vi.mocked(res.render).mock.calls[0]?.[1];
+		expect(locals).not.toHaveProperty("shortlistedJobRoleIds");
+	});
+});
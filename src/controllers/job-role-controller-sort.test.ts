@@ -0,0 +1,143 @@
+/**
+ * Tests for sorting on JobRoleController list pages
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleController } from "./job-role-controller.js";
+
+describe("JobRoleController - sorting", () => {
+	let controller: JobRoleController;
+	let jobRoleService: JobRoleService;
+	let res: Response;
+
+	const page = {
+		data: [
+			{
+				jobRoleId: 1,
+				roleName: "Data Engineer",
+				location: "Belfast",
+				capability: "Data",
+				band: "Mid",
+				closingDate: "2099-12-31",
+				status: "Open",
+				numberOfOpenPositions: 1,
+			},
+		],
+		pagination: {
+			currentPage: 1,
+			totalPages: 2,
+			totalCount: 13,
+			limit: 12,
+			hasNext: true,
+			hasPrevious: false,
+		},
+	};
+
+	const createRequest = (path: string, query: Record<string, string>) =>
+		({
+			params: {},
+			path,
+			originalUrl: path,
+			query,
+			session: {},
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		jobRoleService = {
+			getJobRolesPaginated: vi.fn().mockResolvedValue(page),
+			searchJobRoles: vi.fn().mockResolvedValue(page),
+			searchJobRolesFullText: vi.fn(),
+			getFilterOptions: vi.fn().mockResolvedValue({
+				capabilities: [],
+				locations: [],
+				bands: [],
+			}),
+		} as unknown as JobRoleService;
+		controller = new JobRoleController(jobRoleService);
+		res = {
+			render: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	it("should sort the unfiltered list and keep the sort in pagination links", async () => {
+		await controller.getJobRoles(
+			createRequest("/job-roles", { sort: "closingDate", order: "desc" }),
+			res
+		);
+
+		expect(jobRoleService.getJobRolesPaginated).not.toHaveBeenCalled();
+		expect(jobRoleService.searchJobRoles).toHaveBeenCalledWith(
+			expect.objectContaining({ sort: "closingDate", order: "desc", page: 1 })
+		);
+		expect(res.render).toHaveBeenCalledWith(
+			"job-role-list.njk",
+			expect.objectContaining({
+				isSearchPage: false,
+				searchParams: expect.objectContaining({
+					sort: "closingDate",
+					order: "desc",
+				}),
+				paginationUrls: expect.objectContaining({
+					next: "/job-roles?page=2&limit=12&sort=closingDate&order=desc",
+				}),
+			})
+		);
+	});
+
+	it("should pass the sort through to filtered searches", async () => {
+		await controller.searchJobRoles(
+			createRequest("/jobs/search", { band: "Mid", sort: "roleName" }),
+			res
+		);
+
+		expect(jobRoleService.searchJobRoles).toHaveBeenCalledWith(
+			expect.objectContaining({
+				band: ["Mid"],
+				sort: "roleName",
+				order: "asc",
+			})
+		);
+	});
+
+	it("should reject an unknown sort field", async () => {
+		await controller.searchJobRoles(
+			createRequest("/jobs/search", { sort: "salary" }),
+			res
+		);
+
+		expect(res.status).toHaveBeenCalledWith(400);
+		expect(res.render).toHaveBeenCalledWith("pagination-error.njk", {
+			message:
+				"Sort must be one of: closingDate, roleName, band, numberOfOpenPositions",
+		});
+		expect(jobRoleService.searchJobRoles).not.toHaveBeenCalled();
+	});
+
+	it("should use the backend order when no sort is requested", async () => {
+		await controller.getJobRoles(createRequest("/job-roles", {}), res);
+
+		expect(jobRoleService.searchJobRoles).toHaveBeenCalledWith({
+			page: 1,
+			limit: 12,
+			publishedOnly: true,
+		});
+	});
+
+	it("should page through the backend directly for admins with no sort", async () => {
+		const req = createRequest("/job-roles", {});
+		req.session = {
+			user: { userId: "1", email: "admin@kainos.com", role: "Admin" },
+		} as unknown as Request["session"];
+
+		await controller.getJobRoles(req, res);
+
+		expect(jobRoleService.getJobRolesPaginated).toHaveBeenCalledWith({
+			page: 1,
+			limit: 12,
+		});
+		expect(jobRoleService.searchJobRoles).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for the printable and PDF job specifications in JobRoleController
+ */
+
+import type { Request, Response } from "express";
+import type { Session } from "express-session";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleController } from "./job-role-controller.js";
+
+describe("JobRoleController - job specifications", () => {
+	let controller: JobRoleController;
+	let mockJobRoleService: JobRoleService;
+	let res: Response;
+
+	const jobRole: JobRoleDetailedResponse = {
+		jobRoleId: 3,
+		roleName: "Data Engineer",
+		description: "Build pipelines",
+		responsibilities: "Own data quality",
+		jobSpecLink: "https://example.com/spec",
+		location: "Belfast, Northern Ireland",
+		capability: "Data",
+		band: "Mid",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 1,
+	};
+
+	const createRequest = (id = "3", user?: unknown) =>
+		({
+			params: { id },
+			query: {},
+			session: (user ? { user } : {}) as unknown as Session,
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		mockJobRoleService = {
+			getJobRoleById: vi.fn().mockResolvedValue(jobRole),
+		} as unknown as JobRoleService;
+		controller = new JobRoleController(mockJobRoleService);
+		res = {
+			render: vi.fn(),
+			send: vi.fn(),
+			setHeader: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	describe("getJobRolePrint", () => {
+		it("should render the print view", async () => {
+			await controller.getJobRolePrint(createRequest(), res);
+
+			expect(mockJobRoleService.getJobRoleById).toHaveBeenCalledWith(3);
+			expect(res.render).toHaveBeenCalledWith("job-role-print.njk", {
+				jobRole,
+			});
+		});
+
+		it("should return 400 for an invalid ID", async () => {
+			await controller.getJobRolePrint(createRequest("abc"), res);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(mockJobRoleService.getJobRoleById).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("downloadJobSpecPdf", () => {
+		it("should send the PDF as a download", async () => {
+			await controller.downloadJobSpecPdf(createRequest(), res);
+
+			expect(res.setHeader).toHaveBeenCalledWith(
+				"Content-Type",
+				"application/pdf"
+			);
+			expect(res.setHeader).toHaveBeenCalledWith(
+				"Content-Disposition",
+				'attachment; filename="job-spec-3-data-engineer.pdf"'
+			);
+			const pdf = vi.mocked(res.send).mock.calls[0]?.[0] as Buffer;
+			expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+		});
+
+		it("should return 404 for a draft role to the public", async () => {
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue({
+				...jobRole,
+				status: "Draft",
+			});
+
+			await controller.downloadJobSpecPdf(createRequest(), res);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+			expect(res.send).not.toHaveBeenCalled();
+		});
+
+		it("should let admins download a draft role", async () => {
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue({
+				...jobRole,
+				status: "Draft",
+			});
+
+			await controller.downloadJobSpecPdf(
+				createRequest("3", { userId: "1", role: "Admin" }),
+				res
+			);
+
+			expect(res.status).not.toHaveBeenCalled();
+			expect(res.send).toHaveBeenCalled();
+		});
+
+		it("should render the error page when the service fails", async () => {
+			vi.mocked(mockJobRoleService.getJobRoleById).mockRejectedValue(
+				new Error("Network error")
+			);
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+
+			await controller.downloadJobSpecPdf(createRequest(), res);
+
+			expect(res.status).toHaveBeenCalledWith(500);
+			consoleSpy.mockRestore();
+		});
+	});
+});
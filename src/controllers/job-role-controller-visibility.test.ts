@@ -0,0 +1,210 @@
+/**
+ * Tests for hiding draft and scheduled job roles in JobRoleController
+ */
+
+import type { Request, Response } from "express";
+import type { Session } from "express-session";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import type { PaginatedResponse } from "../models/pagination.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleController } from "./job-role-controller.js";
+
+describe("JobRoleController - draft and scheduled job roles", () => {
+	let controller: JobRoleController;
+	let mockJobRoleService: JobRoleService;
+	let res: Response;
+
+	const adminUser = { userId: "1", email: "admin@kainos.com", role: "Admin" };
+
+	const listRole = (
+		jobRoleId: number,
+		overrides: Partial<JobRoleResponse> = {}
+	): JobRoleResponse => ({
+		jobRoleId,
+		roleName: `Role ${jobRoleId}`,
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Senior",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 1,
+		...overrides,
+	});
+
+	const jobRoles = [
+		listRole(1),
+		listRole(2, { status: "Draft" }),
+		listRole(3, { publishDate: "2099-01-01" }),
+		listRole(4, { status: "Closed", publishDate: "2020-01-01" }),
+	];
+
+	const paginatedResult: PaginatedResponse<JobRoleResponse> = {
+		data: jobRoles,
+		pagination: {
+			currentPage: 1,
+			totalPages: 1,
+			totalCount: jobRoles.length,
+			limit: 12,
+			hasNext: false,
+			hasPrevious: false,
+		},
+	};
+
+	const createRequest = (query = {}, user?: unknown) =>
+		({
+			params: { id: "2" },
+			path: "/job-roles",
+			query,
+			session: (user ? { user } : {}) as unknown as Session,
+		}) as unknown as Request;
+
+	const renderedJobRoleIds = (): number[] => {
+		const locals = vi.mocked(res.render).mock.calls[0]?.[1] as {
+			jobRoles: JobRoleResponse[];
+		};
+		return locals.jobRoles.map((jobRole) => jobRole.jobRoleId);
+	};
+
+	beforeEach(() => {
+		mockJobRoleService = {
+			getJobRoleById: vi.fn(),
+			getJobRolesPaginated: vi.fn().mockResolvedValue(paginatedResult),
+			searchJobRoles: vi.fn().mockResolvedValue(paginatedResult),
+			getFilterOptions: vi.fn().mockResolvedValue({
+				capabilities: [],
+				locations: [],
+				bands: [],
+			}),
+		} as unknown as JobRoleService;
+
+		controller = new JobRoleController(mockJobRoleService);
+
+		res = {
+			render: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	describe("getJobRoles", () => {
+		it("should leave drafts and scheduled roles out of the public list before paging", async () => {
+			await controller.getJobRoles(createRequest(), res);
+
+			expect(mockJobRoleService.getJobRolesPaginated).not.toHaveBeenCalled();
+			expect(mockJobRoleService.searchJobRoles).toHaveBeenCalledWith(
+				expect.objectContaining({ page: 1, publishedOnly: true })
+			);
+			expect(res.render).toHaveBeenCalledWith(
+				"job-role-list.njk",
+				expect.any(Object)
+			);
+		});
+
+		it("should leave drafts and scheduled roles out of filtered results", async () => {
+			await controller.getJobRoles(createRequest({ search: "Role" }), res);
+
+			expect(mockJobRoleService.searchJobRoles).toHaveBeenCalledWith(
+				expect.objectContaining({ search: "Role", publishedOnly: true })
+			);
+		});
+
+		it("should list every role for admins", async () => {
+			await controller.getJobRoles(createRequest({}, adminUser), res);
+
+			expect(res.render).toHaveBeenCalledWith(
+				"job-role-list-admin.njk",
+				expect.any(Object)
+			);
+			expect(renderedJobRoleIds()).toEqual([1, 2, 3, 4]);
+		});
+
+		it("should include unpublished roles in filtered results for admins", async () => {
+			await controller.getJobRoles(
+				createRequest({ search: "Role" }, adminUser),
+				res
+			);
+
+			expect(mockJobRoleService.searchJobRoles).toHaveBeenCalledWith(
+				expect.objectContaining({ publishedOnly: false })
+			);
+		});
+	});
+
+	describe("searchJobRoles", () => {
+		it("should leave drafts and scheduled roles out of search results", async () => {
+			await controller.searchJobRoles(createRequest({ search: "Role" }), res);
+
+			expect(mockJobRoleService.searchJobRoles).toHaveBeenCalledWith(
+				expect.objectContaining({ publishedOnly: true })
+			);
+		});
+	});
+
+	describe("getJobRoleById", () => {
+		const draftJobRole: JobRoleDetailedResponse = {
+			...listRole(2, { status: "Draft" }),
+			description: "Description",
+			responsibilities: "Responsibilities",
+			jobSpecLink: "https://example.com/spec",
+		};
+
+		it("should return 404 to the public for a draft role", async () => {
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(
+				draftJobRole
+			);
+
+			await controller.getJobRoleById(createRequest(), res);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+			expect(res.render).toHaveBeenCalledWith("error.njk", {
+				message: expect.stringContaining("Job role not found"),
+			});
+		});
+
+		it("should return 404 to the public for a scheduled role", async () => {
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue({
+				...draftJobRole,
+				status: "Open",
+				publishDate: "2099-01-01",
+			});
+
+			await controller.getJobRoleById(createRequest(), res);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+		});
+
+		it("should show a draft role to admins", async () => {
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(
+				draftJobRole
+			);
+
+			await controller.getJobRoleById(createRequest({}, adminUser), res);
+
+			expect(res.status).not.toHaveBeenCalled();
+			expect(res.render).toHaveBeenCalledWith(
+				"job-role-information.njk",
+				expect.objectContaining({
+					jobRole: draftJobRole,
+					jobPostingJsonLd: undefined,
+				})
+			);
+		});
+
+		it("should add JobPosting structured data for open, published roles", async () => {
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue({
+				...draftJobRole,
+				status: "Open",
+			});
+
+			await controller.getJobRoleById(createRequest(), res);
+
+			expect(res.render).toHaveBeenCalledWith(
+				"job-role-information.njk",
+				expect.objectContaining({
+					jobPostingJsonLd: expect.stringContaining('"@type":"JobPosting"'),
+				})
+			);
+		});
+	});
+});
@@ -130,7 +130,7 @@ describe("JobRoleController", () => {
 				limit: 12,
 			});
 
-			vi.mocked(mockJobRoleService.getJobRolesPaginated).mockResolvedValue({
+			vi.mocked(mockJobRoleService.searchJobRoles).mockResolvedValue({
 				data: [],
 				pagination: {
 					currentPage: 1,
@@ -174,7 +174,7 @@ describe("JobRoleController", () => {
 				limit: 12,
 			});
 
-			vi.mocked(mockJobRoleService.getJobRolesPaginated).mockResolvedValue({
+			vi.mocked(mockJobRoleService.searchJobRoles).mockResolvedValue({
 				data: [],
 				pagination: {
 					currentPage: 1,
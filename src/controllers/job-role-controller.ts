@@ -3,42 +3,70 @@
  */
 
 import type { Request, Response } from "express";
-import { isAdmin } from "../middleware/auth-middleware.js";
+import { getSessionUserId, isAdmin } from "../middleware/auth-middleware.js";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type {
+	JobRoleActiveFilter,
+	JobRoleFilterType,
+	JobRoleSearchParams,
+} from "../models/job-role-search-params.js";
+import type { JobRoleAuditStore } from "../services/job-role-audit-store.js";
 import type { JobRoleService } from "../services/job-role-service.js";
+import type { ShortlistStore } from "../services/shortlist-store.js";
+import { JOB_ROLE_EXPORT_COLUMNS } from "../utils/csv-export.js";
+import { getSearchTerms } from "../utils/full-text-search.js";
+import {
+	buildJobPostingStructuredData,
+	isJobRoleAdvertised,
+	serializeJsonLd,
+} from "../utils/job-posting.js";
+import {
+	JOB_ROLE_AUDIT_ACTION_LABELS,
+	recordJobRoleAudit,
+} from "../utils/job-role-audit.js";
+import { buildJobRoleFeedUrl } from "../utils/job-role-feed.js";
+import {
+	getFilterValues,
+	getJobRoleFilterLabel,
+	JOB_ROLE_FILTER_LABELS,
+} from "../utils/job-role-filters.js";
+import {
+	parseJobRoleSearchQuery,
+	searchJobRolesByMode,
+} from "../utils/job-role-search-query.js";
+import { isJobRolePublished } from "../utils/job-role-visibility.js";
+import { buildJobSpecPdf, getJobSpecFileName } from "../utils/job-spec-pdf.js";
 import { validatePaginationParams } from "../utils/pagination-validation.js";
-import { buildPaginationUrls } from "../utils/url-builder.js";
+import {
+	buildPaginationUrls,
+	buildSearchQueryString,
+} from "../utils/url-builder.js";
 import { validateJobRoleId } from "../utils/validation.js";
 
 export class JobRoleController {
 	private jobRoleService: JobRoleService;
-
-	constructor(jobRoleService: JobRoleService) {
+	private auditStore: JobRoleAuditStore | null;
+	private shortlistStore: ShortlistStore | null;
+
+	constructor(
+		jobRoleService: JobRoleService,
+		auditStore: JobRoleAuditStore | null = null,
+		shortlistStore: ShortlistStore | null = null
+	) {
 		this.jobRoleService = jobRoleService;
+		this.auditStore = auditStore;
+		this.shortlistStore = shortlistStore;
 	}
 
 	/**
 	 * GET /job-roles
 	 * Renders the job roles list view with paginated data from the API
 	 * Shows admin view for authenticated admins, public view for other users
-	 * Supports search and filter parameters
+	 * Supports search, filter and sort parameters
+	 * Drafts and scheduled roles are only listed for admins
 	 */
 	public getJobRoles = async (req: Request, res: Response): Promise<void> => {
 		try {
-			// Extract search parameters from query string
-			const searchQuery = (req.query["search"] as string) || "";
-			const capability = (req.query["capability"] as string) || "";
-			const location = (req.query["location"] as string) || "";
-			const band = (req.query["band"] as string) || "";
-			const status = (req.query["status"] as string) || "";
-
-			// Check if any filter parameters are present
-			const hasFilters =
-				searchQuery.trim() !== "" ||
-				capability.trim() !== "" ||
-				location.trim() !== "" ||
-				band.trim() !== "" ||
-				status.trim() !== "";
-
 			// Validate pagination parameters from query string
 			const paginationValidation = validatePaginationParams(
 				req.query["page"] as string,
@@ -51,24 +79,34 @@ export class JobRoleController {
 				});
 			}
 
+			// Validate sort and filter parameters from query string
+			const searchValidation = parseJobRoleSearchQuery(req.query);
+
+			if (!searchValidation.isValid) {
+				return res.status(400).render("pagination-error.njk", {
+					message: searchValidation.error,
+				});
+			}
+			const { searchParams, hasFilters } = searchValidation;
+
 			// Fetch filter options for search form dropdowns
 			const filterOptions = await this.jobRoleService.getFilterOptions();
 
-			// Fetch paginated job roles (with or without filters)
-			const paginatedResult = hasFilters
-				? await this.jobRoleService.searchJobRoles({
-						search: searchQuery,
-						capability: capability,
-						location: location,
-						band: band,
-						status: status,
-						page: paginationValidation.page,
-						limit: paginationValidation.limit,
-					})
-				: await this.jobRoleService.getJobRolesPaginated({
-						page: paginationValidation.page,
-						limit: paginationValidation.limit,
-					});
+			// Fetch paginated job roles (with or without filters); the public
+			// list is searched so unpublished roles are left out before paging
+			const publishedOnly = !isAdmin(req);
+			const paginatedResult =
+				hasFilters || searchParams.sort || publishedOnly
+					? await searchJobRolesByMode(this.jobRoleService, {
+							...searchParams,
+							page: paginationValidation.page,
+							limit: paginationValidation.limit,
+							publishedOnly,
+						})
+					: await this.jobRoleService.getJobRolesPaginated({
+							page: paginationValidation.page,
+							limit: paginationValidation.limit,
+						});
 
 			// Handle case where user navigates to a page beyond available data
 			if (
@@ -93,48 +131,8 @@ export class JobRoleController {
 					currentUrl: req.path,
 					isSearchPage: false,
 					filterOptions: filterOptions,
-				});
-			}
-
-			// Prepare active filters for display
-			const activeFilters: Array<{
-				type: string;
-				value: string;
-				label: string;
-			}> = [];
-			if (searchQuery.trim()) {
-				activeFilters.push({
-					type: "search",
-					value: searchQuery,
-					label: `Search: "${searchQuery}"`,
-				});
-			}
-			if (capability.trim()) {
-				activeFilters.push({
-					type: "capability",
-					value: capability,
-					label: `Capability: ${capability}`,
-				});
-			}
-			if (location.trim()) {
-				activeFilters.push({
-					type: "location",
-					value: location,
-					label: `Location: ${location}`,
-				});
-			}
-			if (band.trim()) {
-				activeFilters.push({
-					type: "band",
-					value: band,
-					label: `Band: ${band}`,
-				});
-			}
-			if (status.trim()) {
-				activeFilters.push({
-					type: "status",
-					value: status,
-					label: `Status: ${status}`,
+					feedUrls: this.getFeedUrls(searchParams),
+					...(await this.getShortlistContext(req)),
 				});
 			}
 
@@ -144,15 +142,7 @@ export class JobRoleController {
 				paginationValidation.page,
 				paginatedResult.pagination.totalPages,
 				paginationValidation.limit,
-				hasFilters
-					? {
-							search: searchQuery,
-							capability: capability,
-							location: location,
-							band: band,
-							status: status,
-						}
-					: null
+				hasFilters || searchParams.sort ? searchParams : null
 			);
 
 			// Determine which view to render based on user role
@@ -167,17 +157,15 @@ export class JobRoleController {
 				totalRoles: paginatedResult.pagination.totalCount,
 				currentUrl: req.path,
 				isSearchPage: hasFilters,
-				searchParams: hasFilters
-					? {
-							search: searchQuery,
-							capability: capability,
-							location: location,
-							band: band,
-							status: status,
-						}
+				searchParams:
+					hasFilters || searchParams.sort ? searchParams : undefined,
+				...this.getHighlightContext(searchParams.search ?? ""),
+				activeFilters: hasFilters
+					? this.buildActiveFilters(req.path, searchParams)
 					: undefined,
-				activeFilters: hasFilters ? activeFilters : undefined,
 				filterOptions: filterOptions,
+				feedUrls: this.getFeedUrls(searchParams),
+				...(await this.getShortlistContext(req)),
 			});
 		} catch (error) {
 			console.error("Error in JobRoleController.getJobRoles:", error);
@@ -191,40 +179,46 @@ export class JobRoleController {
 	/**
 	 * GET /job-roles/{id}
 	 * Renders the job role information view with detailed data for a specific role
+	 * Admins also get a History tab (?tab=history) listing recorded changes
+	 * Drafts and scheduled roles are reported as not found to non-admins
 	 */
 	public getJobRoleById = async (
 		req: Request,
 		res: Response
 	): Promise<void> => {
 		try {
-			const id = req.params["id"];
-
-			const jobRoleId = validateJobRoleId(id);
-
-			if (jobRoleId === null) {
-				res.status(400).render("error.njk", {
-					message:
-						"Invalid job role ID provided. Please provide a valid numeric ID.",
-				});
-				return;
-			}
-
-			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
-
+			const jobRole = await this.getViewableJobRole(req, res);
 			if (!jobRole) {
-				res.status(404).render("error.njk", {
-					message:
-						"Job role not found. The role you're looking for may have been removed or doesn't exist.",
-				});
 				return;
 			}
+			const jobRoleId = jobRole.jobRoleId;
 
 			// Check if this was just created (query parameter from redirect)
 			const wasJustCreated = req.query["created"] === "true";
 
+			// Audit history is only shown to admins
+			const canViewHistory = this.auditStore !== null && isAdmin(req);
+			const activeTab =
+				canViewHistory && req.query["tab"] === "history"
+					? "history"
+					: "details";
+			const auditHistory =
+				activeTab === "history" && this.auditStore
+					? await this.auditStore.getHistory(jobRoleId)
+					: undefined;
+
 			res.render("job-role-information.njk", {
 				jobRole,
 				created: wasJustCreated,
+				canViewHistory,
+				activeTab,
+				auditHistory,
+				auditActionLabels: JOB_ROLE_AUDIT_ACTION_LABELS,
+				auditFieldLabels: JOB_ROLE_EXPORT_COLUMNS,
+				jobPostingJsonLd: isJobRoleAdvertised(jobRole)
+					? serializeJsonLd(buildJobPostingStructuredData(jobRole))
+					: undefined,
+				...(await this.getShortlistContext(req)),
 			});
 		} catch (error) {
 			console.error("Error in JobRoleController.getJobRoleById:", error);
@@ -235,6 +229,61 @@ export class JobRoleController {
 		}
 	};
 
+	/**
+	 * GET /job-roles/{id}/print
+	 * Renders a print-optimised job specification for interview panels
+	 * Drafts and scheduled roles are reported as not found to non-admins
+	 */
+	public getJobRolePrint = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		try {
+			const jobRole = await this.getViewableJobRole(req, res);
+			if (!jobRole) {
+				return;
+			}
+
+			res.render("job-role-print.njk", { jobRole });
+		} catch (error) {
+			console.error("Error in JobRoleController.getJobRolePrint:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't load the job specification at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * GET /job-roles/{id}/spec.pdf
+	 * Downloads the job specification as a PDF
+	 * Drafts and scheduled roles are reported as not found to non-admins
+	 */
+	public downloadJobSpecPdf = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		try {
+			const jobRole = await this.getViewableJobRole(req, res);
+			if (!jobRole) {
+				return;
+			}
+
+			res.setHeader("Content-Type", "application/pdf");
+			res.setHeader(
+				"Content-Disposition",
+				`attachment; filename="${getJobSpecFileName(jobRole)}"`
+			);
+			res.send(buildJobSpecPdf(jobRole));
+		} catch (error) {
+			console.error("Error in JobRoleController.downloadJobSpecPdf:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't create the job specification PDF at this time. Please try again later.",
+			});
+		}
+	};
+
 	/**
 	 * GET /login
 	 * Renders the login page
@@ -262,6 +311,7 @@ export class JobRoleController {
 				return;
 			}
 
+			const previousJobRole = await this.getAuditSnapshot(jobRoleId);
 			const deleted = await this.jobRoleService.deleteJobRole(jobRoleId);
 
 			if (!deleted) {
@@ -272,6 +322,14 @@ export class JobRoleController {
 				return;
 			}
 
+			await recordJobRoleAudit(
+				this.auditStore,
+				req,
+				jobRoleId,
+				previousJobRole,
+				null
+			);
+
 			res.status(200).json({
 				success: true,
 				message: "Job role deleted successfully.",
@@ -302,6 +360,7 @@ export class JobRoleController {
 				return;
 			}
 
+			const previousJobRole = await this.getAuditSnapshot(jobRoleId);
 			const deleted = await this.jobRoleService.deleteJobRole(jobRoleId);
 
 			if (!deleted) {
@@ -309,6 +368,14 @@ export class JobRoleController {
 				return;
 			}
 
+			await recordJobRoleAudit(
+				this.auditStore,
+				req,
+				jobRoleId,
+				previousJobRole,
+				null
+			);
+
 			res.redirect("/job-roles?success=deleted");
 		} catch (error) {
 			console.error("Error in JobRoleController.deleteJobRoleForm:", error);
@@ -318,21 +385,15 @@ export class JobRoleController {
 
 	/**
 	 * GET /jobs/search
-	 * Handles search and filter requests with pagination
+	 * Handles search, filter and sort requests with pagination
 	 * Renders the job roles list view with search results and active filters
+	 * Drafts and scheduled roles are only listed for admins
 	 */
 	public searchJobRoles = async (
 		req: Request,
 		res: Response
 	): Promise<void> => {
 		try {
-			// Extract search parameters from query string
-			const searchQuery = (req.query["search"] as string) || "";
-			const capability = (req.query["capability"] as string) || "";
-			const location = (req.query["location"] as string) || "";
-			const band = (req.query["band"] as string) || "";
-			const status = (req.query["status"] as string) || "";
-
 			// Validate pagination parameters
 			const paginationValidation = validatePaginationParams(
 				req.query["page"] as string,
@@ -345,18 +406,25 @@ export class JobRoleController {
 				});
 			}
 
+			// Validate sort and filter parameters
+			const searchValidation = parseJobRoleSearchQuery(req.query);
+
+			if (!searchValidation.isValid) {
+				return res.status(400).render("pagination-error.njk", {
+					message: searchValidation.error,
+				});
+			}
+			const { searchParams } = searchValidation;
+
 			// Fetch filter options for dropdowns
 			const filterOptions = await this.jobRoleService.getFilterOptions();
 
 			// Perform search with all parameters
-			const searchResult = await this.jobRoleService.searchJobRoles({
-				search: searchQuery,
-				capability: capability,
-				location: location,
-				band: band,
-				status: status,
+			const searchResult = await searchJobRolesByMode(this.jobRoleService, {
+				...searchParams,
 				page: paginationValidation.page,
 				limit: paginationValidation.limit,
+				publishedOnly: !isAdmin(req),
 			});
 
 			// Handle case where user navigates to a page beyond available data
@@ -369,48 +437,6 @@ export class JobRoleController {
 				});
 			}
 
-			// Prepare active filters for display
-			const activeFilters: Array<{
-				type: string;
-				value: string;
-				label: string;
-			}> = [];
-			if (searchQuery.trim()) {
-				activeFilters.push({
-					type: "search",
-					value: searchQuery,
-					label: `Search: "${searchQuery}"`,
-				});
-			}
-			if (capability.trim()) {
-				activeFilters.push({
-					type: "capability",
-					value: capability,
-					label: `Capability: ${capability}`,
-				});
-			}
-			if (location.trim()) {
-				activeFilters.push({
-					type: "location",
-					value: location,
-					label: `Location: ${location}`,
-				});
-			}
-			if (band.trim()) {
-				activeFilters.push({
-					type: "band",
-					value: band,
-					label: `Band: ${band}`,
-				});
-			}
-			if (status.trim()) {
-				activeFilters.push({
-					type: "status",
-					value: status,
-					label: `Status: ${status}`,
-				});
-			}
-
 			// Render the job roles list with search context
 			res.render("job-role-list.njk", {
 				jobRoles: searchResult.data,
@@ -425,27 +451,18 @@ export class JobRoleController {
 								paginationValidation.page,
 								searchResult.pagination.totalPages,
 								paginationValidation.limit,
-								{
-									search: searchQuery,
-									capability: capability,
-									location: location,
-									band: band,
-									status: status,
-								}
+								searchParams
 							)
 						: null,
 				totalRoles: searchResult.pagination.totalCount,
 				currentUrl: "/jobs/search",
 				isSearchPage: true,
-				searchParams: {
-					search: searchQuery,
-					capability: capability,
-					location: location,
-					band: band,
-					status: status,
-				},
-				activeFilters: activeFilters,
+				searchParams: searchParams,
+				...this.getHighlightContext(searchParams.search ?? ""),
+				activeFilters: this.buildActiveFilters("/jobs/search", searchParams),
 				filterOptions: filterOptions,
+				feedUrls: this.getFeedUrls(searchParams),
+				...(await this.getShortlistContext(req)),
 			});
 		} catch (error) {
 			console.error("Error in JobRoleController.searchJobRoles:", error);
@@ -455,4 +472,143 @@ export class JobRoleController {
 			});
 		}
 	};
+
+	/**
+	 * Builds one removable chip per active filter value
+	 * Each chip links to the current search without that value
+	 */
+	private buildActiveFilters(
+		baseUrl: string,
+		searchParams: JobRoleSearchParams
+	): JobRoleActiveFilter[] {
+		const chips: Array<{ type: JobRoleFilterType; value: string }> = [];
+		for (const type of Object.keys(
+			JOB_ROLE_FILTER_LABELS
+		) as JobRoleFilterType[]) {
+			const value = searchParams[type];
+			const values =
+				typeof value === "number" ? [String(value)] : getFilterValues(value);
+			for (const item of values) {
+				chips.push({ type, value: item });
+			}
+		}
+
+		return chips.map(({ type, value }) => {
+			const remaining: JobRoleSearchParams = { ...searchParams };
+			if (type === "capability" || type === "location" || type === "band") {
+				remaining[type] = getFilterValues(searchParams[type]).filter(
+					(item) => item !== value
+				);
+			} else {
+				delete remaining[type];
+				if (type === "search") {
+					delete remaining.searchMode;
+				}
+			}
+			const queryString = buildSearchQueryString(remaining).slice(1);
+
+			return {
+				type,
+				value,
+				label: getJobRoleFilterLabel(type, value, searchParams.searchMode),
+				removeUrl: queryString ? `${baseUrl}?${queryString}` : baseUrl,
+			};
+		});
+	}
+
+	/**
+	 * Loads the job role named in the route for the detail views
+	 * Sends the 400 or 404 page itself and returns null when the ID is invalid
+	 * or the role is missing or not yet visible to the user
+	 */
+	private async getViewableJobRole(
+		req: Request,
+		res: Response
+	): Promise<JobRoleDetailedResponse | null> {
+		const jobRoleId = validateJobRoleId(req.params["id"]);
+
+		if (jobRoleId === null) {
+			res.status(400).render("error.njk", {
+				message:
+					"Invalid job role ID provided. Please provide a valid numeric ID.",
+			});
+			return null;
+		}
+
+		const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+
+		if (!jobRole || (!isJobRolePublished(jobRole) && !isAdmin(req))) {
+			res.status(404).render("error.njk", {
+				message:
+					"Job role not found. The role you're looking for may have been removed or doesn't exist.",
+			});
+			return null;
+		}
+
+		return jobRole;
+	}
+
+	/**
+	 * RSS and Atom feed links for the list view, scoped to the current
+	 * capability, location and band filters
+	 */
+	private getFeedUrls(searchParams: JobRoleSearchParams): {
+		rss: string;
+		atom: string;
+	} {
+		return {
+			rss: buildJobRoleFeedUrl("rss", searchParams),
+			atom: buildJobRoleFeedUrl("atom", searchParams),
+		};
+	}
+
+	/**
+	 * Search terms for highlighting matches in the list view
+	 */
+	private getHighlightContext(searchQuery: string): {
+		highlightTerms?: string[];
+	} {
+		const terms = getSearchTerms(searchQuery);
+		return terms.length > 0 ? { highlightTerms: terms } : {};
+	}
+
+	/**
+	 * Lists the signed-in user's shortlisted role IDs so views can show the
+	 * shortlist buttons; empty when there is no store or nobody is signed in
+	 */
+	private async getShortlistContext(
+		req: Request
+	): Promise<{ shortlistedJobRoleIds?: number[]; shortlistReturnTo?: string }> {
+		const userId = getSessionUserId(req);
+		if (!this.shortlistStore || !userId) {
+			return {};
+		}
+		try {
+			const entries = await this.shortlistStore.getShortlist(userId);
+			return {
+				shortlistedJobRoleIds: entries.map((entry) => entry.jobRoleId),
+				shortlistReturnTo: req.originalUrl,
+			};
+		} catch (error) {
+			console.error("Error loading shortlist:", error);
+			return { shortlistedJobRoleIds: [], shortlistReturnTo: req.originalUrl };
+		}
+	}
+
+	/**
+	 * Loads the job role before a delete so the audit entry can show what was removed
+	 */
+	private async getAuditSnapshot(
+		jobRoleId: number
+	): Promise<JobRoleDetailedResponse | null> {
+		if (!this.auditStore) {
+			return null;
+		}
+		try {
+			return await this.jobRoleService.getJobRoleById(jobRoleId);
+		} catch (error) {
+			console.error(`Error loading job role ${jobRoleId} for audit:`, error);
+			return null;
+		}
+	}
 }
@@ -0,0 +1,134 @@
+/**
+ * Tests for JobRoleFeedController
+ */
+
+import type { Request, Response } from "express";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { JobRoleFeedController } from "./job-role-feed-controller.js";
+
+describe("JobRoleFeedController", () => {
+	let controller: JobRoleFeedController;
+	let jobRoleService: JobRoleService;
+	let res: Response;
+
+	const role = (jobRoleId: number, overrides = {}) => ({
+		jobRoleId,
+		roleName: `Role ${jobRoleId}`,
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Mid",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 1,
+		...overrides,
+	});
+
+	const createRequest = (query: Record<string, string | string[]> = {}) =>
+		({
+			query,
+			protocol: "http",
+			originalUrl: "/job-roles/feed.rss",
+			get: vi.fn().mockReturnValue("localhost:3000"),
+		}) as unknown as Request;
+
+	beforeEach(() => {
+		jobRoleService = {
+			getAllJobRolesForExport: vi
+				.fn()
+				.mockResolvedValue([
+					role(1),
+					role(3),
+					role(2, { status: "Draft" }),
+					role(4, { publishDate: "2099-01-01" }),
+				]),
+		} as unknown as JobRoleService;
+		controller = new JobRoleFeedController(jobRoleService);
+		res = {
+			send: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+			type: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	it("should serve open, published roles as RSS, newest first", async () => {
+		await controller.getRssFeed(
+			createRequest({ location: ["Belfast", "London"], search: "ignored" }),
+			res
+		);
+
+		expect(jobRoleService.getAllJobRolesForExport).toHaveBeenCalledWith({
+			location: ["Belfast", "London"],
+			status: "Open",
+		});
+		expect(res.type).toHaveBeenCalledWith("application/rss+xml; charset=utf-8");
+		const feed = vi.mocked(res.send).mock.calls[0]?.[0] as string;
+		expect(feed).toContain(
+			"<title>Open job roles at Kainos (Location: Belfast, London)</title>"
+		);
+		expect(feed.indexOf("/job-roles/3<")).toBeLessThan(
+			feed.indexOf("/job-roles/1<")
+		);
+		expect(feed).not.toContain("/job-roles/2<");
+		expect(feed).not.toContain("/job-roles/4<");
+		expect(feed).toContain("<link>http://localhost:3000/job-roles/3</link>");
+	});
+
+	it("should serve an Atom feed using the configured public URL", async () => {
+		vi.stubEnv("PUBLIC_BASE_URL", "https://jobs.example.com/");
+
+		await controller.getAtomFeed(createRequest(), res);
+
+		expect(res.type).toHaveBeenCalledWith(
+			"application/atom+xml; charset=utf-8"
+		);
+		const feed = vi.mocked(res.send).mock.calls[0]?.[0] as string;
+		expect(feed).toContain(
+			'href="https://jobs.example.com/job-roles/feed.rss"/>'
+		);
+		expect(feed).toContain("<id>https://jobs.example.com/job-roles/3</id>");
+	});
+
+	it("should take the newest roles from every backend page", async () => {
+		vi.mocked(jobRoleService.getAllJobRolesForExport).mockResolvedValue(
+			Array.from({ length: 150 }, (_, index) => role(index + 1))
+		);
+
+		await controller.getRssFeed(createRequest(), res);
+
+		const feed = vi.mocked(res.send).mock.calls[0]?.[0] as string;
+		expect(feed).toContain("/job-roles/150<");
+		expect(feed).not.toContain("/job-roles/1<");
+	});
+
+	it("should reject too many filter values", async () => {
+		await controller.getRssFeed(
+			createRequest({
+				band: Array.from({ length: 21 }, (_, index) => `Band ${index}`),
+			}),
+			res
+		);
+
+		expect(res.status).toHaveBeenCalledWith(400);
+		expect(res.send).toHaveBeenCalledWith(
+			"You can select at most 20 values for band"
+		);
+		expect(jobRoleService.getAllJobRolesForExport).not.toHaveBeenCalled();
+	});
+
+	it("should return a 500 when the service fails", async () => {
+		vi.mocked(jobRoleService.getAllJobRolesForExport).mockRejectedValue(
+			new Error("Network error")
+		);
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		await controller.getRssFeed(createRequest(), res);
+
+		expect(res.status).toHaveBeenCalledWith(500);
+		consoleSpy.mockRestore();
+	});
+});
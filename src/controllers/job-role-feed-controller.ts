@@ -0,0 +1,116 @@
+/**
+ * Job Role Feed Controller for the RSS and Atom feeds of open job roles
+ */
+
+import type { Request, Response } from "express";
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import {
+	buildJobRoleAtomFeed,
+	buildJobRoleRssFeed,
+	getJobRoleFeedTitle,
+	JOB_ROLE_FEED_CONTENT_TYPES,
+	JOB_ROLE_FEED_SIZE,
+	type JobRoleFeedFormat,
+} from "../utils/job-role-feed.js";
+import { validateJobRoleFilterParams } from "../utils/job-role-filters.js";
+import { isJobRolePublished } from "../utils/job-role-visibility.js";
+import { getPublicBaseUrl } from "../utils/url-builder.js";
+
+export class JobRoleFeedController {
+	private jobRoleService: JobRoleService;
+
+	constructor(jobRoleService: JobRoleService) {
+		this.jobRoleService = jobRoleService;
+	}
+
+	/**
+	 * GET /job-roles/feed.rss
+	 * Serves an RSS 2.0 feed of open job roles
+	 */
+	public getRssFeed = async (req: Request, res: Response): Promise<void> => {
+		await this.sendFeed(req, res, "rss");
+	};
+
+	/**
+	 * GET /job-roles/feed.atom
+	 * Serves an Atom feed of open job roles
+	 */
+	public getAtomFeed = async (req: Request, res: Response): Promise<void> => {
+		await this.sendFeed(req, res, "atom");
+	};
+
+	/**
+	 * Builds and sends a feed of open, published job roles, newest first
+	 * Feeds can be scoped with the capability, location and band filters;
+	 * other list parameters are ignored
+	 */
+	private async sendFeed(
+		req: Request,
+		res: Response,
+		format: JobRoleFeedFormat
+	): Promise<void> {
+		try {
+			const filterValidation = validateJobRoleFilterParams({
+				capability: req.query["capability"],
+				location: req.query["location"],
+				band: req.query["band"],
+			});
+
+			if (!filterValidation.isValid) {
+				res
+					.status(400)
+					.type("text/plain")
+					.send(filterValidation.error ?? "Invalid feed filters.");
+				return;
+			}
+			const filters = filterValidation.filters;
+
+			// Every open role is fetched before sorting, since the newest roles
+			// may not be on the backend's first page
+			const openJobRoles = await this.jobRoleService.getAllJobRolesForExport({
+				...filters,
+				status: "Open",
+			});
+
+			const jobRoles = this.getFeedJobRoles(openJobRoles);
+			const baseUrl = getPublicBaseUrl(req);
+			const options = {
+				title: getJobRoleFeedTitle(filters),
+				baseUrl,
+				selfUrl: `${baseUrl}${req.originalUrl}`,
+			};
+
+			res
+				.type(JOB_ROLE_FEED_CONTENT_TYPES[format])
+				.send(
+					format === "rss"
+						? buildJobRoleRssFeed(jobRoles, options)
+						: buildJobRoleAtomFeed(jobRoles, options)
+				);
+		} catch (error) {
+			console.error("Error in JobRoleFeedController.sendFeed:", error);
+			res
+				.status(500)
+				.type("text/plain")
+				.send(
+					"Sorry, we couldn't load the job roles feed at this time. Please try again later."
+				);
+		}
+	}
+
+	/**
+	 * Keeps open, published job roles and orders them newest first
+	 * Job role IDs are assigned in creation order, so the highest IDs are the
+	 * newest roles
+	 */
+	private getFeedJobRoles(jobRoles: JobRoleResponse[]): JobRoleResponse[] {
+		return jobRoles
+			.filter(
+				(jobRole) =>
+					jobRole.status.toLowerCase() === "open" && isJobRolePublished(jobRole)
+			)
+			.sort((a, b) => b.jobRoleId - a.jobRoleId)
+			.slice(0, JOB_ROLE_FEED_SIZE);
+	}
+}
@@ -0,0 +1,215 @@
+/**
+ * Tests for ReferenceDataController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ReferenceDataService } from "../services/reference-data-service.js";
+import {
+	copyReferenceData,
+	DEFAULT_REFERENCE_DATA,
+} from "../utils/reference-data.js";
+import { ReferenceDataController } from "./reference-data-controller.js";
+
+describe("ReferenceDataController", () => {
+	let controller: ReferenceDataController;
+	let mockService: ReferenceDataService;
+	let mockReq: Partial<Request>;
+	let mockRes: Partial<Response>;
+
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		mockService = {
+			getReferenceData: vi
+				.fn()
+				.mockResolvedValue(copyReferenceData(DEFAULT_REFERENCE_DATA)),
+			addValue: vi.fn().mockResolvedValue(undefined),
+			renameValue: vi.fn().mockResolvedValue(undefined),
+			deleteValue: vi.fn().mockResolvedValue(undefined),
+		};
+		controller = new ReferenceDataController(mockService);
+
+		mockReq = { body: {}, params: { type: "bands" }, query: {} };
+		mockRes = {
+			render: vi.fn(),
+			redirect: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		};
+	});
+
+	describe("getReferenceDataIndex", () => {
+		it("should redirect to the first list", () => {
+			controller.getReferenceDataIndex(mockReq as Request, mockRes as Response);
+
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/admin/reference-data/locations"
+			);
+		});
+	});
+
+	describe("getReferenceDataList", () => {
+		it("should render the selected list with counts for every list", async () => {
+			mockReq.query = { success: "added" };
+
+			await controller.getReferenceDataList(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"reference-data.njk",
+				expect.objectContaining({
+					type: "bands",
+					label: "Bands",
+					values: DEFAULT_REFERENCE_DATA.bands,
+					protectedValues: [],
+					success: "Value added.",
+					types: expect.arrayContaining([
+						{
+							type: "statuses",
+							label: "Statuses",
+							count: DEFAULT_REFERENCE_DATA.statuses.length,
+						},
+					]),
+				})
+			);
+		});
+
+		it("should return 404 for an unknown list", async () => {
+			mockReq.params = { type: "salaries" };
+
+			await controller.getReferenceDataList(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(404);
+			expect(mockService.getReferenceData).not.toHaveBeenCalled();
+		});
+
+		it("should render an error when the service fails", async () => {
+			vi.mocked(mockService.getReferenceData).mockRejectedValue(
+				new Error("Disk unavailable")
+			);
+
+			await controller.getReferenceDataList(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(500);
+			expect(mockRes.render).toHaveBeenCalledWith("error.njk", {
+				message: expect.stringContaining("couldn't load the reference data"),
+			});
+		});
+	});
+
+	describe("addReferenceDataValue", () => {
+		it("should add a trimmed value and redirect", async () => {
+			mockReq.body = { value: "  Lead " };
+
+			await controller.addReferenceDataValue(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockService.addValue).toHaveBeenCalledWith("bands", "Lead");
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/admin/reference-data/bands?success=added"
+			);
+		});
+
+		it("should re-render the list with an error for a duplicate", async () => {
+			mockReq.body = { value: "senior" };
+
+			await controller.addReferenceDataValue(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockService.addValue).not.toHaveBeenCalled();
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"reference-data.njk",
+				expect.objectContaining({
+					error: '"Senior" is already in the bands list.',
+				})
+			);
+		});
+
+		it("should render an error when saving fails", async () => {
+			mockReq.body = { value: "Lead" };
+			vi.mocked(mockService.addValue).mockRejectedValue(new Error("Disk full"));
+
+			await controller.addReferenceDataValue(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(500);
+		});
+	});
+
+	describe("renameReferenceDataValue", () => {
+		it("should rename a value and redirect", async () => {
+			mockReq.body = { currentValue: "Junior", value: "Associate" };
+
+			await controller.renameReferenceDataValue(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockService.renameValue).toHaveBeenCalledWith(
+				"bands",
+				"Junior",
+				"Associate"
+			);
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/admin/reference-data/bands?success=renamed"
+			);
+		});
+
+		it("should refuse to rename a workflow status", async () => {
+			mockReq.params = { type: "statuses" };
+			mockReq.body = { currentValue: "Open", value: "Live" };
+
+			await controller.renameReferenceDataValue(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockService.renameValue).not.toHaveBeenCalled();
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+		});
+	});
+
+	describe("deleteReferenceDataValue", () => {
+		it("should delete a value and redirect", async () => {
+			mockReq.body = { value: "Mid" };
+
+			await controller.deleteReferenceDataValue(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockService.deleteValue).toHaveBeenCalledWith("bands", "Mid");
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/admin/reference-data/bands?success=deleted"
+			);
+		});
+
+		it("should refuse to delete a workflow status", async () => {
+			mockReq.params = { type: "statuses" };
+			mockReq.body = { value: "Closed" };
+
+			await controller.deleteReferenceDataValue(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockService.deleteValue).not.toHaveBeenCalled();
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+		});
+	});
+});
@@ -0,0 +1,224 @@
+/**
+ * Reference Data Controller for the admin pages that manage the locations,
+ * capabilities, bands and statuses lists
+ */
+
+import type { Request, Response } from "express";
+import type {
+	ReferenceData,
+	ReferenceDataType,
+} from "../models/reference-data.js";
+import type { ReferenceDataService } from "../services/reference-data-service.js";
+import {
+	isReferenceDataType,
+	PROTECTED_REFERENCE_VALUES,
+	REFERENCE_DATA_LABELS,
+	REFERENCE_DATA_TYPES,
+	type ReferenceDataValidationResult,
+	validateReferenceDataDeletion,
+	validateReferenceDataValue,
+} from "../utils/reference-data.js";
+
+/**
+ * Messages shown after a successful change (keyed by ?success=)
+ */
+const SUCCESS_MESSAGES: Record<string, string> = {
+	added: "Value added.",
+	renamed: "Value renamed. Existing job roles keep the old value until edited.",
+	deleted:
+		"Value deleted. Existing job roles keep the value until they are edited.",
+};
+
+export class ReferenceDataController {
+	private referenceDataService: ReferenceDataService;
+
+	constructor(referenceDataService: ReferenceDataService) {
+		this.referenceDataService = referenceDataService;
+	}
+
+	/**
+	 * GET /admin/reference-data
+	 * Redirects to the first reference data list
+	 */
+	public getReferenceDataIndex = (_req: Request, res: Response): void => {
+		res.redirect(`/admin/reference-data/${REFERENCE_DATA_TYPES[0]}`);
+	};
+
+	/**
+	 * GET /admin/reference-data/:type
+	 * Renders a reference data list with add, rename and delete forms
+	 */
+	public getReferenceDataList = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		const type = this.getType(req, res);
+		if (!type) {
+			return;
+		}
+
+		try {
+			const referenceData = await this.referenceDataService.getReferenceData();
+			const success = SUCCESS_MESSAGES[String(req.query["success"] ?? "")];
+
+			this.renderList(res, type, referenceData, success ? { success } : {});
+		} catch (error) {
+			console.error(
+				"Error in ReferenceDataController.getReferenceDataList:",
+				error
+			);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't load the reference data at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * POST /admin/reference-data/:type
+	 * Adds a value to a reference data list
+	 */
+	public addReferenceDataValue = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		await this.applyChange(req, res, "added", (type, referenceData) => {
+			const validation = validateReferenceDataValue(
+				type,
+				req.body?.value,
+				referenceData[type]
+			);
+			return {
+				validation,
+				apply: (value) => this.referenceDataService.addValue(type, value),
+			};
+		});
+	};
+
+	/**
+	 * POST /admin/reference-data/:type/rename
+	 * Renames a value in a reference data list
+	 */
+	public renameReferenceDataValue = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		const currentValue = String(req.body?.currentValue ?? "");
+
+		await this.applyChange(req, res, "renamed", (type, referenceData) => {
+			const validation = validateReferenceDataValue(
+				type,
+				req.body?.value,
+				referenceData[type],
+				currentValue
+			);
+			return {
+				validation,
+				apply: (value) =>
+					this.referenceDataService.renameValue(type, currentValue, value),
+			};
+		});
+	};
+
+	/**
+	 * POST /admin/reference-data/:type/delete
+	 * Removes a value from a reference data list
+	 */
+	public deleteReferenceDataValue = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		await this.applyChange(req, res, "deleted", (type, referenceData) => {
+			const validation = validateReferenceDataDeletion(
+				type,
+				req.body?.value,
+				referenceData[type]
+			);
+			return {
+				validation,
+				apply: (value) => this.referenceDataService.deleteValue(type, value),
+			};
+		});
+	};
+
+	/**
+	 * Validates and applies a change, then redirects back to the list
+	 * Invalid changes re-render the list with the error
+	 */
+	private async applyChange(
+		req: Request,
+		res: Response,
+		successKey: string,
+		prepare: (
+			type: ReferenceDataType,
+			referenceData: ReferenceData
+		) => {
+			validation: ReferenceDataValidationResult;
+			apply: (value: string) => Promise<void>;
+		}
+	): Promise<void> {
+		const type = this.getType(req, res);
+		if (!type) {
+			return;
+		}
+
+		try {
+			const referenceData = await this.referenceDataService.getReferenceData();
+			const { validation, apply } = prepare(type, referenceData);
+
+			if (!validation.isValid || validation.value === undefined) {
+				res.status(400);
+				this.renderList(res, type, referenceData, {
+					error: validation.error ?? "Invalid value.",
+				});
+				return;
+			}
+
+			await apply(validation.value);
+			res.redirect(`/admin/reference-data/${type}?success=${successKey}`);
+		} catch (error) {
+			console.error("Error in ReferenceDataController.applyChange:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't update the reference data at this time. Please try again later.",
+			});
+		}
+	}
+
+	/**
+	 * Reads the list type from the URL, rendering a 404 when it is unknown
+	 */
+	private getType(req: Request, res: Response): ReferenceDataType | null {
+		const type = req.params["type"];
+		if (!isReferenceDataType(type)) {
+			res.status(404).render("error.njk", {
+				message: "Reference data list not found.",
+			});
+			return null;
+		}
+		return type;
+	}
+
+	/**
+	 * Renders the reference data page for a list
+	 */
+	private renderList(
+		res: Response,
+		type: ReferenceDataType,
+		referenceData: ReferenceData,
+		messages: { success?: string; error?: string }
+	): void {
+		res.render("reference-data.njk", {
+			type,
+			label: REFERENCE_DATA_LABELS[type],
+			types: REFERENCE_DATA_TYPES.map((listType) => ({
+				type: listType,
+				label: REFERENCE_DATA_LABELS[listType],
+				count: referenceData[listType].length,
+			})),
+			values: referenceData[type],
+			protectedValues: PROTECTED_REFERENCE_VALUES[type],
+			...messages,
+		});
+	}
+}
@@ -0,0 +1,316 @@
+/**
+ * Tests for SavedSearchController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import { InMemorySavedSearchStore } from "../services/in-memory-saved-search-store.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { SavedSearchController } from "./saved-search-controller.js";
+
+/**
+ * Builds a job role with just the fields the controller uses
+ */
+function jobRole(
+	jobRoleId: number,
+	overrides: Partial<JobRoleDetailedResponse> = {}
+): JobRoleDetailedResponse {
+	return {
+		jobRoleId,
+		roleName: `Role ${jobRoleId}`,
+		description: "",
+		responsibilities: "",
+		jobSpecLink: "",
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Mid",
+		closingDate: "2099-01-31",
+		status: "Open",
+		numberOfOpenPositions: 1,
+		...overrides,
+	};
+}
+
+describe("SavedSearchController", () => {
+	let controller: SavedSearchController;
+	let store: InMemorySavedSearchStore;
+	let mockJobRoleService: JobRoleService;
+	let mockReq: Partial<Request>;
+	let mockRes: Partial<Response>;
+
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		store = new InMemorySavedSearchStore();
+		mockJobRoleService = {
+			getAllJobRolesForExport: vi
+				.fn()
+				.mockResolvedValue([jobRole(1), jobRole(2)]),
+		} as unknown as JobRoleService;
+		controller = new SavedSearchController(store, mockJobRoleService);
+
+		mockReq = {
+			body: {},
+			params: {},
+			query: {},
+			session: {
+				user: { userId: "7", email: "a@example.com", role: "Applicant" },
+			} as unknown as Request["session"],
+		};
+		mockRes = {
+			render: vi.fn(),
+			redirect: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		};
+	});
+
+	describe("createSavedSearch", () => {
+		it("should save the filters with the current roles marked as seen", async () => {
+			mockReq.body = {
+				name: "Belfast engineering",
+				capability: "Engineering",
+				location: "Belfast",
+				search: "",
+			};
+
+			await controller.createSavedSearch(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			const [saved] = await store.getSavedSearches("7");
+			expect(saved).toMatchObject({
+				name: "Belfast engineering",
+				params: { capability: ["Engineering"], location: ["Belfast"] },
+				lastSeenJobRoleId: 2,
+			});
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/account/saved-searches?success=saved"
+			);
+		});
+
+		it("should reject a search without filters", async () => {
+			mockReq.body = { name: "Everything" };
+
+			await controller.createSavedSearch(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+			expect(mockRes.render).toHaveBeenCalledWith("saved-searches.njk", {
+				savedSearches: [],
+				error: "Choose at least one search filter before saving a search.",
+			});
+			await expect(store.getSavedSearches("7")).resolves.toEqual([]);
+		});
+
+		it("should reject a duplicate name", async () => {
+			await store.createSavedSearch({
+				userId: "7",
+				name: "Mid roles",
+				params: { band: "Mid" },
+				lastSeenJobRoleId: 2,
+			});
+			mockReq.body = { name: "mid roles", band: "Senior" };
+
+			await controller.createSavedSearch(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"saved-searches.njk",
+				expect.objectContaining({
+					error: 'You already have a saved search called "mid roles".',
+				})
+			);
+		});
+
+		it("should redirect to login without a session user", async () => {
+			mockReq.session = {} as Request["session"];
+
+			await controller.createSavedSearch(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.redirect).toHaveBeenCalledWith("/login");
+		});
+	});
+
+	describe("getSavedSearches", () => {
+		it("should show the number of new published matches for each search", async () => {
+			const saved = await store.createSavedSearch({
+				userId: "7",
+				name: "Mid roles",
+				params: { band: "Mid" },
+				lastSeenJobRoleId: 2,
+			});
+			vi.mocked(mockJobRoleService.getAllJobRolesForExport).mockResolvedValue([
+				jobRole(1),
+				jobRole(3),
+				jobRole(4),
+				jobRole(5, { status: "Draft" }),
+			]);
+			mockReq.query = { success: "saved" };
+
+			await controller.getSavedSearches(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockJobRoleService.getAllJobRolesForExport).toHaveBeenCalledWith({
+				band: "Mid",
+			});
+			expect(mockRes.render).toHaveBeenCalledWith("saved-searches.njk", {
+				savedSearches: [
+					{
+						...saved,
+						url: `/account/saved-searches/${saved.id}`,
+						filterLabels: ["Band: Mid"],
+						newMatchCount: 2,
+					},
+				],
+				success: expect.stringContaining("Search saved"),
+			});
+		});
+
+		it("should count full-text matches in descriptions as the list does", async () => {
+			await store.createSavedSearch({
+				userId: "7",
+				name: "Kubernetes",
+				params: { search: "kubernetes", searchMode: "fulltext", band: "Mid" },
+				lastSeenJobRoleId: 2,
+			});
+			vi.mocked(mockJobRoleService.getAllJobRolesForExport).mockResolvedValue([
+				jobRole(1, { description: "Kubernetes platform" }),
+				jobRole(3, { responsibilities: "Run Kubernetes clusters" }),
+				jobRole(4, { description: "Frontend work" }),
+			]);
+
+			await controller.getSavedSearches(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockJobRoleService.getAllJobRolesForExport).toHaveBeenCalledWith({
+				searchMode: "fulltext",
+				band: "Mid",
+			});
+			expect(mockRes.render).toHaveBeenCalledWith("saved-searches.njk", {
+				savedSearches: [expect.objectContaining({ newMatchCount: 1 })],
+			});
+		});
+
+		it("should leave out the badge when matches cannot be counted", async () => {
+			await store.createSavedSearch({
+				userId: "7",
+				name: "Mid roles",
+				params: { band: "Mid" },
+				lastSeenJobRoleId: 2,
+			});
+			vi.mocked(mockJobRoleService.getAllJobRolesForExport).mockRejectedValue(
+				new Error("Backend unavailable")
+			);
+
+			await controller.getSavedSearches(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.render).toHaveBeenCalledWith("saved-searches.njk", {
+				savedSearches: [expect.objectContaining({ newMatchCount: null })],
+			});
+		});
+
+		it("should only list the signed-in user's searches", async () => {
+			await store.createSavedSearch({
+				userId: "8",
+				name: "Someone else's",
+				params: { band: "Mid" },
+				lastSeenJobRoleId: 0,
+			});
+
+			await controller.getSavedSearches(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.render).toHaveBeenCalledWith("saved-searches.njk", {
+				savedSearches: [],
+			});
+		});
+	});
+
+	describe("viewSavedSearch", () => {
+		it("should mark the search as viewed and open its results", async () => {
+			const saved = await store.createSavedSearch({
+				userId: "7",
+				name: "Belfast",
+				params: { location: "Belfast", search: "data engineer" },
+				lastSeenJobRoleId: 1,
+			});
+			mockReq.params = { id: saved.id };
+
+			await controller.viewSavedSearch(mockReq as Request, mockRes as Response);
+
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/jobs/search?search=data%20engineer&location=Belfast"
+			);
+			expect(
+				(await store.getSavedSearch("7", saved.id))?.lastSeenJobRoleId
+			).toBe(2);
+		});
+
+		it("should return 404 for another user's search", async () => {
+			const saved = await store.createSavedSearch({
+				userId: "8",
+				name: "Belfast",
+				params: { location: "Belfast" },
+				lastSeenJobRoleId: 1,
+			});
+			mockReq.params = { id: saved.id };
+
+			await controller.viewSavedSearch(mockReq as Request, mockRes as Response);
+
+			expect(mockRes.status).toHaveBeenCalledWith(404);
+			expect(mockRes.redirect).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("deleteSavedSearch", () => {
+		it("should delete the search and redirect", async () => {
+			const saved = await store.createSavedSearch({
+				userId: "7",
+				name: "Belfast",
+				params: { location: "Belfast" },
+				lastSeenJobRoleId: 1,
+			});
+			mockReq.params = { id: saved.id };
+
+			await controller.deleteSavedSearch(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/account/saved-searches?success=deleted"
+			);
+			await expect(store.getSavedSearches("7")).resolves.toEqual([]);
+		});
+
+		it("should return 404 for an unknown search", async () => {
+			mockReq.params = { id: "missing" };
+
+			await controller.deleteSavedSearch(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.status).toHaveBeenCalledWith(404);
+		});
+	});
+});
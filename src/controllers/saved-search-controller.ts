@@ -0,0 +1,260 @@
+/**
+ * Saved Search Controller for the job role searches users save to their account
+ */
+
+import type { Request, Response } from "express";
+import { getSessionUserId } from "../middleware/auth-middleware.js";
+import type { SavedSearchSummary } from "../models/saved-search.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import type { SavedSearchStore } from "../services/saved-search-store.js";
+import { rankJobRolesByText } from "../utils/full-text-search.js";
+import { isJobRolePublished } from "../utils/job-role-visibility.js";
+import {
+	buildSavedSearchUrl,
+	countNewSavedSearchMatches,
+	getHighestJobRoleId,
+	getSavedSearchFilterLabels,
+	hasSavedSearchFilters,
+	MAX_SAVED_SEARCHES,
+	parseSavedSearchParams,
+	validateSavedSearchName,
+} from "../utils/saved-search.js";
+
+/**
+ * Messages shown after a successful change (keyed by ?success=)
+ */
+const SUCCESS_MESSAGES: Record<string, string> = {
+	saved: "Search saved. We'll show you how many new roles match it here.",
+	deleted: "Saved search deleted.",
+};
+
+export class SavedSearchController {
+	private savedSearchStore: SavedSearchStore;
+	private jobRoleService: JobRoleService;
+
+	constructor(
+		savedSearchStore: SavedSearchStore,
+		jobRoleService: JobRoleService
+	) {
+		this.savedSearchStore = savedSearchStore;
+		this.jobRoleService = jobRoleService;
+	}
+
+	/**
+	 * GET /account/saved-searches
+	 * Lists the user's saved searches with the number of new matches for each
+	 */
+	public getSavedSearches = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		const userId = getSessionUserId(req);
+		if (!userId) {
+			res.redirect("/login");
+			return;
+		}
+
+		try {
+			const success = SUCCESS_MESSAGES[String(req.query["success"] ?? "")];
+			await this.renderSavedSearches(res, userId, success ? { success } : {});
+		} catch (error) {
+			console.error("Error in SavedSearchController.getSavedSearches:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't load your saved searches at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * POST /account/saved-searches
+	 * Saves the submitted search filters under a name
+	 * Roles that already match are treated as seen
+	 */
+	public createSavedSearch = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		const userId = getSessionUserId(req);
+		if (!userId) {
+			res.redirect("/login");
+			return;
+		}
+
+		try {
+			const params = parseSavedSearchParams(req.body);
+			const existing = await this.savedSearchStore.getSavedSearches(userId);
+			const nameValidation = validateSavedSearchName(req.body?.name, existing);
+
+			const error = !hasSavedSearchFilters(params)
+				? "Choose at least one search filter before saving a search."
+				: existing.length >= MAX_SAVED_SEARCHES
+					? `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`
+					: nameValidation.error;
+
+			if (error || !nameValidation.value) {
+				res.status(400);
+				await this.renderSavedSearches(res, userId, {
+					error: error ?? "Please enter a name for your search.",
+				});
+				return;
+			}
+
+			const allJobRoles = await this.jobRoleService.getAllJobRolesForExport();
+			await this.savedSearchStore.createSavedSearch({
+				userId,
+				name: nameValidation.value,
+				params,
+				lastSeenJobRoleId: getHighestJobRoleId(allJobRoles),
+			});
+
+			res.redirect("/account/saved-searches?success=saved");
+		} catch (error) {
+			console.error("Error in SavedSearchController.createSavedSearch:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't save your search at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * GET /account/saved-searches/:id
+	 * Marks a saved search as viewed and opens its results
+	 */
+	public viewSavedSearch = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		const userId = getSessionUserId(req);
+		if (!userId) {
+			res.redirect("/login");
+			return;
+		}
+
+		try {
+			const savedSearch = await this.savedSearchStore.getSavedSearch(
+				userId,
+				String(req.params["id"] ?? "")
+			);
+
+			if (!savedSearch) {
+				res.status(404).render("error.njk", {
+					message: "Saved search not found.",
+				});
+				return;
+			}
+
+			const allJobRoles = await this.jobRoleService.getAllJobRolesForExport();
+			await this.savedSearchStore.markViewed(
+				userId,
+				savedSearch.id,
+				getHighestJobRoleId(allJobRoles)
+			);
+
+			res.redirect(buildSavedSearchUrl(savedSearch.params));
+		} catch (error) {
+			console.error("Error in SavedSearchController.viewSavedSearch:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't open your saved search at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * POST /account/saved-searches/:id/delete
+	 * Deletes a saved search
+	 */
+	public deleteSavedSearch = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		const userId = getSessionUserId(req);
+		if (!userId) {
+			res.redirect("/login");
+			return;
+		}
+
+		try {
+			const deleted = await this.savedSearchStore.deleteSavedSearch(
+				userId,
+				String(req.params["id"] ?? "")
+			);
+
+			if (!deleted) {
+				res.status(404).render("error.njk", {
+					message: "Saved search not found.",
+				});
+				return;
+			}
+
+			res.redirect("/account/saved-searches?success=deleted");
+		} catch (error) {
+			console.error("Error in SavedSearchController.deleteSavedSearch:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't delete your saved search at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * Renders the saved searches page with new match counts
+	 */
+	private async renderSavedSearches(
+		res: Response,
+		userId: string,
+		messages: { success?: string; error?: string }
+	): Promise<void> {
+		const savedSearches = await this.savedSearchStore.getSavedSearches(userId);
+		const summaries = await Promise.all(
+			savedSearches.map(
+				async (savedSearch): Promise<SavedSearchSummary> => ({
+					...savedSearch,
+					url: `/account/saved-searches/${savedSearch.id}`,
+					filterLabels: getSavedSearchFilterLabels(savedSearch.params),
+					newMatchCount: await this.countNewMatches(
+						savedSearch.params,
+						savedSearch.lastSeenJobRoleId
+					),
+				})
+			)
+		);
+
+		res.render("saved-searches.njk", {
+			savedSearches: summaries,
+			...messages,
+		});
+	}
+
+	/**
+	 * Counts published roles matching a saved search that are newer than the
+	 * last role seen, returning null (no badge) when the search fails
+	 * Full-text searches match descriptions and responsibilities as the list
+	 * does, rather than the backend's role name search
+	 */
+	private async countNewMatches(
+		params: SavedSearchSummary["params"],
+		lastSeenJobRoleId: number
+	): Promise<number | null> {
+		try {
+			const { search, ...filters } = params;
+			const fullTextQuery =
+				params.searchMode === "fulltext" ? search?.trim() : undefined;
+			const matches = fullTextQuery
+				? rankJobRolesByText(
+						await this.jobRoleService.getAllJobRolesForExport(filters),
+						fullTextQuery
+					)
+				: await this.jobRoleService.getAllJobRolesForExport(params);
+			return countNewSavedSearchMatches(
+				matches.filter((jobRole) => isJobRolePublished(jobRole)),
+				lastSeenJobRoleId
+			);
+		} catch (error) {
+			console.error("Error counting saved search matches:", error);
+			return null;
+		}
+	}
+}
@@ -0,0 +1,257 @@
+/**
+ * Tests for ShortlistController
+ */
+
+import type { Request, Response } from "express";
+import type { Session } from "express-session";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import { InMemoryShortlistStore } from "../services/in-memory-shortlist-store.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { MAX_SHORTLIST_SIZE } from "../utils/shortlist.js";
+import { ShortlistController } from "./shortlist-controller.js";
+
+describe("ShortlistController", () => {
+	let controller: ShortlistController;
+	let store: InMemoryShortlistStore;
+	let mockJobRoleService: JobRoleService;
+	let mockReq: Partial<Request>;
+	let mockRes: Partial<Response>;
+
+	const candidate = { userId: "7", email: "c@example.com", role: "Applicant" };
+
+	const jobRole = (
+		jobRoleId: number,
+		overrides: Partial<JobRoleDetailedResponse> = {}
+	): JobRoleDetailedResponse => ({
+		jobRoleId,
+		roleName: `Role ${jobRoleId}`,
+		description: "",
+		responsibilities: "",
+		jobSpecLink: "",
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Mid",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 1,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		store = new InMemoryShortlistStore();
+		mockJobRoleService = {
+			getJobRoleById: vi
+				.fn()
+				.mockImplementation(async (id: number) => jobRole(id)),
+		} as unknown as JobRoleService;
+		controller = new ShortlistController(store, mockJobRoleService);
+
+		mockReq = {
+			body: {},
+			params: { id: "4" },
+			query: {},
+			session: { user: candidate } as unknown as Session,
+		};
+		mockRes = {
+			render: vi.fn(),
+			redirect: vi.fn(),
+			json: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		};
+	});
+
+	describe("addToShortlist (AJAX)", () => {
+		it("should add a published role", async () => {
+			await controller.addToShortlist(mockReq as Request, mockRes as Response);
+
+			expect(mockRes.status).toHaveBeenCalledWith(200);
+			expect(mockRes.json).toHaveBeenCalledWith({
+				success: true,
+				message: "Job role added to your shortlist.",
+				shortlisted: true,
+			});
+			await expect(store.getShortlist("7")).resolves.toEqual([
+				expect.objectContaining({ jobRoleId: 4 }),
+			]);
+		});
+
+		it("should return 401 when nobody is signed in", async () => {
+			mockReq.session = {} as Session;
+
+			await controller.addToShortlist(mockReq as Request, mockRes as Response);
+
+			expect(mockRes.status).toHaveBeenCalledWith(401);
+			expect(mockJobRoleService.getJobRoleById).not.toHaveBeenCalled();
+		});
+
+		it("should return 400 for an invalid ID", async () => {
+			mockReq.params = { id: "abc" };
+
+			await controller.addToShortlist(mockReq as Request, mockRes as Response);
+
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+		});
+
+		it("should return 404 for missing and unpublished roles", async () => {
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValueOnce(null);
+			await controller.addToShortlist(mockReq as Request, mockRes as Response);
+
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValueOnce(
+				jobRole(4, { status: "Draft" })
+			);
+			await controller.addToShortlist(mockReq as Request, mockRes as Response);
+
+			expect(vi.mocked(mockRes.status).mock.calls).toEqual([[404], [404]]);
+			await expect(store.getShortlist("7")).resolves.toEqual([]);
+		});
+
+		it("should refuse to add beyond the maximum size", async () => {
+			for (let id = 100; id < 100 + MAX_SHORTLIST_SIZE; id++) {
+				await store.addJobRole("7", id);
+			}
+
+			await controller.addToShortlist(mockReq as Request, mockRes as Response);
+
+			expect(mockRes.status).toHaveBeenCalledWith(400);
+			await expect(store.getShortlist("7")).resolves.toHaveLength(
+				MAX_SHORTLIST_SIZE
+			);
+		});
+
+		it("should return 500 when the store fails", async () => {
+			vi.spyOn(store, "addJobRole").mockRejectedValue(new Error("Store down"));
+
+			await controller.addToShortlist(mockReq as Request, mockRes as Response);
+
+			expect(mockRes.status).toHaveBeenCalledWith(500);
+		});
+	});
+
+	describe("removeFromShortlist (AJAX)", () => {
+		it("should remove a role", async () => {
+			await store.addJobRole("7", 4);
+
+			await controller.removeFromShortlist(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.json).toHaveBeenCalledWith({
+				success: true,
+				message: "Job role removed from your shortlist.",
+				shortlisted: false,
+			});
+			await expect(store.getShortlist("7")).resolves.toEqual([]);
+		});
+	});
+
+	describe("form submissions", () => {
+		it("should add a role and return to the submitted page", async () => {
+			mockReq.body = { returnTo: "/jobs/search?band=Mid" };
+
+			await controller.addToShortlistForm(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.redirect).toHaveBeenCalledWith("/jobs/search?band=Mid");
+			await expect(store.getShortlist("7")).resolves.toHaveLength(1);
+		});
+
+		it("should not redirect to another site", async () => {
+			await store.addJobRole("7", 4);
+			mockReq.body = { returnTo: "//evil.example" };
+
+			await controller.removeFromShortlistForm(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/shortlist?success=removed"
+			);
+		});
+
+		it("should redirect to the shortlist with an error code", async () => {
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(null);
+
+			await controller.addToShortlistForm(
+				mockReq as Request,
+				mockRes as Response
+			);
+
+			expect(mockRes.redirect).toHaveBeenCalledWith(
+				"/shortlist?error=not-found"
+			);
+		});
+	});
+
+	describe("getShortlist", () => {
+		it("should show current details and warn about roles closing soon", async () => {
+			const soon = new Date();
+			soon.setDate(soon.getDate() + 2);
+			const soonDate = soon.toISOString().slice(0, 10);
+			vi.mocked(mockJobRoleService.getJobRoleById).mockImplementation(
+				async (id: number) => {
+					if (id === 1) {
+						return jobRole(1, { closingDate: soonDate });
+					}
+					if (id === 2) {
+						return jobRole(2, { status: "Closed" });
+					}
+					return null;
+				}
+			);
+			await store.addJobRole("7", 1);
+			await store.addJobRole("7", 2);
+			await store.addJobRole("7", 3);
+
+			await controller.getShortlist(mockReq as Request, mockRes as Response);
+
+			const locals = vi.mocked(mockRes.render).mock.calls[0]?.[1] as {
+				items: Array<{
+					jobRoleId: number;
+					jobRole: JobRoleDetailedResponse | null;
+					isOpen: boolean;
+					isClosingSoon: boolean;
+				}>;
+				closingSoonCount: number;
+			};
+			expect(vi.mocked(mockRes.render).mock.calls[0]?.[0]).toBe(
+				"shortlist.njk"
+			);
+			expect(locals.closingSoonCount).toBe(1);
+			expect(
+				locals.items.map((item) => [
+					item.jobRoleId,
+					item.jobRole?.status ?? null,
+					item.isOpen,
+					item.isClosingSoon,
+				])
+			).toEqual([
+				[3, null, false, false],
+				[2, "Closed", false, false],
+				[1, "Open", true, true],
+			]);
+		});
+
+		it("should show a role that fails to load as unavailable", async () => {
+			await store.addJobRole("7", 4);
+			vi.mocked(mockJobRoleService.getJobRoleById).mockRejectedValue(
+				new Error("Backend unavailable")
+			);
+
+			await controller.getShortlist(mockReq as Request, mockRes as Response);
+
+			expect(mockRes.render).toHaveBeenCalledWith(
+				"shortlist.njk",
+				expect.objectContaining({
+					items: [expect.objectContaining({ jobRole: null })],
+				})
+			);
+		});
+	});
+});
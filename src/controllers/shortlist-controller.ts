@@ -0,0 +1,283 @@
+/**
+ * Shortlist Controller for the job roles candidates bookmark while browsing
+ */
+
+import type { Request, Response } from "express";
+import { getSessionUserId, isAdmin } from "../middleware/auth-middleware.js";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import type { ShortlistStore } from "../services/shortlist-store.js";
+import { isJobRolePublished } from "../utils/job-role-visibility.js";
+import { getSafeReturnPath } from "../utils/redirect.js";
+import {
+	buildShortlistItem,
+	MAX_SHORTLIST_SIZE,
+	SHORTLIST_CLOSING_SOON_DAYS,
+} from "../utils/shortlist.js";
+import { validateJobRoleId } from "../utils/validation.js";
+
+const ADDED_MESSAGE = "Job role added to your shortlist.";
+const REMOVED_MESSAGE = "Job role removed from your shortlist.";
+const FULL_MESSAGE = `Your shortlist can hold up to ${MAX_SHORTLIST_SIZE} roles. Remove one to add another.`;
+const SERVER_ERROR_MESSAGE =
+	"Sorry, we couldn't update your shortlist at this time. Please try again later.";
+
+/**
+ * Messages shown on the shortlist page (keyed by ?success= and ?error=)
+ */
+const SUCCESS_MESSAGES: Record<string, string> = {
+	added: ADDED_MESSAGE,
+	removed: REMOVED_MESSAGE,
+};
+const ERROR_MESSAGES: Record<string, string> = {
+	"invalid-id": "That job role could not be found.",
+	"not-found": "That job role could not be found.",
+	full: FULL_MESSAGE,
+	"server-error": SERVER_ERROR_MESSAGE,
+};
+
+type ShortlistAction = "add" | "remove";
+
+/**
+ * Outcome of adding or removing a shortlisted role
+ */
+interface ShortlistChangeResult {
+	statusCode: number;
+	message: string;
+	errorCode?: string;
+	shortlisted?: boolean;
+}
+
+export class ShortlistController {
+	private shortlistStore: ShortlistStore;
+	private jobRoleService: JobRoleService;
+
+	constructor(shortlistStore: ShortlistStore, jobRoleService: JobRoleService) {
+		this.shortlistStore = shortlistStore;
+		this.jobRoleService = jobRoleService;
+	}
+
+	/**
+	 * GET /shortlist
+	 * Renders the user's shortlisted roles with their current status and
+	 * closing date, flagging open roles that close soon
+	 */
+	public getShortlist = async (req: Request, res: Response): Promise<void> => {
+		const userId = getSessionUserId(req);
+		if (!userId) {
+			res.redirect("/login");
+			return;
+		}
+
+		try {
+			const entries = await this.shortlistStore.getShortlist(userId);
+			const items = await Promise.all(
+				entries.map(async (entry) =>
+					buildShortlistItem(
+						entry,
+						await this.getShortlistedJobRole(req, entry.jobRoleId)
+					)
+				)
+			);
+			const success = SUCCESS_MESSAGES[String(req.query["success"] ?? "")];
+			const error = ERROR_MESSAGES[String(req.query["error"] ?? "")];
+
+			res.render("shortlist.njk", {
+				items,
+				closingSoonCount: items.filter((item) => item.isClosingSoon).length,
+				closingSoonDays: SHORTLIST_CLOSING_SOON_DAYS,
+				...(success ? { success } : {}),
+				...(error ? { error } : {}),
+			});
+		} catch (error) {
+			console.error("Error in ShortlistController.getShortlist:", error);
+			res.status(500).render("error.njk", {
+				message:
+					"Sorry, we couldn't load your shortlist at this time. Please try again later.",
+			});
+		}
+	};
+
+	/**
+	 * PUT /shortlist/:id
+	 * Adds a job role to the user's shortlist (AJAX)
+	 */
+	public addToShortlist = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		await this.respondWithJson(req, res, "add");
+	};
+
+	/**
+	 * DELETE /shortlist/:id
+	 * Removes a job role from the user's shortlist (AJAX)
+	 */
+	public removeFromShortlist = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		await this.respondWithJson(req, res, "remove");
+	};
+
+	/**
+	 * POST /shortlist/:id
+	 * Adds a job role via form submission (without JavaScript)
+	 * Redirects to the returnTo page, or the shortlist page
+	 */
+	public addToShortlistForm = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		await this.respondWithRedirect(req, res, "add");
+	};
+
+	/**
+	 * POST /shortlist/:id/remove
+	 * Removes a job role via form submission (without JavaScript)
+	 * Redirects to the returnTo page, or the shortlist page
+	 */
+	public removeFromShortlistForm = async (
+		req: Request,
+		res: Response
+	): Promise<void> => {
+		await this.respondWithRedirect(req, res, "remove");
+	};
+
+	/**
+	 * Applies a change and answers with a JSON result
+	 */
+	private async respondWithJson(
+		req: Request,
+		res: Response,
+		action: ShortlistAction
+	): Promise<void> {
+		try {
+			const result = await this.changeShortlist(req, action);
+			res.status(result.statusCode).json({
+				success: result.statusCode === 200,
+				message: result.message,
+				...(result.shortlisted !== undefined
+					? { shortlisted: result.shortlisted }
+					: {}),
+			});
+		} catch (error) {
+			console.error(`Error in ShortlistController (${action}):`, error);
+			res.status(500).json({
+				success: false,
+				message: SERVER_ERROR_MESSAGE,
+			});
+		}
+	}
+
+	/**
+	 * Applies a change and redirects with a success or error indicator
+	 */
+	private async respondWithRedirect(
+		req: Request,
+		res: Response,
+		action: ShortlistAction
+	): Promise<void> {
+		try {
+			const result = await this.changeShortlist(req, action);
+
+			if (result.statusCode === 401) {
+				res.redirect("/login");
+				return;
+			}
+
+			if (result.statusCode === 200) {
+				const fallback = `/shortlist?success=${action === "add" ? "added" : "removed"}`;
+				res.redirect(getSafeReturnPath(req.body?.returnTo, fallback));
+				return;
+			}
+
+			res.redirect(`/shortlist?error=${result.errorCode ?? "server-error"}`);
+		} catch (error) {
+			console.error(`Error in ShortlistController (${action}):`, error);
+			res.redirect("/shortlist?error=server-error");
+		}
+	}
+
+	/**
+	 * Validates and applies an add or remove for the signed-in user
+	 * Only roles the user can see can be added; any role can be removed
+	 */
+	private async changeShortlist(
+		req: Request,
+		action: ShortlistAction
+	): Promise<ShortlistChangeResult> {
+		const userId = getSessionUserId(req);
+		if (!userId) {
+			return {
+				statusCode: 401,
+				message: "Please log in to use your shortlist.",
+			};
+		}
+
+		const jobRoleId = validateJobRoleId(req.params["id"]);
+		if (jobRoleId === null) {
+			return {
+				statusCode: 400,
+				message: "Invalid job role ID",
+				errorCode: "invalid-id",
+			};
+		}
+
+		if (action === "remove") {
+			await this.shortlistStore.removeJobRole(userId, jobRoleId);
+			return {
+				statusCode: 200,
+				message: REMOVED_MESSAGE,
+				shortlisted: false,
+			};
+		}
+
+		const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+		if (!jobRole || (!isJobRolePublished(jobRole) && !isAdmin(req))) {
+			return {
+				statusCode: 404,
+				message: "Job role not found",
+				errorCode: "not-found",
+			};
+		}
+
+		const entries = await this.shortlistStore.getShortlist(userId);
+		const alreadyShortlisted = entries.some(
+			(entry) => entry.jobRoleId === jobRoleId
+		);
+		if (!alreadyShortlisted && entries.length >= MAX_SHORTLIST_SIZE) {
+			return {
+				statusCode: 400,
+				message: FULL_MESSAGE,
+				errorCode: "full",
+			};
+		}
+
+		await this.shortlistStore.addJobRole(userId, jobRoleId);
+		return {
+			statusCode: 200,
+			message: ADDED_MESSAGE,
+			shortlisted: true,
+		};
+	}
+
+	/**
+	 * Loads a shortlisted role's current details, returning null when it has
+	 * been removed, is not visible to the user or cannot be loaded
+	 */
+	private async getShortlistedJobRole(
+		req: Request,
+		jobRoleId: number
+	): Promise<JobRoleDetailedResponse | null> {
+		try {
+			const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+			return jobRole && (isJobRolePublished(jobRole) || isAdmin(req))
+				? jobRole
+				: null;
+		} catch (error) {
+			console.error(`Error loading shortlisted job role ${jobRoleId}:`, error);
+			return null;
+		}
+	}
+}
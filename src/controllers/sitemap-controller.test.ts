@@ -0,0 +1,92 @@
+/**
+ * Tests for SitemapController
+ */
+
+import type { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { SitemapController } from "./sitemap-controller.js";
+
+describe("SitemapController", () => {
+	let controller: SitemapController;
+	let jobRoleService: JobRoleService;
+	let res: Response;
+
+	const role = (jobRoleId: number, overrides = {}) => ({
+		jobRoleId,
+		roleName: `Role ${jobRoleId}`,
+		description: "",
+		responsibilities: "",
+		jobSpecLink: "",
+		location: "Belfast, Northern Ireland",
+		capability: "Engineering",
+		band: "Mid",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 1,
+		...overrides,
+	});
+
+	const req = {
+		protocol: "https",
+		get: vi.fn().mockReturnValue("jobs.example.com"),
+	} as unknown as Request;
+
+	beforeEach(() => {
+		jobRoleService = {
+			getAllJobRolesForExport: vi
+				.fn()
+				.mockResolvedValue([
+					role(5, { publishDate: "2025-01-15" }),
+					role(2),
+					role(3, { status: "Draft" }),
+					role(4, { closingDate: "2020-01-01" }),
+				]),
+		} as unknown as JobRoleService;
+		controller = new SitemapController(jobRoleService);
+		res = {
+			send: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+			type: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+	});
+
+	it("should list the job roles page and every open role", async () => {
+		await controller.getSitemap(req, res);
+
+		expect(jobRoleService.getAllJobRolesForExport).toHaveBeenCalledWith({
+			status: "Open",
+		});
+		expect(res.type).toHaveBeenCalledWith("application/xml; charset=utf-8");
+		expect(res.send).toHaveBeenCalledWith(
+			[
+				'<?xml version="1.0" encoding="UTF-8"?>',
+				'<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+				"\t<url>",
+				"\t\t<loc>https://jobs.example.com/job-roles</loc>",
+				"\t</url>",
+				"\t<url>",
+				"\t\t<loc>https://jobs.example.com/job-roles/2</loc>",
+				"\t</url>",
+				"\t<url>",
+				"\t\t<loc>https://jobs.example.com/job-roles/5</loc>",
+				"\t\t<lastmod>2025-01-15</lastmod>",
+				"\t</url>",
+				"</urlset>",
+				"",
+			].join("\n")
+		);
+	});
+
+	it("should return a 500 when the service fails", async () => {
+		vi.mocked(jobRoleService.getAllJobRolesForExport).mockRejectedValue(
+			new Error("Network error")
+		);
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		await controller.getSitemap(req, res);
+
+		expect(res.status).toHaveBeenCalledWith(500);
+		consoleSpy.mockRestore();
+	});
+});
@@ -0,0 +1,54 @@
+/**
+ * Sitemap Controller for the sitemap.xml listing open job roles
+ */
+
+import type { Request, Response } from "express";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { isJobRoleAdvertised } from "../utils/job-posting.js";
+import { buildSitemap, type SitemapEntry } from "../utils/sitemap.js";
+import { getPublicBaseUrl } from "../utils/url-builder.js";
+
+export class SitemapController {
+	private jobRoleService: JobRoleService;
+
+	constructor(jobRoleService: JobRoleService) {
+		this.jobRoleService = jobRoleService;
+	}
+
+	/**
+	 * GET /sitemap.xml
+	 * Lists the job roles page and every open, published job role that has
+	 * not passed its closing date
+	 */
+	public getSitemap = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const jobRoles = await this.jobRoleService.getAllJobRolesForExport({
+				status: "Open",
+			});
+			const baseUrl = getPublicBaseUrl(req);
+
+			const entries: SitemapEntry[] = [
+				{ loc: `${baseUrl}/job-roles` },
+				...jobRoles
+					.filter((jobRole) => isJobRoleAdvertised(jobRole))
+					.sort((a, b) => a.jobRoleId - b.jobRoleId)
+					.map((jobRole) => ({
+						loc: `${baseUrl}/job-roles/${jobRole.jobRoleId}`,
+						...(jobRole.publishDate
+							? { lastmod: jobRole.publishDate.slice(0, 10) }
+							: {}),
+					})),
+			];
+
+			res.type("application/xml; charset=utf-8").send(buildSitemap(entries));
+		} catch (error) {
+			console.error("Error in SitemapController.getSitemap:", error);
+			res
+				.status(500)
+				.type("text/plain")
+				.send(
+					"Sorry, we couldn't build the sitemap at this time. Please try again later."
+				);
+		}
+	};
+}
@@ -19,12 +19,31 @@ import { APP_CONFIG, generateSessionSecret } from "./config/constants.js";
 import { AdminController } from "./controllers/admin-controller.js";
 import { ApplicationController } from "./controllers/application-controller.js";
 import { AuthController } from "./controllers/auth-controller.js";
+import { JobRoleApiController } from "./controllers/job-role-api-controller.js";
 import { JobRoleController } from "./controllers/job-role-controller.js";
+import { JobRoleFeedController } from "./controllers/job-role-feed-controller.js";
+import { ReferenceDataController } from "./controllers/reference-data-controller.js";
+import { SavedSearchController } from "./controllers/saved-search-controller.js";
+import { ShortlistController } from "./controllers/shortlist-controller.js";
+import { SitemapController } from "./controllers/sitemap-controller.js";
 import { UserController } from "./controllers/user-controller.js";
-import { requireAdmin } from "./middleware/auth-middleware.js";
+import { ApplicationAccessPolicy } from "./middleware/application-access-middleware.js";
+import { requireAdmin, requireAuth } from "./middleware/auth-middleware.js";
 import { AxiosApplicationService } from "./services/axios-application-service.js";
 import { AxiosJobRoleService } from "./services/axios-job-role-service.js";
+import { AxiosReferenceDataService } from "./services/axios-reference-data-service.js";
+import { ClamAvCvScanner } from "./services/clamav-cv-scanner.js";
+import type { CvScanner } from "./services/cv-scanner.js";
+import { FileApplicationDraftStore } from "./services/file-application-draft-store.js";
+import { FileJobRoleAuditStore } from "./services/file-job-role-audit-store.js";
+import { FileReferenceDataService } from "./services/file-reference-data-service.js";
+import { FileSavedSearchStore } from "./services/file-saved-search-store.js";
+import { FileShortlistStore } from "./services/file-shortlist-store.js";
+import { JobRoleAutoCloseService } from "./services/job-role-auto-close-service.js";
+import type { ReferenceDataService } from "./services/reference-data-service.js";
+import { highlightSearchTerms } from "./utils/full-text-search.js";
 import { JobRoleValidator } from "./utils/job-role-validator.js";
+import { getJobRolePublicationState } from "./utils/job-role-visibility.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -36,36 +55,136 @@ interface AppConfig {
 	port: number;
 }
 
+/**
+ * Reads the job role auto close interval from the environment
+ * Falls back to the default for missing or invalid values
+ */
+function getAutoCloseIntervalMinutes(): number {
+	const minutes = Number.parseFloat(
+		process.env["JOB_ROLE_AUTO_CLOSE_INTERVAL_MINUTES"] ?? ""
+	);
+	return Number.isNaN(minutes)
+		? APP_CONFIG.JOB_ROLE_AUTO_CLOSE.DEFAULT_INTERVAL_MINUTES
+		: minutes;
+}
+
+/**
+ * Creates the CV malware scanner configured by CLAMAV_SOCKET or CLAMAV_HOST
+ * Uploads are not scanned when neither is set, e.g. in local development
+ */
+function createCvScanner(): CvScanner | null {
+	const socketPath = process.env["CLAMAV_SOCKET"];
+	const host = process.env["CLAMAV_HOST"];
+	if (!socketPath && !host) {
+		console.warn(
+			"CLAMAV_HOST and CLAMAV_SOCKET are not set; uploaded CVs will not be scanned for malware"
+		);
+		return null;
+	}
+
+	const port = Number.parseInt(process.env["CLAMAV_PORT"] ?? "", 10);
+	return new ClamAvCvScanner({
+		...(socketPath ? { socketPath } : {}),
+		...(host ? { host } : {}),
+		...(Number.isNaN(port) ? {} : { port }),
+	});
+}
+
+/**
+ * Creates the reference data service selected by REFERENCE_DATA_SOURCE
+ * "backend" uses the backend API, anything else the local JSON file
+ */
+function createReferenceDataService(): ReferenceDataService {
+	if (process.env["REFERENCE_DATA_SOURCE"] === "backend") {
+		return new AxiosReferenceDataService();
+	}
+	return new FileReferenceDataService(
+		process.env["REFERENCE_DATA_FILE"] || undefined
+	);
+}
+
 class App {
 	private config: AppConfig;
 	private server: Application;
 	private jobRoleService: AxiosJobRoleService;
+	private jobRoleAutoCloseService: JobRoleAutoCloseService;
 	private jobRoleController: JobRoleController;
+	private jobRoleApiController: JobRoleApiController;
+	private jobRoleFeedController: JobRoleFeedController;
 	private adminController: AdminController;
+	private referenceDataController: ReferenceDataController;
+	private savedSearchController: SavedSearchController;
+	private shortlistController: ShortlistController;
+	private sitemapController: SitemapController;
 	private applicationService: AxiosApplicationService;
 	private applicationController: ApplicationController;
+	private applicationAccessPolicy: ApplicationAccessPolicy;
 	private userController: UserController;
 	private authController: AuthController;
 	private upload: multer.Multer;
+	private csvUpload: multer.Multer;
 
 	constructor(config: AppConfig) {
 		this.config = config;
 		this.server = express();
 
 		// Initialize services with dependency injection
-		this.jobRoleService = new AxiosJobRoleService();
+		const referenceDataService = createReferenceDataService();
+		this.jobRoleService = new AxiosJobRoleService(
+			undefined,
+			referenceDataService
+		);
 		const jobRoleValidator = new JobRoleValidator();
+		this.jobRoleAutoCloseService = new JobRoleAutoCloseService(
+			this.jobRoleService,
+			getAutoCloseIntervalMinutes() * 60 * 1000
+		);
+
+		const jobRoleAuditStore = new FileJobRoleAuditStore(
+			process.env["JOB_ROLE_AUDIT_FILE"] || undefined
+		);
+
+		const shortlistStore = new FileShortlistStore(
+			process.env["SHORTLISTS_FILE"] || undefined
+		);
 
 		// Initialize controllers
-		this.jobRoleController = new JobRoleController(this.jobRoleService);
+		this.jobRoleController = new JobRoleController(
+			this.jobRoleService,
+			jobRoleAuditStore,
+			shortlistStore
+		);
+		this.jobRoleApiController = new JobRoleApiController(this.jobRoleService);
+		this.jobRoleFeedController = new JobRoleFeedController(this.jobRoleService);
 		this.adminController = new AdminController(
 			this.jobRoleService,
-			jobRoleValidator
+			jobRoleValidator,
+			jobRoleAuditStore,
+			referenceDataService
+		);
+		this.referenceDataController = new ReferenceDataController(
+			referenceDataService
+		);
+		this.savedSearchController = new SavedSearchController(
+			new FileSavedSearchStore(process.env["SAVED_SEARCHES_FILE"] || undefined),
+			this.jobRoleService
+		);
+		this.shortlistController = new ShortlistController(
+			shortlistStore,
+			this.jobRoleService
 		);
+		this.sitemapController = new SitemapController(this.jobRoleService);
 		this.applicationService = new AxiosApplicationService();
 		this.applicationController = new ApplicationController(
 			this.applicationService,
-			this.jobRoleService
+			this.jobRoleService,
+			new FileApplicationDraftStore(
+				process.env["APPLICATION_DRAFTS_FILE"] || undefined
+			),
+			createCvScanner()
+		);
+		this.applicationAccessPolicy = new ApplicationAccessPolicy(
+			this.applicationService
 		);
 		this.userController = new UserController();
 		this.authController = new AuthController();
@@ -81,7 +200,8 @@ class App {
 				file: Express.Multer.File,
 				cb: multer.FileFilterCallback
 			) => {
-				// Accept only PDF, DOC, and DOCX files
+				// Accept only PDF, DOC, and DOCX files; this trusts the browser's
+				// MIME type, so the contents are checked again before forwarding
 				const allowedMimes = [
 					"application/pdf",
 					"application/msword",
@@ -99,6 +219,37 @@ class App {
 			},
 		});
 
+		// Configure multer for job role CSV imports
+		this.csvUpload = multer({
+			storage: multer.memoryStorage(),
+			limits: {
+				fileSize: 5 * 1024 * 1024, // 5MB limit
+				// The import confirm step posts the file back as a text field
+				fieldSize: 5 * 1024 * 1024,
+			},
+			fileFilter: (
+				_req: Request,
+				file: Express.Multer.File,
+				cb: multer.FileFilterCallback
+			) => {
+				// Browsers report CSV files under several MIME types
+				const allowedMimes = [
+					"text/csv",
+					"text/plain",
+					"application/csv",
+					"application/vnd.ms-excel",
+				];
+				if (
+					allowedMimes.includes(file.mimetype) ||
+					file.originalname.toLowerCase().endsWith(".csv")
+				) {
+					cb(null, true);
+				} else {
+					cb(new Error("Invalid file type. Only CSV files are allowed."));
+				}
+			},
+		});
+
 		this.initialize();
 	}
 
@@ -107,6 +258,7 @@ class App {
 		this.setupMiddleware();
 		this.setupRoutes();
 		this.start();
+		this.jobRoleAutoCloseService.start();
 	}
 
 	private async setupTemplating(): Promise<void> {
@@ -181,6 +333,16 @@ class App {
 			return `${band} Level`;
 		});
 
+		// Add publication state filter (draft, scheduled or published)
+		env.addFilter(
+			"publicationState",
+			(jobRole: { status?: string; publishDate?: string }) =>
+				jobRole ? getJobRolePublicationState(jobRole) : "published"
+		);
+
+		// Add search highlighting filter (splits text into matching/non-matching parts)
+		env.addFilter("highlightParts", highlightSearchTerms);
+
 		// Add tojson filter for converting objects to JSON strings
 		env.addFilter("tojson", (obj: unknown) => {
 			return JSON.stringify(obj);
@@ -358,10 +520,30 @@ class App {
 			res.render("contact.njk");
 		});
 
+		// Sitemap for search engines
+		this.server.get("/sitemap.xml", this.sitemapController.getSitemap);
+
 		// Job Roles endpoints (public, read-only)
 		this.server.get("/job-roles", this.jobRoleController.getJobRoles);
 		this.server.get("/jobs/search", this.jobRoleController.searchJobRoles);
+		// Feeds - MUST come before /job-roles/:id
+		this.server.get(
+			"/job-roles/feed.rss",
+			this.jobRoleFeedController.getRssFeed
+		);
+		this.server.get(
+			"/job-roles/feed.atom",
+			this.jobRoleFeedController.getAtomFeed
+		);
 		this.server.get("/job-roles/:id", this.jobRoleController.getJobRoleById);
+		this.server.get(
+			"/job-roles/:id/print",
+			this.jobRoleController.getJobRolePrint
+		);
+		this.server.get(
+			"/job-roles/:id/spec.pdf",
+			this.jobRoleController.downloadJobSpecPdf
+		);
 
 		// Delete endpoints (both AJAX and form submission)
 		this.server.delete(
@@ -387,22 +569,124 @@ class App {
 			requireAdmin,
 			this.adminController.exportJobRoles
 		);
+		this.server.get(
+			"/admin/job-roles/export/options",
+			requireAdmin,
+			this.adminController.getExportOptions
+		);
+		this.server.get(
+			"/admin/job-roles/import",
+			requireAdmin,
+			this.adminController.getImportJobRoles
+		);
+		this.server.post(
+			"/admin/job-roles/import",
+			requireAdmin,
+			this.csvUpload.single("csvFile"),
+			this.adminController.importJobRoles
+		);
+		this.server.post(
+			"/admin/job-roles/bulk",
+			requireAdmin,
+			this.adminController.bulkUpdateJobRoles
+		);
 		this.server.post(
 			"/admin/job-roles",
 			requireAdmin,
 			this.adminController.createJobRole
 		);
+		this.server.get(
+			"/admin/job-roles/:id/clone",
+			requireAdmin,
+			this.adminController.getCloneJobRole
+		);
 		this.server.get(
 			"/admin/job-roles/:id/edit",
 			requireAdmin,
 			this.adminController.getEditJobRole
 		);
+		this.server.post(
+			"/admin/job-roles/:id/publish",
+			requireAdmin,
+			this.adminController.publishJobRole
+		);
 		this.server.post(
 			"/admin/job-roles/:id",
 			requireAdmin,
 			this.adminController.updateJobRole
 		);
 
+		// Reference data endpoints (admin only)
+		this.server.get(
+			"/admin/reference-data",
+			requireAdmin,
+			this.referenceDataController.getReferenceDataIndex
+		);
+		this.server.get(
+			"/admin/reference-data/:type",
+			requireAdmin,
+			this.referenceDataController.getReferenceDataList
+		);
+		this.server.post(
+			"/admin/reference-data/:type",
+			requireAdmin,
+			this.referenceDataController.addReferenceDataValue
+		);
+		this.server.post(
+			"/admin/reference-data/:type/rename",
+			requireAdmin,
+			this.referenceDataController.renameReferenceDataValue
+		);
+		this.server.post(
+			"/admin/reference-data/:type/delete",
+			requireAdmin,
+			this.referenceDataController.deleteReferenceDataValue
+		);
+
+		// Saved search endpoints (signed-in users)
+		this.server.get(
+			"/account/saved-searches",
+			requireAuth,
+			this.savedSearchController.getSavedSearches
+		);
+		this.server.post(
+			"/account/saved-searches",
+			requireAuth,
+			this.savedSearchController.createSavedSearch
+		);
+		this.server.get(
+			"/account/saved-searches/:id",
+			requireAuth,
+			this.savedSearchController.viewSavedSearch
+		);
+		this.server.post(
+			"/account/saved-searches/:id/delete",
+			requireAuth,
+			this.savedSearchController.deleteSavedSearch
+		);
+
+		// Shortlist endpoints (both AJAX and form submission)
+		this.server.get(
+			"/shortlist",
+			requireAuth,
+			this.shortlistController.getShortlist
+		);
+		this.server.put("/shortlist/:id", this.shortlistController.addToShortlist);
+		this.server.delete(
+			"/shortlist/:id",
+			this.shortlistController.removeFromShortlist
+		);
+		this.server.post(
+			"/shortlist/:id",
+			requireAuth,
+			this.shortlistController.addToShortlistForm
+		);
+		this.server.post(
+			"/shortlist/:id/remove",
+			requireAuth,
+			this.shortlistController.removeFromShortlistForm
+		);
+
 		// Application endpoints
 		this.server.get(
 			"/job-roles/:id/apply",
@@ -414,32 +698,90 @@ class App {
 			this.applicationController.submitApplication
 		);
 
+		// Application draft endpoints (AJAX autosave and form discard)
+		this.server.put(
+			"/job-roles/:id/apply/draft",
+			this.applicationController.saveApplicationDraft
+		);
+		this.server.post(
+			"/job-roles/:id/apply/draft/delete",
+			requireAuth,
+			this.applicationController.deleteApplicationDraft
+		);
+
 		// View applicants endpoint
 		this.server.get(
 			"/job-roles/:id/applicants",
 			requireAdmin,
 			this.applicationController.getApplicants
 		);
+		this.server.get(
+			"/job-roles/:id/applicants/:applicationId/cv",
+			requireAdmin,
+			this.applicationController.getCvPreview
+		);
+		this.server.get(
+			"/admin/job-roles/:id/applicants/export",
+			requireAdmin,
+			this.applicationController.exportApplicants
+		);
 
-		// User applications endpoints - MUST come before /applications/:id/cv
-		this.server.get("/applications/test", (_req: Request, res: Response) => {
-			res.send("Applications route is working!");
-		});
-
+		// User applications endpoints. Every /applications/:id route goes
+		// through the access policy, which decides per action whether admins,
+		// the candidate who applied, or both may use it
 		this.server.get(
 			"/applications",
+			requireAuth,
 			this.applicationController.getUserApplications
 		);
 		this.server.delete(
 			"/applications/:id",
+			this.applicationAccessPolicy.authorise("withdraw", "json"),
 			this.applicationController.withdrawApplication
 		);
 
-		// CV download endpoint (proxy to backend) - MUST come after /applications
+		// Application status pipeline endpoints (both AJAX and form submission)
+		this.server.patch(
+			"/applications/:id/status",
+			this.applicationAccessPolicy.authorise("changeStatus", "json"),
+			this.applicationController.updateApplicationStatus
+		);
+		this.server.post(
+			"/applications/:id/status",
+			this.applicationAccessPolicy.authorise("changeStatus"),
+			this.applicationController.updateApplicationStatusForm
+		);
+
+		// CV download and in-browser viewing (proxied from the backend)
 		this.server.get(
 			"/applications/:id/cv",
+			this.applicationAccessPolicy.authorise("view"),
 			this.applicationController.downloadCv
 		);
+		this.server.get(
+			"/applications/:id/cv/inline",
+			this.applicationAccessPolicy.authorise("view"),
+			this.applicationController.viewCvInline
+		);
+
+		// Public JSON API - /filters MUST come before /:id
+		this.server.get(
+			"/api/v1/openapi.json",
+			this.jobRoleApiController.getOpenApiDocument
+		);
+		this.server.get(
+			"/api/v1/job-roles",
+			this.jobRoleApiController.listJobRoles
+		);
+		this.server.get(
+			"/api/v1/job-roles/filters",
+			this.jobRoleApiController.getFilters
+		);
+		this.server.get(
+			"/api/v1/job-roles/:id",
+			this.jobRoleApiController.getJobRole
+		);
+		this.server.use("/api/v1", this.jobRoleApiController.notFound);
 
 		// 404 handler - must come after all routes but before error handling
 		this.setup404Handler();
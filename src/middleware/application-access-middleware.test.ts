@@ -0,0 +1,229 @@
+/**
+ * Unit tests for the application access policy
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ApplicationResponse } from "../models/application-request.js";
+import type { ApplicationService } from "../services/application-service.js";
+import {
+	ApplicationAccessPolicy,
+	type ApplicationAction,
+	canAccessApplication,
+	getAuthorisedApplication,
+} from "./application-access-middleware.js";
+
+describe("ApplicationAccessPolicy", () => {
+	let applicationService: ApplicationService;
+	let policy: ApplicationAccessPolicy;
+	let res: Response;
+	let next: NextFunction;
+
+	const application: ApplicationResponse = {
+		applicationId: 12,
+		jobRoleId: 4,
+		applicantName: "Jane Doe",
+		applicantEmail: "jane@example.com",
+		status: "pending",
+		submittedAt: "2025-01-01T09:00:00Z",
+	};
+
+	const sessions = {
+		anonymous: {},
+		otherUser: {
+			isAuthenticated: true,
+			user: {
+				userId: "2",
+				email: "someone@example.com",
+				forename: "Sam",
+				surname: "One",
+				role: "Applicant",
+			},
+		},
+		owner: {
+			isAuthenticated: true,
+			user: {
+				userId: "1",
+				email: " Jane@Example.com ",
+				forename: "Jane",
+				surname: "Doe",
+				role: "Applicant",
+			},
+		},
+		admin: {
+			isAuthenticated: true,
+			user: { username: "admin", user_type: "Admin" },
+		},
+	};
+
+	const createRequest = (session: keyof typeof sessions, id = "12"): Request =>
+		({ params: { id }, session: sessions[session] }) as unknown as Request;
+
+	beforeEach(() => {
+		applicationService = {
+			getApplicationById: vi.fn().mockResolvedValue(application),
+		} as unknown as ApplicationService;
+		policy = new ApplicationAccessPolicy(applicationService);
+		res = {
+			status: vi.fn().mockReturnThis(),
+			render: vi.fn(),
+			json: vi.fn(),
+			redirect: vi.fn(),
+			locals: {},
+		} as unknown as Response;
+		next = vi.fn();
+	});
+
+	describe("canAccessApplication", () => {
+		it.each<[keyof typeof sessions, ApplicationAction, boolean]>([
+			["anonymous", "view", false],
+			["otherUser", "view", false],
+			["owner", "view", true],
+			["admin", "view", true],
+			["anonymous", "edit", false],
+			["otherUser", "edit", false],
+			["owner", "edit", true],
+			["admin", "edit", false],
+			["anonymous", "withdraw", false],
+			["otherUser", "withdraw", false],
+			["owner", "withdraw", true],
+			["admin", "withdraw", false],
+			["owner", "changeStatus", false],
+			["admin", "changeStatus", true],
+		])("should let %s %s the application: %s", (session, action, allowed) => {
+			expect(
+				canAccessApplication(createRequest(session), application, action)
+			).toBe(allowed);
+		});
+	});
+
+	describe("authorise", () => {
+		it("should send signed-out users to the login page without loading the application", async () => {
+			await policy.authorise("view")(createRequest("anonymous"), res, next);
+
+			expect(res.redirect).toHaveBeenCalledWith("/login");
+			expect(applicationService.getApplicationById).not.toHaveBeenCalled();
+			expect(next).not.toHaveBeenCalled();
+		});
+
+		it("should return 401 JSON to signed-out AJAX requests", async () => {
+			await policy.authorise("withdraw", "json")(
+				createRequest("anonymous"),
+				res,
+				next
+			);
+
+			expect(res.status).toHaveBeenCalledWith(401);
+			expect(res.json).toHaveBeenCalledWith({
+				success: false,
+				message: "Unauthorized",
+			});
+		});
+
+		it("should return 403 when another user requests the CV", async () => {
+			await policy.authorise("view")(createRequest("otherUser"), res, next);
+
+			expect(res.status).toHaveBeenCalledWith(403);
+			expect(res.render).toHaveBeenCalledWith("unauthorized.njk", {
+				message: "You do not have permission to view this application.",
+			});
+			expect(next).not.toHaveBeenCalled();
+		});
+
+		it("should let the owner and admins view the application", async () => {
+			await policy.authorise("view")(createRequest("owner"), res, next);
+			await policy.authorise("view")(createRequest("admin"), res, next);
+
+			expect(applicationService.getApplicationById).toHaveBeenCalledWith(12);
+			expect(next).toHaveBeenCalledTimes(2);
+			expect(res.status).not.toHaveBeenCalled();
+		});
+
+		it("should keep the loaded application for the route handler", async () => {
+			await policy.authorise("withdraw", "json")(
+				createRequest("owner"),
+				res,
+				next
+			);
+
+			expect(getAuthorisedApplication(res)).toEqual(application);
+			expect(applicationService.getApplicationById).toHaveBeenCalledTimes(1);
+		});
+
+		it("should only let the owner withdraw the application", async () => {
+			await policy.authorise("withdraw", "json")(
+				createRequest("owner"),
+				res,
+				next
+			);
+			await policy.authorise("withdraw", "json")(
+				createRequest("admin"),
+				res,
+				next
+			);
+
+			expect(next).toHaveBeenCalledTimes(1);
+			expect(res.status).toHaveBeenCalledWith(403);
+			expect(res.json).toHaveBeenCalledWith({
+				success: false,
+				message: "You do not have permission to withdraw this application.",
+			});
+		});
+
+		it("should only let admins change the status, without loading the application", async () => {
+			await policy.authorise("changeStatus", "json")(
+				createRequest("owner"),
+				res,
+				next
+			);
+			await policy.authorise("changeStatus", "json")(
+				createRequest("admin"),
+				res,
+				next
+			);
+
+			expect(res.status).toHaveBeenCalledWith(403);
+			expect(next).toHaveBeenCalledTimes(1);
+			expect(applicationService.getApplicationById).not.toHaveBeenCalled();
+		});
+
+		it("should return 404 when the application does not exist", async () => {
+			vi.mocked(applicationService.getApplicationById).mockRejectedValue(
+				new Error("Application not found")
+			);
+
+			await policy.authorise("view")(createRequest("owner"), res, next);
+
+			expect(res.status).toHaveBeenCalledWith(404);
+			expect(res.render).toHaveBeenCalledWith("error.njk", {
+				message: "Application not found.",
+			});
+		});
+
+		it("should return 400 for an invalid application ID", async () => {
+			await policy.authorise("view", "json")(
+				createRequest("admin", "abc"),
+				res,
+				next
+			);
+
+			expect(res.status).toHaveBeenCalledWith(400);
+			expect(applicationService.getApplicationById).not.toHaveBeenCalled();
+		});
+
+		it("should return 500 when the application can't be loaded", async () => {
+			vi.mocked(applicationService.getApplicationById).mockRejectedValue(
+				new Error("Unable to connect to the backend API")
+			);
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+
+			await policy.authorise("view")(createRequest("admin"), res, next);
+
+			expect(res.status).toHaveBeenCalledWith(500);
+			expect(next).not.toHaveBeenCalled();
+			consoleSpy.mockRestore();
+		});
+	});
+});
@@ -0,0 +1,240 @@
+/**
+ * Application Access Policy
+ * Decides who may see or act on an individual application. Admins may view
+ * any application; candidates may view, edit and withdraw their own, matched
+ * on the email address in their session
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import type { ApplicationResponse } from "../models/application-request.js";
+import type { ApplicationService } from "../services/application-service.js";
+import { normaliseApplicantEmail } from "../utils/duplicate-applications.js";
+import { validateJobRoleId } from "../utils/validation.js";
+import {
+	getSessionUserEmail,
+	isAdmin,
+	isAuthenticated,
+} from "./auth-middleware.js";
+
+/**
+ * Actions that can be taken on an individual application
+ * view covers the application's details and its CV
+ */
+export type ApplicationAction = "view" | "edit" | "withdraw" | "changeStatus";
+
+/**
+ * How a refusal is reported: as a page, or as JSON for AJAX requests
+ */
+export type ApplicationAccessResponseType = "html" | "json";
+
+const FORBIDDEN_MESSAGES: Record<ApplicationAction, string> = {
+	view: "You do not have permission to view this application.",
+	edit: "You do not have permission to edit this application.",
+	withdraw: "You do not have permission to withdraw this application.",
+	changeStatus: "You must be an admin to change an application's status.",
+};
+
+/**
+ * Checks whether an application was made with the signed-in user's email
+ * @param req The current request
+ * @param application The application
+ */
+export function isApplicationOwner(
+	req: Request,
+	application: ApplicationResponse
+): boolean {
+	const email = getSessionUserEmail(req);
+	return (
+		email !== null &&
+		normaliseApplicantEmail(email) ===
+			normaliseApplicantEmail(application.applicantEmail)
+	);
+}
+
+/**
+ * Checks whether the signed-in user may take an action on an application
+ * Only the candidate may edit or withdraw their application, and only admins
+ * may move it through the hiring pipeline
+ * @param req The current request
+ * @param application The application
+ * @param action The action being taken
+ */
+export function canAccessApplication(
+	req: Request,
+	application: ApplicationResponse,
+	action: ApplicationAction
+): boolean {
+	switch (action) {
+		case "view":
+			return isAdmin(req) || isApplicationOwner(req, application);
+		case "edit":
+		case "withdraw":
+			return isApplicationOwner(req, application);
+		case "changeStatus":
+			return isAdmin(req);
+	}
+}
+
+/**
+ * Sends a refusal as a page, or as JSON for AJAX requests
+ * Signed-out users are sent to the login page (401 for JSON)
+ */
+function refuseApplicationAccess(
+	res: Response,
+	responseType: ApplicationAccessResponseType,
+	statusCode: number,
+	message: string
+): void {
+	if (responseType === "json") {
+		res.status(statusCode).json({ success: false, message });
+	} else if (statusCode === 401) {
+		res.redirect("/login");
+	} else if (statusCode === 403) {
+		res.status(403).render("unauthorized.njk", { message });
+	} else {
+		res.status(statusCode).render("error.njk", { message });
+	}
+}
+
+/**
+ * Loads an application and checks the signed-in user may take an action on it
+ * Used by the policy's middleware and by handlers whose application ID is not
+ * a route parameter, such as the edit form's ?edit= query
+ * Signed-out users are sent to the login page (401 for JSON), unknown
+ * applications get a 404 and signed-in users without access a 403
+ * @param applicationService The service used to load the application
+ * @param req The current request
+ * @param res The response, used to send any refusal
+ * @param idParam The application ID from the request
+ * @param action The action being taken
+ * @param responseType Whether refusals are rendered or sent as JSON
+ * @returns The application, or null once a refusal has been sent
+ */
+export async function authoriseApplication(
+	applicationService: ApplicationService,
+	req: Request,
+	res: Response,
+	idParam: unknown,
+	action: ApplicationAction,
+	responseType: ApplicationAccessResponseType = "html"
+): Promise<ApplicationResponse | null> {
+	if (!isAuthenticated(req)) {
+		refuseApplicationAccess(res, responseType, 401, "Unauthorized");
+		return null;
+	}
+
+	const applicationId = validateJobRoleId(
+		typeof idParam === "string" ? idParam : undefined
+	); // Reusing validation for numeric IDs
+	if (applicationId === null) {
+		refuseApplicationAccess(
+			res,
+			responseType,
+			400,
+			"Invalid application ID provided."
+		);
+		return null;
+	}
+
+	let application: ApplicationResponse;
+	try {
+		application = await applicationService.getApplicationById(applicationId);
+	} catch (error) {
+		if (
+			error instanceof Error &&
+			error.message.includes("Application not found")
+		) {
+			refuseApplicationAccess(res, responseType, 404, "Application not found.");
+			return null;
+		}
+		console.error("Error in authoriseApplication:", error);
+		refuseApplicationAccess(
+			res,
+			responseType,
+			500,
+			"Sorry, we couldn't load this application at this time. Please try again later."
+		);
+		return null;
+	}
+
+	if (!canAccessApplication(req, application, action)) {
+		refuseApplicationAccess(res, responseType, 403, FORBIDDEN_MESSAGES[action]);
+		return null;
+	}
+
+	return application;
+}
+
+/**
+ * Returns the application the access policy loaded for this request
+ * @param res The response
+ * @returns The application, or null if the policy did not load one
+ */
+export function getAuthorisedApplication(
+	res: Response
+): ApplicationResponse | null {
+	return (res.locals["application"] as ApplicationResponse | undefined) ?? null;
+}
+
+/**
+ * Enforces the access policy on /applications/:id routes
+ */
+export class ApplicationAccessPolicy {
+	private applicationService: ApplicationService;
+
+	constructor(applicationService: ApplicationService) {
+		this.applicationService = applicationService;
+	}
+
+	/**
+	 * Builds middleware that lets the request through only if the signed-in
+	 * user may take the action on the application in req.params.id
+	 * The loaded application is kept in res.locals.application so handlers
+	 * don't fetch it again
+	 * @param action The action the route performs
+	 * @param responseType Whether refusals are rendered or sent as JSON
+	 */
+	public authorise(
+		action: ApplicationAction,
+		responseType: ApplicationAccessResponseType = "html"
+	) {
+		const applicationService = this.applicationService;
+
+		return async function authoriseApplicationAccess(
+			req: Request,
+			res: Response,
+			next: NextFunction
+		): Promise<void> {
+			// Status changes depend only on the user's role, so the application
+			// isn't loaded and the handler's own not-found handling applies
+			if (action === "changeStatus") {
+				if (!isAuthenticated(req)) {
+					refuseApplicationAccess(res, responseType, 401, "Unauthorized");
+				} else if (isAdmin(req)) {
+					next();
+				} else {
+					refuseApplicationAccess(
+						res,
+						responseType,
+						403,
+						FORBIDDEN_MESSAGES[action]
+					);
+				}
+				return;
+			}
+
+			const application = await authoriseApplication(
+				applicationService,
+				req,
+				res,
+				req.params["id"],
+				action,
+				responseType
+			);
+			if (application) {
+				res.locals["application"] = application;
+				next();
+			}
+		};
+	}
+}
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for authentication helpers
+ */
+
+import type { Request } from "express";
+import { describe, expect, it } from "vitest";
+import { getSessionUserEmail, getSessionUserId } from "./auth-middleware.js";
+
+describe("getSessionUserId", () => {
+	it("should use the userId of an AuthUser", () => {
+		const req = {
+			session: {
+				user: {
+					userId: "42",
+					email: "jane@example.com",
+					forename: "Jane",
+					surname: "Doe",
+					role: "Applicant",
+				},
+			},
+		} as unknown as Request;
+
+		expect(getSessionUserId(req)).toBe("42");
+	});
+
+	it("should fall back to the username of a User without an id", () => {
+		const req = {
+			session: { user: { username: "jdoe", user_type: "User" } },
+		} as unknown as Request;
+
+		expect(getSessionUserId(req)).toBe("jdoe");
+	});
+
+	it("should return null when nobody is signed in", () => {
+		expect(getSessionUserId({ session: {} } as Request)).toBeNull();
+	});
+});
+
+describe("getSessionUserEmail", () => {
+	it("should return the trimmed email of the signed-in user", () => {
+		const req = {
+			session: { user: { userId: "42", email: " jane@example.com " } },
+		} as unknown as Request;
+
+		expect(getSessionUserEmail(req)).toBe("jane@example.com");
+	});
+
+	it("should return null when the user has no email", () => {
+		const req = {
+			session: { user: { username: "jdoe", user_type: "User" } },
+		} as unknown as Request;
+
+		expect(getSessionUserEmail(req)).toBeNull();
+		expect(getSessionUserEmail({ session: {} } as Request)).toBeNull();
+	});
+});
@@ -25,6 +25,30 @@ export function isAdmin(req: Request): boolean {
 	);
 }
 
+/**
+ * Helper function to get the signed-in user's ID
+ * Supports both AuthUser (userId) and User (id or username) formats
+ * Used to own per-user data such as saved searches and the shortlist
+ */
+export function getSessionUserId(req: Request): string | null {
+	const user = req.session?.user;
+	if (!user) {
+		return null;
+	}
+	if ("userId" in user) {
+		return user.userId;
+	}
+	return user.id ?? user.username;
+}
+
+/**
+ * Helper function to get the signed-in user's email address
+ * Applications are owned by the email address they were made with
+ */
+export function getSessionUserEmail(req: Request): string | null {
+	return req.session?.user?.email?.trim() || null;
+}
+
 /**
  * Middleware: Require authentication
  * Redirects to login page if user is not authenticated
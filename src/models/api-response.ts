@@ -0,0 +1,37 @@
+/**
+ * JSON API response envelopes
+ * Every /api/v1 response uses one of these shapes so clients can check
+ * success before reading data or error
+ */
+
+import type { PaginationMeta } from "./pagination.js";
+
+/**
+ * Machine-readable error codes returned by the JSON API
+ */
+export type ApiErrorCode = "invalid_parameter" | "not_found" | "internal_error";
+
+/**
+ * Error details in an error response
+ */
+export interface ApiError {
+	code: ApiErrorCode;
+	message: string;
+}
+
+/**
+ * Successful response, with pagination metadata for list endpoints
+ */
+export interface ApiSuccessResponse<T> {
+	success: true;
+	data: T;
+	pagination?: PaginationMeta;
+}
+
+/**
+ * Error response
+ */
+export interface ApiErrorResponse {
+	success: false;
+	error: ApiError;
+}
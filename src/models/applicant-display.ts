@@ -38,10 +38,30 @@ export interface ApplicantsPageResponse {
 	};
 }
 
+/**
+ * Fields the applicants list can be sorted by
+ */
+export type ApplicantSortField = "name" | "submittedAt" | "status";
+
+/**
+ * Sort direction for the applicants list
+ */
+export type ApplicantSortOrder = "asc" | "desc";
+
+/**
+ * Sorting and filtering options for the applicants list
+ */
+export interface ApplicantsQueryOptions {
+	sort?: ApplicantSortField;
+	order?: ApplicantSortOrder;
+	status?: string;
+	search?: string;
+}
+
 /**
  * Request parameters for fetching applicants
  */
-export interface ApplicantsRequest {
+export interface ApplicantsRequest extends ApplicantsQueryOptions {
 	jobRoleId: number;
 	page?: number;
 	limit?: number;
@@ -0,0 +1,35 @@
+/**
+ * Application Draft models
+ * Describes the unfinished applications candidates save while filling in
+ * the application form
+ */
+
+import type { JobRoleDetailedResponse } from "./job-role-detailed-response.js";
+
+/**
+ * The form fields kept in a draft
+ * The CV upload is not saved, so it must be chosen again before submitting
+ */
+export interface ApplicationDraftContent {
+	applicantName: string;
+	applicantEmail: string;
+	coverLetter: string;
+}
+
+/**
+ * A user's draft application for a job role
+ * Each user has at most one draft per job role
+ */
+export interface ApplicationDraft extends ApplicationDraftContent {
+	jobRoleId: number;
+	updatedAt: string; // ISO date-time string
+}
+
+/**
+ * A draft prepared for the applications page
+ * jobRole is null when the role has been removed or is no longer published
+ */
+export interface ApplicationDraftItem extends ApplicationDraft {
+	jobRole: JobRoleDetailedResponse | null;
+	canContinue: boolean;
+}
@@ -0,0 +1,56 @@
+/**
+ * Job Role Audit models
+ * Describes the history recorded for admin changes to job roles
+ */
+
+import type { JobRoleDetailedResponse } from "./job-role-detailed-response.js";
+
+/**
+ * Kinds of change recorded in the audit history
+ * status_change is used when the status is the only field that changed
+ */
+export type JobRoleAuditAction =
+	| "create"
+	| "update"
+	| "delete"
+	| "status_change";
+
+/**
+ * Admin who made the change, taken from the session user
+ */
+export interface JobRoleAuditActor {
+	id?: string;
+	name: string;
+	email?: string;
+}
+
+/**
+ * Before and after values for a single job role field
+ * before is null for creates and after is null for deletes
+ */
+export interface JobRoleFieldChange {
+	field: keyof JobRoleDetailedResponse;
+	before: string | number | null;
+	after: string | number | null;
+}
+
+/**
+ * A single recorded change to a job role
+ */
+export interface JobRoleAuditEntry {
+	id: string;
+	jobRoleId: number;
+	action: JobRoleAuditAction;
+	actor: JobRoleAuditActor;
+	timestamp: string; // ISO date-time string
+	changes: JobRoleFieldChange[];
+}
+
+/**
+ * Data needed to record a new audit entry
+ * The store assigns the id and timestamp
+ */
+export type JobRoleAuditEntryInput = Omit<
+	JobRoleAuditEntry,
+	"id" | "timestamp"
+>;
@@ -14,4 +14,5 @@ export interface JobRoleDetailedResponse {
 	closingDate: string; // ISO date string (YYYY-MM-DD)
 	status: string;
 	numberOfOpenPositions: number;
+	publishDate?: string; // ISO date string (YYYY-MM-DD); hidden from the public until then
 }
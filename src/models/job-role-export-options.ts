@@ -0,0 +1,35 @@
+/**
+ * Job Role Export Options
+ * Defines the configurable parts of the admin job role CSV export
+ */
+
+import type { JobRoleDetailedResponse } from "./job-role-detailed-response.js";
+
+/**
+ * Job role fields that can be included as CSV columns
+ */
+export type JobRoleExportColumn = keyof JobRoleDetailedResponse;
+
+/**
+ * Supported CSV delimiters, keyed by the name used in query strings
+ */
+export type CsvDelimiterName = "comma" | "semicolon" | "tab" | "pipe";
+
+/**
+ * Supported date formats for the closing date column
+ * - iso: 2025-12-31
+ * - uk: 31/12/2025
+ * - us: 12/31/2025
+ * - long: 31 December 2025
+ */
+export type ExportDateFormat = "iso" | "uk" | "us" | "long";
+
+/**
+ * Formatting options for a CSV export
+ */
+export interface JobRoleExportOptions {
+	columns: JobRoleExportColumn[];
+	delimiter: CsvDelimiterName;
+	includeBom: boolean;
+	dateFormat: ExportDateFormat;
+}
@@ -9,6 +9,7 @@ export interface JobRoleResponse {
 	capability: string;
 	band: string;
 	closingDate: string; // ISO date string (YYYY-MM-DD)
-	status: string; // Job role status: "Open" or "Closed"
+	status: string; // Job role status: "Open", "Closed", "On Hold" or "Draft"
 	numberOfOpenPositions: number; // Number of open positions for this role
+	publishDate?: string; // ISO date string (YYYY-MM-DD); hidden from the public until then
 }
@@ -3,6 +3,27 @@
  * Defines the structure for search and filter query parameters
  */
 
+/**
+ * How the search text is matched
+ * title matches the role name only; fulltext also matches the description
+ * and responsibilities and ranks the results by relevance
+ */
+export type JobRoleSearchMode = "title" | "fulltext";
+
+/**
+ * Fields the job role lists can be sorted by
+ */
+export type JobRoleSortField =
+	| "closingDate"
+	| "roleName"
+	| "band"
+	| "numberOfOpenPositions";
+
+/**
+ * Sort direction for the job role lists
+ */
+export type JobRoleSortOrder = "asc" | "desc";
+
 /**
  * Search and filter parameters for job role queries
  * All fields are optional - missing/undefined fields are ignored in search
@@ -15,22 +36,28 @@ export interface JobRoleSearchParams {
 	search?: string;
 
 	/**
-	 * Filter by job capability (exact match)
-	 * @example "Engineering", "Analytics", "Product"
+	 * How the search text is matched (opt-in full-text search)
+	 * @default "title"
 	 */
-	capability?: string;
+	searchMode?: JobRoleSearchMode;
 
 	/**
-	 * Filter by job location (exact match)
-	 * @example "Belfast, Northern Ireland", "London, England"
+	 * Filter by job capability (exact match on any of the values)
+	 * @example "Engineering", ["Engineering", "Testing"]
 	 */
-	location?: string;
+	capability?: string | string[];
 
 	/**
-	 * Filter by band level (exact match)
-	 * @example "Junior", "Mid", "Senior"
+	 * Filter by job location (exact match on any of the values)
+	 * @example "Belfast, Northern Ireland", ["Belfast, Northern Ireland", "Remote"]
 	 */
-	band?: string;
+	location?: string | string[];
+
+	/**
+	 * Filter by band level (exact match on any of the values)
+	 * @example "Junior", ["Mid", "Senior"]
+	 */
+	band?: string | string[];
 
 	/**
 	 * Filter by job status (exact match)
@@ -38,6 +65,44 @@ export interface JobRoleSearchParams {
 	 */
 	status?: string;
 
+	/**
+	 * Only roles closing on or after this date (YYYY-MM-DD)
+	 * @example "2025-01-01"
+	 */
+	closingAfter?: string;
+
+	/**
+	 * Only roles closing on or before this date (YYYY-MM-DD)
+	 * @example "2025-03-31"
+	 */
+	closingBefore?: string;
+
+	/**
+	 * Only roles with at least this many open positions
+	 * @example 2
+	 */
+	minOpenPositions?: number;
+
+	/**
+	 * Leave out drafts and roles with a future publish date
+	 * Set by the server for public lists, never read from the query string;
+	 * the backend doesn't know about publishing, so it is applied in memory
+	 * before paginating
+	 */
+	publishedOnly?: boolean;
+
+	/**
+	 * Field to sort by - results keep the backend (or relevance) order when omitted
+	 * @example "closingDate", "roleName"
+	 */
+	sort?: JobRoleSortField;
+
+	/**
+	 * Sort direction, only used together with sort
+	 * @default "asc"
+	 */
+	order?: JobRoleSortOrder;
+
 	/**
 	 * Page number for pagination (starts at 1)
 	 * @default 1
@@ -51,6 +116,33 @@ export interface JobRoleSearchParams {
 	limit?: number;
 }
 
+/**
+ * Filters that accept several values, matching roles with any of them
+ */
+export type JobRoleMultiValueFilter = "capability" | "location" | "band";
+
+/**
+ * Filters that can be shown as active filter chips
+ */
+export type JobRoleFilterType =
+	| "search"
+	| JobRoleMultiValueFilter
+	| "status"
+	| "closingAfter"
+	| "closingBefore"
+	| "minOpenPositions";
+
+/**
+ * A single active filter value shown as a removable chip
+ * Multi-value filters get one chip per selected value
+ */
+export interface JobRoleActiveFilter {
+	type: JobRoleFilterType;
+	value: string;
+	label: string;
+	removeUrl: string; // The current search without this value
+}
+
 /**
  * Filter options available for dropdowns
  * Used to populate the search form select elements
@@ -59,4 +151,8 @@ export interface JobRoleFilterOptions {
 	capabilities: string[];
 	locations: string[];
 	bands: string[];
+	/**
+	 * Only provided when the options come from the reference data lists
+	 */
+	statuses?: string[];
 }
@@ -0,0 +1,21 @@
+/**
+ * Job Role Search Result model for full-text search results
+ */
+
+import type { JobRoleResponse } from "./job-role-response.js";
+
+/**
+ * Job role text fields matched by full-text search
+ */
+export type JobRoleTextField = "roleName" | "description" | "responsibilities";
+
+/**
+ * A job role returned by full-text search
+ * snippet is an extract of the description or responsibilities around the
+ * first matching term, shown when the role name itself does not match
+ */
+export interface JobRoleSearchResult extends JobRoleResponse {
+	relevance: number;
+	matchedFields: JobRoleTextField[];
+	snippet?: string;
+}
@@ -0,0 +1,18 @@
+/**
+ * Reference Data models
+ * Describes the admin-managed lists used by job role forms, filters and validation
+ */
+
+/**
+ * The lists of reference data that admins can manage
+ */
+export type ReferenceDataType =
+	| "locations"
+	| "capabilities"
+	| "bands"
+	| "statuses";
+
+/**
+ * Every reference data list, keyed by type
+ */
+export type ReferenceData = Record<ReferenceDataType, string[]>;
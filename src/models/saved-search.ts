@@ -0,0 +1,50 @@
+/**
+ * Saved Search models
+ * Describes job role searches that signed-in users save to their account
+ */
+
+import type { JobRoleSearchParams } from "./job-role-search-params.js";
+
+/**
+ * Filters stored with a saved search
+ * Pagination and sorting are not saved, so a saved search always opens on
+ * the first page in the default order
+ */
+export type SavedSearchParams = Omit<
+	JobRoleSearchParams,
+	"page" | "limit" | "sort" | "order" | "publishedOnly"
+>;
+
+/**
+ * A search saved by a user
+ * New matches are the matching job roles with an ID above lastSeenJobRoleId,
+ * since job role IDs are assigned in creation order
+ */
+export interface SavedSearch {
+	id: string;
+	userId: string;
+	name: string;
+	params: SavedSearchParams;
+	createdAt: string; // ISO date-time string
+	lastViewedAt: string; // ISO date-time string
+	lastSeenJobRoleId: number; // Highest job role ID when the search was last viewed
+}
+
+/**
+ * Data needed to save a new search
+ * The store assigns the id and timestamps
+ */
+export type SavedSearchInput = Omit<
+	SavedSearch,
+	"id" | "createdAt" | "lastViewedAt"
+>;
+
+/**
+ * A saved search prepared for the account page
+ * newMatchCount is null when the matches could not be counted
+ */
+export interface SavedSearchSummary extends SavedSearch {
+	url: string;
+	filterLabels: string[];
+	newMatchCount: number | null;
+}
@@ -0,0 +1,25 @@
+/**
+ * Shortlist models
+ * Describes the job roles candidates bookmark while they decide where to apply
+ */
+
+import type { JobRoleDetailedResponse } from "./job-role-detailed-response.js";
+
+/**
+ * A job role on a user's shortlist
+ */
+export interface ShortlistEntry {
+	jobRoleId: number;
+	addedAt: string; // ISO date-time string
+}
+
+/**
+ * A shortlist entry prepared for the shortlist page
+ * jobRole is null when the role has been removed or is no longer published
+ */
+export interface ShortlistItem extends ShortlistEntry {
+	jobRole: JobRoleDetailedResponse | null;
+	isOpen: boolean;
+	daysUntilClosing: number | null;
+	isClosingSoon: boolean;
+}
@@ -0,0 +1,51 @@
+/**
+ * Application Draft Store Interface
+ * Defines the contract for storing users' unfinished job applications
+ */
+
+import type {
+	ApplicationDraft,
+	ApplicationDraftContent,
+} from "../models/application-draft.js";
+
+/**
+ * Storage for application drafts, keyed by user and job role
+ * Implementations can use different backends (memory, database, etc.)
+ */
+export interface ApplicationDraftStore {
+	/**
+	 * Fetches a user's draft for a job role
+	 * @param userId The owning user's ID
+	 * @param jobRoleId The job role ID
+	 * @returns Promise<ApplicationDraft | null> The draft, or null if there is none
+	 */
+	getDraft(userId: string, jobRoleId: number): Promise<ApplicationDraft | null>;
+
+	/**
+	 * Lists a user's drafts
+	 * @param userId The owning user's ID
+	 * @returns Promise<ApplicationDraft[]> The drafts, most recently saved first
+	 */
+	listDrafts(userId: string): Promise<ApplicationDraft[]>;
+
+	/**
+	 * Creates or replaces a user's draft for a job role
+	 * @param userId The owning user's ID
+	 * @param jobRoleId The job role ID
+	 * @param content The form fields to save
+	 * @returns Promise<ApplicationDraft> The saved draft
+	 */
+	saveDraft(
+		userId: string,
+		jobRoleId: number,
+		content: ApplicationDraftContent
+	): Promise<ApplicationDraft>;
+
+	/**
+	 * Deletes a user's draft for a job role
+	 * @param userId The owning user's ID
+	 * @param jobRoleId The job role ID
+	 * @returns Promise<boolean> True if deleted, false if there was no draft
+	 */
+	deleteDraft(userId: string, jobRoleId: number): Promise<boolean>;
+}
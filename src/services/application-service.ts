@@ -3,7 +3,10 @@
  * Defines the contract for job application submission and retrieval
  */
 
-import type { ApplicantsPageResponse } from "../models/applicant-display.js";
+import type {
+	ApplicantsPageResponse,
+	ApplicantsQueryOptions,
+} from "../models/applicant-display.js";
 import type { ApplicationResponse } from "../models/application-request.js";
 
 /**
@@ -32,12 +35,14 @@ export interface ApplicationService {
 	 * @param jobRoleId The ID of the job role to get applicants for
 	 * @param page The page number (1-based, defaults to 1)
 	 * @param limit The number of applicants per page (defaults to 10)
+	 * @param query Optional sort order, status filter and name/email search
 	 * @returns Promise<ApplicantsPageResponse> The paginated applicants response
 	 */
 	getApplicantsByJobRole(
 		jobRoleId: number,
 		page?: number,
-		limit?: number
+		limit?: number,
+		query?: ApplicantsQueryOptions
 	): Promise<ApplicantsPageResponse>;
 
 	/**
@@ -88,4 +93,15 @@ export interface ApplicationService {
 		applicationId: number,
 		applicantEmail: string
 	): Promise<ApplicationResponse>;
+
+	/**
+	 * Moves an application to a new pipeline status (admin action)
+	 * @param applicationId The ID of the application to update
+	 * @param status The new status (e.g. "under_review", "interview", "offered")
+	 * @returns Promise<ApplicationResponse> The updated application
+	 */
+	updateApplicationStatus(
+		applicationId: number,
+		status: string
+	): Promise<ApplicationResponse>;
 }
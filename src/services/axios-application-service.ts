@@ -7,8 +7,11 @@ import FormData from "form-data";
 import type {
 	ApplicantDisplay,
 	ApplicantsPageResponse,
+	ApplicantsQueryOptions,
 } from "../models/applicant-display.js";
 import type { ApplicationResponse } from "../models/application-request.js";
+import type { PaginationMeta } from "../models/pagination.js";
+import { applyApplicantQuery } from "../utils/applicant-query.js";
 import type { ApplicationService } from "./application-service.js";
 
 /**
@@ -52,6 +55,15 @@ interface BackendApplicationResponse {
 	};
 }
 
+/**
+ * Backend paginated applications response format
+ */
+interface BackendPaginatedApplicationsResponse {
+	applications: BackendApplicationResponse[];
+	pagination: PaginationMeta;
+	jobRole?: BackendApplicationResponse["jobRole"];
+}
+
 /**
  * Axios-based Application Service implementation
  * Submits applications to backend REST API
@@ -195,68 +207,147 @@ export class AxiosApplicationService implements ApplicationService {
 		return response;
 	}
 
+	/**
+	 * Builds backend query parameters for the applicants endpoint
+	 * Frontend sort fields are translated to backend field names
+	 */
+	private buildApplicantsQueryParams(
+		page: number,
+		limit: number,
+		query: ApplicantsQueryOptions
+	): Record<string, string | number> {
+		const params: Record<string, string | number> = { page, limit };
+
+		if (query.sort) {
+			params["sort"] = query.sort === "name" ? "applicantName" : query.sort;
+		}
+		if (query.order) {
+			params["order"] = query.order;
+		}
+		if (query.status) {
+			params["status"] = query.status;
+		}
+		if (query.search) {
+			params["search"] = query.search;
+		}
+
+		return params;
+	}
+
+	/**
+	 * Maps a backend application to the applicant display format
+	 */
+	private mapBackendToApplicant(
+		app: BackendApplicationResponse
+	): ApplicantDisplay {
+		const applicant: ApplicantDisplay = {
+			applicationId: app.id,
+			applicantName: app.applicantName,
+			applicantEmail: app.applicantEmail,
+			status: app.status,
+			submittedAt: app.submittedAt,
+		};
+
+		if (app.coverLetter) {
+			applicant.coverLetter = app.coverLetter;
+		}
+		if (app.resumeUrl) {
+			applicant.resumeUrl = app.resumeUrl;
+		}
+		if (app.hasCv !== undefined) {
+			applicant.hasCv = app.hasCv;
+		}
+		if (app.cvFileName) {
+			applicant.cvFileName = app.cvFileName;
+		}
+		if (app.updatedAt) {
+			applicant.updatedAt = app.updatedAt;
+		}
+
+		return applicant;
+	}
+
+	/**
+	 * Maps the backend job role attached to applications to the summary shown
+	 * on the applicants page
+	 */
+	private mapApplicantsJobRole(
+		jobRoleId: number,
+		jobRole: BackendApplicationResponse["jobRole"]
+	): ApplicantsPageResponse["jobRole"] {
+		return jobRole
+			? {
+					id: jobRole.id,
+					roleName: jobRole.jobRoleName,
+					status: jobRole.status,
+				}
+			: {
+					id: jobRoleId,
+					roleName: "Unknown Job Role",
+					status: "unknown",
+				};
+	}
+
 	/**
 	 * Retrieves paginated list of applicants for a specific job role
+	 * Paging, sorting and filtering are delegated to the backend; if it
+	 * returns a plain array instead of a paginated payload they are applied
+	 * in memory instead
 	 */
 	async getApplicantsByJobRole(
 		jobRoleId: number,
 		page = 1,
-		limit = 10
+		limit = 10,
+		query: ApplicantsQueryOptions = {}
 	): Promise<ApplicantsPageResponse> {
 		try {
 			const response = await this.axiosInstance.get<
-				BackendResponse<BackendApplicationResponse[]>
-			>(`/api/applications/job-role/${jobRoleId}`);
+				BackendResponse<
+					BackendApplicationResponse[] | BackendPaginatedApplicationsResponse
+				>
+			>(`/api/applications/job-role/${jobRoleId}`, {
+				params: this.buildApplicantsQueryParams(page, limit, query),
+			});
 
 			if (!response.data.success) {
 				throw new Error("Failed to fetch applicants");
 			}
 
-			// Since backend doesn't support pagination, we'll do client-side pagination
-			const allApplications = response.data.data;
-			const totalApplicants = allApplications.length;
+			const backendData = response.data.data;
+
+			if (!Array.isArray(backendData)) {
+				const { applications, pagination } = backendData;
+				return {
+					applicants: applications.map((app) =>
+						this.mapBackendToApplicant(app)
+					),
+					pagination: {
+						currentPage: pagination.currentPage,
+						totalPages: pagination.totalPages,
+						totalApplicants: pagination.totalCount,
+						applicantsPerPage: pagination.limit,
+						hasNextPage: pagination.hasNext,
+						hasPreviousPage: pagination.hasPrevious,
+					},
+					jobRole: this.mapApplicantsJobRole(
+						jobRoleId,
+						backendData.jobRole ?? applications[0]?.jobRole
+					),
+				};
+			}
+
+			// Backend doesn't support pagination, so filter, sort and page here
+			const allApplicants = applyApplicantQuery(
+				backendData.map((app) => this.mapBackendToApplicant(app)),
+				query
+			);
+			const totalApplicants = allApplicants.length;
 			const totalPages = Math.ceil(totalApplicants / limit);
 			const startIndex = (page - 1) * limit;
 			const endIndex = startIndex + limit;
-			const paginatedApplications = allApplications.slice(startIndex, endIndex);
-
-			// Map applications to applicant display format
-			const applicants: ApplicantDisplay[] = paginatedApplications.map(
-				(app) => {
-					const applicant: ApplicantDisplay = {
-						applicationId: app.id,
-						applicantName: app.applicantName,
-						applicantEmail: app.applicantEmail,
-						status: app.status,
-						submittedAt: app.submittedAt,
-					};
-
-					if (app.coverLetter) {
-						applicant.coverLetter = app.coverLetter;
-					}
-					if (app.resumeUrl) {
-						applicant.resumeUrl = app.resumeUrl;
-					}
-					if (app.hasCv !== undefined) {
-						applicant.hasCv = app.hasCv;
-					}
-					if (app.cvFileName) {
-						applicant.cvFileName = app.cvFileName;
-					}
-					if (app.updatedAt) {
-						applicant.updatedAt = app.updatedAt;
-					}
-
-					return applicant;
-				}
-			);
-
-			// Get job role info from first application (they all have the same job role)
-			const jobRole =
-				allApplications.length > 0 ? allApplications[0]?.jobRole : null;
 
 			return {
-				applicants,
+				applicants: allApplicants.slice(startIndex, endIndex),
 				pagination: {
 					currentPage: page,
 					totalPages,
@@ -265,17 +356,8 @@ export class AxiosApplicationService implements ApplicationService {
 					hasNextPage: page < totalPages,
 					hasPreviousPage: page > 1,
 				},
-				jobRole: jobRole
-					? {
-							id: jobRole.id,
-							roleName: jobRole.jobRoleName,
-							status: jobRole.status,
-						}
-					: {
-							id: jobRoleId,
-							roleName: "Unknown Job Role",
-							status: "unknown",
-						},
+				// Job role info comes from the first application (they all share it)
+				jobRole: this.mapApplicantsJobRole(jobRoleId, backendData[0]?.jobRole),
 			};
 		} catch (error) {
 			if (axios.isAxiosError(error)) {
@@ -669,4 +751,54 @@ export class AxiosApplicationService implements ApplicationService {
 			);
 		}
 	}
+
+	/**
+	 * Updates the pipeline status of an application (admin action)
+	 */
+	async updateApplicationStatus(
+		applicationId: number,
+		status: string
+	): Promise<ApplicationResponse> {
+		try {
+			const response = await this.axiosInstance.patch<
+				BackendResponse<BackendApplicationResponse>
+			>(`/api/applications/${applicationId}/status`, { status });
+
+			if (!response.data.success) {
+				throw new Error("Failed to update application status");
+			}
+
+			return this.mapBackendToFrontend(response.data.data);
+		} catch (error) {
+			if (axios.isAxiosError(error)) {
+				console.error(
+					"Failed to update application status:",
+					error.response?.data || error.message
+				);
+
+				if (error.code === "ECONNREFUSED") {
+					throw new Error(
+						"Unable to connect to the backend API. Please ensure the API server is running."
+					);
+				}
+
+				if (error.response?.status === 404) {
+					throw new Error("Application not found");
+				}
+
+				if (error.response?.status === 400) {
+					throw new Error(
+						error.response.data?.message || "This status change is not allowed"
+					);
+				}
+
+				throw new Error(
+					error.response?.data?.message ||
+						"An error occurred while updating application status"
+				);
+			}
+
+			throw error;
+		}
+	}
 }
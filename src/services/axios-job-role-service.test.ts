@@ -188,6 +188,7 @@ describe("AxiosJobRoleService", () => {
 				closingDate: "2025-12-31",
 				status: "Open",
 				numberOfOpenPositions: 2,
+				publishDate: null,
 			});
 
 			expect(result).toEqual({
@@ -314,6 +315,329 @@ describe("AxiosJobRoleService", () => {
 		});
 	});
 
+	describe("getJobRoles", () => {
+		it("should keep Draft and On Hold statuses and map publish dates", async () => {
+			mockAxiosInstance.get.mockResolvedValue({
+				data: {
+					success: true,
+					data: {
+						jobRoles: [
+							{
+								id: 1,
+								jobRoleName: "Draft Role",
+								location: "Belfast",
+								capability: "Engineering",
+								band: "Associate",
+								closingDate: "2099-12-31",
+								status: "draft",
+								numberOfOpenPositions: 1,
+								publishDate: "2099-01-01",
+							},
+							{
+								id: 2,
+								jobRoleName: "Paused Role",
+								location: "Derry",
+								capability: "Data",
+								band: "Senior",
+								closingDate: "2099-12-31",
+								status: "On Hold",
+								numberOfOpenPositions: 2,
+								publishDate: null,
+							},
+							{
+								id: 3,
+								jobRoleName: "Unknown Role",
+								location: "London",
+								capability: "Data",
+								band: "Senior",
+								closingDate: "2099-12-31",
+								status: "archived",
+								numberOfOpenPositions: 2,
+							},
+						],
+					},
+				},
+			});
+
+			const result = await service.getJobRoles();
+
+			expect(result[0]?.status).toBe("Draft");
+			expect(result[0]?.publishDate).toBe("2099-01-01");
+			expect(result[1]?.status).toBe("On Hold");
+			expect(result[1]).not.toHaveProperty("publishDate");
+			expect(result[2]?.status).toBe("Closed");
+		});
+	});
+
+	describe("getFilterOptions", () => {
+		it("should use the reference data lists when a reference data service is configured", async () => {
+			const referenceDataService = {
+				getReferenceData: vi.fn().mockResolvedValue({
+					locations: ["Belfast", "Remote"],
+					capabilities: ["Engineering"],
+					bands: ["Mid", "Lead"],
+					statuses: ["Open", "Closed", "Draft", "Filled"],
+				}),
+				addValue: vi.fn(),
+				renameValue: vi.fn(),
+				deleteValue: vi.fn(),
+			};
+			service = new AxiosJobRoleService(
+				"http://localhost:8000",
+				referenceDataService
+			);
+
+			const result = await service.getFilterOptions();
+
+			expect(result).toEqual({
+				locations: ["Belfast", "Remote"],
+				capabilities: ["Engineering"],
+				bands: ["Mid", "Lead"],
+				statuses: ["Open", "Closed", "Draft", "Filled"],
+			});
+			expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+		});
+
+		it("should fall back to the backend when the reference data cannot be loaded", async () => {
+			vi.spyOn(console, "error").mockImplementation(() => {});
+			service = new AxiosJobRoleService("http://localhost:8000", {
+				getReferenceData: vi.fn().mockRejectedValue(new Error("Disk error")),
+				addValue: vi.fn(),
+				renameValue: vi.fn(),
+				deleteValue: vi.fn(),
+			});
+			mockAxiosInstance.get.mockResolvedValue({ data: { data: ["Value"] } });
+
+			const result = await service.getFilterOptions();
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+				"/api/job-roles/capabilities"
+			);
+			expect(result).toEqual({
+				capabilities: ["Value"],
+				locations: ["Value"],
+				bands: ["Value"],
+			});
+		});
+	});
+
+	describe("searchJobRoles with a sort", () => {
+		const backendRole = (id: number, band: string, closingDate: string) => ({
+			id,
+			jobRoleName: `Role ${id}`,
+			description: "Description",
+			responsibilities: "Responsibilities",
+			jobSpecLink: "",
+			location: "Belfast",
+			capability: "Engineering",
+			band,
+			closingDate,
+			status: "open",
+			numberOfOpenPositions: 1,
+		});
+
+		const backendPage = (jobRoles: object[]) => ({
+			data: {
+				data: {
+					jobRoles,
+					pagination: {
+						currentPage: 1,
+						totalPages: 1,
+						totalCount: jobRoles.length,
+						limit: 100,
+						hasNext: false,
+						hasPrevious: false,
+					},
+				},
+			},
+		});
+
+		it("should sort every matching role before paginating", async () => {
+			mockAxiosInstance.get.mockResolvedValue(
+				backendPage([
+					backendRole(1, "Mid", "2030-03-01"),
+					backendRole(2, "Senior", "2030-01-01"),
+					backendRole(3, "Junior", "2030-02-01"),
+				])
+			);
+
+			const result = await service.searchJobRoles({
+				location: "Belfast",
+				sort: "closingDate",
+				order: "asc",
+				page: 2,
+				limit: 2,
+			});
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+				"/api/job-roles/search",
+				{ params: { location: "Belfast", page: 1, limit: 100 } }
+			);
+			expect(result.data.map((jobRole) => jobRole.jobRoleId)).toEqual([1]);
+			expect(result.data[0]).not.toHaveProperty("description");
+			expect(result.pagination).toMatchObject({
+				currentPage: 2,
+				totalPages: 2,
+				totalCount: 3,
+				hasPrevious: true,
+			});
+		});
+
+		it("should apply multi-value and range filters in memory", async () => {
+			mockAxiosInstance.get.mockResolvedValue(
+				backendPage([
+					{ ...backendRole(1, "Mid", "2030-03-01"), location: "Remote" },
+					backendRole(2, "Senior", "2030-01-01"),
+					{ ...backendRole(3, "Junior", "2030-02-01"), location: "London" },
+				])
+			);
+
+			const result = await service.searchJobRoles({
+				status: "Open",
+				location: ["Belfast", "Remote"],
+				closingAfter: "2030-02-01",
+			});
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+				"/api/job-roles/search",
+				{ params: { status: "Open", page: 1, limit: 100 } }
+			);
+			expect(result.data.map((jobRole) => jobRole.jobRoleId)).toEqual([1]);
+			expect(result.pagination.totalCount).toBe(1);
+		});
+
+		it("should order bands by the reference data list", async () => {
+			service = new AxiosJobRoleService("http://localhost:8000", {
+				getReferenceData: vi.fn().mockResolvedValue({
+					locations: [],
+					capabilities: [],
+					bands: ["Senior", "Mid", "Junior"],
+					statuses: [],
+				}),
+				addValue: vi.fn(),
+				renameValue: vi.fn(),
+				deleteValue: vi.fn(),
+			});
+			mockAxiosInstance.get.mockResolvedValue(
+				backendPage([
+					backendRole(1, "Mid", "2030-03-01"),
+					backendRole(2, "Junior", "2030-01-01"),
+					backendRole(3, "Senior", "2030-02-01"),
+				])
+			);
+
+			const result = await service.searchJobRoles({ sort: "band" });
+
+			expect(result.data.map((jobRole) => jobRole.jobRoleId)).toEqual([
+				3, 1, 2,
+			]);
+		});
+	});
+
+	describe("searchJobRolesFullText", () => {
+		const backendPage = (jobRoles: object[]) => ({
+			data: {
+				data: {
+					jobRoles,
+					pagination: {
+						currentPage: 1,
+						totalPages: 1,
+						totalCount: jobRoles.length,
+						limit: 100,
+						hasNext: false,
+						hasPrevious: false,
+					},
+				},
+			},
+		});
+
+		const backendRole = (
+			id: number,
+			jobRoleName: string,
+			description: string
+		) => ({
+			id,
+			jobRoleName,
+			description,
+			responsibilities: "",
+			jobSpecLink: "",
+			location: "Belfast",
+			capability: "Engineering",
+			band: "Mid",
+			closingDate: "2099-12-31",
+			status: "open",
+			numberOfOpenPositions: 1,
+		});
+
+		it("should rank the filtered job roles locally by default", async () => {
+			mockAxiosInstance.get.mockResolvedValue(
+				backendPage([
+					backendRole(1, "Test Analyst", "Automates kafka tests"),
+					backendRole(2, "Kafka Engineer", "Streams"),
+					backendRole(3, "Product Owner", "Roadmaps"),
+				])
+			);
+
+			const result = await service.searchJobRolesFullText({
+				search: "kafka",
+				location: "Belfast",
+				page: 1,
+				limit: 12,
+			});
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+				"/api/job-roles/search",
+				{ params: { location: "Belfast", page: 1, limit: 100 } }
+			);
+			expect(result.data.map((jobRole) => jobRole.jobRoleId)).toEqual([2, 1]);
+			expect(result.data[1]?.snippet).toBe("Automates kafka tests");
+			expect(result.pagination.totalCount).toBe(2);
+		});
+
+		it("should delegate to the backend when configured", async () => {
+			service = new AxiosJobRoleService("http://localhost:8000", null, true);
+			mockAxiosInstance.get.mockResolvedValue(
+				backendPage([backendRole(1, "Test Analyst", "Automates kafka tests")])
+			);
+
+			const result = await service.searchJobRolesFullText({
+				search: "kafka",
+				page: 2,
+				limit: 12,
+			});
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+				"/api/job-roles/search",
+				{
+					params: {
+						searchMode: "fulltext",
+						search: "kafka",
+						page: 2,
+						limit: 12,
+					},
+				}
+			);
+			expect(result.data[0]).toMatchObject({
+				jobRoleId: 1,
+				matchedFields: ["description"],
+			});
+		});
+
+		it("should return an empty page when the backend fails", async () => {
+			vi.spyOn(console, "error").mockImplementation(() => {});
+			mockAxiosInstance.get.mockRejectedValue(new Error("Network Error"));
+
+			const result = await service.searchJobRolesFullText({
+				search: "kafka",
+				page: 1,
+				limit: 12,
+			});
+
+			expect(result.data).toEqual([]);
+			expect(result.pagination.totalCount).toBe(0);
+		});
+	});
+
 	describe("constructor", () => {
 		it("should create instance with default baseURL", () => {
 			new AxiosJobRoleService();
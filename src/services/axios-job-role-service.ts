@@ -10,11 +10,25 @@ import type {
 	JobRoleFilterOptions,
 	JobRoleSearchParams,
 } from "../models/job-role-search-params.js";
+import type { JobRoleSearchResult } from "../models/job-role-search-result.js";
 import type {
 	PaginatedResponse,
 	PaginationRequest,
 } from "../models/pagination.js";
+import {
+	getSearchTerms,
+	paginateSearchResults,
+	rankJobRolesByText,
+	toJobRoleSearchResult,
+} from "../utils/full-text-search.js";
+import {
+	filterJobRoles,
+	getBackendFilterParams,
+	hasInMemoryFilters,
+} from "../utils/job-role-filters.js";
+import { sortJobRoles } from "../utils/job-role-sort.js";
 import type { JobRoleService } from "./job-role-service.js";
+import type { ReferenceDataService } from "./reference-data-service.js";
 
 /**
  * Backend API response wrapper
@@ -54,6 +68,27 @@ interface BackendJobRole {
 	closingDate: string;
 	status: string;
 	numberOfOpenPositions: number;
+	publishDate?: string | null;
+}
+
+/**
+ * Statuses passed through unchanged in list views
+ */
+const LIST_STATUSES = ["Open", "Closed", "On Hold", "Draft"];
+
+/**
+ * Maps a backend status onto the statuses shown in list views
+ * Matching is case-insensitive and unknown values are treated as Closed
+ */
+function normaliseJobRoleStatus(status: unknown): string {
+	if (typeof status !== "string") {
+		return "Closed";
+	}
+	return (
+		LIST_STATUSES.find(
+			(listStatus) => listStatus.toLowerCase() === status.trim().toLowerCase()
+		) ?? "Closed"
+	);
 }
 
 /**
@@ -62,10 +97,17 @@ interface BackendJobRole {
  */
 export class AxiosJobRoleService implements JobRoleService {
 	private axiosInstance: AxiosInstance;
+	private referenceDataService: ReferenceDataService | null;
+	private useBackendFullTextSearch: boolean;
 
 	constructor(
-		baseURL = process.env["API_BASE_URL"] || "http://localhost:8000"
+		baseURL = process.env["API_BASE_URL"] || "http://localhost:8000",
+		referenceDataService: ReferenceDataService | null = null,
+		useBackendFullTextSearch = process.env["FULL_TEXT_SEARCH_SOURCE"] ===
+			"backend"
 	) {
+		this.referenceDataService = referenceDataService;
+		this.useBackendFullTextSearch = useBackendFullTextSearch;
 		this.axiosInstance = axios.create({
 			baseURL,
 			timeout: Number.parseInt(process.env["API_TIMEOUT"] || "10000", 10),
@@ -95,11 +137,8 @@ export class AxiosJobRoleService implements JobRoleService {
 				band: role.band,
 				closingDate: role.closingDate,
 				numberOfOpenPositions: role.numberOfOpenPositions,
-				status:
-					typeof role.status === "string" &&
-					role.status.toLowerCase() === "open"
-						? "Open"
-						: "Closed",
+				...(role.publishDate ? { publishDate: role.publishDate } : {}),
+				status: normaliseJobRoleStatus(role.status),
 			}));
 		} catch (error) {
 			console.error("Error fetching job roles:", error);
@@ -138,6 +177,7 @@ export class AxiosJobRoleService implements JobRoleService {
 				closingDate: role.closingDate,
 				status: role.status,
 				numberOfOpenPositions: role.numberOfOpenPositions,
+				...(role.publishDate ? { publishDate: role.publishDate } : {}),
 			};
 		} catch (error) {
 			// Handle 404 or other errors
@@ -171,6 +211,7 @@ export class AxiosJobRoleService implements JobRoleService {
 				closingDate: jobRole.closingDate,
 				status: jobRole.status,
 				numberOfOpenPositions: jobRole.numberOfOpenPositions,
+				publishDate: jobRole.publishDate ?? null,
 			};
 
 			const response = await this.axiosInstance.post<
@@ -192,6 +233,7 @@ export class AxiosJobRoleService implements JobRoleService {
 				closingDate: role.closingDate,
 				status: role.status,
 				numberOfOpenPositions: role.numberOfOpenPositions,
+				...(role.publishDate ? { publishDate: role.publishDate } : {}),
 			};
 		} catch (error) {
 			console.error("Error creating job role:", error);
@@ -253,11 +295,8 @@ export class AxiosJobRoleService implements JobRoleService {
 				band: role.band,
 				closingDate: role.closingDate,
 				numberOfOpenPositions: role.numberOfOpenPositions,
-				status:
-					typeof role.status === "string" &&
-					role.status.toLowerCase() === "open"
-						? "Open"
-						: "Closed",
+				...(role.publishDate ? { publishDate: role.publishDate } : {}),
+				status: normaliseJobRoleStatus(role.status),
 			}));
 
 			return {
@@ -310,6 +349,7 @@ export class AxiosJobRoleService implements JobRoleService {
 				closingDate: jobRole.closingDate,
 				status: jobRole.status,
 				numberOfOpenPositions: jobRole.numberOfOpenPositions,
+				publishDate: jobRole.publishDate ?? null,
 			};
 
 			const response = await this.axiosInstance.put<
@@ -331,6 +371,7 @@ export class AxiosJobRoleService implements JobRoleService {
 				closingDate: role.closingDate,
 				status: role.status,
 				numberOfOpenPositions: role.numberOfOpenPositions,
+				...(role.publishDate ? { publishDate: role.publishDate } : {}),
 			};
 		} catch (error) {
 			console.error(`Error updating job role ${id}:`, error);
@@ -347,37 +388,27 @@ export class AxiosJobRoleService implements JobRoleService {
 	}
 
 	/**
-	 * Search and filter job roles with pagination
-	 * @param searchParams The search and filter parameters
+	 * Search, filter and optionally sort job roles with pagination
+	 * @param searchParams The search, filter and sort parameters
 	 * @returns Promise<PaginatedResponse<JobRoleResponse>> Paginated search results
 	 */
 	async searchJobRoles(
 		searchParams: JobRoleSearchParams
 	): Promise<PaginatedResponse<JobRoleResponse>> {
 		try {
+			// The backend has no sort support and only takes one exact value per
+			// filter, so sorted and multi-value searches are built here
+			if (searchParams.sort || hasInMemoryFilters(searchParams)) {
+				return await this.searchJobRolesInMemory(searchParams);
+			}
+
 			// Build query parameters, only including defined values
 			const params: Record<string, string | number> = {
 				page: searchParams.page ?? 1,
 				limit: searchParams.limit ?? 12,
+				...getBackendFilterParams(searchParams),
 			};
 
-			// Add optional search/filter parameters if provided
-			if (searchParams.search?.trim()) {
-				params["search"] = searchParams.search.trim();
-			}
-			if (searchParams.capability?.trim()) {
-				params["capability"] = searchParams.capability.trim();
-			}
-			if (searchParams.location?.trim()) {
-				params["location"] = searchParams.location.trim();
-			}
-			if (searchParams.band?.trim()) {
-				params["band"] = searchParams.band.trim();
-			}
-			if (searchParams.status?.trim()) {
-				params["status"] = searchParams.status.trim();
-			}
-
 			const response = await this.axiosInstance.get<
 				BackendResponse<BackendPaginatedResponse>
 			>("/api/job-roles/search", { params });
@@ -393,11 +424,8 @@ export class AxiosJobRoleService implements JobRoleService {
 				band: role.band,
 				closingDate: role.closingDate,
 				numberOfOpenPositions: role.numberOfOpenPositions,
-				status:
-					typeof role.status === "string" &&
-					role.status.toLowerCase() === "open"
-						? "Open"
-						: "Closed",
+				...(role.publishDate ? { publishDate: role.publishDate } : {}),
+				status: normaliseJobRoleStatus(role.status),
 			}));
 
 			return {
@@ -421,12 +449,166 @@ export class AxiosJobRoleService implements JobRoleService {
 		}
 	}
 
+	/**
+	 * Full-text search across role name, description and responsibilities
+	 * Delegates to /api/job-roles/search?searchMode=fulltext when
+	 * FULL_TEXT_SEARCH_SOURCE is "backend" (keeping the backend's ranking),
+	 * otherwise fetches the filtered roles and ranks them here
+	 * @param searchParams The search and filter parameters
+	 * @returns Promise<PaginatedResponse<JobRoleSearchResult>> Paginated ranked results
+	 */
+	async searchJobRolesFullText(
+		searchParams: JobRoleSearchParams
+	): Promise<PaginatedResponse<JobRoleSearchResult>> {
+		const page = searchParams.page ?? 1;
+		const limit = searchParams.limit ?? 12;
+		const terms = getSearchTerms(searchParams.search);
+
+		try {
+			// Without search text there is nothing to rank
+			if (terms.length === 0) {
+				const result = await this.searchJobRoles(searchParams);
+				return {
+					data: result.data.map((jobRole) => ({
+						...jobRole,
+						relevance: 0,
+						matchedFields: [],
+					})),
+					pagination: result.pagination,
+				};
+			}
+
+			if (this.useBackendFullTextSearch && !hasInMemoryFilters(searchParams)) {
+				const params: Record<string, string | number> = {
+					searchMode: "fulltext",
+					page,
+					limit,
+					...getBackendFilterParams(searchParams),
+					...(searchParams.sort
+						? { sort: searchParams.sort, order: searchParams.order ?? "asc" }
+						: {}),
+				};
+
+				const response = await this.axiosInstance.get<
+					BackendResponse<BackendPaginatedResponse>
+				>("/api/job-roles/search", { params });
+
+				const backendData = response.data.data;
+				return {
+					data: backendData.jobRoles.map((role) =>
+						toJobRoleSearchResult(
+							{
+								jobRoleId: role.id,
+								roleName: role.jobRoleName,
+								description: role.description ?? "",
+								responsibilities: role.responsibilities ?? "",
+								jobSpecLink: role.jobSpecLink ?? "",
+								location: role.location,
+								capability: role.capability,
+								band: role.band,
+								closingDate: role.closingDate,
+								numberOfOpenPositions: role.numberOfOpenPositions,
+								...(role.publishDate ? { publishDate: role.publishDate } : {}),
+								status: normaliseJobRoleStatus(role.status),
+							},
+							terms
+						)
+					),
+					pagination: backendData.pagination,
+				};
+			}
+
+			const { search: _search, ...filters } = searchParams;
+			const jobRoles = await this.getAllJobRolesForExport(filters);
+			return paginateSearchResults(
+				sortJobRoles(
+					rankJobRolesByText(jobRoles, searchParams.search ?? ""),
+					searchParams,
+					await this.getBandOrder(searchParams)
+				),
+				page,
+				limit
+			);
+		} catch (error) {
+			console.error("Error in full-text job role search:", error);
+			return {
+				data: [],
+				pagination: {
+					currentPage: page,
+					totalPages: 0,
+					totalCount: 0,
+					limit,
+					hasNext: false,
+					hasPrevious: false,
+				},
+			};
+		}
+	}
+
+	/**
+	 * Loads every role matching the filters, sorts them and returns the
+	 * requested page
+	 */
+	private async searchJobRolesInMemory(
+		searchParams: JobRoleSearchParams
+	): Promise<PaginatedResponse<JobRoleResponse>> {
+		const jobRoles = await this.getAllJobRolesForExport(searchParams);
+		const summaries: JobRoleResponse[] = jobRoles.map(
+			({
+				description: _description,
+				responsibilities: _responsibilities,
+				jobSpecLink: _jobSpecLink,
+				...jobRole
+			}) => jobRole
+		);
+		return paginateSearchResults(
+			sortJobRoles(
+				summaries,
+				searchParams,
+				await this.getBandOrder(searchParams)
+			),
+			searchParams.page ?? 1,
+			searchParams.limit ?? 12
+		);
+	}
+
+	/**
+	 * Bands from lowest to highest for a band sort, taken from the filter
+	 * options so admin-managed bands keep their configured order
+	 */
+	private async getBandOrder(
+		searchParams: JobRoleSearchParams
+	): Promise<readonly string[] | undefined> {
+		if (searchParams.sort !== "band") {
+			return undefined;
+		}
+		const { bands } = await this.getFilterOptions();
+		return bands.length > 0 ? bands : undefined;
+	}
+
 	/**
 	 * Get available filter options (capabilities, locations, bands)
-	 * Fetches from backend API endpoints
+	 * Uses the reference data lists when a reference data service is
+	 * configured, otherwise fetches from backend API endpoints
 	 * @returns Promise<JobRoleFilterOptions> Available filter options for dropdowns
 	 */
 	async getFilterOptions(): Promise<JobRoleFilterOptions> {
+		if (this.referenceDataService) {
+			try {
+				const referenceData =
+					await this.referenceDataService.getReferenceData();
+				return {
+					capabilities: referenceData.capabilities,
+					locations: referenceData.locations,
+					bands: referenceData.bands,
+					statuses: referenceData.statuses,
+				};
+			} catch (error) {
+				// Fall back to the backend endpoints below
+				console.error("Error fetching reference data:", error);
+			}
+		}
+
 		try {
 			// Fetch all filter options in parallel
 			const [capabilitiesRes, locationsRes, bandsRes] = await Promise.all([
@@ -480,20 +662,27 @@ export class AxiosJobRoleService implements JobRoleService {
 		}
 	}
 
-	/**
-	 * Fetches all job roles for export (no pagination limit)
-	 * Uses a high limit to retrieve all records
-	 * @returns Promise<JobRoleResponse[]> Complete list of all job roles
-	 */
 	/**
 	 * Fetches all job roles for export (no pagination limit)
 	 * Uses multiple paginated requests to retrieve all records
 	 * Note: Backend limits max to 100 per request, so we paginate
-	 * @returns Promise<JobRoleResponse[]> Complete list of all job roles
+	 * When filters are given the search endpoint is paged instead, and filters
+	 * the backend cannot apply (several values, date ranges) are applied here
+	 * @param filters Optional search/filter parameters to restrict the export
+	 * @returns Promise<JobRoleDetailedResponse[]> Complete list of matching job roles
 	 */
-	async getAllJobRolesForExport(): Promise<JobRoleResponse[]> {
+	async getAllJobRolesForExport(
+		filters: Partial<JobRoleSearchParams> = {}
+	): Promise<JobRoleDetailedResponse[]> {
+		// Only send the filters the backend understands; the rest are applied
+		// once every page has been fetched
+		const filterParams = getBackendFilterParams(filters);
+		const useSearchEndpoint = Object.keys(filterParams).length > 0;
+		const filterInMemory = hasInMemoryFilters(filters);
+		const hasFilters = useSearchEndpoint || filterInMemory;
+
 		try {
-			const allJobRoles: JobRoleResponse[] = [];
+			const allJobRoles: JobRoleDetailedResponse[] = [];
 			let currentPage = 1;
 			let hasMorePages = true;
 			const limit = 100; // Backend maximum
@@ -503,22 +692,24 @@ export class AxiosJobRoleService implements JobRoleService {
 				const response = await this.axiosInstance.get<{
 					success: boolean;
 					data: BackendPaginatedResponse;
-				}>(`/api/job-roles?page=${currentPage}&limit=${limit}`);
+				}>(useSearchEndpoint ? "/api/job-roles/search" : "/api/job-roles", {
+					params: { ...filterParams, page: currentPage, limit },
+				});
 
 				// Map backend format to frontend format and add to array
 				const jobRoles = response.data.data.jobRoles.map((role) => ({
 					jobRoleId: role.id,
 					roleName: role.jobRoleName,
+					description: role.description ?? "",
+					responsibilities: role.responsibilities ?? "",
+					jobSpecLink: role.jobSpecLink ?? "",
 					location: role.location,
 					capability: role.capability,
 					band: role.band,
 					closingDate: role.closingDate,
 					numberOfOpenPositions: role.numberOfOpenPositions,
-					status:
-						typeof role.status === "string" &&
-						role.status.toLowerCase() === "open"
-							? "Open"
-							: "Closed",
+					...(role.publishDate ? { publishDate: role.publishDate } : {}),
+					status: normaliseJobRoleStatus(role.status),
 				}));
 
 				allJobRoles.push(...jobRoles);
@@ -536,15 +727,27 @@ export class AxiosJobRoleService implements JobRoleService {
 				}
 			}
 
-			return allJobRoles;
+			return filterInMemory
+				? filterJobRoles(allJobRoles, filters)
+				: allJobRoles;
 		} catch (error) {
 			console.error(
 				"Error fetching all job roles for export, trying standard limit:",
 				error
 			);
+			// A filtered export must not silently fall back to every job role
+			if (hasFilters) {
+				return [];
+			}
 			// If high limit fails, try with standard limit as fallback
 			try {
-				return await this.getJobRoles();
+				const jobRoles = await this.getJobRoles();
+				return jobRoles.map((role) => ({
+					...role,
+					description: "",
+					responsibilities: "",
+					jobSpecLink: "",
+				}));
 			} catch (fallbackError) {
 				console.error(
 					"Fallback also failed, returning empty array:",
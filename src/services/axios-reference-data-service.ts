@@ -0,0 +1,130 @@
+/**
+ * Axios-based Reference Data Service for the backend reference data API
+ */
+
+import axios, { type AxiosInstance } from "axios";
+import type {
+	ReferenceData,
+	ReferenceDataType,
+} from "../models/reference-data.js";
+import {
+	copyReferenceData,
+	DEFAULT_REFERENCE_DATA,
+	REFERENCE_DATA_TYPES,
+} from "../utils/reference-data.js";
+import type { ReferenceDataService } from "./reference-data-service.js";
+
+/**
+ * Backend API response wrapper
+ */
+interface BackendResponse<T> {
+	success: boolean;
+	data: T;
+}
+
+/**
+ * Reference data service backed by /api/reference-data
+ */
+export class AxiosReferenceDataService implements ReferenceDataService {
+	private axiosInstance: AxiosInstance;
+
+	constructor(
+		baseURL = process.env["API_BASE_URL"] || "http://localhost:8000"
+	) {
+		this.axiosInstance = axios.create({
+			baseURL,
+			timeout: Number.parseInt(process.env["API_TIMEOUT"] || "10000", 10),
+			headers: {
+				"Content-Type": "application/json",
+			},
+		});
+	}
+
+	/**
+	 * Fetches every list from /api/reference-data
+	 * Lists the backend does not return fall back to the defaults
+	 * @returns Promise<ReferenceData> The current lists (defaults if the request fails)
+	 */
+	async getReferenceData(): Promise<ReferenceData> {
+		const data = copyReferenceData(DEFAULT_REFERENCE_DATA);
+
+		try {
+			const response = await this.axiosInstance.get<
+				BackendResponse<Partial<ReferenceData>>
+			>("/api/reference-data");
+
+			for (const type of REFERENCE_DATA_TYPES) {
+				const values = response.data.data?.[type];
+				if (Array.isArray(values)) {
+					data[type] = values;
+				}
+			}
+		} catch (error) {
+			console.error("Error fetching reference data:", error);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Adds a value via POST /api/reference-data/:type
+	 * @param type The reference data list
+	 * @param value The value to add
+	 */
+	async addValue(type: ReferenceDataType, value: string): Promise<void> {
+		try {
+			await this.axiosInstance.post(`/api/reference-data/${type}`, { value });
+		} catch (error) {
+			throw toServiceError(error, `Error adding ${type} value`);
+		}
+	}
+
+	/**
+	 * Renames a value via PUT /api/reference-data/:type/:value
+	 * @param type The reference data list
+	 * @param currentValue The value to rename
+	 * @param newValue The new value
+	 */
+	async renameValue(
+		type: ReferenceDataType,
+		currentValue: string,
+		newValue: string
+	): Promise<void> {
+		try {
+			await this.axiosInstance.put(
+				`/api/reference-data/${type}/${encodeURIComponent(currentValue)}`,
+				{ value: newValue }
+			);
+		} catch (error) {
+			throw toServiceError(error, `Error renaming ${type} value`);
+		}
+	}
+
+	/**
+	 * Removes a value via DELETE /api/reference-data/:type/:value
+	 * @param type The reference data list
+	 * @param value The value to remove
+	 */
+	async deleteValue(type: ReferenceDataType, value: string): Promise<void> {
+		try {
+			await this.axiosInstance.delete(
+				`/api/reference-data/${type}/${encodeURIComponent(value)}`
+			);
+		} catch (error) {
+			throw toServiceError(error, `Error deleting ${type} value`);
+		}
+	}
+}
+
+/**
+ * Logs a failed change and converts it into an Error with the backend message
+ */
+function toServiceError(error: unknown, context: string): Error {
+	console.error(`${context}:`, error);
+	if (axios.isAxiosError(error)) {
+		return new Error(
+			error.response?.data?.message || "Failed to update reference data"
+		);
+	}
+	return new Error("Failed to update reference data");
+}
@@ -0,0 +1,129 @@
+/**
+ * Tests for ClamAvCvScanner against a local stand-in for clamd
+ */
+
+import { type AddressInfo, createServer, type Server } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { ClamAvCvScanner } from "./clamav-cv-scanner.js";
+
+const EICAR_MARKER = "EICAR-STANDARD-ANTIVIRUS-TEST-FILE";
+
+/**
+ * Starts a fake clamd that decodes INSTREAM chunks and answers with the reply
+ * chosen for the received data; a null reply leaves the connection hanging
+ */
+async function startFakeClamd(
+	reply: (data: Buffer) => string | null
+): Promise<{ server: Server; port: number; received: Buffer[] }> {
+	const received: Buffer[] = [];
+	const server = createServer((socket) => {
+		let pending = Buffer.alloc(0);
+		const chunks: Buffer[] = [];
+		let commandRead = false;
+
+		socket.on("data", (data: Buffer) => {
+			pending = Buffer.concat([pending, data]);
+			if (!commandRead) {
+				const end = pending.indexOf(0);
+				if (end === -1) {
+					return;
+				}
+				expect(pending.subarray(0, end).toString()).toBe("zINSTREAM");
+				pending = pending.subarray(end + 1);
+				commandRead = true;
+			}
+
+			while (pending.length >= 4) {
+				const length = pending.readUInt32BE(0);
+				if (length === 0) {
+					const file = Buffer.concat(chunks);
+					received.push(file);
+					const answer = reply(file);
+					if (answer !== null) {
+						socket.end(`${answer}\0`);
+					}
+					return;
+				}
+				if (pending.length < 4 + length) {
+					return;
+				}
+				chunks.push(pending.subarray(4, 4 + length));
+				pending = pending.subarray(4 + length);
+			}
+		});
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	return { server, port: (server.address() as AddressInfo).port, received };
+}
+
+describe("ClamAvCvScanner", () => {
+	let server: Server | null = null;
+
+	afterEach(async () => {
+		await new Promise<void>((resolve) =>
+			server ? server.close(() => resolve()) : resolve()
+		);
+		server = null;
+	});
+
+	const scannerFor = (port: number, timeoutMs?: number) =>
+		new ClamAvCvScanner({
+			host: "127.0.0.1",
+			port,
+			...(timeoutMs !== undefined ? { timeoutMs } : {}),
+		});
+
+	it("should report clean files and stream the whole file in chunks", async () => {
+		const fake = await startFakeClamd(() => "stream: OK");
+		server = fake.server;
+		const file = Buffer.alloc(150 * 1024, 7);
+
+		await expect(scannerFor(fake.port).scan(file)).resolves.toEqual({
+			isClean: true,
+		});
+		expect(fake.received[0]?.equals(file)).toBe(true);
+	});
+
+	it("should report the threat name for infected files", async () => {
+		const fake = await startFakeClamd((data) =>
+			data.includes(EICAR_MARKER)
+				? "stream: Eicar-Test-Signature FOUND"
+				: "stream: OK"
+		);
+		server = fake.server;
+
+		await expect(
+			scannerFor(fake.port).scan(Buffer.from(`%PDF-1.4 ${EICAR_MARKER}`))
+		).resolves.toEqual({ isClean: false, threat: "Eicar-Test-Signature" });
+	});
+
+	it("should fail when clamd reports an error", async () => {
+		const fake = await startFakeClamd(
+			() => "INSTREAM size limit exceeded. ERROR"
+		);
+		server = fake.server;
+
+		await expect(scannerFor(fake.port).scan(Buffer.from("x"))).rejects.toThrow(
+			"ClamAV scan failed: INSTREAM size limit exceeded. ERROR"
+		);
+	});
+
+	it("should time out when clamd does not answer", async () => {
+		const fake = await startFakeClamd(() => null);
+		server = fake.server;
+
+		await expect(
+			scannerFor(fake.port, 50).scan(Buffer.from("x"))
+		).rejects.toThrow("ClamAV scan timed out");
+	});
+
+	it("should fail when clamd is not running", async () => {
+		const fake = await startFakeClamd(() => "stream: OK");
+		await new Promise<void>((resolve) => fake.server.close(() => resolve()));
+
+		await expect(
+			scannerFor(fake.port).scan(Buffer.from("x"))
+		).rejects.toThrow();
+	});
+});
@@ -0,0 +1,120 @@
+/**
+ * ClamAV CV Scanner
+ * Streams uploads to a clamd daemon over TCP or a Unix socket using the
+ * INSTREAM command
+ */
+
+import { createConnection, type Socket } from "node:net";
+import type { CvScanner, CvScanResult } from "./cv-scanner.js";
+
+/**
+ * Connection settings for clamd
+ * socketPath takes precedence over host and port when set
+ */
+export interface ClamAvCvScannerOptions {
+	host?: string;
+	port?: number;
+	socketPath?: string;
+	timeoutMs?: number;
+}
+
+export const DEFAULT_CLAMAV_PORT = 3310;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * clamd reads INSTREAM data in length-prefixed chunks
+ */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Malware scanner backed by clamd
+ */
+export class ClamAvCvScanner implements CvScanner {
+	private options: ClamAvCvScannerOptions;
+
+	constructor(options: ClamAvCvScannerOptions = {}) {
+		this.options = options;
+	}
+
+	/**
+	 * Sends the file to clamd and parses the verdict
+	 * Replies look like "stream: OK" or "stream: Eicar-Signature FOUND"
+	 */
+	async scan(buffer: Buffer): Promise<CvScanResult> {
+		const reply = await this.sendInStream(buffer);
+
+		if (reply === "stream: OK") {
+			return { isClean: true };
+		}
+
+		const threat = /^stream: (.+) FOUND$/.exec(reply)?.[1];
+		if (threat) {
+			return { isClean: false, threat };
+		}
+
+		throw new Error(`ClamAV scan failed: ${reply || "empty reply"}`);
+	}
+
+	/**
+	 * Runs the INSTREAM command and collects the null-terminated reply
+	 */
+	private sendInStream(buffer: Buffer): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const socket = this.connect();
+			const replyChunks: Buffer[] = [];
+			let settled = false;
+
+			const finish = (error: Error | null) => {
+				if (settled) {
+					return;
+				}
+				settled = true;
+				socket.destroy();
+				if (error) {
+					reject(error);
+					return;
+				}
+				resolve(
+					Buffer.concat(replyChunks).toString("utf8").replace(/\0/g, "").trim()
+				);
+			};
+
+			socket.setTimeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () =>
+				finish(new Error("ClamAV scan timed out"))
+			);
+			socket.on("error", (error) => finish(error));
+			socket.on("data", (chunk: Buffer) => {
+				replyChunks.push(chunk);
+				if (chunk.includes(0)) {
+					finish(null);
+				}
+			});
+			socket.on("end", () => finish(null));
+			socket.on("connect", () => {
+				socket.write("zINSTREAM\0");
+				for (let offset = 0; offset < buffer.length; offset += CHUNK_SIZE) {
+					const chunk = buffer.subarray(offset, offset + CHUNK_SIZE);
+					const length = Buffer.alloc(4);
+					length.writeUInt32BE(chunk.length, 0);
+					socket.write(length);
+					socket.write(chunk);
+				}
+				// A zero-length chunk ends the stream
+				socket.write(Buffer.alloc(4));
+			});
+		});
+	}
+
+	/**
+	 * Opens a connection to clamd
+	 */
+	private connect(): Socket {
+		if (this.options.socketPath) {
+			return createConnection(this.options.socketPath);
+		}
+		return createConnection(
+			this.options.port ?? DEFAULT_CLAMAV_PORT,
+			this.options.host ?? "localhost"
+		);
+	}
+}
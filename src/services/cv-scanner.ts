@@ -0,0 +1,28 @@
+/**
+ * CV Scanner Interface
+ * Defines the contract for malware scanning uploaded CVs before they are
+ * forwarded to the backend
+ */
+
+/**
+ * Outcome of scanning a file
+ * threat names the detected signature when the file is not clean
+ */
+export interface CvScanResult {
+	isClean: boolean;
+	threat?: string;
+}
+
+/**
+ * Malware scanner for uploaded CVs
+ * Implementations can use different engines (ClamAV, a cloud API, etc.)
+ */
+export interface CvScanner {
+	/**
+	 * Scans a file's contents
+	 * @param buffer The file contents
+	 * @returns Promise<CvScanResult> Whether the file is clean
+	 * @throws Error if the scan could not be completed
+	 */
+	scan(buffer: Buffer): Promise<CvScanResult>;
+}
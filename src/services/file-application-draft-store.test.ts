@@ -0,0 +1,101 @@
+/**
+ * Tests for FileApplicationDraftStore
+ */
+
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileApplicationDraftStore } from "./file-application-draft-store.js";
+
+describe("FileApplicationDraftStore", () => {
+	let directory: string;
+	let filePath: string;
+	let store: FileApplicationDraftStore;
+
+	const content = (coverLetter: string) => ({
+		applicantName: "Jane Doe",
+		applicantEmail: "jane@example.com",
+		coverLetter,
+	});
+
+	beforeEach(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), "application-drafts-"));
+		filePath = path.join(directory, "nested", "application-drafts.json");
+		store = new FileApplicationDraftStore(filePath);
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it("should return no drafts before anything is saved", async () => {
+		await expect(store.listDrafts("1")).resolves.toEqual([]);
+		await expect(store.getDraft("1", 4)).resolves.toBeNull();
+	});
+
+	it("should replace drafts and list them most recently saved first", async () => {
+		await store.saveDraft("1", 4, content("A"));
+		await store.saveDraft("1", 9, content("B"));
+		await store.saveDraft("1", 4, content("C"));
+
+		const drafts = await store.listDrafts("1");
+
+		expect(drafts.map((draft) => draft.jobRoleId)).toEqual([4, 9]);
+		expect(drafts[0]?.coverLetter).toBe("C");
+	});
+
+	it("should keep each user's drafts separate", async () => {
+		await store.saveDraft("1", 4, content("Mine"));
+
+		await expect(store.getDraft("2", 4)).resolves.toBeNull();
+		await expect(store.deleteDraft("2", 4)).resolves.toBe(false);
+		await expect(store.listDrafts("1")).resolves.toHaveLength(1);
+	});
+
+	it("should persist saves and deletions for new store instances", async () => {
+		const saved = await store.saveDraft("1", 4, content("Kept"));
+		await store.saveDraft("1", 9, content("Discarded"));
+		await expect(store.deleteDraft("1", 9)).resolves.toBe(true);
+
+		const reopened = new FileApplicationDraftStore(filePath);
+
+		await expect(reopened.listDrafts("1")).resolves.toEqual([saved]);
+	});
+
+	it("should keep every draft when autosaves happen concurrently", async () => {
+		await Promise.all(
+			Array.from({ length: 20 }, (_, i) =>
+				store.saveDraft("1", i + 1, content(`Draft ${i}`))
+			)
+		);
+
+		await expect(
+			new FileApplicationDraftStore(filePath).listDrafts("1")
+		).resolves.toHaveLength(20);
+	});
+
+	it("should return copies so callers cannot change stored drafts", async () => {
+		const saved = await store.saveDraft("1", 4, content("Original"));
+		saved.coverLetter = "Changed";
+
+		const fetched = await store.getDraft("1", 4);
+
+		expect(fetched?.coverLetter).toBe("Original");
+	});
+
+	it("should keep an unreadable file and start with no drafts", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		await store.saveDraft("1", 4, content("Mine"));
+		await writeFile(filePath, "not json", "utf8");
+		const reopened = new FileApplicationDraftStore(filePath);
+
+		await expect(reopened.listDrafts("1")).resolves.toEqual([]);
+		await reopened.saveDraft("1", 9, content("New"));
+
+		const files = await readdir(path.dirname(filePath));
+		expect(
+			files.some((file) => file.startsWith("application-drafts.json.corrupt-"))
+		).toBe(true);
+	});
+});
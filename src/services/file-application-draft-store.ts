@@ -0,0 +1,116 @@
+/**
+ * File-backed Application Draft Store
+ * Keeps every user's application drafts in a local JSON file
+ */
+
+import type {
+	ApplicationDraft,
+	ApplicationDraftContent,
+} from "../models/application-draft.js";
+import type { ApplicationDraftStore } from "./application-draft-store.js";
+import { JsonFileStore } from "./json-file-store.js";
+
+/**
+ * Default location of the drafts file, alongside the audit log
+ */
+export const DEFAULT_APPLICATION_DRAFTS_FILE_PATH =
+	"./data/application-drafts.json";
+
+/**
+ * Drafts keyed by user ID, each list in save order (oldest first)
+ */
+type ApplicationDrafts = Record<string, ApplicationDraft[]>;
+
+/**
+ * Application draft store that keeps all drafts in a single JSON file
+ * Changes are queued so concurrent autosaves never overwrite each other
+ */
+export class FileApplicationDraftStore implements ApplicationDraftStore {
+	private file: JsonFileStore<ApplicationDrafts>;
+
+	constructor(filePath: string = DEFAULT_APPLICATION_DRAFTS_FILE_PATH) {
+		this.file = new JsonFileStore(filePath, {
+			name: "application drafts",
+			empty: () => ({}),
+			parse: (stored) =>
+				stored && typeof stored === "object" && !Array.isArray(stored)
+					? (stored as ApplicationDrafts)
+					: null,
+			copy: (drafts) => ({ ...drafts }),
+		});
+	}
+
+	/**
+	 * Returns a copy of the user's draft for a job role
+	 */
+	async getDraft(
+		userId: string,
+		jobRoleId: number
+	): Promise<ApplicationDraft | null> {
+		const drafts = await this.file.read();
+		const draft = drafts[userId]?.find((item) => item.jobRoleId === jobRoleId);
+		return draft ? { ...draft } : null;
+	}
+
+	/**
+	 * Returns copies of the user's drafts, most recently saved first
+	 */
+	async listDrafts(userId: string): Promise<ApplicationDraft[]> {
+		const drafts = await this.file.read();
+		// Lists are in save order, so reversing first keeps ties newest first
+		return [...(drafts[userId] ?? [])]
+			.reverse()
+			.map((draft) => ({ ...draft }))
+			.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+	}
+
+	/**
+	 * Replaces the user's draft for a job role, stamping the save time
+	 */
+	async saveDraft(
+		userId: string,
+		jobRoleId: number,
+		content: ApplicationDraftContent
+	): Promise<ApplicationDraft> {
+		const draft: ApplicationDraft = {
+			jobRoleId,
+			applicantName: content.applicantName,
+			applicantEmail: content.applicantEmail,
+			coverLetter: content.coverLetter,
+			updatedAt: new Date().toISOString(),
+		};
+
+		await this.file.update((drafts) => {
+			// Move the draft to the end so the list stays in save order
+			drafts[userId] = [
+				...(drafts[userId] ?? []).filter(
+					(item) => item.jobRoleId !== jobRoleId
+				),
+				draft,
+			];
+		});
+		return { ...draft };
+	}
+
+	/**
+	 * Removes the user's draft for a job role
+	 */
+	async deleteDraft(userId: string, jobRoleId: number): Promise<boolean> {
+		return this.file.update((drafts) => {
+			const userDrafts = drafts[userId] ?? [];
+			const remaining = userDrafts.filter(
+				(item) => item.jobRoleId !== jobRoleId
+			);
+			if (remaining.length === userDrafts.length) {
+				return false;
+			}
+
+			if (remaining.length > 0) {
+				drafts[userId] = remaining;
+			} else {
+				delete drafts[userId];
+			}
+			return true;
+		});
+	}
+}
@@ -0,0 +1,88 @@
+/**
+ * Tests for FileJobRoleAuditStore
+ */
+
+import { appendFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleAuditEntryInput } from "../models/job-role-audit.js";
+import { FileJobRoleAuditStore } from "./file-job-role-audit-store.js";
+
+describe("FileJobRoleAuditStore", () => {
+	let directory: string;
+	let filePath: string;
+	let store: FileJobRoleAuditStore;
+
+	const entry = (
+		jobRoleId: number,
+		overrides: Partial<JobRoleAuditEntryInput> = {}
+	): JobRoleAuditEntryInput => ({
+		jobRoleId,
+		action: "update",
+		actor: { name: "admin" },
+		changes: [{ field: "status", before: "Open", after: "Closed" }],
+		...overrides,
+	});
+
+	beforeEach(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), "job-role-audit-"));
+		filePath = path.join(directory, "nested", "audit.jsonl");
+		store = new FileJobRoleAuditStore(filePath);
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it("should return an empty history before anything is recorded", async () => {
+		await expect(store.getHistory(1)).resolves.toEqual([]);
+	});
+
+	it("should assign an id and timestamp to recorded entries", async () => {
+		const stored = await store.record(entry(1));
+
+		expect(stored.id).toEqual(expect.any(String));
+		expect(Number.isNaN(Date.parse(stored.timestamp))).toBe(false);
+		expect(stored).toMatchObject(entry(1));
+	});
+
+	it("should return the history for a job role, newest first", async () => {
+		await store.record(entry(1, { action: "create" }));
+		await store.record(entry(2));
+		await store.record(entry(1, { action: "status_change" }));
+
+		const history = await store.getHistory(1);
+
+		expect(history.map((item) => item.action)).toEqual([
+			"status_change",
+			"create",
+		]);
+	});
+
+	it("should keep every entry when writes happen concurrently", async () => {
+		await Promise.all(
+			Array.from({ length: 20 }, (_, i) =>
+				store.record(entry(1, { actor: { name: `admin ${i}` } }))
+			)
+		);
+
+		await expect(store.getHistory(1)).resolves.toHaveLength(20);
+	});
+
+	it("should persist entries for new store instances", async () => {
+		await store.record(entry(3));
+
+		const reopened = new FileJobRoleAuditStore(filePath);
+
+		await expect(reopened.getHistory(3)).resolves.toHaveLength(1);
+	});
+
+	it("should skip unreadable lines", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		await store.record(entry(1));
+		await appendFile(filePath, "not json\n", "utf8");
+
+		await expect(store.getHistory(1)).resolves.toHaveLength(1);
+	});
+});
@@ -0,0 +1,92 @@
+/**
+ * File-backed Job Role Audit Store
+ * Appends audit entries as JSON lines to a local file
+ */
+
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+	JobRoleAuditEntry,
+	JobRoleAuditEntryInput,
+} from "../models/job-role-audit.js";
+import type { JobRoleAuditStore } from "./job-role-audit-store.js";
+
+/**
+ * Default location of the audit log, alongside the session files
+ */
+export const DEFAULT_AUDIT_FILE_PATH = "./data/audit/job-roles.jsonl";
+
+/**
+ * Audit store that keeps one JSON entry per line in a single file
+ * Writes are queued so concurrent requests never interleave lines
+ */
+export class FileJobRoleAuditStore implements JobRoleAuditStore {
+	private filePath: string;
+	private writeQueue: Promise<void> = Promise.resolve();
+
+	constructor(filePath: string = DEFAULT_AUDIT_FILE_PATH) {
+		this.filePath = filePath;
+	}
+
+	/**
+	 * Appends a new entry to the audit file
+	 * @param entry The change to record
+	 * @returns Promise<JobRoleAuditEntry> The stored entry with id and timestamp
+	 */
+	async record(entry: JobRoleAuditEntryInput): Promise<JobRoleAuditEntry> {
+		const stored: JobRoleAuditEntry = {
+			id: randomUUID(),
+			timestamp: new Date().toISOString(),
+			...entry,
+		};
+		const line = `${JSON.stringify(stored)}\n`;
+
+		const write = this.writeQueue.then(async () => {
+			await mkdir(path.dirname(this.filePath), { recursive: true });
+			await appendFile(this.filePath, line, "utf8");
+		});
+		// Keep the queue going even if this write fails
+		this.writeQueue = write.catch(() => undefined);
+		await write;
+
+		return stored;
+	}
+
+	/**
+	 * Reads the audit file and returns the entries for a job role
+	 * Missing files mean no history; unreadable lines are skipped
+	 * @param jobRoleId The job role ID
+	 * @returns Promise<JobRoleAuditEntry[]> Entries for the role, newest first
+	 */
+	async getHistory(jobRoleId: number): Promise<JobRoleAuditEntry[]> {
+		await this.writeQueue;
+
+		let content: string;
+		try {
+			content = await readFile(this.filePath, "utf8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return [];
+			}
+			throw error;
+		}
+
+		const entries: JobRoleAuditEntry[] = [];
+		for (const line of content.split("\n")) {
+			if (line.trim() === "") {
+				continue;
+			}
+			try {
+				const entry = JSON.parse(line) as JobRoleAuditEntry;
+				if (entry.jobRoleId === jobRoleId) {
+					entries.push(entry);
+				}
+			} catch {
+				console.warn("Skipping unreadable audit log line");
+			}
+		}
+
+		return entries.reverse();
+	}
+}
@@ -0,0 +1,96 @@
+/**
+ * Tests for FileReferenceDataService
+ */
+
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_REFERENCE_DATA } from "../utils/reference-data.js";
+import { FileReferenceDataService } from "./file-reference-data-service.js";
+
+describe("FileReferenceDataService", () => {
+	let directory: string;
+	let filePath: string;
+	let service: FileReferenceDataService;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), "reference-data-"));
+		filePath = path.join(directory, "nested", "reference-data.json");
+		service = new FileReferenceDataService(filePath);
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it("should return the defaults before anything is saved", async () => {
+		await expect(service.getReferenceData()).resolves.toEqual(
+			DEFAULT_REFERENCE_DATA
+		);
+	});
+
+	it("should add, rename and delete values and persist them", async () => {
+		await service.addValue("bands", "Lead");
+		await service.renameValue("bands", "Junior", "Associate");
+		await service.deleteValue("locations", "Remote");
+
+		const data = await new FileReferenceDataService(
+			filePath
+		).getReferenceData();
+
+		expect(data.bands).toEqual(["Associate", "Mid", "Senior", "Lead"]);
+		expect(data.locations).not.toContain("Remote");
+		expect(data.capabilities).toEqual(DEFAULT_REFERENCE_DATA.capabilities);
+	});
+
+	it("should not let callers change the stored lists", async () => {
+		const data = await service.getReferenceData();
+		data.bands.push("Changed");
+
+		await expect(service.getReferenceData()).resolves.toEqual(
+			DEFAULT_REFERENCE_DATA
+		);
+	});
+
+	it("should keep concurrent changes", async () => {
+		await Promise.all([
+			service.addValue("capabilities", "Security"),
+			service.addValue("capabilities", "Platforms"),
+		]);
+
+		const stored = JSON.parse(await readFile(filePath, "utf8"));
+		expect(stored.capabilities).toEqual(
+			expect.arrayContaining(["Security", "Platforms"])
+		);
+	});
+
+	it("should reject renaming or deleting values that do not exist", async () => {
+		await expect(
+			service.renameValue("bands", "Principal", "Lead")
+		).rejects.toThrow();
+		await expect(service.deleteValue("bands", "Principal")).rejects.toThrow();
+	});
+
+	it("should fall back to the defaults for missing lists and unreadable files", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		await service.addValue("bands", "Lead");
+		await writeFile(filePath, JSON.stringify({ bands: ["Lead"] }), "utf8");
+
+		const partial = await new FileReferenceDataService(
+			filePath
+		).getReferenceData();
+		expect(partial.bands).toEqual(["Lead"]);
+		expect(partial.locations).toEqual(DEFAULT_REFERENCE_DATA.locations);
+
+		await writeFile(filePath, "not json", "utf8");
+		await expect(
+			new FileReferenceDataService(filePath).getReferenceData()
+		).resolves.toEqual(DEFAULT_REFERENCE_DATA);
+		expect(warn).toHaveBeenCalled();
+		const files = await readdir(path.dirname(filePath));
+		expect(
+			files.some((file) => file.startsWith("reference-data.json.corrupt-"))
+		).toBe(true);
+	});
+});
@@ -0,0 +1,121 @@
+/**
+ * File-backed Reference Data Service
+ * Keeps the job role reference lists in a local JSON file
+ */
+
+import type {
+	ReferenceData,
+	ReferenceDataType,
+} from "../models/reference-data.js";
+import {
+	copyReferenceData,
+	DEFAULT_REFERENCE_DATA,
+	REFERENCE_DATA_TYPES,
+} from "../utils/reference-data.js";
+import { JsonFileStore } from "./json-file-store.js";
+import type { ReferenceDataService } from "./reference-data-service.js";
+
+/**
+ * Default location of the reference data file, alongside the audit log
+ */
+export const DEFAULT_REFERENCE_DATA_FILE_PATH = "./data/reference-data.json";
+
+/**
+ * Reference data service that stores every list in a single JSON file
+ * A missing or unreadable file (or list) falls back to the defaults, and
+ * changes are queued so concurrent requests never overwrite each other
+ */
+export class FileReferenceDataService implements ReferenceDataService {
+	private file: JsonFileStore<ReferenceData>;
+
+	constructor(filePath: string = DEFAULT_REFERENCE_DATA_FILE_PATH) {
+		this.file = new JsonFileStore(filePath, {
+			name: "reference data",
+			empty: () => copyReferenceData(DEFAULT_REFERENCE_DATA),
+			parse: parseReferenceData,
+			copy: copyReferenceData,
+		});
+	}
+
+	/**
+	 * Reads the reference data, loading the file on first use
+	 * @returns Promise<ReferenceData> A copy of the current lists
+	 */
+	async getReferenceData(): Promise<ReferenceData> {
+		const data = await this.file.read();
+		return copyReferenceData(data);
+	}
+
+	/**
+	 * Adds a value to the end of a list
+	 * @param type The reference data list
+	 * @param value The value to add
+	 */
+	async addValue(type: ReferenceDataType, value: string): Promise<void> {
+		await this.file.update((data) => {
+			if (data[type].includes(value)) {
+				throw new Error(`"${value}" already exists`);
+			}
+			data[type].push(value);
+		});
+	}
+
+	/**
+	 * Renames a value in place
+	 * @param type The reference data list
+	 * @param currentValue The value to rename
+	 * @param newValue The new value
+	 */
+	async renameValue(
+		type: ReferenceDataType,
+		currentValue: string,
+		newValue: string
+	): Promise<void> {
+		await this.file.update((data) => {
+			const index = data[type].indexOf(currentValue);
+			if (index === -1) {
+				throw new Error(`"${currentValue}" not found`);
+			}
+			data[type][index] = newValue;
+		});
+	}
+
+	/**
+	 * Removes a value from a list
+	 * @param type The reference data list
+	 * @param value The value to remove
+	 */
+	async deleteValue(type: ReferenceDataType, value: string): Promise<void> {
+		await this.file.update((data) => {
+			const index = data[type].indexOf(value);
+			if (index === -1) {
+				throw new Error(`"${value}" not found`);
+			}
+			data[type].splice(index, 1);
+		});
+	}
+}
+
+/**
+ * Reads the lists from the parsed file, using the default for any list
+ * that is missing or not a list of strings
+ * @returns The lists, or null if the file is not an object
+ */
+function parseReferenceData(stored: unknown): ReferenceData | null {
+	if (!stored || typeof stored !== "object" || Array.isArray(stored)) {
+		return null;
+	}
+
+	const lists = stored as Partial<Record<string, unknown>>;
+	const data = copyReferenceData(DEFAULT_REFERENCE_DATA);
+	for (const type of REFERENCE_DATA_TYPES) {
+		const values = lists[type];
+		if (
+			Array.isArray(values) &&
+			values.every((value) => typeof value === "string")
+		) {
+			data[type] = values;
+		}
+	}
+	return data;
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests for FileSavedSearchStore
+ */
+
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SavedSearchInput } from "../models/saved-search.js";
+import { FileSavedSearchStore } from "./file-saved-search-store.js";
+
+describe("FileSavedSearchStore", () => {
+	let directory: string;
+	let filePath: string;
+	let store: FileSavedSearchStore;
+
+	const input = (
+		userId: string,
+		overrides: Partial<SavedSearchInput> = {}
+	): SavedSearchInput => ({
+		userId,
+		name: "Belfast",
+		params: { location: "Belfast" },
+		lastSeenJobRoleId: 10,
+		...overrides,
+	});
+
+	beforeEach(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), "saved-searches-"));
+		filePath = path.join(directory, "nested", "saved-searches.json");
+		store = new FileSavedSearchStore(filePath);
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it("should return no searches before anything is saved", async () => {
+		await expect(store.getSavedSearches("1")).resolves.toEqual([]);
+	});
+
+	it("should list a user's searches newest first", async () => {
+		const first = await store.createSavedSearch(input("1"));
+		const second = await store.createSavedSearch(
+			input("1", { name: "Engineering" })
+		);
+		await store.createSavedSearch(input("2"));
+
+		const searches = await store.getSavedSearches("1");
+
+		expect(searches.map((search) => search.id)).toEqual([second.id, first.id]);
+	});
+
+	it("should not return or change another user's searches", async () => {
+		const search = await store.createSavedSearch(input("1"));
+
+		await expect(store.getSavedSearch("2", search.id)).resolves.toBeNull();
+		await expect(store.markViewed("2", search.id, 20)).resolves.toBeNull();
+		await expect(store.deleteSavedSearch("2", search.id)).resolves.toBe(false);
+		await expect(store.getSavedSearch("1", search.id)).resolves.toEqual(search);
+	});
+
+	it("should persist views and deletions for new store instances", async () => {
+		const kept = await store.createSavedSearch(input("1"));
+		const deleted = await store.createSavedSearch(input("1"));
+		await store.markViewed("1", kept.id, 15);
+		await store.markViewed("1", kept.id, 4);
+		await store.deleteSavedSearch("1", deleted.id);
+
+		const searches = await new FileSavedSearchStore(filePath).getSavedSearches(
+			"1"
+		);
+
+		expect(searches).toHaveLength(1);
+		expect(searches[0]).toMatchObject({ id: kept.id, lastSeenJobRoleId: 15 });
+	});
+
+	it("should keep every search when writes happen concurrently", async () => {
+		await Promise.all(
+			Array.from({ length: 20 }, (_, i) =>
+				store.createSavedSearch(input("1", { name: `Search ${i}` }))
+			)
+		);
+
+		await expect(
+			new FileSavedSearchStore(filePath).getSavedSearches("1")
+		).resolves.toHaveLength(20);
+	});
+
+	it("should not let callers change stored searches", async () => {
+		const search = await store.createSavedSearch(input("1"));
+		search.params.location = "London";
+
+		const stored = await store.getSavedSearch("1", search.id);
+		expect(stored?.params).toEqual({ location: "Belfast" });
+	});
+
+	it("should keep an unreadable file and start with no searches", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		await store.createSavedSearch(input("1"));
+		await writeFile(filePath, "not json", "utf8");
+		const reopened = new FileSavedSearchStore(filePath);
+
+		await expect(reopened.getSavedSearches("1")).resolves.toEqual([]);
+		await reopened.createSavedSearch(input("1"));
+
+		const files = await readdir(path.dirname(filePath));
+		expect(
+			files.some((file) => file.startsWith("saved-searches.json.corrupt-"))
+		).toBe(true);
+	});
+});
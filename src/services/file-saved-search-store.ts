@@ -0,0 +1,131 @@
+/**
+ * File-backed Saved Search Store
+ * Keeps every user's saved searches in a local JSON file
+ */
+
+import { randomUUID } from "node:crypto";
+import type { SavedSearch, SavedSearchInput } from "../models/saved-search.js";
+import { JsonFileStore } from "./json-file-store.js";
+import type { SavedSearchStore } from "./saved-search-store.js";
+
+/**
+ * Default location of the saved searches file, alongside the audit log
+ */
+export const DEFAULT_SAVED_SEARCHES_FILE_PATH = "./data/saved-searches.json";
+
+/**
+ * Saved search store that keeps all searches, oldest first, in a single file
+ * Changes are queued so concurrent requests never overwrite each other
+ */
+export class FileSavedSearchStore implements SavedSearchStore {
+	private file: JsonFileStore<SavedSearch[]>;
+
+	constructor(filePath: string = DEFAULT_SAVED_SEARCHES_FILE_PATH) {
+		this.file = new JsonFileStore(filePath, {
+			name: "saved searches",
+			empty: () => [],
+			parse: (stored) =>
+				Array.isArray(stored) ? (stored as SavedSearch[]) : null,
+			copy: (searches) => searches.map(copySavedSearch),
+		});
+	}
+
+	/**
+	 * Returns the user's saved searches, newest first
+	 */
+	async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+		const searches = await this.file.read();
+		return searches
+			.filter((search) => search.userId === userId)
+			.reverse()
+			.map(copySavedSearch);
+	}
+
+	/**
+	 * Returns one of the user's saved searches, or null
+	 */
+	async getSavedSearch(
+		userId: string,
+		id: string
+	): Promise<SavedSearch | null> {
+		const searches = await this.file.read();
+		const search = findSavedSearch(searches, userId, id);
+		return search ? copySavedSearch(search) : null;
+	}
+
+	/**
+	 * Stores a new search with a generated id
+	 */
+	async createSavedSearch(input: SavedSearchInput): Promise<SavedSearch> {
+		const now = new Date().toISOString();
+		const search: SavedSearch = {
+			...input,
+			params: { ...input.params },
+			id: randomUUID(),
+			createdAt: now,
+			lastViewedAt: now,
+		};
+		await this.file.update((searches) => {
+			searches.push(search);
+		});
+		return copySavedSearch(search);
+	}
+
+	/**
+	 * Updates the last viewed time and the highest job role ID seen
+	 * The highest ID seen never goes backwards
+	 */
+	async markViewed(
+		userId: string,
+		id: string,
+		lastSeenJobRoleId: number
+	): Promise<SavedSearch | null> {
+		return this.file.update((searches) => {
+			const search = findSavedSearch(searches, userId, id);
+			if (!search) {
+				return null;
+			}
+
+			search.lastViewedAt = new Date().toISOString();
+			search.lastSeenJobRoleId = Math.max(
+				search.lastSeenJobRoleId,
+				lastSeenJobRoleId
+			);
+			return copySavedSearch(search);
+		});
+	}
+
+	/**
+	 * Removes one of the user's saved searches
+	 */
+	async deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+		return this.file.update((searches) => {
+			const search = findSavedSearch(searches, userId, id);
+			if (!search) {
+				return false;
+			}
+			searches.splice(searches.indexOf(search), 1);
+			return true;
+		});
+	}
+}
+
+/**
+ * Finds one of the user's searches by id
+ */
+function findSavedSearch(
+	searches: SavedSearch[],
+	userId: string,
+	id: string
+): SavedSearch | undefined {
+	return searches.find(
+		(search) => search.id === id && search.userId === userId
+	);
+}
+
+/**
+ * Copies a saved search so callers cannot change the stored version
+ */
+function copySavedSearch(search: SavedSearch): SavedSearch {
+	return { ...search, params: { ...search.params } };
+}
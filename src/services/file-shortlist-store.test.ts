@@ -0,0 +1,76 @@
+/**
+ * Tests for FileShortlistStore
+ */
+
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileShortlistStore } from "./file-shortlist-store.js";
+
+describe("FileShortlistStore", () => {
+	let directory: string;
+	let filePath: string;
+	let store: FileShortlistStore;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), "shortlists-"));
+		filePath = path.join(directory, "nested", "shortlists.json");
+		store = new FileShortlistStore(filePath);
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it("should return an empty shortlist before anything is added", async () => {
+		await expect(store.getShortlist("1")).resolves.toEqual([]);
+	});
+
+	it("should list roles most recently added first, per user", async () => {
+		await expect(store.addJobRole("1", 4)).resolves.toBe(true);
+		await expect(store.addJobRole("1", 7)).resolves.toBe(true);
+		await expect(store.addJobRole("1", 4)).resolves.toBe(false);
+		await store.addJobRole("2", 9);
+
+		const shortlist = await store.getShortlist("1");
+
+		expect(shortlist.map((entry) => entry.jobRoleId)).toEqual([7, 4]);
+	});
+
+	it("should persist additions and removals for new store instances", async () => {
+		await store.addJobRole("1", 4);
+		await store.addJobRole("1", 7);
+		await expect(store.removeJobRole("1", 4)).resolves.toBe(true);
+		await expect(store.removeJobRole("1", 4)).resolves.toBe(false);
+
+		const shortlist = await new FileShortlistStore(filePath).getShortlist("1");
+
+		expect(shortlist.map((entry) => entry.jobRoleId)).toEqual([7]);
+	});
+
+	it("should keep every role when writes happen concurrently", async () => {
+		await Promise.all(
+			Array.from({ length: 20 }, (_, i) => store.addJobRole("1", i + 1))
+		);
+
+		await expect(
+			new FileShortlistStore(filePath).getShortlist("1")
+		).resolves.toHaveLength(20);
+	});
+
+	it("should keep an unreadable file and start with empty shortlists", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		await store.addJobRole("1", 4);
+		await writeFile(filePath, "not json", "utf8");
+		const reopened = new FileShortlistStore(filePath);
+
+		await expect(reopened.getShortlist("1")).resolves.toEqual([]);
+		await reopened.addJobRole("1", 7);
+
+		const files = await readdir(path.dirname(filePath));
+		expect(
+			files.some((file) => file.startsWith("shortlists.json.corrupt-"))
+		).toBe(true);
+	});
+});
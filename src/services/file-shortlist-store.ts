@@ -0,0 +1,86 @@
+/**
+ * File-backed Shortlist Store
+ * Keeps every user's shortlist in a local JSON file
+ */
+
+import type { ShortlistEntry } from "../models/shortlist.js";
+import { JsonFileStore } from "./json-file-store.js";
+import type { ShortlistStore } from "./shortlist-store.js";
+
+/**
+ * Default location of the shortlists file, alongside the audit log
+ */
+export const DEFAULT_SHORTLISTS_FILE_PATH = "./data/shortlists.json";
+
+/**
+ * Shortlisted roles keyed by user ID, each list oldest first
+ */
+type Shortlists = Record<string, ShortlistEntry[]>;
+
+/**
+ * Shortlist store that keeps all shortlists in a single JSON file
+ * Changes are queued so concurrent requests never overwrite each other
+ */
+export class FileShortlistStore implements ShortlistStore {
+	private file: JsonFileStore<Shortlists>;
+
+	constructor(filePath: string = DEFAULT_SHORTLISTS_FILE_PATH) {
+		this.file = new JsonFileStore(filePath, {
+			name: "shortlists",
+			empty: () => ({}),
+			parse: (stored) =>
+				stored && typeof stored === "object" && !Array.isArray(stored)
+					? (stored as Shortlists)
+					: null,
+			copy: (shortlists) => ({ ...shortlists }),
+		});
+	}
+
+	/**
+	 * Returns the user's shortlisted roles, most recently added first
+	 */
+	async getShortlist(userId: string): Promise<ShortlistEntry[]> {
+		const shortlists = await this.file.read();
+		return (shortlists[userId] ?? []).map((entry) => ({ ...entry })).reverse();
+	}
+
+	/**
+	 * Adds a role to the end of the user's shortlist unless it is already there
+	 */
+	async addJobRole(userId: string, jobRoleId: number): Promise<boolean> {
+		return this.file.update((shortlists) => {
+			const entries = shortlists[userId] ?? [];
+			if (entries.some((entry) => entry.jobRoleId === jobRoleId)) {
+				return false;
+			}
+
+			shortlists[userId] = [
+				...entries,
+				{ jobRoleId, addedAt: new Date().toISOString() },
+			];
+			return true;
+		});
+	}
+
+	/**
+	 * Removes a role from the user's shortlist
+	 */
+	async removeJobRole(userId: string, jobRoleId: number): Promise<boolean> {
+		return this.file.update((shortlists) => {
+			const entries = shortlists[userId] ?? [];
+			const remaining = entries.filter(
+				(entry) => entry.jobRoleId !== jobRoleId
+			);
+			if (remaining.length === entries.length) {
+				return false;
+			}
+
+			if (remaining.length > 0) {
+				shortlists[userId] = remaining;
+			} else {
+				delete shortlists[userId];
+			}
+			return true;
+		});
+	}
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for InMemoryApplicationDraftStore
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { InMemoryApplicationDraftStore } from "./in-memory-application-draft-store.js";
+
+describe("InMemoryApplicationDraftStore", () => {
+	let store: InMemoryApplicationDraftStore;
+
+	const content = (coverLetter: string) => ({
+		applicantName: "Jane Doe",
+		applicantEmail: "jane@example.com",
+		coverLetter,
+	});
+
+	beforeEach(() => {
+		store = new InMemoryApplicationDraftStore();
+	});
+
+	it("should save and fetch a draft for a job role", async () => {
+		const saved = await store.saveDraft("1", 4, content("Dear team"));
+
+		expect(saved).toEqual({
+			jobRoleId: 4,
+			...content("Dear team"),
+			updatedAt: expect.any(String),
+		});
+		await expect(store.getDraft("1", 4)).resolves.toEqual(saved);
+		await expect(store.getDraft("1", 5)).resolves.toBeNull();
+	});
+
+	it("should replace the existing draft for the same job role", async () => {
+		await store.saveDraft("1", 4, content("First"));
+		await store.saveDraft("1", 4, content("Second"));
+
+		const drafts = await store.listDrafts("1");
+
+		expect(drafts).toHaveLength(1);
+		expect(drafts[0]?.coverLetter).toBe("Second");
+	});
+
+	it("should list drafts most recently saved first", async () => {
+		await store.saveDraft("1", 4, content("A"));
+		await store.saveDraft("1", 9, content("B"));
+		await store.saveDraft("1", 4, content("C"));
+
+		const drafts = await store.listDrafts("1");
+
+		expect(drafts.map((draft) => draft.jobRoleId)).toEqual([4, 9]);
+	});
+
+	it("should keep each user's drafts separate", async () => {
+		await store.saveDraft("1", 4, content("Mine"));
+
+		await expect(store.getDraft("2", 4)).resolves.toBeNull();
+		await expect(store.listDrafts("2")).resolves.toEqual([]);
+		await expect(store.deleteDraft("2", 4)).resolves.toBe(false);
+		await expect(store.listDrafts("1")).resolves.toHaveLength(1);
+	});
+
+	it("should delete drafts", async () => {
+		await store.saveDraft("1", 4, content("Mine"));
+
+		await expect(store.deleteDraft("1", 4)).resolves.toBe(true);
+		await expect(store.getDraft("1", 4)).resolves.toBeNull();
+		await expect(store.deleteDraft("1", 4)).resolves.toBe(false);
+	});
+
+	it("should return copies so callers cannot change stored drafts", async () => {
+		const saved = await store.saveDraft("1", 4, content("Original"));
+		saved.coverLetter = "Changed";
+
+		const fetched = await store.getDraft("1", 4);
+
+		expect(fetched?.coverLetter).toBe("Original");
+	});
+});
@@ -0,0 +1,72 @@
+/**
+ * In-memory Application Draft Store
+ * Keeps drafts in process memory; they are lost on restart
+ */
+
+import type {
+	ApplicationDraft,
+	ApplicationDraftContent,
+} from "../models/application-draft.js";
+import type { ApplicationDraftStore } from "./application-draft-store.js";
+
+/**
+ * Application draft store backed by a Map of user ID to drafts by job role
+ * Suitable for tests and single-instance deployments
+ */
+export class InMemoryApplicationDraftStore implements ApplicationDraftStore {
+	private drafts = new Map<string, Map<number, ApplicationDraft>>();
+
+	/**
+	 * Returns a copy of the user's draft for a job role
+	 */
+	async getDraft(
+		userId: string,
+		jobRoleId: number
+	): Promise<ApplicationDraft | null> {
+		const draft = this.drafts.get(userId)?.get(jobRoleId);
+		return draft ? { ...draft } : null;
+	}
+
+	/**
+	 * Returns copies of the user's drafts, most recently saved first
+	 */
+	async listDrafts(userId: string): Promise<ApplicationDraft[]> {
+		// Map order is save order, so reversing first keeps ties newest first
+		return [...(this.drafts.get(userId)?.values() ?? [])]
+			.reverse()
+			.map((draft) => ({ ...draft }))
+			.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+	}
+
+	/**
+	 * Replaces the user's draft for a job role, stamping the save time
+	 */
+	async saveDraft(
+		userId: string,
+		jobRoleId: number,
+		content: ApplicationDraftContent
+	): Promise<ApplicationDraft> {
+		const draft: ApplicationDraft = {
+			jobRoleId,
+			applicantName: content.applicantName,
+			applicantEmail: content.applicantEmail,
+			coverLetter: content.coverLetter,
+			updatedAt: new Date().toISOString(),
+		};
+
+		const userDrafts =
+			this.drafts.get(userId) ?? new Map<number, ApplicationDraft>();
+		// Re-insert so the Map stays in save order
+		userDrafts.delete(jobRoleId);
+		userDrafts.set(jobRoleId, draft);
+		this.drafts.set(userId, userDrafts);
+		return { ...draft };
+	}
+
+	/**
+	 * Removes the user's draft for a job role
+	 */
+	async deleteDraft(userId: string, jobRoleId: number): Promise<boolean> {
+		return this.drafts.get(userId)?.delete(jobRoleId) ?? false;
+	}
+}
@@ -0,0 +1,95 @@
+/**
+ * Tests for InMemorySavedSearchStore
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { InMemorySavedSearchStore } from "./in-memory-saved-search-store.js";
+
+describe("InMemorySavedSearchStore", () => {
+	let store: InMemorySavedSearchStore;
+
+	beforeEach(() => {
+		store = new InMemorySavedSearchStore();
+	});
+
+	it("should save searches and list them newest first for their owner", async () => {
+		const first = await store.createSavedSearch({
+			userId: "1",
+			name: "Belfast",
+			params: { location: "Belfast" },
+			lastSeenJobRoleId: 10,
+		});
+		const second = await store.createSavedSearch({
+			userId: "1",
+			name: "Engineering",
+			params: { capability: "Engineering" },
+			lastSeenJobRoleId: 10,
+		});
+		await store.createSavedSearch({
+			userId: "2",
+			name: "Someone else's",
+			params: { band: "Mid" },
+			lastSeenJobRoleId: 10,
+		});
+
+		const searches = await store.getSavedSearches("1");
+
+		expect(searches.map((search) => search.id)).toEqual([second.id, first.id]);
+		expect(first.createdAt).toBe(first.lastViewedAt);
+	});
+
+	it("should not return or change another user's searches", async () => {
+		const search = await store.createSavedSearch({
+			userId: "1",
+			name: "Belfast",
+			params: { location: "Belfast" },
+			lastSeenJobRoleId: 10,
+		});
+
+		await expect(store.getSavedSearch("2", search.id)).resolves.toBeNull();
+		await expect(store.markViewed("2", search.id, 20)).resolves.toBeNull();
+		await expect(store.deleteSavedSearch("2", search.id)).resolves.toBe(false);
+		await expect(store.getSavedSearch("1", search.id)).resolves.toEqual(search);
+	});
+
+	it("should move the last seen job role forward when viewed", async () => {
+		const search = await store.createSavedSearch({
+			userId: "1",
+			name: "Belfast",
+			params: { location: "Belfast" },
+			lastSeenJobRoleId: 10,
+		});
+
+		expect(
+			(await store.markViewed("1", search.id, 15))?.lastSeenJobRoleId
+		).toBe(15);
+		expect((await store.markViewed("1", search.id, 4))?.lastSeenJobRoleId).toBe(
+			15
+		);
+	});
+
+	it("should delete searches", async () => {
+		const search = await store.createSavedSearch({
+			userId: "1",
+			name: "Belfast",
+			params: { location: "Belfast" },
+			lastSeenJobRoleId: 10,
+		});
+
+		await expect(store.deleteSavedSearch("1", search.id)).resolves.toBe(true);
+		await expect(store.getSavedSearches("1")).resolves.toEqual([]);
+	});
+
+	it("should not let callers change stored searches", async () => {
+		const search = await store.createSavedSearch({
+			userId: "1",
+			name: "Belfast",
+			params: { location: "Belfast" },
+			lastSeenJobRoleId: 10,
+		});
+		search.params.location = "London";
+
+		const stored = await store.getSavedSearch("1", search.id);
+		expect(stored?.params).toEqual({ location: "Belfast" });
+	});
+});
@@ -0,0 +1,93 @@
+/**
+ * In-memory Saved Search Store
+ * Keeps saved searches in process memory; they are lost on restart
+ */
+
+import { randomUUID } from "node:crypto";
+import type { SavedSearch, SavedSearchInput } from "../models/saved-search.js";
+import type { SavedSearchStore } from "./saved-search-store.js";
+
+/**
+ * Saved search store backed by a Map
+ * Suitable for tests and single-instance deployments
+ */
+export class InMemorySavedSearchStore implements SavedSearchStore {
+	private searches = new Map<string, SavedSearch>();
+
+	/**
+	 * Returns the user's saved searches, newest first
+	 */
+	async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+		return [...this.searches.values()]
+			.filter((search) => search.userId === userId)
+			.reverse()
+			.map(copySavedSearch);
+	}
+
+	/**
+	 * Returns one of the user's saved searches, or null
+	 */
+	async getSavedSearch(
+		userId: string,
+		id: string
+	): Promise<SavedSearch | null> {
+		const search = this.searches.get(id);
+		return search && search.userId === userId ? copySavedSearch(search) : null;
+	}
+
+	/**
+	 * Stores a new search with a generated id
+	 */
+	async createSavedSearch(input: SavedSearchInput): Promise<SavedSearch> {
+		const now = new Date().toISOString();
+		const search: SavedSearch = {
+			...input,
+			params: { ...input.params },
+			id: randomUUID(),
+			createdAt: now,
+			lastViewedAt: now,
+		};
+		this.searches.set(search.id, search);
+		return copySavedSearch(search);
+	}
+
+	/**
+	 * Updates the last viewed time and the highest job role ID seen
+	 * The highest ID seen never goes backwards
+	 */
+	async markViewed(
+		userId: string,
+		id: string,
+		lastSeenJobRoleId: number
+	): Promise<SavedSearch | null> {
+		const search = this.searches.get(id);
+		if (!search || search.userId !== userId) {
+			return null;
+		}
+
+		search.lastViewedAt = new Date().toISOString();
+		search.lastSeenJobRoleId = Math.max(
+			search.lastSeenJobRoleId,
+			lastSeenJobRoleId
+		);
+		return copySavedSearch(search);
+	}
+
+	/**
+	 * Removes one of the user's saved searches
+	 */
+	async deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+		const search = this.searches.get(id);
+		if (!search || search.userId !== userId) {
+			return false;
+		}
+		return this.searches.delete(id);
+	}
+}
+
+/**
+ * Copies a saved search so callers cannot change the stored version
+ */
+function copySavedSearch(search: SavedSearch): SavedSearch {
+	return { ...search, params: { ...search.params } };
+}
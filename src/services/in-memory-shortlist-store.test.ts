@@ -0,0 +1,45 @@
+/**
+ * Tests for InMemoryShortlistStore
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { InMemoryShortlistStore } from "./in-memory-shortlist-store.js";
+
+describe("InMemoryShortlistStore", () => {
+	let store: InMemoryShortlistStore;
+
+	beforeEach(() => {
+		store = new InMemoryShortlistStore();
+	});
+
+	it("should list shortlisted roles most recently added first", async () => {
+		await store.addJobRole("1", 4);
+		await store.addJobRole("1", 9);
+
+		const shortlist = await store.getShortlist("1");
+
+		expect(shortlist.map((entry) => entry.jobRoleId)).toEqual([9, 4]);
+		expect(shortlist[0]?.addedAt).toEqual(expect.any(String));
+	});
+
+	it("should not add the same role twice", async () => {
+		await expect(store.addJobRole("1", 4)).resolves.toBe(true);
+		await expect(store.addJobRole("1", 4)).resolves.toBe(false);
+		await expect(store.getShortlist("1")).resolves.toHaveLength(1);
+	});
+
+	it("should keep each user's shortlist separate", async () => {
+		await store.addJobRole("1", 4);
+
+		await expect(store.getShortlist("2")).resolves.toEqual([]);
+		await expect(store.removeJobRole("2", 4)).resolves.toBe(false);
+		await expect(store.getShortlist("1")).resolves.toHaveLength(1);
+	});
+
+	it("should remove roles", async () => {
+		await store.addJobRole("1", 4);
+
+		await expect(store.removeJobRole("1", 4)).resolves.toBe(true);
+		await expect(store.getShortlist("1")).resolves.toEqual([]);
+	});
+});
@@ -0,0 +1,52 @@
+/**
+ * In-memory Shortlist Store
+ * Keeps shortlists in process memory; they are lost on restart
+ */
+
+import type { ShortlistEntry } from "../models/shortlist.js";
+import type { ShortlistStore } from "./shortlist-store.js";
+
+/**
+ * Shortlist store backed by a Map of user ID to shortlisted roles
+ * Suitable for tests and single-instance deployments
+ */
+export class InMemoryShortlistStore implements ShortlistStore {
+	private shortlists = new Map<string, ShortlistEntry[]>();
+
+	/**
+	 * Returns the user's shortlisted roles, most recently added first
+	 */
+	async getShortlist(userId: string): Promise<ShortlistEntry[]> {
+		return (this.shortlists.get(userId) ?? [])
+			.map((entry) => ({ ...entry }))
+			.reverse();
+	}
+
+	/**
+	 * Adds a role to the end of the user's shortlist unless it is already there
+	 */
+	async addJobRole(userId: string, jobRoleId: number): Promise<boolean> {
+		const entries = this.shortlists.get(userId) ?? [];
+		if (entries.some((entry) => entry.jobRoleId === jobRoleId)) {
+			return false;
+		}
+
+		entries.push({ jobRoleId, addedAt: new Date().toISOString() });
+		this.shortlists.set(userId, entries);
+		return true;
+	}
+
+	/**
+	 * Removes a role from the user's shortlist
+	 */
+	async removeJobRole(userId: string, jobRoleId: number): Promise<boolean> {
+		const entries = this.shortlists.get(userId) ?? [];
+		const remaining = entries.filter((entry) => entry.jobRoleId !== jobRoleId);
+		if (remaining.length === entries.length) {
+			return false;
+		}
+
+		this.shortlists.set(userId, remaining);
+		return true;
+	}
+}
@@ -0,0 +1,29 @@
+/**
+ * Job Role Audit Store Interface
+ * Defines the contract for recording and reading job role change history
+ */
+
+import type {
+	JobRoleAuditEntry,
+	JobRoleAuditEntryInput,
+} from "../models/job-role-audit.js";
+
+/**
+ * Storage for job role audit entries
+ * Implementations can use different backends (file, database, etc.)
+ */
+export interface JobRoleAuditStore {
+	/**
+	 * Records a new audit entry
+	 * @param entry The change to record
+	 * @returns Promise<JobRoleAuditEntry> The stored entry with id and timestamp
+	 */
+	record(entry: JobRoleAuditEntryInput): Promise<JobRoleAuditEntry>;
+
+	/**
+	 * Fetches the history for a job role
+	 * @param jobRoleId The job role ID
+	 * @returns Promise<JobRoleAuditEntry[]> Entries for the role, newest first
+	 */
+	getHistory(jobRoleId: number): Promise<JobRoleAuditEntry[]>;
+}
@@ -0,0 +1,177 @@
+/**
+ * Tests for JobRoleAutoCloseService
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import { JobRoleAutoCloseService } from "./job-role-auto-close-service.js";
+import type { JobRoleService } from "./job-role-service.js";
+
+describe("JobRoleAutoCloseService", () => {
+	let mockJobRoleService: JobRoleService;
+	const now = new Date(2025, 5, 15, 9, 0);
+
+	const jobRole = (
+		jobRoleId: number,
+		closingDate: string,
+		status = "Open"
+	): JobRoleDetailedResponse => ({
+		jobRoleId,
+		roleName: `Role ${jobRoleId}`,
+		description: "Description",
+		responsibilities: "Responsibilities",
+		jobSpecLink: "https://example.com/spec",
+		location: "Remote",
+		capability: "Engineering",
+		band: "Mid",
+		closingDate,
+		status,
+		numberOfOpenPositions: 1,
+	});
+
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		mockJobRoleService = {
+			getAllJobRolesForExport: vi.fn(),
+			getJobRoleById: vi.fn(async (id: number) => jobRole(id, "2025-06-14")),
+			updateJobRole: vi.fn(async (id: number) => jobRole(id, "2025-01-01")),
+		} as unknown as JobRoleService;
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe("closeExpiredJobRoles", () => {
+		it("should close Open job roles whose closing date has passed", async () => {
+			vi.mocked(mockJobRoleService.getAllJobRolesForExport).mockResolvedValue([
+				jobRole(1, "2025-06-14"),
+				jobRole(2, "2025-06-15"),
+				jobRole(3, "2025-07-01"),
+				jobRole(4, "2025-01-01", "Closed"),
+			]);
+			const service = new JobRoleAutoCloseService(mockJobRoleService, 0);
+
+			const result = await service.closeExpiredJobRoles(now);
+
+			expect(mockJobRoleService.getAllJobRolesForExport).toHaveBeenCalledWith({
+				status: "Open",
+			});
+			expect(mockJobRoleService.updateJobRole).toHaveBeenCalledTimes(1);
+			expect(mockJobRoleService.updateJobRole).toHaveBeenCalledWith(1, {
+				...jobRole(1, "2025-06-14"),
+				status: "Closed",
+			});
+			expect(result).toEqual({
+				checkedCount: 4,
+				closedJobRoleIds: [1],
+				failedJobRoleIds: [],
+			});
+		});
+
+		it("should send the full job role rather than the list row", async () => {
+			const {
+				description: _description,
+				responsibilities: _responsibilities,
+				jobSpecLink: _jobSpecLink,
+				...listRow
+			} = jobRole(1, "2025-06-14");
+			vi.mocked(mockJobRoleService.getAllJobRolesForExport).mockResolvedValue([
+				listRow as JobRoleDetailedResponse,
+			]);
+			const service = new JobRoleAutoCloseService(mockJobRoleService, 0);
+
+			await service.closeExpiredJobRoles(now);
+
+			expect(mockJobRoleService.getJobRoleById).toHaveBeenCalledWith(1);
+			expect(mockJobRoleService.updateJobRole).toHaveBeenCalledWith(
+				1,
+				expect.objectContaining({
+					description: "Description",
+					responsibilities: "Responsibilities",
+					jobSpecLink: "https://example.com/spec",
+					status: "Closed",
+				})
+			);
+		});
+
+		it("should skip job roles deleted since the list was fetched", async () => {
+			vi.mocked(mockJobRoleService.getAllJobRolesForExport).mockResolvedValue([
+				jobRole(1, "2025-06-14"),
+			]);
+			vi.mocked(mockJobRoleService.getJobRoleById).mockResolvedValue(null);
+			const service = new JobRoleAutoCloseService(mockJobRoleService, 0);
+
+			const result = await service.closeExpiredJobRoles(now);
+
+			expect(mockJobRoleService.updateJobRole).not.toHaveBeenCalled();
+			expect(result.closedJobRoleIds).toEqual([]);
+			expect(result.failedJobRoleIds).toEqual([]);
+		});
+
+		it("should keep going when a single update fails", async () => {
+			vi.mocked(mockJobRoleService.getAllJobRolesForExport).mockResolvedValue([
+				jobRole(1, "2025-06-01"),
+				jobRole(2, "2025-06-02"),
+			]);
+			vi.mocked(mockJobRoleService.updateJobRole).mockImplementation(
+				async (id) => {
+					if (id === 1) {
+						throw new Error("Backend unavailable");
+					}
+					return jobRole(id, "2025-06-02", "Closed");
+				}
+			);
+			const service = new JobRoleAutoCloseService(mockJobRoleService, 0);
+
+			const result = await service.closeExpiredJobRoles(now);
+
+			expect(result.closedJobRoleIds).toEqual([2]);
+			expect(result.failedJobRoleIds).toEqual([1]);
+		});
+
+		it("should not throw when the job roles cannot be fetched", async () => {
+			vi.mocked(mockJobRoleService.getAllJobRolesForExport).mockRejectedValue(
+				new Error("Network error")
+			);
+			const service = new JobRoleAutoCloseService(mockJobRoleService, 0);
+
+			const result = await service.closeExpiredJobRoles(now);
+
+			expect(result.closedJobRoleIds).toEqual([]);
+			expect(console.error).toHaveBeenCalled();
+		});
+	});
+
+	describe("start", () => {
+		it("should not schedule anything when the interval is 0", () => {
+			const service = new JobRoleAutoCloseService(mockJobRoleService, 0);
+
+			expect(service.start()).toBe(false);
+		});
+
+		it("should run on the configured interval until stopped", async () => {
+			vi.useFakeTimers();
+			vi.mocked(mockJobRoleService.getAllJobRolesForExport).mockResolvedValue(
+				[]
+			);
+			const service = new JobRoleAutoCloseService(mockJobRoleService, 60_000);
+
+			expect(service.start()).toBe(true);
+			expect(service.start()).toBe(false);
+
+			await vi.advanceTimersByTimeAsync(60_000);
+			expect(mockJobRoleService.getAllJobRolesForExport).toHaveBeenCalledTimes(
+				1
+			);
+
+			service.stop();
+			await vi.advanceTimersByTimeAsync(120_000);
+			expect(mockJobRoleService.getAllJobRolesForExport).toHaveBeenCalledTimes(
+				1
+			);
+		});
+	});
+});
@@ -0,0 +1,124 @@
+/**
+ * Job Role Auto Close Service
+ * Periodically closes Open job roles whose closing date has passed
+ */
+
+import { isClosingDatePassed } from "../utils/closing-date.js";
+import type { JobRoleService } from "./job-role-service.js";
+
+/**
+ * Summary of a single auto close run
+ */
+export interface JobRoleAutoCloseResult {
+	checkedCount: number;
+	closedJobRoleIds: number[];
+	failedJobRoleIds: number[];
+}
+
+/**
+ * In-process scheduler that closes expired job roles via the job role service
+ * An interval of 0 (or less) disables the schedule
+ */
+export class JobRoleAutoCloseService {
+	private jobRoleService: JobRoleService;
+	private intervalMs: number;
+	private timer: NodeJS.Timeout | null = null;
+	private isRunning = false;
+
+	constructor(jobRoleService: JobRoleService, intervalMs: number) {
+		this.jobRoleService = jobRoleService;
+		this.intervalMs = intervalMs;
+	}
+
+	/**
+	 * Starts the schedule
+	 * The timer is unref'd so it never keeps the process alive on its own
+	 * @returns True if the schedule was started, false when disabled or already started
+	 */
+	start(): boolean {
+		if (this.intervalMs <= 0 || this.timer) {
+			return false;
+		}
+
+		this.timer = setInterval(() => {
+			void this.closeExpiredJobRoles();
+		}, this.intervalMs);
+		this.timer.unref();
+		return true;
+	}
+
+	/**
+	 * Stops the schedule if it is running
+	 */
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Finds Open job roles past their closing date and closes them
+	 * Overlapping runs are skipped and errors are logged rather than thrown
+	 * @param now The current time (defaults to now)
+	 * @returns Summary of the run
+	 */
+	async closeExpiredJobRoles(
+		now: Date = new Date()
+	): Promise<JobRoleAutoCloseResult> {
+		const result: JobRoleAutoCloseResult = {
+			checkedCount: 0,
+			closedJobRoleIds: [],
+			failedJobRoleIds: [],
+		};
+
+		if (this.isRunning) {
+			return result;
+		}
+
+		this.isRunning = true;
+
+		try {
+			const jobRoles = await this.jobRoleService.getAllJobRolesForExport({
+				status: "Open",
+			});
+			const expired = jobRoles.filter(
+				(jobRole) =>
+					jobRole.status.toLowerCase() === "open" &&
+					isClosingDatePassed(jobRole.closingDate, now)
+			);
+			result.checkedCount = jobRoles.length;
+
+			for (const { jobRoleId } of expired) {
+				try {
+					// List rows may leave out the detailed fields, so the full role is
+					// re-fetched to avoid the update blanking them
+					const jobRole = await this.jobRoleService.getJobRoleById(jobRoleId);
+					if (!jobRole) {
+						continue;
+					}
+					await this.jobRoleService.updateJobRole(jobRoleId, {
+						...jobRole,
+						status: "Closed",
+					});
+					result.closedJobRoleIds.push(jobRoleId);
+				} catch (error) {
+					console.error(`Error auto closing job role ${jobRoleId}:`, error);
+					result.failedJobRoleIds.push(jobRoleId);
+				}
+			}
+
+			if (result.closedJobRoleIds.length > 0) {
+				console.log(
+					`Auto closed ${result.closedJobRoleIds.length} job role(s) past their closing date`
+				);
+			}
+		} catch (error) {
+			console.error("Error in JobRoleAutoCloseService:", error);
+		} finally {
+			this.isRunning = false;
+		}
+
+		return result;
+	}
+}
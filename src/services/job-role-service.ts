@@ -10,6 +10,7 @@ import type {
 	JobRoleFilterOptions,
 	JobRoleSearchParams,
 } from "../models/job-role-search-params.js";
+import type { JobRoleSearchResult } from "../models/job-role-search-result.js";
 import type {
 	PaginatedResponse,
 	PaginationRequest,
@@ -68,14 +69,25 @@ export interface JobRoleService {
 	): Promise<JobRoleDetailedResponse>;
 
 	/**
-	 * Search and filter job roles with pagination
-	 * @param searchParams The search and filter parameters
+	 * Search, filter and optionally sort job roles with pagination
+	 * @param searchParams The search, filter and sort parameters
 	 * @returns Promise<PaginatedResponse<JobRoleResponse>> Paginated search results
 	 */
 	searchJobRoles(
 		searchParams: JobRoleSearchParams
 	): Promise<PaginatedResponse<JobRoleResponse>>;
 
+	/**
+	 * Full-text search across role name, description and responsibilities
+	 * Results are ranked by relevance, with role name matches first, unless
+	 * a sort is requested
+	 * @param searchParams The search and filter parameters
+	 * @returns Promise<PaginatedResponse<JobRoleSearchResult>> Paginated ranked results
+	 */
+	searchJobRolesFullText(
+		searchParams: JobRoleSearchParams
+	): Promise<PaginatedResponse<JobRoleSearchResult>>;
+
 	/**
 	 * Get available filter options (capabilities, locations, bands)
 	 * @returns Promise<JobRoleFilterOptions> Available filter options for dropdowns
@@ -84,7 +96,10 @@ export interface JobRoleService {
 
 	/**
 	 * Fetches all job roles for export (no pagination limit)
-	 * @returns Promise<JobRoleResponse[]> Complete list of all job roles
+	 * @param filters Optional search/filter parameters to restrict the export
+	 * @returns Promise<JobRoleDetailedResponse[]> Complete list of matching job roles
 	 */
-	getAllJobRolesForExport(): Promise<JobRoleResponse[]>;
+	getAllJobRolesForExport(
+		filters?: Partial<JobRoleSearchParams>
+	): Promise<JobRoleDetailedResponse[]>;
 }
@@ -0,0 +1,88 @@
+/**
+ * Tests for JsonFileStore
+ */
+
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { JsonFileStore } from "./json-file-store.js";
+
+describe("JsonFileStore", () => {
+	let directory: string;
+	let filePath: string;
+
+	const createStore = () =>
+		new JsonFileStore<string[]>(filePath, {
+			name: "names",
+			empty: () => [],
+			parse: (stored) => (Array.isArray(stored) ? (stored as string[]) : null),
+			copy: (names) => [...names],
+		});
+
+	beforeEach(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), "json-file-store-"));
+		filePath = path.join(directory, "nested", "names.json");
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it("should start empty when there is no file", async () => {
+		await expect(createStore().read()).resolves.toEqual([]);
+	});
+
+	it("should write changes and return the change's result", async () => {
+		const store = createStore();
+
+		await expect(store.update((names) => names.push("Ann"))).resolves.toBe(1);
+
+		await expect(createStore().read()).resolves.toEqual(["Ann"]);
+	});
+
+	it("should keep the cache unchanged when a change throws", async () => {
+		const store = createStore();
+		await store.update((names) => names.push("Ann"));
+
+		await expect(
+			store.update((names) => {
+				names.push("Bob");
+				throw new Error("Rejected");
+			})
+		).rejects.toThrow("Rejected");
+
+		await expect(store.read()).resolves.toEqual(["Ann"]);
+	});
+
+	it.each([
+		["invalid JSON", "not json"],
+		["the wrong shape", '{"name":"Ann"}'],
+	])(
+		"should move a file with %s aside instead of overwriting it",
+		async (_, content) => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+			await createStore().update((names) => names.push("Ann"));
+			await writeFile(filePath, content, "utf8");
+			const store = createStore();
+
+			await expect(Promise.all([store.read(), store.read()])).resolves.toEqual([
+				[],
+				[],
+			]);
+			await store.update((names) => names.push("Bob"));
+
+			const files = await readdir(path.dirname(filePath));
+			const corruptFile = files.find((file) =>
+				file.startsWith("names.json.corrupt-")
+			);
+			expect(corruptFile).toBeDefined();
+			await expect(
+				readFile(path.join(path.dirname(filePath), corruptFile ?? ""), "utf8")
+			).resolves.toBe(content);
+			await expect(createStore().read()).resolves.toEqual(["Bob"]);
+			expect(warn).toHaveBeenCalledOnce();
+		}
+	);
+});
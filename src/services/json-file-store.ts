@@ -0,0 +1,125 @@
+/**
+ * JSON File Store
+ * Shared loading, caching and queued writes for the file-backed stores
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * How a store reads, copies and starts its data
+ */
+export interface JsonFileStoreOptions<T> {
+	/** Name used in log messages, e.g. "saved searches" */
+	name: string;
+	/** Data to start with when there is no file yet */
+	empty: () => T;
+	/** Turns the parsed file into data, or returns null if it has the wrong shape */
+	parse: (stored: unknown) => T | null;
+	/** Copies the data so a change can be made without touching the cache */
+	copy: (data: T) => T;
+}
+
+/**
+ * Keeps a single value in a JSON file
+ * Changes are queued so concurrent requests never overwrite each other, and
+ * an unreadable file is moved aside rather than overwritten by the next write
+ */
+export class JsonFileStore<T> {
+	private filePath: string;
+	private options: JsonFileStoreOptions<T>;
+	private cache: T | null = null;
+	private loading: Promise<T> | null = null;
+	private writeQueue: Promise<void> = Promise.resolve();
+
+	constructor(filePath: string, options: JsonFileStoreOptions<T>) {
+		this.filePath = filePath;
+		this.options = options;
+	}
+
+	/**
+	 * Returns the stored data once any queued writes have finished
+	 * The cached value is returned, so callers must copy what they hand out
+	 */
+	async read(): Promise<T> {
+		await this.writeQueue;
+		return this.load();
+	}
+
+	/**
+	 * Applies a change to a copy of the data and writes it to the file
+	 * The cache is only replaced once the write has succeeded
+	 * @param change Changes the data in place and returns the result
+	 */
+	async update<R>(change: (data: T) => R): Promise<R> {
+		const write = this.writeQueue.then(async () => {
+			const data = this.options.copy(await this.load());
+			const result = change(data);
+			await mkdir(path.dirname(this.filePath), { recursive: true });
+			await writeFile(
+				this.filePath,
+				`${JSON.stringify(data, null, 2)}\n`,
+				"utf8"
+			);
+			this.cache = data;
+			return result;
+		});
+		// Keep the queue going even if this write fails
+		this.writeQueue = write.then(
+			() => undefined,
+			() => undefined
+		);
+		return write;
+	}
+
+	/**
+	 * Loads the data from the cache, sharing one file read between callers
+	 */
+	private async load(): Promise<T> {
+		if (this.cache) {
+			return this.cache;
+		}
+
+		this.loading ??= this.loadFile().finally(() => {
+			this.loading = null;
+		});
+		return this.loading;
+	}
+
+	/**
+	 * Reads the data from the file
+	 * A missing file means empty data; an unreadable one is renamed with a
+	 * .corrupt suffix so it can be recovered, and the store starts afresh
+	 */
+	private async loadFile(): Promise<T> {
+		let content: string;
+		try {
+			content = await readFile(this.filePath, "utf8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				this.cache = this.options.empty();
+				return this.cache;
+			}
+			throw error;
+		}
+
+		let data: T | null;
+		try {
+			data = this.options.parse(JSON.parse(content));
+		} catch {
+			data = null;
+		}
+
+		if (data === null) {
+			const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+			await rename(this.filePath, corruptPath);
+			console.warn(
+				`Unreadable ${this.options.name} file, moved to ${corruptPath}`
+			);
+			data = this.options.empty();
+		}
+
+		this.cache = data;
+		return data;
+	}
+}
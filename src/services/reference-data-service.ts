@@ -0,0 +1,48 @@
+/**
+ * Reference Data Service Interface
+ * Defines the contract for reading and managing job role reference data
+ */
+
+import type {
+	ReferenceData,
+	ReferenceDataType,
+} from "../models/reference-data.js";
+
+/**
+ * Service for the locations, capabilities, bands and statuses lists
+ * Implementations can use different data sources (API, file, etc.)
+ */
+export interface ReferenceDataService {
+	/**
+	 * Fetches every reference data list
+	 * @returns Promise<ReferenceData> The current lists
+	 */
+	getReferenceData(): Promise<ReferenceData>;
+
+	/**
+	 * Adds a value to the end of a list
+	 * @param type The reference data list
+	 * @param value The value to add
+	 */
+	addValue(type: ReferenceDataType, value: string): Promise<void>;
+
+	/**
+	 * Renames a value in place
+	 * Existing job roles keep the old value until they are edited
+	 * @param type The reference data list
+	 * @param currentValue The value to rename
+	 * @param newValue The new value
+	 */
+	renameValue(
+		type: ReferenceDataType,
+		currentValue: string,
+		newValue: string
+	): Promise<void>;
+
+	/**
+	 * Removes a value from a list
+	 * @param type The reference data list
+	 * @param value The value to remove
+	 */
+	deleteValue(type: ReferenceDataType, value: string): Promise<void>;
+}
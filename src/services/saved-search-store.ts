@@ -0,0 +1,57 @@
+/**
+ * Saved Search Store Interface
+ * Defines the contract for storing users' saved job role searches
+ */
+
+import type { SavedSearch, SavedSearchInput } from "../models/saved-search.js";
+
+/**
+ * Storage for saved searches
+ * Every method is scoped to the owning user, so one user can never read or
+ * change another user's searches
+ * Implementations can use different backends (memory, database, etc.)
+ */
+export interface SavedSearchStore {
+	/**
+	 * Fetches a user's saved searches
+	 * @param userId The owning user's ID
+	 * @returns Promise<SavedSearch[]> The user's searches, newest first
+	 */
+	getSavedSearches(userId: string): Promise<SavedSearch[]>;
+
+	/**
+	 * Fetches a single saved search
+	 * @param userId The owning user's ID
+	 * @param id The saved search ID
+	 * @returns Promise<SavedSearch | null> The search, or null if the user has no such search
+	 */
+	getSavedSearch(userId: string, id: string): Promise<SavedSearch | null>;
+
+	/**
+	 * Saves a new search
+	 * @param input The search to save
+	 * @returns Promise<SavedSearch> The stored search with id and timestamps
+	 */
+	createSavedSearch(input: SavedSearchInput): Promise<SavedSearch>;
+
+	/**
+	 * Records that the user has viewed a saved search's results
+	 * @param userId The owning user's ID
+	 * @param id The saved search ID
+	 * @param lastSeenJobRoleId The highest job role ID at the time of viewing
+	 * @returns Promise<SavedSearch | null> The updated search, or null if the user has no such search
+	 */
+	markViewed(
+		userId: string,
+		id: string,
+		lastSeenJobRoleId: number
+	): Promise<SavedSearch | null>;
+
+	/**
+	 * Deletes a saved search
+	 * @param userId The owning user's ID
+	 * @param id The saved search ID
+	 * @returns Promise<boolean> True if the search was deleted, false if the user has no such search
+	 */
+	deleteSavedSearch(userId: string, id: string): Promise<boolean>;
+}
@@ -0,0 +1,35 @@
+/**
+ * Shortlist Store Interface
+ * Defines the contract for storing the job roles each user has shortlisted
+ */
+
+import type { ShortlistEntry } from "../models/shortlist.js";
+
+/**
+ * Storage for users' shortlists
+ * Implementations can use different backends (memory, database, etc.)
+ */
+export interface ShortlistStore {
+	/**
+	 * Fetches a user's shortlist
+	 * @param userId The owning user's ID
+	 * @returns Promise<ShortlistEntry[]> The shortlisted roles, most recently added first
+	 */
+	getShortlist(userId: string): Promise<ShortlistEntry[]>;
+
+	/**
+	 * Adds a job role to a user's shortlist
+	 * @param userId The owning user's ID
+	 * @param jobRoleId The job role ID
+	 * @returns Promise<boolean> True if added, false if it was already shortlisted
+	 */
+	addJobRole(userId: string, jobRoleId: number): Promise<boolean>;
+
+	/**
+	 * Removes a job role from a user's shortlist
+	 * @param userId The owning user's ID
+	 * @param jobRoleId The job role ID
+	 * @returns Promise<boolean> True if removed, false if it was not shortlisted
+	 */
+	removeJobRole(userId: string, jobRoleId: number): Promise<boolean>;
+}
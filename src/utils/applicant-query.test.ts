@@ -0,0 +1,154 @@
+/**
+ * Tests for applicant list query utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { ApplicantDisplay } from "../models/applicant-display.js";
+import {
+	applyApplicantQuery,
+	validateApplicantQueryParams,
+} from "./applicant-query.js";
+
+describe("validateApplicantQueryParams", () => {
+	it("should default to newest applications first", () => {
+		const result = validateApplicantQueryParams();
+
+		expect(result.isValid).toBe(true);
+		expect(result.options).toEqual({ sort: "submittedAt", order: "desc" });
+	});
+
+	it("should accept valid sort, order, status and search values", () => {
+		const result = validateApplicantQueryParams(
+			"name",
+			"ASC",
+			"in progress",
+			"  smith  "
+		);
+
+		expect(result.isValid).toBe(true);
+		expect(result.options).toEqual({
+			sort: "name",
+			order: "asc",
+			status: "under_review",
+			search: "smith",
+		});
+	});
+
+	it("should ignore blank status and search values", () => {
+		const result = validateApplicantQueryParams(undefined, undefined, " ", "");
+
+		expect(result.isValid).toBe(true);
+		expect(result.options.status).toBeUndefined();
+		expect(result.options.search).toBeUndefined();
+	});
+
+	it("should reject unknown sort fields", () => {
+		const result = validateApplicantQueryParams("salary");
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toBe("Sort must be one of: name, submittedAt, status");
+	});
+
+	it("should reject unknown sort orders", () => {
+		const result = validateApplicantQueryParams("name", "sideways");
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toBe("Order must be either asc or desc");
+	});
+
+	it("should reject unknown statuses", () => {
+		const result = validateApplicantQueryParams(undefined, undefined, "lost");
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toBe("Invalid status filter");
+	});
+
+	it("should reject overly long search terms", () => {
+		const result = validateApplicantQueryParams(
+			undefined,
+			undefined,
+			undefined,
+			"a".repeat(101)
+		);
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toBe("Search term cannot exceed 100 characters");
+	});
+});
+
+describe("applyApplicantQuery", () => {
+	const applicants: ApplicantDisplay[] = [
+		{
+			applicationId: 1,
+			applicantName: "Charlie Brown",
+			applicantEmail: "charlie@example.com",
+			status: "interview",
+			submittedAt: "2025-01-02T10:00:00Z",
+		},
+		{
+			applicationId: 2,
+			applicantName: "alice Jones",
+			applicantEmail: "alice@test.org",
+			status: "pending",
+			submittedAt: "2025-01-03T10:00:00Z",
+		},
+		{
+			applicationId: 3,
+			applicantName: "Bob Smith",
+			applicantEmail: "bob@example.com",
+			status: "in progress",
+			submittedAt: "2025-01-01T10:00:00Z",
+		},
+	];
+
+	const ids = (list: ApplicantDisplay[]): number[] =>
+		list.map((applicant) => applicant.applicationId);
+
+	it("should return applicants unchanged when no options are given", () => {
+		expect(ids(applyApplicantQuery(applicants))).toEqual([1, 2, 3]);
+	});
+
+	it("should not mutate the input array", () => {
+		applyApplicantQuery(applicants, { sort: "name", order: "asc" });
+
+		expect(ids(applicants)).toEqual([1, 2, 3]);
+	});
+
+	it("should sort by name case-insensitively", () => {
+		expect(
+			ids(applyApplicantQuery(applicants, { sort: "name", order: "asc" }))
+		).toEqual([2, 3, 1]);
+	});
+
+	it("should sort by submitted date descending", () => {
+		expect(
+			ids(
+				applyApplicantQuery(applicants, {
+					sort: "submittedAt",
+					order: "desc",
+				})
+			)
+		).toEqual([2, 1, 3]);
+	});
+
+	it("should sort by position in the status pipeline", () => {
+		expect(
+			ids(applyApplicantQuery(applicants, { sort: "status", order: "asc" }))
+		).toEqual([2, 3, 1]);
+	});
+
+	it("should filter by normalised status", () => {
+		expect(
+			ids(applyApplicantQuery(applicants, { status: "under_review" }))
+		).toEqual([3]);
+	});
+
+	it("should search names and emails", () => {
+		expect(ids(applyApplicantQuery(applicants, { search: "EXAMPLE" }))).toEqual(
+			[1, 3]
+		);
+		expect(ids(applyApplicantQuery(applicants, { search: "jones" }))).toEqual([
+			2,
+		]);
+	});
+});
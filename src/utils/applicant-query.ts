@@ -0,0 +1,184 @@
+/**
+ * Applicant list query utilities
+ * Validates sort and filter parameters for the applicants list and applies
+ * them in memory when the backend cannot do so itself
+ */
+
+import type {
+	ApplicantDisplay,
+	ApplicantSortField,
+	ApplicantSortOrder,
+	ApplicantsQueryOptions,
+} from "../models/applicant-display.js";
+import {
+	APPLICATION_STATUSES,
+	normaliseApplicationStatus,
+} from "./application-status.js";
+
+export const APPLICANT_SORT_FIELDS: readonly ApplicantSortField[] = [
+	"name",
+	"submittedAt",
+	"status",
+];
+
+export const APPLICANT_SORT_ORDERS: readonly ApplicantSortOrder[] = [
+	"asc",
+	"desc",
+];
+
+export const DEFAULT_APPLICANT_SORT: ApplicantSortField = "submittedAt";
+export const DEFAULT_APPLICANT_ORDER: ApplicantSortOrder = "desc";
+export const MAX_APPLICANT_SEARCH_LENGTH = 100;
+
+/**
+ * Validation result for applicant list query parameters
+ */
+export interface ApplicantQueryValidationResult {
+	isValid: boolean;
+	options: ApplicantsQueryOptions;
+	error?: string;
+}
+
+/**
+ * Validates and sanitizes sort and filter parameters from query strings
+ * @param sortStr Raw sort parameter from query
+ * @param orderStr Raw order parameter from query
+ * @param statusStr Raw status filter from query
+ * @param searchStr Raw search term from query
+ * @returns ApplicantQueryValidationResult with validated options or error
+ */
+export function validateApplicantQueryParams(
+	sortStr?: string,
+	orderStr?: string,
+	statusStr?: string,
+	searchStr?: string
+): ApplicantQueryValidationResult {
+	const options: ApplicantsQueryOptions = {
+		sort: DEFAULT_APPLICANT_SORT,
+		order: DEFAULT_APPLICANT_ORDER,
+	};
+
+	if (sortStr) {
+		if (!(APPLICANT_SORT_FIELDS as readonly string[]).includes(sortStr)) {
+			return {
+				isValid: false,
+				options,
+				error: `Sort must be one of: ${APPLICANT_SORT_FIELDS.join(", ")}`,
+			};
+		}
+		options.sort = sortStr as ApplicantSortField;
+	}
+
+	if (orderStr) {
+		const order = orderStr.toLowerCase();
+		if (!(APPLICANT_SORT_ORDERS as readonly string[]).includes(order)) {
+			return {
+				isValid: false,
+				options,
+				error: "Order must be either asc or desc",
+			};
+		}
+		options.order = order as ApplicantSortOrder;
+	}
+
+	if (statusStr?.trim()) {
+		const status = normaliseApplicationStatus(statusStr);
+		if (!status) {
+			return {
+				isValid: false,
+				options,
+				error: "Invalid status filter",
+			};
+		}
+		options.status = status;
+	}
+
+	if (searchStr?.trim()) {
+		const search = searchStr.trim();
+		if (search.length > MAX_APPLICANT_SEARCH_LENGTH) {
+			return {
+				isValid: false,
+				options,
+				error: `Search term cannot exceed ${MAX_APPLICANT_SEARCH_LENGTH} characters`,
+			};
+		}
+		options.search = search;
+	}
+
+	return {
+		isValid: true,
+		options,
+	};
+}
+
+/**
+ * Position of a status in the pipeline, used when sorting by status
+ * Unknown statuses sort after every known one
+ */
+function statusRank(status: string): number {
+	const normalised = normaliseApplicationStatus(status);
+	return normalised
+		? APPLICATION_STATUSES.indexOf(normalised)
+		: APPLICATION_STATUSES.length;
+}
+
+/**
+ * Compares two applicants by the given sort field (ascending)
+ */
+function compareApplicants(
+	a: ApplicantDisplay,
+	b: ApplicantDisplay,
+	sort: ApplicantSortField
+): number {
+	switch (sort) {
+		case "name":
+			return a.applicantName.localeCompare(b.applicantName, undefined, {
+				sensitivity: "base",
+			});
+		case "status":
+			return statusRank(a.status) - statusRank(b.status);
+		default:
+			return (
+				(Date.parse(a.submittedAt) || 0) - (Date.parse(b.submittedAt) || 0)
+			);
+	}
+}
+
+/**
+ * Filters and sorts applicants in memory
+ * Used as a fallback when the backend ignores the query parameters
+ * @param applicants Full list of applicants for a job role
+ * @param options Sort and filter options
+ * @returns A new filtered and sorted array of applicants
+ */
+export function applyApplicantQuery(
+	applicants: ApplicantDisplay[],
+	options: ApplicantsQueryOptions = {}
+): ApplicantDisplay[] {
+	const status = options.status
+		? normaliseApplicationStatus(options.status)
+		: null;
+	const search = options.search?.trim().toLowerCase();
+
+	const filtered = applicants.filter((applicant) => {
+		if (status && normaliseApplicationStatus(applicant.status) !== status) {
+			return false;
+		}
+		if (
+			search &&
+			!applicant.applicantName.toLowerCase().includes(search) &&
+			!applicant.applicantEmail.toLowerCase().includes(search)
+		) {
+			return false;
+		}
+		return true;
+	});
+
+	if (!options.sort) {
+		return filtered;
+	}
+
+	const sort = options.sort;
+	const direction = options.order === "desc" ? -1 : 1;
+	return filtered.sort((a, b) => compareApplicants(a, b, sort) * direction);
+}
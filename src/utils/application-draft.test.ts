@@ -0,0 +1,139 @@
+/**
+ * Tests for application draft utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import {
+	buildApplicationDraftItem,
+	isApplicationDraftEmpty,
+	validateApplicationDraftContent,
+} from "./application-draft.js";
+
+describe("application draft utilities", () => {
+	const now = new Date(2030, 5, 15, 12);
+
+	const jobRole = (
+		overrides: Partial<JobRoleDetailedResponse> = {}
+	): JobRoleDetailedResponse => ({
+		jobRoleId: 4,
+		roleName: "Software Engineer",
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Associate",
+		closingDate: "2030-06-30",
+		status: "Open",
+		numberOfOpenPositions: 2,
+		description: "Build things",
+		responsibilities: "Ship things",
+		jobSpecLink: "",
+		...overrides,
+	});
+
+	const draft = {
+		jobRoleId: 4,
+		applicantName: "Jane Doe",
+		applicantEmail: "",
+		coverLetter: "Dear team",
+		updatedAt: "2030-06-14T10:00:00.000Z",
+	};
+
+	describe("validateApplicationDraftContent", () => {
+		it("should accept partial content and default missing fields", () => {
+			expect(
+				validateApplicationDraftContent({ coverLetter: "Dear team" })
+			).toEqual({
+				isValid: true,
+				content: {
+					applicantName: "",
+					applicantEmail: "",
+					coverLetter: "Dear team",
+				},
+			});
+		});
+
+		it("should not validate incomplete values", () => {
+			const result = validateApplicationDraftContent({
+				applicantName: "J",
+				applicantEmail: "jane@",
+			});
+
+			expect(result.isValid).toBe(true);
+		});
+
+		it("should reject a cover letter over the submission limit", () => {
+			const result = validateApplicationDraftContent({
+				coverLetter: "a".repeat(5001),
+			});
+
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe("Cover letter must not exceed 5000 characters");
+		});
+
+		it("should reject values that are not text", () => {
+			const result = validateApplicationDraftContent({
+				applicantName: ["Jane", "Doe"],
+			});
+
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe("Name must be text");
+		});
+
+		it("should treat a missing body as empty content", () => {
+			expect(validateApplicationDraftContent(undefined).isValid).toBe(true);
+		});
+	});
+
+	describe("isApplicationDraftEmpty", () => {
+		it("should ignore whitespace", () => {
+			expect(
+				isApplicationDraftEmpty({
+					applicantName: " ",
+					applicantEmail: "",
+					coverLetter: "\n",
+				})
+			).toBe(true);
+			expect(
+				isApplicationDraftEmpty({
+					applicantName: "",
+					applicantEmail: "",
+					coverLetter: "Hi",
+				})
+			).toBe(false);
+		});
+	});
+
+	describe("buildApplicationDraftItem", () => {
+		it("should allow continuing while the role accepts applications", () => {
+			expect(buildApplicationDraftItem(draft, jobRole(), now)).toEqual({
+				...draft,
+				jobRole: jobRole(),
+				canContinue: true,
+			});
+		});
+
+		it("should not allow continuing once the role stops accepting applications", () => {
+			expect(
+				buildApplicationDraftItem(
+					draft,
+					jobRole({ closingDate: "2030-06-14" }),
+					now
+				).canContinue
+			).toBe(false);
+			expect(
+				buildApplicationDraftItem(draft, jobRole({ status: "Closed" }), now)
+					.canContinue
+			).toBe(false);
+			expect(
+				buildApplicationDraftItem(
+					draft,
+					jobRole({ numberOfOpenPositions: 0 }),
+					now
+				).canContinue
+			).toBe(false);
+			expect(buildApplicationDraftItem(draft, null, now).canContinue).toBe(
+				false
+			);
+		});
+	});
+});
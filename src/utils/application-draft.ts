@@ -0,0 +1,138 @@
+/**
+ * Application draft utilities
+ * Validates autosaved form content and builds the applications page items
+ */
+
+import type {
+	ApplicationDraft,
+	ApplicationDraftContent,
+	ApplicationDraftItem,
+} from "../models/application-draft.js";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import {
+	MAX_COVER_LETTER_LENGTH,
+	MAX_EMAIL_LENGTH,
+	MAX_NAME_LENGTH,
+} from "./application-validator.js";
+import { isClosingDatePassed } from "./closing-date.js";
+import { isJobRolePublished } from "./job-role-visibility.js";
+
+/**
+ * How often the application form autosaves changed content
+ */
+export const APPLICATION_DRAFT_AUTOSAVE_SECONDS = 30;
+
+/**
+ * Validation result for autosaved draft content
+ */
+export interface ApplicationDraftValidationResult {
+	isValid: boolean;
+	content: ApplicationDraftContent;
+	error?: string;
+}
+
+const DRAFT_FIELD_LIMITS: Record<keyof ApplicationDraftContent, number> = {
+	applicantName: MAX_NAME_LENGTH,
+	applicantEmail: MAX_EMAIL_LENGTH,
+	coverLetter: MAX_COVER_LETTER_LENGTH,
+};
+
+const DRAFT_FIELD_LABELS: Record<keyof ApplicationDraftContent, string> = {
+	applicantName: "Name",
+	applicantEmail: "Email address",
+	coverLetter: "Cover letter",
+};
+
+/**
+ * Validates the form content sent by the autosave request
+ * Drafts are unfinished, so fields may be missing or incomplete; only the
+ * types and the submission length limits are checked
+ * @param body The request body
+ * @returns The validation result with the content to save
+ */
+export function validateApplicationDraftContent(
+	body: unknown
+): ApplicationDraftValidationResult {
+	const fields =
+		body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+	const content: ApplicationDraftContent = {
+		applicantName: "",
+		applicantEmail: "",
+		coverLetter: "",
+	};
+
+	for (const field of Object.keys(
+		DRAFT_FIELD_LIMITS
+	) as (keyof ApplicationDraftContent)[]) {
+		const value = fields[field] ?? "";
+		if (typeof value !== "string") {
+			return {
+				isValid: false,
+				content,
+				error: `${DRAFT_FIELD_LABELS[field]} must be text`,
+			};
+		}
+
+		const limit = DRAFT_FIELD_LIMITS[field];
+		if (value.trim().length > limit) {
+			return {
+				isValid: false,
+				content,
+				error: `${DRAFT_FIELD_LABELS[field]} must not exceed ${limit} characters`,
+			};
+		}
+		content[field] = value;
+	}
+
+	return { isValid: true, content };
+}
+
+/**
+ * Checks whether draft content has nothing worth keeping
+ * @param content The draft content
+ */
+export function isApplicationDraftEmpty(
+	content: ApplicationDraftContent
+): boolean {
+	return (
+		!content.applicantName.trim() &&
+		!content.applicantEmail.trim() &&
+		!content.coverLetter.trim()
+	);
+}
+
+/**
+ * Checks whether a job role is taking new applications
+ * @param jobRole The job role
+ * @param now The current time (defaults to now)
+ */
+export function isAcceptingApplications(
+	jobRole: JobRoleDetailedResponse,
+	now: Date = new Date()
+): boolean {
+	return (
+		jobRole.status.toLowerCase() === "open" &&
+		jobRole.numberOfOpenPositions > 0 &&
+		isJobRolePublished(jobRole, now) &&
+		!isClosingDatePassed(jobRole.closingDate, now)
+	);
+}
+
+/**
+ * Builds an applications page item from a draft and the role's current details
+ * @param draft The draft
+ * @param jobRole The current job role, or null if it is no longer available
+ * @param now The current time (defaults to now)
+ * @returns The item, flagging whether the application can still be finished
+ */
+export function buildApplicationDraftItem(
+	draft: ApplicationDraft,
+	jobRole: JobRoleDetailedResponse | null,
+	now: Date = new Date()
+): ApplicationDraftItem {
+	return {
+		...draft,
+		jobRole,
+		canContinue: jobRole !== null && isAcceptingApplications(jobRole, now),
+	};
+}
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the application status pipeline
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	getAllowedStatusTransitions,
+	isValidStatusTransition,
+	normaliseApplicationStatus,
+} from "./application-status.js";
+
+describe("normaliseApplicationStatus", () => {
+	it("should return known statuses unchanged", () => {
+		expect(normaliseApplicationStatus("pending")).toBe("pending");
+		expect(normaliseApplicationStatus("interview")).toBe("interview");
+	});
+
+	it("should normalise casing, spaces and hyphens", () => {
+		expect(normaliseApplicationStatus("Under Review")).toBe("under_review");
+		expect(normaliseApplicationStatus(" UNDER-REVIEW ")).toBe("under_review");
+	});
+
+	it("should map legacy in progress statuses onto under_review", () => {
+		expect(normaliseApplicationStatus("in progress")).toBe("under_review");
+		expect(normaliseApplicationStatus("in_progress")).toBe("under_review");
+	});
+
+	it("should return null for unknown or missing statuses", () => {
+		expect(normaliseApplicationStatus("archived")).toBeNull();
+		expect(normaliseApplicationStatus("")).toBeNull();
+		expect(normaliseApplicationStatus(undefined)).toBeNull();
+	});
+});
+
+describe("getAllowedStatusTransitions", () => {
+	it("should allow moving pending applications into review or rejecting them", () => {
+		expect(getAllowedStatusTransitions("pending")).toEqual([
+			"under_review",
+			"rejected",
+		]);
+	});
+
+	it("should allow offering or rejecting after interview", () => {
+		expect(getAllowedStatusTransitions("interview")).toEqual([
+			"offered",
+			"rejected",
+		]);
+	});
+
+	it("should return no transitions for terminal statuses", () => {
+		expect(getAllowedStatusTransitions("hired")).toEqual([]);
+		expect(getAllowedStatusTransitions("rejected")).toEqual([]);
+		expect(getAllowedStatusTransitions("withdrawn")).toEqual([]);
+	});
+
+	it("should return no transitions for unknown statuses", () => {
+		expect(getAllowedStatusTransitions("submitted")).toEqual([]);
+	});
+});
+
+describe("isValidStatusTransition", () => {
+	it("should accept each step of the pipeline", () => {
+		expect(isValidStatusTransition("pending", "under_review")).toBe(true);
+		expect(isValidStatusTransition("under_review", "interview")).toBe(true);
+		expect(isValidStatusTransition("interview", "offered")).toBe(true);
+		expect(isValidStatusTransition("offered", "hired")).toBe(true);
+	});
+
+	it("should reject illegal jumps", () => {
+		expect(isValidStatusTransition("pending", "hired")).toBe(false);
+		expect(isValidStatusTransition("pending", "offered")).toBe(false);
+		expect(isValidStatusTransition("under_review", "pending")).toBe(false);
+	});
+
+	it("should reject moves out of terminal statuses", () => {
+		expect(isValidStatusTransition("rejected", "under_review")).toBe(false);
+		expect(isValidStatusTransition("withdrawn", "under_review")).toBe(false);
+	});
+
+	it("should reject unknown target statuses", () => {
+		expect(isValidStatusTransition("pending", "archived")).toBe(false);
+		expect(isValidStatusTransition("pending", undefined)).toBe(false);
+	});
+});
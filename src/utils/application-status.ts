@@ -0,0 +1,103 @@
+/**
+ * Application status pipeline
+ * Defines the statuses an application moves through during hiring and
+ * which transitions between them admins are allowed to make
+ */
+
+export const APPLICATION_STATUSES = [
+	"pending",
+	"under_review",
+	"interview",
+	"offered",
+	"hired",
+	"rejected",
+	"withdrawn",
+] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+/**
+ * Allowed transitions for each status
+ * Terminal statuses (hired, rejected, withdrawn) cannot be moved any further
+ */
+export const APPLICATION_STATUS_TRANSITIONS: Record<
+	ApplicationStatus,
+	readonly ApplicationStatus[]
+> = {
+	pending: ["under_review", "rejected"],
+	under_review: ["interview", "rejected"],
+	interview: ["offered", "rejected"],
+	offered: ["hired", "rejected"],
+	hired: [],
+	rejected: [],
+	withdrawn: [],
+};
+
+/**
+ * Human readable labels for each status
+ */
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+	pending: "Pending",
+	under_review: "Under Review",
+	interview: "Interview",
+	offered: "Offered",
+	hired: "Hired",
+	rejected: "Rejected",
+	withdrawn: "Withdrawn",
+};
+
+/**
+ * Normalises a raw status string from the backend or a form submission
+ * Legacy values such as "in progress" are mapped onto the pipeline
+ * @param status - Raw status value
+ * @returns The matching pipeline status or null if unrecognised
+ */
+export function normaliseApplicationStatus(
+	status: string | undefined
+): ApplicationStatus | null {
+	if (!status || typeof status !== "string") {
+		return null;
+	}
+
+	const normalised = status
+		.trim()
+		.toLowerCase()
+		.replace(/[\s-]+/g, "_");
+
+	if (normalised === "in_progress") {
+		return "under_review";
+	}
+
+	return (APPLICATION_STATUSES as readonly string[]).includes(normalised)
+		? (normalised as ApplicationStatus)
+		: null;
+}
+
+/**
+ * Returns the statuses an application can move to from its current status
+ * @param currentStatus - The application's current status
+ * @returns List of allowed next statuses (empty for terminal or unknown statuses)
+ */
+export function getAllowedStatusTransitions(
+	currentStatus: string | undefined
+): readonly ApplicationStatus[] {
+	const from = normaliseApplicationStatus(currentStatus);
+	return from ? APPLICATION_STATUS_TRANSITIONS[from] : [];
+}
+
+/**
+ * Checks whether moving from one status to another is permitted
+ * @param currentStatus - The application's current status
+ * @param nextStatus - The requested status
+ * @returns True if the transition is allowed by the pipeline
+ */
+export function isValidStatusTransition(
+	currentStatus: string | undefined,
+	nextStatus: string | undefined
+): boolean {
+	const to = normaliseApplicationStatus(nextStatus);
+	if (!to) {
+		return false;
+	}
+	return getAllowedStatusTransitions(currentStatus).includes(to);
+}
@@ -24,12 +24,17 @@ const EMAIL_REGEX =
  * Name validation constants
  */
 const MIN_NAME_LENGTH = 2;
-const MAX_NAME_LENGTH = 100;
+export const MAX_NAME_LENGTH = 100;
+
+/**
+ * Email validation constants
+ */
+export const MAX_EMAIL_LENGTH = 255;
 
 /**
  * Cover letter validation constants
  */
-const MAX_COVER_LETTER_LENGTH = 5000;
+export const MAX_COVER_LETTER_LENGTH = 5000;
 
 /**
  * Validates applicant name
@@ -74,7 +79,7 @@ export function validateApplicantEmail(
 		return "Please provide a valid email address";
 	}
 
-	if (trimmedEmail.length > 255) {
+	if (trimmedEmail.length > MAX_EMAIL_LENGTH) {
 		return "Email address is too long";
 	}
 
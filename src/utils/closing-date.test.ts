@@ -0,0 +1,62 @@
+/**
+ * Unit tests for closing date utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	getDaysUntilClosing,
+	isClosingDatePassed,
+	toLocalDateString,
+} from "./closing-date.js";
+
+describe("toLocalDateString", () => {
+	it("should format dates as YYYY-MM-DD", () => {
+		expect(toLocalDateString(new Date(2025, 0, 5, 23, 59))).toBe("2025-01-05");
+	});
+});
+
+describe("isClosingDatePassed", () => {
+	const now = new Date(2025, 5, 15, 12, 0);
+
+	it("should return false on the closing date itself", () => {
+		expect(isClosingDatePassed("2025-06-15", now)).toBe(false);
+	});
+
+	it("should return true the day after the closing date", () => {
+		expect(isClosingDatePassed("2025-06-14", now)).toBe(true);
+	});
+
+	it("should return false for future closing dates", () => {
+		expect(isClosingDatePassed("2025-12-31", now)).toBe(false);
+	});
+
+	it("should compare the date part of ISO timestamps", () => {
+		expect(isClosingDatePassed("2025-06-14T23:59:59.000Z", now)).toBe(true);
+		expect(isClosingDatePassed("2025-06-15T00:00:00.000Z", now)).toBe(false);
+	});
+
+	it("should return false for missing or invalid dates", () => {
+		expect(isClosingDatePassed(undefined, now)).toBe(false);
+		expect(isClosingDatePassed("", now)).toBe(false);
+		expect(isClosingDatePassed("not a date", now)).toBe(false);
+	});
+});
+
+describe("getDaysUntilClosing", () => {
+	const now = new Date(2025, 5, 15, 23, 0);
+
+	it("should count whole calendar days to the closing date", () => {
+		expect(getDaysUntilClosing("2025-06-15", now)).toBe(0);
+		expect(getDaysUntilClosing("2025-06-16", now)).toBe(1);
+		expect(getDaysUntilClosing("2025-07-15", now)).toBe(30);
+	});
+
+	it("should return a negative number once the date has passed", () => {
+		expect(getDaysUntilClosing("2025-06-13T10:00:00.000Z", now)).toBe(-2);
+	});
+
+	it("should return null for missing or invalid dates", () => {
+		expect(getDaysUntilClosing(undefined, now)).toBeNull();
+		expect(getDaysUntilClosing("2025-13-45", now)).toBeNull();
+	});
+});
@@ -0,0 +1,57 @@
+/**
+ * Closing date utilities
+ * A job role accepts applications up to and including its closing date
+ */
+
+/**
+ * Formats a date as YYYY-MM-DD using the server's local calendar day
+ * @param date The date to format
+ * @returns The local calendar date string
+ */
+export function toLocalDateString(date: Date): string {
+	const year = date.getFullYear();
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${year}-${month}-${day}`;
+}
+
+/**
+ * Checks whether a job role's closing date has passed
+ * Accepts plain dates (2025-12-31) and ISO timestamps, comparing the date part
+ * @param closingDate The job role closing date
+ * @param now The current time (defaults to now)
+ * @returns True once the closing day is over, false for missing or invalid dates
+ */
+export function isClosingDatePassed(
+	closingDate: string | undefined,
+	now: Date = new Date()
+): boolean {
+	const datePart = closingDate?.trim().slice(0, 10) ?? "";
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(datePart)) {
+		return false;
+	}
+	return datePart < toLocalDateString(now);
+}
+
+/**
+ * Counts the calendar days left until a job role's closing date
+ * @param closingDate The job role closing date
+ * @param now The current time (defaults to now)
+ * @returns 0 on the closing day, a negative number once it has passed, or
+ * null for missing or invalid dates
+ */
+export function getDaysUntilClosing(
+	closingDate: string | undefined,
+	now: Date = new Date()
+): number | null {
+	const datePart = closingDate?.trim().slice(0, 10) ?? "";
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(datePart)) {
+		return null;
+	}
+	const closing = Date.parse(`${datePart}T00:00:00Z`);
+	const today = Date.parse(`${toLocalDateString(now)}T00:00:00Z`);
+	if (Number.isNaN(closing)) {
+		return null;
+	}
+	return Math.round((closing - today) / 86_400_000);
+}
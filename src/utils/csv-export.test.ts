@@ -3,11 +3,15 @@
  */
 
 import { describe, expect, it } from "vitest";
+import type { ApplicantDisplay } from "../models/applicant-display.js";
 import type { JobRoleResponse } from "../models/job-role-response.js";
 import {
+	applicantsToCsv,
 	escapeCsvField,
+	formatExportDate,
 	generateCsvFilename,
 	jobRolesToCsv,
+	neutraliseCsvFormula,
 } from "./csv-export.js";
 
 describe("escapeCsvField", () => {
@@ -175,6 +179,191 @@ describe("jobRolesToCsv", () => {
 	});
 });
 
+describe("escapeCsvField with a custom delimiter", () => {
+	it("should quote fields containing the delimiter", () => {
+		expect(escapeCsvField("a;b", ";")).toBe('"a;b"');
+		expect(escapeCsvField("a\tb", "\t")).toBe('"a\tb"');
+	});
+
+	it("should not quote commas when another delimiter is used", () => {
+		expect(escapeCsvField("Belfast, Northern Ireland", ";")).toBe(
+			"Belfast, Northern Ireland"
+		);
+	});
+
+	it("should quote carriage returns", () => {
+		expect(escapeCsvField("line\r\nbreak")).toBe('"line\r\nbreak"');
+	});
+});
+
+describe("formatExportDate", () => {
+	it("should leave ISO dates unchanged", () => {
+		expect(formatExportDate("2025-12-31", "iso")).toBe("2025-12-31");
+	});
+
+	it("should format UK, US and long dates", () => {
+		expect(formatExportDate("2025-03-07", "uk")).toBe("07/03/2025");
+		expect(formatExportDate("2025-03-07", "us")).toBe("03/07/2025");
+		expect(formatExportDate("2025-03-07T00:00:00Z", "long")).toBe(
+			"7 March 2025"
+		);
+	});
+
+	it("should return unparseable values unchanged", () => {
+		expect(formatExportDate("next week", "uk")).toBe("next week");
+	});
+});
+
+describe("jobRolesToCsv with export options", () => {
+	const detailedRole = {
+		jobRoleId: 9,
+		roleName: "Data Engineer",
+		location: "Belfast, Northern Ireland",
+		capability: "Analytics",
+		band: "Mid",
+		closingDate: "2025-06-30",
+		status: "Open",
+		numberOfOpenPositions: 3,
+		description: "Build pipelines; own data quality",
+		responsibilities: "Line one\nLine two",
+		jobSpecLink: "https://example.com/spec",
+	};
+
+	it("should only include the requested columns in order", () => {
+		const csv = jobRolesToCsv([detailedRole], {
+			columns: ["roleName", "numberOfOpenPositions", "description"],
+		});
+
+		expect(csv.split("\n")[0]).toBe("Role Name,Open Positions,Description");
+		expect(csv).toContain("Data Engineer,3,Build pipelines; own data quality");
+	});
+
+	it("should use the chosen delimiter and date format", () => {
+		const csv = jobRolesToCsv([detailedRole], {
+			columns: ["roleName", "location", "closingDate", "description"],
+			delimiter: "semicolon",
+			dateFormat: "uk",
+		});
+
+		expect(csv).toBe(
+			[
+				"Role Name;Location;Closing Date;Description",
+				'Data Engineer;Belfast, Northern Ireland;30/06/2025;"Build pipelines; own data quality"',
+			].join("\n")
+		);
+	});
+
+	it("should prefix a UTF-8 BOM when requested", () => {
+		const csv = jobRolesToCsv([detailedRole], { includeBom: true });
+
+		expect(csv.charCodeAt(0)).toBe(0xfeff);
+		expect(csv.slice(1).startsWith("Job Role ID,")).toBe(true);
+	});
+
+	it("should leave detailed columns empty for summary job roles", () => {
+		const summary = {
+			jobRoleId: 9,
+			roleName: "Data Engineer",
+			location: "Remote",
+			capability: "Analytics",
+			band: "Mid",
+			closingDate: "2025-06-30",
+			status: "Open",
+			numberOfOpenPositions: 3,
+		};
+
+		const csv = jobRolesToCsv([summary], {
+			columns: ["jobRoleId", "jobSpecLink"],
+		});
+
+		expect(csv.split("\n")[1]).toBe("9,");
+	});
+
+	it("should stop text fields running as formulas", () => {
+		const csv = jobRolesToCsv(
+			[
+				{
+					...detailedRole,
+					roleName: '=HYPERLINK("http://evil")',
+					description: "@SUM(A1)",
+				},
+			],
+			{ columns: ["roleName", "numberOfOpenPositions", "description"] }
+		);
+
+		expect(csv.split("\n")[1]).toBe(
+			`"'=HYPERLINK(""http://evil"")",3,'@SUM(A1)`
+		);
+	});
+});
+
+describe("applicantsToCsv", () => {
+	const applicants: ApplicantDisplay[] = [
+		{
+			applicationId: 1,
+			applicantName: "Doe, Jane",
+			applicantEmail: "jane@example.com",
+			status: "under_review",
+			submittedAt: "2025-01-01T10:00:00Z",
+			updatedAt: "2025-01-05T09:00:00Z",
+			hasCv: true,
+		},
+		{
+			applicationId: 2,
+			applicantName: "John Smith",
+			applicantEmail: "john@example.com",
+			status: "pending",
+			submittedAt: "2025-01-02T10:00:00Z",
+		},
+	];
+
+	it("should include headers and one row per applicant", () => {
+		const lines = applicantsToCsv(applicants).split("\n");
+
+		expect(lines).toEqual([
+			"Name,Email,Status,Submitted At,Updated At,Has CV",
+			'"Doe, Jane",jane@example.com,under_review,2025-01-01T10:00:00Z,2025-01-05T09:00:00Z,Yes',
+			"John Smith,john@example.com,pending,2025-01-02T10:00:00Z,,No",
+		]);
+	});
+
+	it("should stop applicant-supplied values running as formulas", () => {
+		const lines = applicantsToCsv([
+			{
+				applicationId: 3,
+				applicantName: '=HYPERLINK("http://evil","x")',
+				applicantEmail: "+cmd|' /C calc'!A0@example.com",
+				status: "pending",
+				submittedAt: "2025-01-03T10:00:00Z",
+			},
+		]).split("\n");
+
+		expect(lines[1]).toBe(
+			`"'=HYPERLINK(""http://evil"",""x"")",'+cmd|' /C calc'!A0@example.com,pending,2025-01-03T10:00:00Z,,No`
+		);
+	});
+
+	it("should return only headers when there are no applicants", () => {
+		expect(applicantsToCsv([])).toBe(
+			"Name,Email,Status,Submitted At,Updated At,Has CV"
+		);
+	});
+});
+
+describe("neutraliseCsvFormula", () => {
+	it("should prefix values that start a formula", () => {
+		for (const value of ["=1+1", "+1", "-1", "@SUM(A1)", "\tx", "\rx"]) {
+			expect(neutraliseCsvFormula(value)).toBe(`'${value}`);
+		}
+	});
+
+	it("should leave other values unchanged", () => {
+		expect(neutraliseCsvFormula("Jane Doe")).toBe("Jane Doe");
+		expect(neutraliseCsvFormula("a=b")).toBe("a=b");
+		expect(neutraliseCsvFormula("")).toBe("");
+	});
+});
+
 describe("generateCsvFilename", () => {
 	it("should generate filename with default prefix", () => {
 		const filename = generateCsvFilename();
@@ -192,6 +381,12 @@ describe("generateCsvFilename", () => {
 		expect(filename).toContain(".csv");
 	});
 
+	it("should use a custom extension when provided", () => {
+		const filename = generateCsvFilename("applicants", "xlsx");
+
+		expect(filename).toMatch(/^applicants-\d{4}-\d{2}-\d{2}-\d{6}\.xlsx$/);
+	});
+
 	it("should generate unique filenames for different timestamps", () => {
 		const filename1 = generateCsvFilename();
 		const filename2 = generateCsvFilename();
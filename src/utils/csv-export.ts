@@ -1,26 +1,101 @@
 /**
  * CSV Export Utility
  * Provides functions for converting data to CSV format with proper escaping
- * Supports special character handling and timestamped filenames
+ * Supports special character handling, configurable columns, delimiters and
+ * date formats, and timestamped filenames
  */
 
+import type { ApplicantDisplay } from "../models/applicant-display.js";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type {
+	CsvDelimiterName,
+	ExportDateFormat,
+	JobRoleExportColumn,
+	JobRoleExportOptions,
+} from "../models/job-role-export-options.js";
 import type { JobRoleResponse } from "../models/job-role-response.js";
 
+/**
+ * Column headers for each exportable job role field
+ */
+export const JOB_ROLE_EXPORT_COLUMNS: Record<JobRoleExportColumn, string> = {
+	jobRoleId: "Job Role ID",
+	roleName: "Role Name",
+	location: "Location",
+	capability: "Capability",
+	band: "Band",
+	closingDate: "Closing Date",
+	status: "Status",
+	numberOfOpenPositions: "Open Positions",
+	description: "Description",
+	responsibilities: "Responsibilities",
+	jobSpecLink: "Job Spec Link",
+	publishDate: "Publish Date",
+};
+
+/**
+ * Columns included when no column list is requested
+ */
+export const DEFAULT_JOB_ROLE_EXPORT_COLUMNS: JobRoleExportColumn[] = [
+	"jobRoleId",
+	"roleName",
+	"location",
+	"capability",
+	"band",
+	"closingDate",
+	"status",
+];
+
+/**
+ * Delimiter characters, keyed by the name used in query strings
+ */
+export const CSV_DELIMITERS: Record<CsvDelimiterName, string> = {
+	comma: ",",
+	semicolon: ";",
+	tab: "\t",
+	pipe: "|",
+};
+
+/**
+ * Byte order mark that makes Excel open UTF-8 CSV files correctly
+ */
+export const UTF8_BOM = "\uFEFF";
+
+const MONTH_NAMES = [
+	"January",
+	"February",
+	"March",
+	"April",
+	"May",
+	"June",
+	"July",
+	"August",
+	"September",
+	"October",
+	"November",
+	"December",
+];
+
 /**
  * Escapes a CSV field value
- * - Wraps in quotes if contains comma, quote, or newline
+ * - Wraps in quotes if contains the delimiter, a quote, or a line break
  * - Doubles any existing quotes
  * @param value The value to escape
+ * @param delimiter The delimiter used between fields (default: ",")
  * @returns Escaped CSV field value
  */
-export function escapeCsvField(value: string | number): string {
+export function escapeCsvField(
+	value: string | number,
+	delimiter = ","
+): string {
 	const stringValue = String(value);
 
-	// If field contains comma, quote, or newline, wrap in quotes and double any quotes
+	// If field contains the delimiter, quote, or line break, wrap in quotes and double any quotes
 	if (
-		stringValue.includes(",") ||
+		stringValue.includes(delimiter) ||
 		stringValue.includes('"') ||
-		stringValue.includes("\n")
+		stringValue.includes("\n") ||
+		stringValue.includes("\r")
 	) {
 		return `"${stringValue.replace(/"/g, '""')}"`;
 	}
@@ -28,51 +103,148 @@ export function escapeCsvField(value: string | number): string {
 	return stringValue;
 }
 
+/**
+ * Stops spreadsheet programs running a field as a formula (CSV injection)
+ * Values starting with =, +, -, @, tab or carriage return are prefixed with
+ * an apostrophe, which Excel and Sheets treat as "show as text"
+ * @param value The field value
+ * @returns The value, safe to open in a spreadsheet
+ */
+export function neutraliseCsvFormula(value: string): string {
+	return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Formats a YYYY-MM-DD (or full ISO) date string for export
+ * Values that cannot be parsed are returned unchanged
+ * @param value The date string to format
+ * @param format The target date format
+ * @returns Formatted date string
+ */
+export function formatExportDate(
+	value: string,
+	format: ExportDateFormat
+): string {
+	const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+	if (format === "iso" || !match) {
+		return value;
+	}
+
+	const [, year, month, day] = match;
+	switch (format) {
+		case "uk":
+			return `${day}/${month}/${year}`;
+		case "us":
+			return `${month}/${day}/${year}`;
+		default:
+			return `${Number(day)} ${MONTH_NAMES[Number(month) - 1] ?? month} ${year}`;
+	}
+}
+
 /**
  * Converts an array of job roles to CSV format
- * @param jobRoles Array of job roles to convert
+ * Defaults to the seven summary columns, comma delimited, ISO dates and no BOM
+ * @param jobRoles Array of job roles to convert (detailed fields are optional)
+ * @param options Optional column selection and formatting options
  * @returns CSV string with headers and data rows
  */
-export function jobRolesToCsv(jobRoles: JobRoleResponse[]): string {
-	// Define CSV headers
-	const headers = [
-		"Job Role ID",
-		"Role Name",
-		"Location",
-		"Capability",
-		"Band",
-		"Closing Date",
-		"Status",
-	];
+export function jobRolesToCsv(
+	jobRoles: Array<JobRoleResponse & Partial<JobRoleDetailedResponse>>,
+	options: Partial<JobRoleExportOptions> = {}
+): string {
+	const columns =
+		options.columns && options.columns.length > 0
+			? options.columns
+			: DEFAULT_JOB_ROLE_EXPORT_COLUMNS;
+	const delimiter = CSV_DELIMITERS[options.delimiter ?? "comma"];
+	const dateFormat = options.dateFormat ?? "iso";
+	const escapeField = (value: string | number): string =>
+		escapeCsvField(value, delimiter);
 
 	// Create header row
-	const headerRow = headers.map(escapeCsvField).join(",");
-
-	// Create data rows
-	const dataRows = jobRoles.map((role) => {
-		const fields = [
-			role.jobRoleId,
-			role.roleName,
-			role.location,
-			role.capability,
-			role.band,
-			role.closingDate,
-			role.status,
-		];
-
-		return fields.map(escapeCsvField).join(",");
-	});
+	const headerRow = columns
+		.map((column) => escapeField(JOB_ROLE_EXPORT_COLUMNS[column]))
+		.join(delimiter);
+
+	// Create data rows; text fields are neutralised as role details are typed
+	// in by admins or imported from CSV files
+	const dataRows = jobRoles.map((role) =>
+		columns
+			.map((column) => {
+				const value = role[column] ?? "";
+				if (column === "closingDate" || column === "publishDate") {
+					return escapeField(formatExportDate(String(value), dateFormat));
+				}
+				return escapeField(
+					typeof value === "string" ? neutraliseCsvFormula(value) : value
+				);
+			})
+			.join(delimiter)
+	);
 
 	// Combine header and data rows
+	const csv = [headerRow, ...dataRows].join("\n");
+	return options.includeBom ? `${UTF8_BOM}${csv}` : csv;
+}
+
+/**
+ * Column headers for applicant exports (shared by CSV and XLSX)
+ */
+export const APPLICANT_EXPORT_HEADERS = [
+	"Name",
+	"Email",
+	"Status",
+	"Submitted At",
+	"Updated At",
+	"Has CV",
+];
+
+/**
+ * Converts an applicant to the ordered list of export fields
+ * @param applicant The applicant to convert
+ * @returns Field values matching APPLICANT_EXPORT_HEADERS
+ */
+export function applicantToExportFields(applicant: ApplicantDisplay): string[] {
+	return [
+		applicant.applicantName,
+		applicant.applicantEmail,
+		applicant.status,
+		applicant.submittedAt,
+		applicant.updatedAt ?? "",
+		applicant.hasCv ? "Yes" : "No",
+	];
+}
+
+/**
+ * Converts an array of applicants to CSV format
+ * @param applicants Array of applicants to convert
+ * @returns CSV string with headers and data rows
+ */
+export function applicantsToCsv(applicants: ApplicantDisplay[]): string {
+	const headerRow = APPLICANT_EXPORT_HEADERS.map((header) =>
+		escapeCsvField(header)
+	).join(",");
+	const dataRows = applicants.map((applicant) =>
+		// Names and emails come from the public apply form, so they can't be
+		// trusted not to contain formulas
+		applicantToExportFields(applicant)
+			.map((field) => escapeCsvField(neutraliseCsvFormula(field)))
+			.join(",")
+	);
+
 	return [headerRow, ...dataRows].join("\n");
 }
 
 /**
  * Generates a timestamp-based filename for CSV export
  * @param prefix Optional prefix for the filename (default: "job-roles")
+ * @param extension Optional file extension (default: "csv"), e.g. "xlsx" for spreadsheet exports
  * @returns Filename string in format: prefix-YYYY-MM-DD-HHMMSS.csv
  */
-export function generateCsvFilename(prefix = "job-roles"): string {
+export function generateCsvFilename(
+	prefix = "job-roles",
+	extension = "csv"
+): string {
 	const now = new Date();
 	const timestamp = now
 		.toISOString()
@@ -81,5 +253,5 @@ export function generateCsvFilename(prefix = "job-roles"): string {
 		.replace(/\..+/, "")
 		.substring(0, 17); // YYYY-MM-DD-HHMMSS
 
-	return `${prefix}-${timestamp}.csv`;
+	return `${prefix}-${timestamp}.${extension}`;
 }
@@ -0,0 +1,209 @@
+/**
+ * Unit tests for CSV Import Utility
+ */
+
+import { describe, expect, it } from "vitest";
+import { jobRolesToCsv } from "./csv-export.js";
+import {
+	detectDelimiter,
+	MAX_IMPORT_ROWS,
+	parseCsv,
+	parseCsvRecords,
+	parseJobRoleImportCsv,
+} from "./csv-import.js";
+
+const HEADER =
+	"Role Name,Description,Responsibilities,Job Spec Link,Location,Capability,Band,Closing Date,Status,Open Positions";
+
+describe("detectDelimiter", () => {
+	it("should detect the most common delimiter in the header", () => {
+		expect(detectDelimiter("a,b,c")).toBe(",");
+		expect(detectDelimiter("a;b;c")).toBe(";");
+		expect(detectDelimiter("a\tb\tc")).toBe("\t");
+		expect(detectDelimiter("a|b|c")).toBe("|");
+	});
+
+	it("should default to a comma", () => {
+		expect(detectDelimiter("single")).toBe(",");
+	});
+});
+
+describe("parseCsv", () => {
+	it("should parse simple rows", () => {
+		expect(parseCsv("a,b\n1,2\n")).toEqual([
+			["a", "b"],
+			["1", "2"],
+		]);
+	});
+
+	it("should handle quoted fields with commas, quotes and line breaks", () => {
+		expect(
+			parseCsv('name,notes\r\n"Doe, Jane","Said ""hi""\nthen left"')
+		).toEqual([
+			["name", "notes"],
+			["Doe, Jane", 'Said "hi"\nthen left'],
+		]);
+	});
+
+	it("should strip a leading byte order mark", () => {
+		expect(parseCsv("\uFEFFa;b\n1;2")).toEqual([
+			["a", "b"],
+			["1", "2"],
+		]);
+	});
+
+	it("should keep empty trailing fields", () => {
+		expect(parseCsv("a,b,c\n1,,")).toEqual([
+			["a", "b", "c"],
+			["1", "", ""],
+		]);
+	});
+});
+
+describe("parseCsvRecords", () => {
+	it("should note the line each record starts on", () => {
+		expect(parseCsvRecords('a,b\n"x\ny",1\n\nz,2')).toEqual([
+			{ fields: ["a", "b"], lineNumber: 1 },
+			{ fields: ["x\ny", "1"], lineNumber: 2 },
+			{ fields: [""], lineNumber: 4 },
+			{ fields: ["z", "2"], lineNumber: 5 },
+		]);
+	});
+});
+
+describe("parseJobRoleImportCsv", () => {
+	it("should map export headers to validator fields", () => {
+		const result = parseJobRoleImportCsv(
+			`${HEADER}\nData Engineer,Build data pipelines,Own data quality end to end,https://example.com/spec,"Belfast, Northern Ireland",Analytics,Mid,2030-01-31,Open,3`
+		);
+
+		expect(result.error).toBeUndefined();
+		expect(result.rows).toEqual([
+			{
+				rowNumber: 2,
+				data: {
+					roleName: "Data Engineer",
+					description: "Build data pipelines",
+					responsibilities: "Own data quality end to end",
+					jobSpecLink: "https://example.com/spec",
+					location: "Belfast, Northern Ireland",
+					capability: "Analytics",
+					band: "Mid",
+					closingDate: "2030-01-31",
+					status: "Open",
+					numberOfOpenPositions: "3",
+				},
+			},
+		]);
+	});
+
+	it("should accept files produced by the job role export", () => {
+		const csv = jobRolesToCsv(
+			[
+				{
+					jobRoleId: 4,
+					roleName: "Tester",
+					location: "Remote",
+					capability: "Testing",
+					band: "Junior",
+					closingDate: "2030-05-01",
+					status: "Open",
+					numberOfOpenPositions: 2,
+					description: "Tests the product",
+					responsibilities: "Writes test plans",
+					jobSpecLink: "https://example.com/tester",
+				},
+			],
+			{
+				columns: [
+					"jobRoleId",
+					"roleName",
+					"location",
+					"capability",
+					"band",
+					"closingDate",
+					"status",
+					"numberOfOpenPositions",
+					"description",
+					"responsibilities",
+					"jobSpecLink",
+				],
+				delimiter: "semicolon",
+				includeBom: true,
+			}
+		);
+
+		const result = parseJobRoleImportCsv(csv);
+
+		expect(result.error).toBeUndefined();
+		expect(result.rows[0]?.data).toMatchObject({
+			roleName: "Tester",
+			numberOfOpenPositions: "2",
+			jobSpecLink: "https://example.com/tester",
+		});
+	});
+
+	it("should accept field names as headers and default optional columns", () => {
+		const result = parseJobRoleImportCsv(
+			"roleName,description,responsibilities,jobSpecLink,location,capability,band,closingDate\nQA Lead,Leads the QA team,Sets the test strategy,https://example.com/qa,Remote,Quality Assurance,Senior,2030-02-01"
+		);
+
+		expect(result.rows[0]?.data.status).toBe("Open");
+		expect(result.rows[0]?.data.numberOfOpenPositions).toBe("1");
+	});
+
+	it("should keep blank status values so validation can report them", () => {
+		const result = parseJobRoleImportCsv(
+			`${HEADER}\nQA Lead,Leads the QA team,Sets the test strategy,https://example.com/qa,Remote,Quality Assurance,Senior,2030-02-01,,`
+		);
+
+		expect(result.rows[0]?.data.status).toBe("");
+		expect(result.rows[0]?.data.numberOfOpenPositions).toBe("1");
+	});
+
+	it("should skip blank lines while keeping file line numbers", () => {
+		const result = parseJobRoleImportCsv(
+			`${HEADER}\n\nA,B,C,D,E,F,G,H,Open,1\n,,,,,,,,,\nI,J,K,L,M,N,O,P,Open,1`
+		);
+
+		expect(result.rows.map((row) => row.rowNumber)).toEqual([3, 5]);
+	});
+
+	it("should report the line a row starts on when fields span lines", () => {
+		const result = parseJobRoleImportCsv(
+			`${HEADER}\r\nA,"Line one\r\nline two",C,D,E,F,G,H,Open,1\r\nI,J,"K\nL\nM",L,M,N,O,P,Open,1\r\nQ,R,S,T,U,V,W,X,Open,1`
+		);
+
+		expect(result.rows.map((row) => row.rowNumber)).toEqual([2, 4, 7]);
+	});
+
+	it("should report missing required columns", () => {
+		const result = parseJobRoleImportCsv(
+			"Role Name,Location,Capability,Band,Closing Date,Status\nA,B,C,D,E,Open"
+		);
+
+		expect(result.error).toBe(
+			"Missing required column(s): Description, Responsibilities, Job Spec Link"
+		);
+	});
+
+	it("should reject empty files", () => {
+		expect(parseJobRoleImportCsv("").error).toBe("The CSV file is empty.");
+		expect(parseJobRoleImportCsv(`${HEADER}\n`).error).toBe(
+			"The CSV file does not contain any job roles."
+		);
+	});
+
+	it("should reject files with too many rows", () => {
+		const rows = Array.from(
+			{ length: MAX_IMPORT_ROWS + 1 },
+			() => "A,B,C,D,E,F,G,H,Open,1"
+		);
+
+		const result = parseJobRoleImportCsv([HEADER, ...rows].join("\n"));
+
+		expect(result.error).toBe(
+			`Too many rows. A single import can contain at most ${MAX_IMPORT_ROWS} job roles.`
+		);
+	});
+});
@@ -0,0 +1,250 @@
+/**
+ * CSV Import Utility
+ * Parses job role CSV files in the layout produced by the job role export
+ * (plus description, responsibilities and job spec link columns)
+ */
+
+import type { JobRoleExportColumn } from "../models/job-role-export-options.js";
+import { CSV_DELIMITERS, JOB_ROLE_EXPORT_COLUMNS } from "./csv-export.js";
+import type { JobRoleData } from "./job-role-validator.js";
+
+/**
+ * Maximum number of data rows accepted in a single import
+ */
+export const MAX_IMPORT_ROWS = 200;
+
+/**
+ * Columns that must be present in an import file
+ * Status and number of open positions default to "Open" and "1" when absent
+ */
+export const REQUIRED_IMPORT_COLUMNS: JobRoleExportColumn[] = [
+	"roleName",
+	"description",
+	"responsibilities",
+	"jobSpecLink",
+	"location",
+	"capability",
+	"band",
+	"closingDate",
+];
+
+/**
+ * A single data row from an import file
+ * rowNumber is the line of the file the row starts on (the header is line 1),
+ * which is also the spreadsheet row unless an earlier field spans lines
+ */
+export interface JobRoleImportRow {
+	rowNumber: number;
+	data: JobRoleData;
+}
+
+/**
+ * Result of parsing an import file
+ */
+export interface JobRoleImportParseResult {
+	rows: JobRoleImportRow[];
+	error?: string;
+}
+
+/**
+ * Picks the delimiter that appears most often in the header line
+ * @param headerLine The first line of the file
+ * @returns The detected delimiter character (comma if none are found)
+ */
+export function detectDelimiter(headerLine: string): string {
+	let best = ",";
+	let bestCount = 0;
+	for (const delimiter of Object.values(CSV_DELIMITERS)) {
+		const count = headerLine.split(delimiter).length - 1;
+		if (count > bestCount) {
+			best = delimiter;
+			bestCount = count;
+		}
+	}
+	return best;
+}
+
+/**
+ * A CSV record and the line of the file it starts on
+ */
+export interface CsvRecord {
+	fields: string[];
+	lineNumber: number;
+}
+
+/**
+ * Parses CSV text into rows of fields
+ * Handles quoted fields, doubled quotes, embedded line breaks, CRLF line
+ * endings and a leading UTF-8 byte order mark
+ * @param content The CSV text
+ * @param delimiter The field delimiter (detected from the header when omitted)
+ * @returns Array of rows, each an array of field values
+ */
+export function parseCsv(content: string, delimiter?: string): string[][] {
+	return parseCsvRecords(content, delimiter).map((record) => record.fields);
+}
+
+/**
+ * Parses CSV text into records, noting the line each one starts on
+ * Line breaks inside quoted fields are counted, so the line numbers match
+ * what a text editor shows
+ * @param content The CSV text
+ * @param delimiter The field delimiter (detected from the header when omitted)
+ * @returns Array of records with their starting line numbers (1-based)
+ */
+export function parseCsvRecords(
+	content: string,
+	delimiter?: string
+): CsvRecord[] {
+	const text = content.replace(/^\uFEFF/, "");
+	const separator =
+		delimiter ?? detectDelimiter(text.split(/\r?\n/, 1)[0] ?? "");
+	const records: CsvRecord[] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+	let line = 1;
+	let recordLine = 1;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+			line++;
+		}
+
+		if (inQuotes) {
+			if (char === '"') {
+				if (text[i + 1] === '"') {
+					field += '"';
+					i++;
+				} else {
+					inQuotes = false;
+				}
+			} else {
+				field += char;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inQuotes = true;
+		} else if (char === separator) {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") {
+				i++;
+				line++;
+			}
+			row.push(field);
+			records.push({ fields: row, lineNumber: recordLine });
+			row = [];
+			field = "";
+			recordLine = line;
+		} else {
+			field += char;
+		}
+	}
+
+	// Add the final row unless the file ended with a line break
+	if (field !== "" || row.length > 0) {
+		row.push(field);
+		records.push({ fields: row, lineNumber: recordLine });
+	}
+
+	return records;
+}
+
+/**
+ * Maps a header cell to a job role field, accepting either the export
+ * header label ("Role Name") or the field name ("roleName")
+ */
+function headerToColumn(header: string): JobRoleExportColumn | null {
+	const normalised = header.trim().toLowerCase();
+	for (const [column, label] of Object.entries(JOB_ROLE_EXPORT_COLUMNS)) {
+		if (
+			normalised === label.toLowerCase() ||
+			normalised === column.toLowerCase()
+		) {
+			return column as JobRoleExportColumn;
+		}
+	}
+	return null;
+}
+
+/**
+ * Parses a job role import file into validator-ready rows
+ * Unknown columns (including Job Role ID) are ignored and blank lines skipped
+ * @param content The CSV file contents
+ * @returns Parsed rows or an error describing why the file cannot be used
+ */
+export function parseJobRoleImportCsv(
+	content: string
+): JobRoleImportParseResult {
+	const [headerRecord, ...dataRecords] = parseCsvRecords(content);
+	const headerRow = headerRecord?.fields;
+
+	if (!headerRow || headerRow.every((cell) => cell.trim() === "")) {
+		return { rows: [], error: "The CSV file is empty." };
+	}
+
+	const columns = headerRow.map(headerToColumn);
+	const missing = REQUIRED_IMPORT_COLUMNS.filter(
+		(column) => !columns.includes(column)
+	);
+
+	if (missing.length > 0) {
+		return {
+			rows: [],
+			error: `Missing required column(s): ${missing
+				.map((column) => JOB_ROLE_EXPORT_COLUMNS[column])
+				.join(", ")}`,
+		};
+	}
+
+	const rows: JobRoleImportRow[] = [];
+
+	for (const { fields: cells, lineNumber } of dataRecords) {
+		if (cells.every((cell) => cell.trim() === "")) {
+			continue;
+		}
+
+		const values: Partial<Record<JobRoleExportColumn, string>> = {};
+		columns.forEach((column, columnIndex) => {
+			if (column) {
+				values[column] = (cells[columnIndex] ?? "").trim();
+			}
+		});
+
+		rows.push({
+			rowNumber: lineNumber,
+			data: {
+				roleName: values.roleName ?? "",
+				description: values.description ?? "",
+				responsibilities: values.responsibilities ?? "",
+				jobSpecLink: values.jobSpecLink ?? "",
+				location: values.location ?? "",
+				capability: values.capability ?? "",
+				band: values.band ?? "",
+				closingDate: values.closingDate ?? "",
+				status: columns.includes("status") ? (values.status ?? "") : "Open",
+				numberOfOpenPositions: values.numberOfOpenPositions || "1",
+				...(values.publishDate ? { publishDate: values.publishDate } : {}),
+			},
+		});
+	}
+
+	if (rows.length === 0) {
+		return { rows, error: "The CSV file does not contain any job roles." };
+	}
+
+	if (rows.length > MAX_IMPORT_ROWS) {
+		return {
+			rows: [],
+			error: `Too many rows. A single import can contain at most ${MAX_IMPORT_ROWS} job roles.`,
+		};
+	}
+
+	return { rows };
+}
@@ -0,0 +1,288 @@
+/**
+ * Tests for CV File Inspection Utility
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	buildCvContentDisposition,
+	inspectCvFile,
+	sanitiseCvFileName,
+	validateCvFileContent,
+} from "./cv-file-inspection.js";
+import { createZip } from "./xlsx-export.js";
+
+const SECTOR_SIZE = 512;
+const END_OF_CHAIN = 0xfffffffe;
+
+/**
+ * Builds a minimal OLE2 compound file with 512-byte sectors
+ * A WordDocument stream gets an eight-sector File Information Block stream
+ * using the given flags; other entries are written as empty storages
+ */
+function buildOle2(names: string[], fibFlags = 0): Buffer {
+	const header = Buffer.alloc(SECTOR_SIZE);
+	Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(header);
+	header.writeUInt16LE(0x3e, 24);
+	header.writeUInt16LE(3, 26);
+	header.writeUInt16LE(0xfffe, 28);
+	header.writeUInt16LE(9, 30);
+	header.writeUInt16LE(6, 32);
+	header.writeUInt32LE(1, 44); // one FAT sector
+	header.writeUInt32LE(1, 48); // directory in sector 1
+	header.writeUInt32LE(4096, 56);
+	header.writeUInt32LE(END_OF_CHAIN, 60);
+	header.writeUInt32LE(END_OF_CHAIN, 68);
+	header.fill(0xff, 76);
+	header.writeUInt32LE(0, 76); // FAT in sector 0
+
+	const fat = Buffer.alloc(SECTOR_SIZE, 0xff);
+	fat.writeUInt32LE(0xfffffffd, 0);
+	fat.writeUInt32LE(END_OF_CHAIN, 4);
+	for (let sector = 2; sector < 10; sector++) {
+		fat.writeUInt32LE(sector === 9 ? END_OF_CHAIN : sector + 1, sector * 4);
+	}
+
+	const directory = Buffer.alloc(SECTOR_SIZE);
+	["Root Entry", ...names].forEach((name, index) => {
+		const offset = index * 128;
+		const encoded = Buffer.from(`${name}\0`, "utf16le");
+		encoded.copy(directory, offset);
+		directory.writeUInt16LE(encoded.length, offset + 64);
+		directory.writeUInt8(index === 0 ? 5 : 2, offset + 66);
+		directory.writeUInt32LE(
+			name === "WordDocument" ? 2 : END_OF_CHAIN,
+			offset + 116
+		);
+		directory.writeUInt32LE(name === "WordDocument" ? 4096 : 0, offset + 120);
+	});
+
+	const wordDocument = Buffer.alloc(SECTOR_SIZE * 8);
+	wordDocument.writeUInt16LE(0xa5ec, 0);
+	wordDocument.writeUInt16LE(fibFlags, 10);
+
+	return Buffer.concat([header, fat, directory, wordDocument]);
+}
+
+function buildDocx(extraEntries: string[] = []): Buffer {
+	return createZip(
+		["[Content_Types].xml", "word/document.xml", ...extraEntries].map(
+			(name) => ({ name, data: Buffer.from("<xml/>") })
+		)
+	);
+}
+
+function createFile(
+	buffer: Buffer,
+	originalname = "resume.pdf",
+	mimetype = "application/pdf"
+): Express.Multer.File {
+	return {
+		fieldname: "cv",
+		originalname,
+		encoding: "7bit",
+		mimetype,
+		buffer,
+		size: buffer.length,
+		stream: null as never,
+		destination: "",
+		filename: "",
+		path: "",
+	};
+}
+
+const PDF = Buffer.from(
+	"%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n"
+);
+
+describe("CV File Inspection Utility", () => {
+	describe("inspectCvFile", () => {
+		it("should detect PDF documents", () => {
+			expect(inspectCvFile(PDF)).toEqual({
+				type: "pdf",
+				isEncrypted: false,
+				hasActiveContent: false,
+			});
+		});
+
+		it("should allow a byte order mark or whitespace before the PDF header", () => {
+			expect(
+				inspectCvFile(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), PDF]))
+					.type
+			).toBe("pdf");
+			expect(inspectCvFile(Buffer.from(`\r\n  ${PDF.toString()}`)).type).toBe(
+				"pdf"
+			);
+		});
+
+		it("should not accept a PDF header later in the file", () => {
+			const disguised = Buffer.concat([
+				Buffer.from("MZ\x90\x00".padEnd(100, "\x00"), "latin1"),
+				PDF,
+			]);
+
+			expect(disguised.indexOf("%PDF-")).toBe(100);
+			expect(inspectCvFile(disguised).type).toBeNull();
+		});
+
+		it("should flag encrypted PDFs and PDFs with scripts or attachments", () => {
+			const encrypted = Buffer.from(
+				"%PDF-1.6\ntrailer\n<< /Root 1 0 R /Encrypt 5 0 R >>"
+			);
+			expect(inspectCvFile(encrypted).isEncrypted).toBe(true);
+
+			for (const action of [
+				"<< /S /JavaScript /JS (app.alert(1)) >>",
+				"<< /S /Launch /F (cmd.exe) >>",
+				"<< /EmbeddedFiles 4 0 R >>",
+			]) {
+				expect(
+					inspectCvFile(Buffer.from(`%PDF-1.7\n${action}`)).hasActiveContent
+				).toBe(true);
+			}
+		});
+
+		it("should not mistake longer PDF names for active content", () => {
+			expect(
+				inspectCvFile(Buffer.from("%PDF-1.7\n<< /JSON 1 /Encryption 2 >>"))
+			).toEqual({ type: "pdf", isEncrypted: false, hasActiveContent: false });
+		});
+
+		it("should detect Word 97-2003 documents", () => {
+			expect(inspectCvFile(buildOle2(["WordDocument", "1Table"]))).toEqual({
+				type: "doc",
+				isEncrypted: false,
+				hasActiveContent: false,
+			});
+		});
+
+		it("should flag encrypted and macro-enabled Word 97-2003 documents", () => {
+			expect(
+				inspectCvFile(buildOle2(["WordDocument"], 0x0100)).isEncrypted
+			).toBe(true);
+			expect(
+				inspectCvFile(buildOle2(["WordDocument", "Macros", "VBA"]))
+					.hasActiveContent
+			).toBe(true);
+		});
+
+		it("should reject other OLE2 files such as spreadsheets", () => {
+			expect(inspectCvFile(buildOle2(["Workbook"])).type).toBeNull();
+		});
+
+		it("should report password-protected DOCX files as encrypted", () => {
+			expect(
+				inspectCvFile(buildOle2(["EncryptionInfo", "EncryptedPackage"]))
+			).toEqual({ type: "docx", isEncrypted: true, hasActiveContent: false });
+		});
+
+		it("should detect DOCX documents and flag VBA projects", () => {
+			expect(inspectCvFile(buildDocx()).type).toBe("docx");
+			expect(inspectCvFile(buildDocx(["word/vbaProject.bin"]))).toEqual({
+				type: "docx",
+				isEncrypted: false,
+				hasActiveContent: true,
+			});
+		});
+
+		it("should reject ZIP archives that are not Word documents", () => {
+			const zip = createZip([{ name: "payload.exe", data: Buffer.from("MZ") }]);
+			expect(inspectCvFile(zip).type).toBeNull();
+		});
+
+		it("should reject executables and truncated files", () => {
+			expect(inspectCvFile(Buffer.from("MZ\x90\x00 renamed.exe")).type).toBe(
+				null
+			);
+			expect(
+				inspectCvFile(buildOle2(["WordDocument"]).subarray(0, 700)).type
+			).toBe(null);
+			expect(inspectCvFile(Buffer.alloc(0)).type).toBeNull();
+		});
+	});
+
+	describe("validateCvFileContent", () => {
+		it("should reject a renamed executable labelled as a PDF", () => {
+			const result = validateCvFileContent(
+				createFile(Buffer.from("MZ\x90\x00"), "cv.pdf")
+			);
+
+			expect(result.isValid).toBe(false);
+			expect(result.error).toContain("doesn't appear to be a PDF");
+		});
+
+		it("should use the detected type for the forwarded file", () => {
+			const result = validateCvFileContent(
+				createFile(buildDocx(), "../My CV.pdf", "application/pdf")
+			);
+
+			expect(result.isValid).toBe(true);
+			expect(result.file?.originalname).toBe("My CV.docx");
+			expect(result.file?.mimetype).toBe(
+				"application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+			);
+		});
+
+		it("should explain why encrypted and macro-enabled files are rejected", () => {
+			expect(
+				validateCvFileContent(createFile(buildOle2(["WordDocument"], 0x0100)))
+					.error
+			).toContain("Password-protected");
+			expect(
+				validateCvFileContent(createFile(buildDocx(["word/vbaProject.bin"])))
+					.error
+			).toContain("macros");
+		});
+	});
+
+	describe("sanitiseCvFileName", () => {
+		it("should strip directories and unsafe characters", () => {
+			expect(sanitiseCvFileName("C:\\Users\\jo\\..\\cv.pdf", "pdf")).toBe(
+				"cv.pdf"
+			);
+			expect(sanitiseCvFileName('my "cv"\r\n<final>.pdf', "pdf")).toBe(
+				"my _cv_final.pdf"
+			);
+		});
+
+		it("should keep letters from other alphabets", () => {
+			expect(sanitiseCvFileName("Zoë Ó Briain (CV).docx", "docx")).toBe(
+				"Zoë Ó Briain (CV).docx"
+			);
+		});
+
+		it("should replace the extension with the detected one", () => {
+			expect(sanitiseCvFileName("resume.exe", "doc")).toBe("resume.doc");
+		});
+
+		it("should keep a short extension when the format was not recognised", () => {
+			expect(sanitiseCvFileName("My CV.RTF", null)).toBe("My CV.rtf");
+			expect(sanitiseCvFileName('cv.pdf"; x=1', null)).toBe("cv");
+		});
+
+		it("should fall back to a default name and limit the length", () => {
+			expect(sanitiseCvFileName(".pdf", "pdf")).toBe("cv.pdf");
+			expect(sanitiseCvFileName("***.pdf", "pdf")).toBe("cv.pdf");
+			expect(sanitiseCvFileName(`${"a".repeat(300)}.pdf`, "pdf")).toHaveLength(
+				100
+			);
+		});
+	});
+
+	describe("buildCvContentDisposition", () => {
+		it("should send an ASCII name and an RFC 5987 encoded name", () => {
+			expect(
+				buildCvContentDisposition("attachment", "Zoë's CV (final).pdf", "pdf")
+			).toBe(
+				"attachment; filename=\"Zo__s CV (final).pdf\"; filename*=UTF-8''Zo%C3%AB_s%20CV%20%28final%29.pdf"
+			);
+		});
+
+		it("should never let the name break out of the header", () => {
+			expect(
+				buildCvContentDisposition("inline", 'a"\r\nSet-Cookie: x.pdf', "pdf")
+			).toBe(
+				"inline; filename=\"a_Set-Cookie_ x.pdf\"; filename*=UTF-8''a_Set-Cookie_%20x.pdf"
+			);
+		});
+	});
+});
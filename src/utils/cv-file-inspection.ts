@@ -0,0 +1,394 @@
+/**
+ * CV File Inspection Utility
+ * Identifies uploaded CVs from their contents rather than the browser-supplied
+ * MIME type, and rejects documents that are encrypted or carry macros or
+ * other active content
+ */
+
+import { isZipArchive, readZipDirectory } from "./zip-reader.js";
+
+/**
+ * Document formats accepted as CVs
+ */
+export type CvFileType = "pdf" | "doc" | "docx";
+
+/**
+ * MIME type and file extension for each accepted format
+ */
+export const CV_FILE_TYPES: Record<
+	CvFileType,
+	{ mimeType: string; extension: string }
+> = {
+	pdf: { mimeType: "application/pdf", extension: ".pdf" },
+	doc: { mimeType: "application/msword", extension: ".doc" },
+	docx: {
+		mimeType:
+			"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+		extension: ".docx",
+	},
+};
+
+/**
+ * What the inspection found in a file
+ * type is null when the contents are not a PDF, DOC or DOCX document
+ */
+export interface CvFileInspection {
+	type: CvFileType | null;
+	isEncrypted: boolean;
+	hasActiveContent: boolean;
+}
+
+/**
+ * Result of checking an uploaded CV's contents
+ * file is a copy of the upload with a sanitised name and the detected MIME type
+ */
+export interface CvFileContentValidationResult {
+	isValid: boolean;
+	file?: Express.Multer.File;
+	error?: string;
+}
+
+const UNRECOGNISED_FILE_MESSAGE =
+	"Your CV doesn't appear to be a PDF, DOC or DOCX document. Please check the file and try again.";
+const ENCRYPTED_FILE_MESSAGE =
+	"Password-protected or encrypted CVs can't be accepted. Please remove the password and upload the file again.";
+const ACTIVE_CONTENT_MESSAGE =
+	"CVs containing macros, scripts or embedded files can't be accepted. Please save your CV as a standard PDF or Word document and try again.";
+
+/**
+ * Longest sanitised file name kept, including the extension
+ */
+export const MAX_CV_FILE_NAME_LENGTH = 100;
+
+/**
+ * A %PDF- header at the start of the file, after an optional UTF-8 byte
+ * order mark or whitespace
+ * Readers that accept a header later in the file would let other formats
+ * with a PDF tucked inside pass as PDFs
+ */
+const PDF_HEADER_PATTERN = /^(?:\xef\xbb\xbf)?[\t\n\f\r ]*%PDF-/;
+
+/**
+ * Bytes read when looking for the PDF header
+ */
+const PDF_HEADER_SEARCH_LENGTH = 1024;
+
+/**
+ * PDF names that trigger scripts, launch programs or carry attachments
+ */
+const PDF_ACTIVE_CONTENT_PATTERN =
+	/\/(?:JavaScript|JS|Launch|EmbeddedFiles?|RichMedia)(?![A-Za-z0-9])/;
+
+/**
+ * An /Encrypt entry in the trailer or cross-reference stream dictionary
+ */
+const PDF_ENCRYPT_PATTERN = /\/Encrypt(?![A-Za-z0-9])/;
+
+const OLE2_SIGNATURE = Buffer.from([
+	0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1,
+]);
+const OLE2_END_OF_CHAIN = 0xfffffffe;
+const OLE2_HEADER_DIFAT_ENTRIES = 109;
+const OLE2_DIRECTORY_ENTRY_SIZE = 128;
+
+/**
+ * Word binary File Information Block identifier and encryption flags
+ */
+const WORD_FIB_IDENT = 0xa5ec;
+const WORD_FIB_ENCRYPTED_FLAG = 0x0100;
+const WORD_FIB_OBFUSCATED_FLAG = 0x8000;
+
+/**
+ * OLE2 storages and streams that hold VBA macros
+ */
+const OLE2_MACRO_ENTRIES = ["macros", "vba", "_vba_project"];
+
+/**
+ * OLE2 streams that wrap a password-protected Office Open XML document
+ */
+const OLE2_ENCRYPTION_ENTRIES = ["encryptioninfo", "encryptedpackage"];
+
+/**
+ * An entry in an OLE2 compound file directory
+ */
+interface Ole2DirectoryEntry {
+	name: string;
+	startSector: number;
+	size: number;
+}
+
+/**
+ * Identifies a file from its contents and looks for encryption and active
+ * content
+ * @param buffer The file contents
+ * @returns What the file contains
+ */
+export function inspectCvFile(buffer: Buffer): CvFileInspection {
+	if (isPdf(buffer)) {
+		return inspectPdf(buffer);
+	}
+	if (buffer.subarray(0, OLE2_SIGNATURE.length).equals(OLE2_SIGNATURE)) {
+		return inspectOle2(buffer);
+	}
+	if (isZipArchive(buffer)) {
+		return inspectDocx(buffer);
+	}
+	return { type: null, isEncrypted: false, hasActiveContent: false };
+}
+
+/**
+ * Checks an uploaded CV's contents and prepares it for forwarding
+ * The stored MIME type and extension follow the detected format, so a DOCX
+ * uploaded as "cv.pdf" is sent on as "cv.docx"
+ * @param file The uploaded file
+ * @returns The validation result with the file to forward
+ */
+export function validateCvFileContent(
+	file: Express.Multer.File
+): CvFileContentValidationResult {
+	const inspection = inspectCvFile(file.buffer);
+
+	if (!inspection.type) {
+		return { isValid: false, error: UNRECOGNISED_FILE_MESSAGE };
+	}
+	if (inspection.isEncrypted) {
+		return { isValid: false, error: ENCRYPTED_FILE_MESSAGE };
+	}
+	if (inspection.hasActiveContent) {
+		return { isValid: false, error: ACTIVE_CONTENT_MESSAGE };
+	}
+
+	return {
+		isValid: true,
+		file: {
+			...file,
+			originalname: sanitiseCvFileName(file.originalname, inspection.type),
+			mimetype: CV_FILE_TYPES[inspection.type].mimeType,
+		},
+	};
+}
+
+/**
+ * Makes an uploaded file name safe to store and send in headers
+ * Directory parts, control characters and punctuation other than spaces,
+ * dots, hyphens, underscores and brackets are removed, and the extension is
+ * replaced with the one for the detected format
+ * Files in an unrecognised format keep a short alphanumeric extension
+ * @param fileName The browser-supplied file name
+ * @param type The detected format, or null if it was not recognised
+ * @returns The sanitised file name
+ */
+export function sanitiseCvFileName(
+	fileName: string,
+	type: CvFileType | null
+): string {
+	const extension = type
+		? CV_FILE_TYPES[type].extension
+		: (fileName.match(/\.[A-Za-z0-9]{1,10}$/)?.[0].toLowerCase() ?? "");
+	const baseName = (fileName.split(/[\\/]/).pop() ?? "")
+		.normalize("NFC")
+		.replace(/\.[^.]*$/, "")
+		.replace(/[^\p{L}\p{N} ._()-]+/gu, "_")
+		.replace(/\s+/g, " ")
+		.replace(/_{2,}/g, "_")
+		.replace(/^[\s._-]+|[\s._-]+$/g, "")
+		.slice(0, MAX_CV_FILE_NAME_LENGTH - extension.length)
+		.trim();
+
+	return `${baseName || "cv"}${extension}`;
+}
+
+/**
+ * Builds the Content-Disposition header for sending a CV
+ * The name is sanitised, then sent both as a plain ASCII fallback and in
+ * RFC 5987 form so browsers that support it keep accented characters
+ * @param disposition Whether the browser should show or download the file
+ * @param fileName The stored file name
+ * @param type The detected format, or null if it was not recognised
+ * @returns The header value
+ */
+export function buildCvContentDisposition(
+	disposition: "inline" | "attachment",
+	fileName: string,
+	type: CvFileType | null
+): string {
+	const safeName = sanitiseCvFileName(fileName, type);
+	const asciiName = safeName.replace(/[^\x20-\x7e]/g, "_");
+	const encodedName = encodeURIComponent(safeName).replace(
+		/['()*]/g,
+		(char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+	);
+
+	return `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+}
+
+/**
+ * Checks for a %PDF- header at the start of the file
+ */
+function isPdf(buffer: Buffer): boolean {
+	return PDF_HEADER_PATTERN.test(
+		buffer.subarray(0, PDF_HEADER_SEARCH_LENGTH).toString("latin1")
+	);
+}
+
+/**
+ * Looks for encryption and active content in a PDF
+ * Objects inside compressed object streams are not expanded, so this is a
+ * sanity check rather than a full parse; the virus scanner is the backstop
+ */
+function inspectPdf(buffer: Buffer): CvFileInspection {
+	const text = buffer.toString("latin1");
+	return {
+		type: "pdf",
+		isEncrypted: PDF_ENCRYPT_PATTERN.test(text),
+		hasActiveContent: PDF_ACTIVE_CONTENT_PATTERN.test(text),
+	};
+}
+
+/**
+ * Identifies a Word 97-2003 document inside an OLE2 compound file
+ * Password-protected DOCX files are also OLE2 containers, so they are
+ * reported as encrypted DOCX files
+ */
+function inspectOle2(buffer: Buffer): CvFileInspection {
+	const entries = readOle2Directory(buffer);
+	if (!entries) {
+		return { type: null, isEncrypted: false, hasActiveContent: false };
+	}
+
+	const names = entries.map((entry) => entry.name.toLowerCase());
+	if (OLE2_ENCRYPTION_ENTRIES.every((name) => names.includes(name))) {
+		return { type: "docx", isEncrypted: true, hasActiveContent: false };
+	}
+
+	const wordDocument = entries.find(
+		(entry) => entry.name.toLowerCase() === "worddocument"
+	);
+	const fibFlags = wordDocument ? readWordFibFlags(buffer, wordDocument) : null;
+	if (fibFlags === null) {
+		return { type: null, isEncrypted: false, hasActiveContent: false };
+	}
+
+	return {
+		type: "doc",
+		isEncrypted:
+			(fibFlags & (WORD_FIB_ENCRYPTED_FLAG | WORD_FIB_OBFUSCATED_FLAG)) !== 0,
+		hasActiveContent: names.some((name) => OLE2_MACRO_ENTRIES.includes(name)),
+	};
+}
+
+/**
+ * Identifies a Word document inside a ZIP archive and looks for a VBA
+ * project or ActiveX controls, which a renamed .docm would contain
+ */
+function inspectDocx(buffer: Buffer): CvFileInspection {
+	const names = readZipDirectory(buffer)?.map((entry) => entry.name) ?? [];
+	if (
+		!names.includes("[Content_Types].xml") ||
+		!names.includes("word/document.xml")
+	) {
+		return { type: null, isEncrypted: false, hasActiveContent: false };
+	}
+
+	return {
+		type: "docx",
+		isEncrypted: false,
+		hasActiveContent: names.some(
+			(name) =>
+				name.toLowerCase().endsWith("vbaproject.bin") ||
+				name.toLowerCase().startsWith("word/activex/")
+		),
+	};
+}
+
+/**
+ * Reads the directory of an OLE2 compound file
+ * Only the FAT sectors listed in the header are followed, which covers files
+ * up to about 7MB with 512-byte sectors
+ * @returns The directory entries, or null if the file is malformed
+ */
+function readOle2Directory(buffer: Buffer): Ole2DirectoryEntry[] | null {
+	if (buffer.length < 512) {
+		return null;
+	}
+
+	const sectorShift = buffer.readUInt16LE(30);
+	if (sectorShift !== 9 && sectorShift !== 12) {
+		return null;
+	}
+	const sectorSize = 1 << sectorShift;
+
+	const fatSectorCount = Math.min(
+		buffer.readUInt32LE(44),
+		OLE2_HEADER_DIFAT_ENTRIES
+	);
+	const fat: number[] = [];
+	for (let index = 0; index < fatSectorCount; index++) {
+		const sector = buffer.readUInt32LE(76 + index * 4);
+		const offset = (sector + 1) * sectorSize;
+		if (offset + sectorSize > buffer.length) {
+			return null;
+		}
+		for (let entry = 0; entry < sectorSize; entry += 4) {
+			fat.push(buffer.readUInt32LE(offset + entry));
+		}
+	}
+
+	const entries: Ole2DirectoryEntry[] = [];
+	const visited = new Set<number>();
+	let sector = buffer.readUInt32LE(48);
+	while (sector !== OLE2_END_OF_CHAIN) {
+		const offset = (sector + 1) * sectorSize;
+		// Guard against loops and chains that run off the end of the file
+		if (visited.has(sector) || offset + sectorSize > buffer.length) {
+			return null;
+		}
+		visited.add(sector);
+
+		for (
+			let entry = offset;
+			entry < offset + sectorSize;
+			entry += OLE2_DIRECTORY_ENTRY_SIZE
+		) {
+			const nameLength = buffer.readUInt16LE(entry + 64);
+			if (nameLength < 2 || nameLength > 64) {
+				continue;
+			}
+			entries.push({
+				name: buffer.toString("utf16le", entry, entry + nameLength - 2),
+				startSector: buffer.readUInt32LE(entry + 116),
+				size: buffer.readUInt32LE(entry + 120),
+			});
+		}
+
+		const next = fat[sector];
+		if (next === undefined) {
+			return null;
+		}
+		sector = next;
+	}
+
+	return entries;
+}
+
+/**
+ * Reads the flags word from the File Information Block at the start of the
+ * WordDocument stream
+ * Word always writes this stream in regular sectors, as it is far larger than
+ * the 4096-byte mini stream cutoff
+ * @returns The flags, or null if the stream is not a Word document
+ */
+function readWordFibFlags(
+	buffer: Buffer,
+	wordDocument: Ole2DirectoryEntry
+): number | null {
+	const sectorSize = 1 << buffer.readUInt16LE(30);
+	const offset = (wordDocument.startSector + 1) * sectorSize;
+	if (wordDocument.size < 4096 || offset + 12 > buffer.length) {
+		return null;
+	}
+	if (buffer.readUInt16LE(offset) !== WORD_FIB_IDENT) {
+		return null;
+	}
+	return buffer.readUInt16LE(offset + 10);
+}
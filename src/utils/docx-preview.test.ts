@@ -0,0 +1,115 @@
+/**
+ * Tests for DOCX Preview Utility
+ */
+
+import { describe, expect, it } from "vitest";
+import { convertDocumentXmlToHtml, convertDocxToHtml } from "./docx-preview.js";
+import { createZip } from "./xlsx-export.js";
+
+const wrapBody = (body: string) =>
+	`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr/></w:body></w:document>`;
+
+const paragraph = (text: string, properties = "") =>
+	`<w:p>${properties}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+describe("DOCX Preview Utility", () => {
+	describe("convertDocumentXmlToHtml", () => {
+		it("should convert paragraphs, headings and emphasis", () => {
+			const html = convertDocumentXmlToHtml(
+				wrapBody(
+					paragraph("Jane Doe", '<w:pPr><w:pStyle w:val="Title"/></w:pPr>') +
+						paragraph(
+							"Experience",
+							'<w:pPr><w:pStyle w:val="Heading1"/><w:rPr><w:b/></w:rPr></w:pPr>'
+						) +
+						"<w:p><w:r><w:rPr><w:b/><w:i/></w:rPr><w:t>Lead</w:t></w:r><w:r><w:tab/><w:t>2020</w:t><w:br/><w:t>Belfast</w:t></w:r></w:p>" +
+						'<w:p><w:r><w:rPr><w:b w:val="0"/><w:u w:val="single"/></w:rPr><w:t>Plain</w:t></w:r></w:p>'
+				)
+			);
+
+			expect(html).toBe(
+				"<h2>Jane Doe</h2><h3>Experience</h3><p><strong><em>Lead</em></strong> 2020<br>Belfast</p><p><u>Plain</u></p>"
+			);
+		});
+
+		it("should group list items and convert tables", () => {
+			const listProperties =
+				'<w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr>';
+			const html = convertDocumentXmlToHtml(
+				wrapBody(
+					paragraph("Skills") +
+						paragraph("TypeScript", listProperties) +
+						paragraph("Node.js", listProperties) +
+						"<w:tbl><w:tblPr/><w:tr><w:tc><w:tcPr/>" +
+						paragraph("2019") +
+						"</w:tc><w:tc>" +
+						paragraph("Developer") +
+						"</w:tc></w:tr></w:tbl>"
+				)
+			);
+
+			expect(html).toBe(
+				"<p>Skills</p><ul><li>TypeScript</li><li>Node.js</li></ul><table><tbody><tr><td><p>2019</p></td><td><p>Developer</p></td></tr></tbody></table>"
+			);
+		});
+
+		it("should escape text and drop markup from the document", () => {
+			const html = convertDocumentXmlToHtml(
+				wrapBody(
+					paragraph(
+						"&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &#x263A;"
+					) +
+						'<w:p><w:hyperlink r:id="rId1"><w:r><w:t>Portfolio</w:t></w:r></w:hyperlink></w:p>' +
+						'<w:p><w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText>HYPERLINK "javascript:alert(1)"</w:instrText></w:r></w:p>'
+				)
+			);
+
+			expect(html).toBe(
+				"<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; ☺</p><p>Portfolio</p>"
+			);
+		});
+
+		it("should skip fallback copies of text box content", () => {
+			const html = convertDocumentXmlToHtml(
+				wrapBody(
+					"<w:p><w:r><mc:AlternateContent><mc:Choice><w:drawing><w:txbxContent>" +
+						paragraph("Contact details") +
+						"</w:txbxContent></w:drawing></mc:Choice><mc:Fallback><w:pict><w:txbxContent>" +
+						paragraph("Contact details") +
+						"</w:txbxContent></w:pict></mc:Fallback></mc:AlternateContent></w:r><w:r><w:t>Profile</w:t></w:r></w:p>"
+				)
+			);
+
+			expect(html).toBe("<p>Contact details</p><p>Profile</p>");
+		});
+
+		it("should drop empty paragraphs", () => {
+			expect(
+				convertDocumentXmlToHtml(
+					wrapBody("<w:p/><w:p><w:r><w:br/></w:r></w:p>")
+				)
+			).toBe("");
+		});
+	});
+
+	describe("convertDocxToHtml", () => {
+		it("should convert the document body of a DOCX file", () => {
+			const docx = createZip([
+				{ name: "[Content_Types].xml", data: Buffer.from("<Types/>") },
+				{
+					name: "word/document.xml",
+					data: Buffer.from(wrapBody(paragraph("Hello"))),
+				},
+			]);
+
+			expect(convertDocxToHtml(docx)).toBe("<p>Hello</p>");
+		});
+
+		it("should return null when there is no document body", () => {
+			const zip = createZip([{ name: "other.xml", data: Buffer.from("<a/>") }]);
+
+			expect(convertDocxToHtml(zip)).toBeNull();
+			expect(convertDocxToHtml(Buffer.from("%PDF-1.4"))).toBeNull();
+		});
+	});
+});
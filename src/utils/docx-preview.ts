@@ -0,0 +1,346 @@
+/**
+ * DOCX Preview Utility
+ * Converts the body of a Word document into plain HTML so admins can read
+ * CVs in the browser. Only text, basic emphasis, headings, lists and tables
+ * are kept; nothing from the document is passed through as markup, so the
+ * output is safe to embed in a page
+ */
+
+import { escapeXml } from "./xml-escape.js";
+import { readZipEntry } from "./zip-reader.js";
+
+/**
+ * Largest uncompressed word/document.xml converted for a preview
+ */
+export const MAX_DOCX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * A block of converted HTML; list items are grouped into <ul> elements
+ */
+interface HtmlBlock {
+	html: string;
+	isListItem: boolean;
+}
+
+interface ParagraphState {
+	style: string;
+	isListItem: boolean;
+	html: string;
+}
+
+interface RunState {
+	html: string;
+	bold: boolean;
+	italic: boolean;
+	underline: boolean;
+}
+
+interface TableState {
+	rows: string[];
+	cells: string[];
+}
+
+const XML_TOKEN_PATTERN = /<(\/?)([A-Za-z][\w.:-]*)([^>]*)>|([^<]+)/g;
+const XML_VALUE_PATTERN = /\bw:val="([^"]*)"/;
+
+const NAMED_ENTITIES: Record<string, string> = {
+	lt: "<",
+	gt: ">",
+	amp: "&",
+	quot: '"',
+	apos: "'",
+};
+
+/**
+ * Alternate markup for older readers repeats the text of text boxes and
+ * shapes, so it is skipped
+ */
+const SKIPPED_ELEMENTS = ["mc:Fallback"];
+
+/**
+ * Converts a DOCX file to preview HTML
+ * @param buffer The DOCX file contents
+ * @returns The HTML, or null if the document body can't be read
+ */
+export function convertDocxToHtml(buffer: Buffer): string | null {
+	const documentXml = readZipEntry(
+		buffer,
+		"word/document.xml",
+		MAX_DOCX_DOCUMENT_SIZE
+	);
+	if (!documentXml) {
+		return null;
+	}
+	return convertDocumentXmlToHtml(documentXml.toString("utf8"));
+}
+
+/**
+ * Converts the WordprocessingML of word/document.xml to preview HTML
+ * Paragraphs in text boxes are emitted before the paragraph that anchors them
+ * @param xml The document XML
+ * @returns The HTML
+ */
+export function convertDocumentXmlToHtml(xml: string): string {
+	const containers: HtmlBlock[][] = [[]];
+	const paragraphs: ParagraphState[] = [];
+	const runs: RunState[] = [];
+	const tables: TableState[] = [];
+	let inParagraphProperties = false;
+	let inRunProperties = false;
+	let inText = false;
+	let skipDepth = 0;
+
+	for (const token of xml.matchAll(XML_TOKEN_PATTERN)) {
+		const [, closing, name, attributes = "", text] = token;
+		const paragraph = paragraphs.at(-1);
+		const run = runs.at(-1);
+
+		if (text !== undefined) {
+			if (inText && run && skipDepth === 0) {
+				run.html += escapeXml(decodeXmlEntities(text));
+			}
+			continue;
+		}
+
+		const isClosing = closing === "/";
+		const isSelfClosing = attributes.trimEnd().endsWith("/");
+
+		if (skipDepth > 0) {
+			if (isClosing) {
+				skipDepth--;
+			} else if (!isSelfClosing) {
+				skipDepth++;
+			}
+			continue;
+		}
+
+		if (
+			!isClosing &&
+			!isSelfClosing &&
+			name &&
+			SKIPPED_ELEMENTS.includes(name)
+		) {
+			skipDepth = 1;
+			continue;
+		}
+
+		if (isClosing) {
+			switch (name) {
+				case "w:p": {
+					const closed = paragraphs.pop();
+					if (closed) {
+						containers.at(-1)?.push(...paragraphToBlocks(closed));
+					}
+					break;
+				}
+				case "w:r": {
+					const closed = runs.pop();
+					if (closed && paragraph) {
+						paragraph.html += formatRun(closed);
+					}
+					break;
+				}
+				case "w:t":
+					inText = false;
+					break;
+				case "w:pPr":
+					inParagraphProperties = false;
+					break;
+				case "w:rPr":
+					inRunProperties = false;
+					break;
+				case "w:tc": {
+					const cell = containers.length > 1 ? containers.pop() : undefined;
+					if (cell) {
+						tables.at(-1)?.cells.push(`<td>${joinBlocks(cell)}</td>`);
+					}
+					break;
+				}
+				case "w:tr": {
+					const table = tables.at(-1);
+					if (table) {
+						table.rows.push(`<tr>${table.cells.join("")}</tr>`);
+						table.cells = [];
+					}
+					break;
+				}
+				case "w:tbl": {
+					const table = tables.pop();
+					if (table && table.rows.length > 0) {
+						containers.at(-1)?.push({
+							html: `<table><tbody>${table.rows.join("")}</tbody></table>`,
+							isListItem: false,
+						});
+					}
+					break;
+				}
+			}
+			continue;
+		}
+
+		switch (name) {
+			case "w:p":
+				if (!isSelfClosing) {
+					paragraphs.push({ style: "", isListItem: false, html: "" });
+				}
+				break;
+			case "w:pPr":
+				inParagraphProperties = !isSelfClosing;
+				break;
+			case "w:pStyle":
+				if (inParagraphProperties && paragraph) {
+					paragraph.style = XML_VALUE_PATTERN.exec(attributes)?.[1] ?? "";
+				}
+				break;
+			case "w:numPr":
+				if (inParagraphProperties && paragraph) {
+					paragraph.isListItem = true;
+				}
+				break;
+			case "w:r":
+				if (!isSelfClosing) {
+					runs.push({ html: "", bold: false, italic: false, underline: false });
+				}
+				break;
+			case "w:rPr":
+				inRunProperties = !isSelfClosing && run !== undefined;
+				break;
+			case "w:b":
+				if (inRunProperties && run) {
+					run.bold = isToggleOn(attributes);
+				}
+				break;
+			case "w:i":
+				if (inRunProperties && run) {
+					run.italic = isToggleOn(attributes);
+				}
+				break;
+			case "w:u":
+				if (inRunProperties && run) {
+					run.underline = XML_VALUE_PATTERN.exec(attributes)?.[1] !== "none";
+				}
+				break;
+			case "w:t":
+				inText = !isSelfClosing;
+				break;
+			case "w:tab":
+				if (run && !inParagraphProperties) {
+					run.html += " ";
+				}
+				break;
+			case "w:br":
+			case "w:cr":
+				if (run) {
+					run.html += "<br>";
+				}
+				break;
+			case "w:tbl":
+				tables.push({ rows: [], cells: [] });
+				break;
+			case "w:tc":
+				if (!isSelfClosing && tables.length > 0) {
+					containers.push([]);
+				}
+				break;
+		}
+	}
+
+	return joinBlocks(containers[0] ?? []);
+}
+
+/**
+ * Turns a finished paragraph into a heading, list item or paragraph
+ * Empty paragraphs, which Word uses for spacing, are dropped
+ */
+function paragraphToBlocks(paragraph: ParagraphState): HtmlBlock[] {
+	if (!paragraph.html.replace(/<br>/g, "").trim()) {
+		return [];
+	}
+
+	const heading = getHeadingTag(paragraph.style);
+	if (heading) {
+		return [
+			{ html: `<${heading}>${paragraph.html}</${heading}>`, isListItem: false },
+		];
+	}
+	if (paragraph.isListItem || /^ListParagraph$/i.test(paragraph.style)) {
+		return [{ html: `<li>${paragraph.html}</li>`, isListItem: true }];
+	}
+	return [{ html: `<p>${paragraph.html}</p>`, isListItem: false }];
+}
+
+/**
+ * Maps Word's built-in title and heading styles to heading elements
+ * The page already has an <h1>, so a document title becomes an <h2>
+ */
+function getHeadingTag(style: string): string | null {
+	if (/^Title$/i.test(style)) {
+		return "h2";
+	}
+	const level = /^Heading\s?([1-9])$/i.exec(style)?.[1];
+	return level ? `h${Math.min(Number(level) + 2, 6)}` : null;
+}
+
+/**
+ * Wraps a run's text in the emphasis elements for its formatting
+ */
+function formatRun(run: RunState): string {
+	if (!run.html) {
+		return "";
+	}
+	let html = run.html;
+	if (run.underline) {
+		html = `<u>${html}</u>`;
+	}
+	if (run.italic) {
+		html = `<em>${html}</em>`;
+	}
+	if (run.bold) {
+		html = `<strong>${html}</strong>`;
+	}
+	return html;
+}
+
+/**
+ * Joins blocks, grouping consecutive list items into a single list
+ */
+function joinBlocks(blocks: HtmlBlock[]): string {
+	let html = "";
+	let inList = false;
+	for (const block of blocks) {
+		if (block.isListItem !== inList) {
+			html += block.isListItem ? "<ul>" : "</ul>";
+			inList = block.isListItem;
+		}
+		html += block.html;
+	}
+	return inList ? `${html}</ul>` : html;
+}
+
+/**
+ * Reads an on/off property such as <w:b/> or <w:b w:val="false"/>
+ */
+function isToggleOn(attributes: string): boolean {
+	const value = XML_VALUE_PATTERN.exec(attributes)?.[1];
+	return value === undefined || !["0", "false", "off"].includes(value);
+}
+
+/**
+ * Decodes the predefined XML entities and character references
+ */
+function decodeXmlEntities(text: string): string {
+	return text.replace(
+		/&(?:#x([0-9a-fA-F]+)|#(\d+)|(lt|gt|amp|quot|apos));/g,
+		(_match, hex: string | undefined, decimal: string | undefined, named) => {
+			if (named) {
+				return NAMED_ENTITIES[named as string] ?? "";
+			}
+			const codePoint = hex
+				? Number.parseInt(hex, 16)
+				: Number.parseInt(decimal ?? "", 10);
+			return codePoint > 0 && codePoint <= 0x10ffff
+				? String.fromCodePoint(codePoint)
+				: "";
+		}
+	);
+}
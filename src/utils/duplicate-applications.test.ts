@@ -0,0 +1,92 @@
+/**
+ * Tests for duplicate application utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { ApplicationResponse } from "../models/application-request.js";
+import {
+	countDuplicateApplications,
+	findActiveApplication,
+	isActiveApplication,
+} from "./duplicate-applications.js";
+
+describe("duplicate application utilities", () => {
+	const application = (
+		applicationId: number,
+		overrides: Partial<ApplicationResponse> = {}
+	): ApplicationResponse => ({
+		applicationId,
+		jobRoleId: 4,
+		applicantName: "Jane Doe",
+		applicantEmail: "jane@example.com",
+		status: "pending",
+		submittedAt: `2030-01-0${applicationId}T10:00:00Z`,
+		...overrides,
+	});
+
+	describe("isActiveApplication", () => {
+		it("should treat every status except withdrawn as active", () => {
+			expect(isActiveApplication("pending")).toBe(true);
+			expect(isActiveApplication("rejected")).toBe(true);
+			expect(isActiveApplication("Withdrawn")).toBe(false);
+		});
+	});
+
+	describe("findActiveApplication", () => {
+		it("should find the latest active application for the role", () => {
+			const result = findActiveApplication(
+				[
+					application(1),
+					application(2, { status: "under_review" }),
+					application(3, { status: "withdrawn" }),
+					application(4, { jobRoleId: 5 }),
+				],
+				4,
+				"jane@example.com"
+			);
+
+			expect(result?.applicationId).toBe(2);
+		});
+
+		it("should compare email addresses case-insensitively", () => {
+			expect(
+				findActiveApplication([application(1)], 4, " Jane@Example.com ")
+			).not.toBeNull();
+		});
+
+		it("should ignore withdrawn applications and other candidates", () => {
+			expect(
+				findActiveApplication(
+					[
+						application(1, { status: "withdrawn" }),
+						application(2, { applicantEmail: "john@example.com" }),
+					],
+					4,
+					"jane@example.com"
+				)
+			).toBeNull();
+		});
+	});
+
+	describe("countDuplicateApplications", () => {
+		it("should flag active applications that share an email address", () => {
+			expect(
+				countDuplicateApplications([
+					application(1),
+					application(2, { applicantEmail: "JANE@example.com" }),
+					application(3, { status: "withdrawn" }),
+					application(4, { applicantEmail: "john@example.com" }),
+				])
+			).toEqual({ 1: 2, 2: 2 });
+		});
+
+		it("should return no flags when every candidate applied once", () => {
+			expect(
+				countDuplicateApplications([
+					application(1),
+					application(2, { applicantEmail: "john@example.com" }),
+				])
+			).toEqual({});
+		});
+	});
+});
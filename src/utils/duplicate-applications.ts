@@ -0,0 +1,86 @@
+/**
+ * Duplicate application utilities
+ * A candidate should have at most one active application per job role;
+ * withdrawn applications do not count, so candidates can apply again
+ */
+
+import type { ApplicantDisplay } from "../models/applicant-display.js";
+import type { ApplicationResponse } from "../models/application-request.js";
+import { normaliseApplicationStatus } from "./application-status.js";
+
+/**
+ * Normalises an email address for comparison
+ * @param email The email address
+ * @returns The trimmed, lower-case address
+ */
+export function normaliseApplicantEmail(email: string | undefined): string {
+	return (email ?? "").trim().toLowerCase();
+}
+
+/**
+ * Checks whether an application still counts towards the one-per-role limit
+ * @param status The application status
+ */
+export function isActiveApplication(status: string | undefined): boolean {
+	return normaliseApplicationStatus(status) !== "withdrawn";
+}
+
+/**
+ * Finds a candidate's active application for a job role
+ * @param applications The candidate's applications
+ * @param jobRoleId The job role ID
+ * @param applicantEmail The email address being used to apply
+ * @returns The most recently submitted active application, or null if none
+ */
+export function findActiveApplication(
+	applications: ApplicationResponse[],
+	jobRoleId: number,
+	applicantEmail: string
+): ApplicationResponse | null {
+	const email = normaliseApplicantEmail(applicantEmail);
+	const matches = applications
+		.filter(
+			(application) =>
+				application.jobRoleId === jobRoleId &&
+				normaliseApplicantEmail(application.applicantEmail) === email &&
+				isActiveApplication(application.status)
+		)
+		.sort(
+			(a, b) =>
+				new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime()
+		);
+
+	return matches[0] ?? null;
+}
+
+/**
+ * Counts the active applications that share an email address
+ * @param applicants Every applicant for a job role
+ * @returns The number of active applications from the same email, keyed by
+ * application ID, for applications that have at least one duplicate
+ */
+export function countDuplicateApplications(
+	applicants: Pick<
+		ApplicantDisplay,
+		"applicationId" | "applicantEmail" | "status"
+	>[]
+): Record<number, number> {
+	const active = applicants.filter((applicant) =>
+		isActiveApplication(applicant.status)
+	);
+	const countsByEmail = new Map<string, number>();
+	for (const applicant of active) {
+		const email = normaliseApplicantEmail(applicant.applicantEmail);
+		countsByEmail.set(email, (countsByEmail.get(email) ?? 0) + 1);
+	}
+
+	const duplicates: Record<number, number> = {};
+	for (const applicant of active) {
+		const count =
+			countsByEmail.get(normaliseApplicantEmail(applicant.applicantEmail)) ?? 0;
+		if (count > 1) {
+			duplicates[applicant.applicationId] = count;
+		}
+	}
+	return duplicates;
+}
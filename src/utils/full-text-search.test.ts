@@ -0,0 +1,163 @@
+/**
+ * Unit tests for full-text search utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import {
+	buildSearchSnippet,
+	getSearchTerms,
+	highlightSearchTerms,
+	MAX_SEARCH_TERMS,
+	paginateSearchResults,
+	parseJobRoleSearchMode,
+	rankJobRolesByText,
+	scoreJobRole,
+} from "./full-text-search.js";
+
+const jobRole = (
+	jobRoleId: number,
+	roleName: string,
+	description = "",
+	responsibilities = ""
+): JobRoleDetailedResponse => ({
+	jobRoleId,
+	roleName,
+	description,
+	responsibilities,
+	jobSpecLink: "",
+	location: "Belfast",
+	capability: "Engineering",
+	band: "Mid",
+	closingDate: "2099-12-31",
+	status: "Open",
+	numberOfOpenPositions: 1,
+});
+
+describe("parseJobRoleSearchMode", () => {
+	it("should only enable full-text search when asked", () => {
+		expect(parseJobRoleSearchMode("fulltext")).toBe("fulltext");
+		expect(parseJobRoleSearchMode("title")).toBe("title");
+		expect(parseJobRoleSearchMode(["fulltext"])).toBe("title");
+		expect(parseJobRoleSearchMode(undefined)).toBe("title");
+	});
+});
+
+describe("getSearchTerms", () => {
+	it("should split, lower-case and de-duplicate terms", () => {
+		expect(getSearchTerms("  Data  ENGINEER data ")).toEqual([
+			"data",
+			"engineer",
+		]);
+	});
+
+	it("should limit the number of terms", () => {
+		const query = Array.from({ length: 20 }, (_, i) => `t${i}`).join(" ");
+		expect(getSearchTerms(query)).toHaveLength(MAX_SEARCH_TERMS);
+		expect(getSearchTerms(undefined)).toEqual([]);
+	});
+});
+
+describe("scoreJobRole", () => {
+	it("should require every term to match somewhere", () => {
+		const role = jobRole(1, "Data Engineer", "Build pipelines");
+
+		expect(scoreJobRole(role, ["data", "pipelines"])).toEqual({
+			relevance: 103,
+			matchedFields: ["roleName", "description"],
+		});
+		expect(scoreJobRole(role, ["data", "kubernetes"])).toBeNull();
+		expect(scoreJobRole(role, [])).toBeNull();
+	});
+});
+
+describe("rankJobRolesByText", () => {
+	const roles = [
+		jobRole(1, "Test Analyst", "Works with python tooling"),
+		jobRole(2, "Python Developer"),
+		jobRole(3, "Delivery Manager", "", "Python, python and more python"),
+		jobRole(4, "Product Owner", "Owns the roadmap"),
+	];
+
+	it("should rank title matches before description and responsibility matches", () => {
+		expect(
+			rankJobRolesByText(roles, "python").map((result) => result.jobRoleId)
+		).toEqual([2, 1, 3]);
+	});
+
+	it("should describe where each role matched with a snippet for body matches", () => {
+		const [title, description] = rankJobRolesByText(roles, "python");
+
+		expect(title).toMatchObject({ matchedFields: ["roleName"] });
+		expect(title).not.toHaveProperty("snippet");
+		expect(title).not.toHaveProperty("description");
+		expect(description).toMatchObject({
+			matchedFields: ["description"],
+			snippet: "Works with python tooling",
+		});
+	});
+});
+
+describe("buildSearchSnippet", () => {
+	it("should cut long text around the first match", () => {
+		const text = `${"a ".repeat(100)}needle${" b".repeat(100)}`;
+		const snippet = buildSearchSnippet(text, ["needle"]);
+
+		expect(snippet?.startsWith("…")).toBe(true);
+		expect(snippet?.endsWith("…")).toBe(true);
+		expect(snippet).toContain("needle");
+	});
+
+	it("should return undefined when nothing matches", () => {
+		expect(buildSearchSnippet("nothing here", ["needle"])).toBeUndefined();
+	});
+});
+
+describe("paginateSearchResults", () => {
+	it("should return the requested page with metadata", () => {
+		expect(paginateSearchResults([1, 2, 3, 4, 5], 2, 2)).toEqual({
+			data: [3, 4],
+			pagination: {
+				currentPage: 2,
+				totalPages: 3,
+				totalCount: 5,
+				limit: 2,
+				hasNext: true,
+				hasPrevious: true,
+			},
+		});
+	});
+});
+
+describe("highlightSearchTerms", () => {
+	it("should split text into matching and non-matching parts", () => {
+		expect(highlightSearchTerms("Senior Data Engineer", ["data"])).toEqual([
+			{ text: "Senior ", match: false },
+			{ text: "Data", match: true },
+			{ text: " Engineer", match: false },
+		]);
+	});
+
+	it("should prefer the longest term and keep the original case", () => {
+		expect(
+			highlightSearchTerms("ENGINEERING", ["engineer", "engineering"])
+		).toEqual([{ text: "ENGINEERING", match: true }]);
+	});
+
+	it("should keep markup as plain text for the view to escape", () => {
+		expect(highlightSearchTerms("<script>x</script>", ["script"])).toEqual([
+			{ text: "<", match: false },
+			{ text: "script", match: true },
+			{ text: ">x</", match: false },
+			{ text: "script", match: true },
+			{ text: ">", match: false },
+		]);
+	});
+
+	it("should handle missing text and terms", () => {
+		expect(highlightSearchTerms(undefined, ["a"])).toEqual([]);
+		expect(highlightSearchTerms("Text", undefined)).toEqual([
+			{ text: "Text", match: false },
+		]);
+	});
+});
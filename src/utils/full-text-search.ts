@@ -0,0 +1,277 @@
+/**
+ * Full-text search utilities
+ * Matches search terms against the role name, description and
+ * responsibilities, ranks the matches and splits text for highlighting
+ */
+
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleSearchMode } from "../models/job-role-search-params.js";
+import type {
+	JobRoleSearchResult,
+	JobRoleTextField,
+} from "../models/job-role-search-result.js";
+import type { PaginatedResponse } from "../models/pagination.js";
+
+/**
+ * Maximum number of distinct terms taken from a search query
+ */
+export const MAX_SEARCH_TERMS = 10;
+
+/**
+ * Relevance added per term found in each field
+ * The role name is weighted so that title matches always rank first
+ */
+const FIELD_WEIGHTS: Record<JobRoleTextField, number> = {
+	roleName: 100,
+	description: 3,
+	responsibilities: 2,
+};
+
+/**
+ * Characters of context shown either side of the first match in a snippet
+ */
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * A piece of text for highlighting; match is true for matching terms
+ */
+export interface HighlightPart {
+	text: string;
+	match: boolean;
+}
+
+/**
+ * Reads the search mode from a query string value
+ * @param value The submitted searchMode value
+ * @returns "fulltext" when requested, otherwise the default "title" mode
+ */
+export function parseJobRoleSearchMode(value: unknown): JobRoleSearchMode {
+	return value === "fulltext" ? "fulltext" : "title";
+}
+
+/**
+ * Splits a search query into distinct lower-case terms
+ * @param query The search text
+ * @returns Up to MAX_SEARCH_TERMS terms in the order they were typed
+ */
+export function getSearchTerms(query: string | undefined): string[] {
+	const terms = (query ?? "")
+		.toLowerCase()
+		.split(/\s+/)
+		.map((term) => term.trim())
+		.filter((term) => term !== "");
+	return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Scores a job role against the search terms
+ * Every term must appear in at least one field for the role to match
+ * @param jobRole The job role to score
+ * @param terms Lower-case search terms
+ * @returns The relevance and matched fields, or null when the role does not match
+ */
+export function scoreJobRole(
+	jobRole: Pick<JobRoleDetailedResponse, JobRoleTextField>,
+	terms: string[]
+): { relevance: number; matchedFields: JobRoleTextField[] } | null {
+	if (terms.length === 0) {
+		return null;
+	}
+
+	const fields = Object.keys(FIELD_WEIGHTS) as JobRoleTextField[];
+	const values = Object.fromEntries(
+		fields.map((field) => [field, (jobRole[field] ?? "").toLowerCase()])
+	) as Record<JobRoleTextField, string>;
+	const matchedFields = new Set<JobRoleTextField>();
+	let relevance = 0;
+
+	for (const term of terms) {
+		const fieldsWithTerm = fields.filter((field) =>
+			values[field].includes(term)
+		);
+		if (fieldsWithTerm.length === 0) {
+			return null;
+		}
+		for (const field of fieldsWithTerm) {
+			matchedFields.add(field);
+			relevance += FIELD_WEIGHTS[field];
+		}
+	}
+
+	return {
+		relevance,
+		matchedFields: fields.filter((field) => matchedFields.has(field)),
+	};
+}
+
+/**
+ * Builds a short extract of text around the first matching term
+ * @param text The text to extract from
+ * @param terms Lower-case search terms
+ * @returns The extract with ellipses where it was cut, or undefined when no term matches
+ */
+export function buildSearchSnippet(
+	text: string,
+	terms: string[]
+): string | undefined {
+	const lowerText = text.toLowerCase();
+	const positions = terms
+		.map((term) => lowerText.indexOf(term))
+		.filter((position) => position >= 0);
+	if (positions.length === 0) {
+		return undefined;
+	}
+
+	const first = Math.min(...positions);
+	const start = Math.max(0, first - SNIPPET_CONTEXT);
+	const end = Math.min(text.length, first + SNIPPET_CONTEXT * 2);
+	const extract = text.slice(start, end).replace(/\s+/g, " ").trim();
+
+	return `${start > 0 ? "…" : ""}${extract}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Converts a job role into a search result with its matches described
+ * @param jobRole The matching job role
+ * @param terms Lower-case search terms
+ * @returns The list fields plus relevance, matched fields and a snippet
+ */
+export function toJobRoleSearchResult(
+	jobRole: JobRoleDetailedResponse,
+	terms: string[]
+): JobRoleSearchResult {
+	const score = scoreJobRole(jobRole, terms);
+	const matchedFields = score?.matchedFields ?? [];
+	const snippetField = matchedFields.find((field) => field !== "roleName");
+	const snippet =
+		snippetField && !matchedFields.includes("roleName")
+			? buildSearchSnippet(jobRole[snippetField], terms)
+			: undefined;
+
+	return {
+		jobRoleId: jobRole.jobRoleId,
+		roleName: jobRole.roleName,
+		location: jobRole.location,
+		capability: jobRole.capability,
+		band: jobRole.band,
+		closingDate: jobRole.closingDate,
+		status: jobRole.status,
+		numberOfOpenPositions: jobRole.numberOfOpenPositions,
+		...(jobRole.publishDate ? { publishDate: jobRole.publishDate } : {}),
+		relevance: score?.relevance ?? 0,
+		matchedFields,
+		...(snippet ? { snippet } : {}),
+	};
+}
+
+/**
+ * Filters and ranks job roles by how well they match a search query
+ * Ties keep alphabetical order of the role name
+ * @param jobRoles The job roles to search
+ * @param query The search text
+ * @returns Matching roles, most relevant first
+ */
+export function rankJobRolesByText(
+	jobRoles: JobRoleDetailedResponse[],
+	query: string
+): JobRoleSearchResult[] {
+	const terms = getSearchTerms(query);
+
+	return jobRoles
+		.filter((jobRole) => scoreJobRole(jobRole, terms) !== null)
+		.map((jobRole) => toJobRoleSearchResult(jobRole, terms))
+		.sort(
+			(a, b) =>
+				b.relevance - a.relevance || a.roleName.localeCompare(b.roleName)
+		);
+}
+
+/**
+ * Pages through an in-memory list of results
+ * @param items All results
+ * @param page The page number (starts at 1)
+ * @param limit The number of results per page
+ * @returns The requested page with pagination metadata
+ */
+export function paginateSearchResults<T>(
+	items: T[],
+	page: number,
+	limit: number
+): PaginatedResponse<T> {
+	const totalPages = Math.ceil(items.length / limit);
+
+	return {
+		data: items.slice((page - 1) * limit, page * limit),
+		pagination: {
+			currentPage: page,
+			totalPages,
+			totalCount: items.length,
+			limit,
+			hasNext: page < totalPages,
+			hasPrevious: page > 1,
+		},
+	};
+}
+
+/**
+ * Splits text into matching and non-matching parts for highlighting
+ * Views print each part with autoescaping and wrap matches in <mark>, so no
+ * markup is ever built from the job role text
+ * @param text The text to highlight
+ * @param terms Search terms (matched case-insensitively)
+ * @returns The text split into parts, in order
+ */
+export function highlightSearchTerms(
+	text: unknown,
+	terms: unknown
+): HighlightPart[] {
+	const value = text === null || text === undefined ? "" : String(text);
+	const searchTerms = Array.isArray(terms)
+		? terms
+				.filter((term): term is string => typeof term === "string")
+				.map((term) => term.toLowerCase())
+				.filter((term) => term !== "")
+		: [];
+
+	if (value === "" || searchTerms.length === 0) {
+		return value === "" ? [] : [{ text: value, match: false }];
+	}
+
+	const lowerValue = value.toLowerCase();
+	// Positions only line up when lower-casing keeps the length
+	if (lowerValue.length !== value.length) {
+		return [{ text: value, match: false }];
+	}
+
+	const parts: HighlightPart[] = [];
+	let position = 0;
+	let plainStart = 0;
+
+	while (position < value.length) {
+		// Prefer the longest term starting here so "engineering" beats "engineer"
+		const term = searchTerms
+			.filter((candidate) => lowerValue.startsWith(candidate, position))
+			.sort((a, b) => b.length - a.length)[0];
+
+		if (!term) {
+			position++;
+			continue;
+		}
+
+		if (plainStart < position) {
+			parts.push({ text: value.slice(plainStart, position), match: false });
+		}
+		parts.push({
+			text: value.slice(position, position + term.length),
+			match: true,
+		});
+		position += term.length;
+		plainStart = position;
+	}
+
+	if (plainStart < value.length) {
+		parts.push({ text: value.slice(plainStart), match: false });
+	}
+
+	return parts;
+}
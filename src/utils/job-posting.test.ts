@@ -0,0 +1,150 @@
+/**
+ * Tests for job posting structured data utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import {
+	buildJobPostingStructuredData,
+	isJobRoleAdvertised,
+	parseJobLocation,
+	serializeJsonLd,
+} from "./job-posting.js";
+
+describe("job posting structured data", () => {
+	const jobRole: JobRoleDetailedResponse = {
+		jobRoleId: 12,
+		roleName: "Software Engineer",
+		description: "Build great software.\n\nWork with <clients>.",
+		responsibilities: "Write code & review it.",
+		jobSpecLink: "https://example.com/spec",
+		location: "Belfast, Northern Ireland",
+		capability: "Engineering",
+		band: "Mid",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 3,
+		publishDate: "2025-01-15",
+	};
+
+	describe("parseJobLocation", () => {
+		it("should split City, Country locations", () => {
+			expect(parseJobLocation("Belfast, Northern Ireland")).toEqual({
+				city: "Belfast",
+				country: "Northern Ireland",
+				isRemote: false,
+			});
+			expect(parseJobLocation("Toronto")).toEqual({
+				city: "Toronto",
+				isRemote: false,
+			});
+		});
+
+		it("should flag remote locations", () => {
+			expect(parseJobLocation("Remote")).toEqual({ isRemote: true });
+			expect(parseJobLocation("Remote, Ireland")).toEqual({
+				country: "Ireland",
+				isRemote: true,
+			});
+		});
+	});
+
+	describe("isJobRoleAdvertised", () => {
+		const now = new Date("2025-06-01T12:00:00Z");
+
+		it("should advertise open, published roles before they close", () => {
+			expect(isJobRoleAdvertised(jobRole, now)).toBe(true);
+		});
+
+		it("should not advertise closed, draft, scheduled or expired roles", () => {
+			expect(isJobRoleAdvertised({ ...jobRole, status: "Closed" }, now)).toBe(
+				false
+			);
+			expect(isJobRoleAdvertised({ ...jobRole, status: "Draft" }, now)).toBe(
+				false
+			);
+			expect(
+				isJobRoleAdvertised({ ...jobRole, publishDate: "2025-07-01" }, now)
+			).toBe(false);
+			expect(
+				isJobRoleAdvertised({ ...jobRole, closingDate: "2025-05-31" }, now)
+			).toBe(false);
+		});
+	});
+
+	describe("buildJobPostingStructuredData", () => {
+		it("should build a JobPosting for an office based role", () => {
+			expect(buildJobPostingStructuredData(jobRole)).toEqual({
+				"@context": "https://schema.org",
+				"@type": "JobPosting",
+				title: "Software Engineer",
+				description:
+					"<p>Build great software.</p><p>Work with &lt;clients&gt;.</p><h2>Responsibilities</h2><p>Write code &amp; review it.</p>",
+				identifier: { "@type": "PropertyValue", name: "Kainos", value: "12" },
+				hiringOrganization: {
+					"@type": "Organization",
+					name: "Kainos",
+					sameAs: "https://www.kainos.com",
+				},
+				datePosted: "2025-01-15",
+				validThrough: "2099-12-31T23:59:59",
+				occupationalCategory: "Engineering",
+				totalJobOpenings: 3,
+				jobLocation: {
+					"@type": "Place",
+					address: {
+						"@type": "PostalAddress",
+						addressLocality: "Belfast",
+						addressRegion: "Northern Ireland",
+						addressCountry: "GB",
+					},
+				},
+			});
+		});
+
+		it("should use the country name when there is no known code", () => {
+			const data = buildJobPostingStructuredData({
+				...jobRole,
+				location: "Lisbon, Portugal",
+			});
+
+			expect(data["jobLocation"]).toEqual({
+				"@type": "Place",
+				address: {
+					"@type": "PostalAddress",
+					addressLocality: "Lisbon",
+					addressCountry: "Portugal",
+				},
+			});
+		});
+
+		it("should mark remote roles as telecommute", () => {
+			const { publishDate: _publishDate, ...unscheduled } = jobRole;
+			const data = buildJobPostingStructuredData({
+				...unscheduled,
+				location: "Remote",
+			});
+
+			expect(data["jobLocationType"]).toBe("TELECOMMUTE");
+			expect(data).not.toHaveProperty("jobLocation");
+		});
+
+		it("should leave out datePosted for roles without a publish date", () => {
+			const { publishDate: _publishDate, ...unscheduled } = jobRole;
+			const data = buildJobPostingStructuredData(unscheduled);
+
+			expect(data).not.toHaveProperty("datePosted");
+		});
+	});
+
+	describe("serializeJsonLd", () => {
+		it("should escape characters that could close the script element", () => {
+			const json = serializeJsonLd({ title: "</script><b>&" });
+
+			expect(json).toBe(
+				'{"title":"\\u003c/script\\u003e\\u003cb\\u003e\\u0026"}'
+			);
+			expect(JSON.parse(json)).toEqual({ title: "</script><b>&" });
+		});
+	});
+});
@@ -0,0 +1,197 @@
+/**
+ * Job posting structured data utilities
+ * Builds the schema.org JobPosting JSON-LD embedded in job role detail pages
+ * so job search aggregators can read our vacancies
+ */
+
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import { isClosingDatePassed } from "./closing-date.js";
+import { isJobRolePublished } from "./job-role-visibility.js";
+import { escapeXml } from "./xml-escape.js";
+
+/**
+ * ISO 3166 country codes for the country part of location strings
+ * The UK nations are kept as the address region
+ */
+const COUNTRY_CODES: Record<string, string> = {
+	"united kingdom": "GB",
+	england: "GB",
+	scotland: "GB",
+	wales: "GB",
+	"northern ireland": "GB",
+	ireland: "IE",
+	poland: "PL",
+	finland: "FI",
+	france: "FR",
+	belgium: "BE",
+	argentina: "AR",
+	"united states": "US",
+	canada: "CA",
+};
+
+const UK_NATIONS = ["england", "scotland", "wales", "northern ireland"];
+
+/**
+ * A location string split into its parts
+ */
+export interface ParsedJobLocation {
+	city?: string;
+	country?: string;
+	isRemote: boolean;
+}
+
+/**
+ * Splits a "City, Country" location string
+ * "Remote" on its own, or as the city ("Remote, Ireland"), marks a remote role
+ * @param location The job role location
+ * @returns The city, country and remote flag
+ */
+export function parseJobLocation(location: string): ParsedJobLocation {
+	const parts = location
+		.split(",")
+		.map((part) => part.trim())
+		.filter(Boolean);
+	const isRemote = parts.some((part) => part.toLowerCase() === "remote");
+	const [city, ...rest] = parts.filter(
+		(part) => part.toLowerCase() !== "remote"
+	);
+
+	if (rest.length === 0) {
+		// A single remaining part is a country for remote roles, a city otherwise
+		if (!city) {
+			return { isRemote };
+		}
+		return isRemote ? { country: city, isRemote } : { city, isRemote };
+	}
+
+	return {
+		...(city ? { city } : {}),
+		country: rest.join(", "),
+		isRemote,
+	};
+}
+
+/**
+ * Checks whether a job role should carry JobPosting data
+ * Only open, published roles that have not passed their closing date are
+ * advertised, since aggregators penalise expired postings
+ * @param jobRole The job role
+ * @param now The current time (defaults to now)
+ */
+export function isJobRoleAdvertised(
+	jobRole: JobRoleDetailedResponse,
+	now: Date = new Date()
+): boolean {
+	return (
+		jobRole.status.toLowerCase() === "open" &&
+		isJobRolePublished(jobRole, now) &&
+		!isClosingDatePassed(jobRole.closingDate, now)
+	);
+}
+
+/**
+ * Builds a schema.org JobPosting for a job role
+ * datePosted is only set for roles with a publish date, as the backend does
+ * not record when other roles were created
+ * @param jobRole The job role
+ * @returns The JobPosting object
+ */
+export function buildJobPostingStructuredData(
+	jobRole: JobRoleDetailedResponse
+): Record<string, unknown> {
+	const location = parseJobLocation(jobRole.location);
+	const address = location.country
+		? buildPostalAddress(location.city, location.country)
+		: location.city
+			? { "@type": "PostalAddress", addressLocality: location.city }
+			: null;
+	const closingDate = jobRole.closingDate.trim().slice(0, 10);
+	const publishDate = jobRole.publishDate?.trim().slice(0, 10);
+
+	return {
+		"@context": "https://schema.org",
+		"@type": "JobPosting",
+		title: jobRole.roleName,
+		description: buildDescription(jobRole),
+		identifier: {
+			"@type": "PropertyValue",
+			name: "Kainos",
+			value: String(jobRole.jobRoleId),
+		},
+		hiringOrganization: {
+			"@type": "Organization",
+			name: "Kainos",
+			sameAs: "https://www.kainos.com",
+		},
+		...(publishDate ? { datePosted: publishDate } : {}),
+		...(closingDate ? { validThrough: `${closingDate}T23:59:59` } : {}),
+		occupationalCategory: jobRole.capability,
+		totalJobOpenings: jobRole.numberOfOpenPositions,
+		...(location.isRemote
+			? {
+					jobLocationType: "TELECOMMUTE",
+					...(location.country
+						? {
+								applicantLocationRequirements: {
+									"@type": "Country",
+									name: location.country,
+								},
+							}
+						: {}),
+				}
+			: {}),
+		...(!location.isRemote && address
+			? { jobLocation: { "@type": "Place", address } }
+			: {}),
+	};
+}
+
+/**
+ * Serialises structured data for a <script type="application/ld+json"> block
+ * Characters that could end the script element early are escaped, so the
+ * result is safe to output without HTML escaping
+ * @param data The structured data
+ * @returns The JSON text
+ */
+export function serializeJsonLd(data: unknown): string {
+	return JSON.stringify(data)
+		.replace(/</g, "\\u003c")
+		.replace(/>/g, "\\u003e")
+		.replace(/&/g, "\\u0026")
+		.replace(/\u2028/g, "\\u2028")
+		.replace(/\u2029/g, "\\u2029");
+}
+
+/**
+ * Builds a PostalAddress, using a country code where one is known
+ */
+function buildPostalAddress(
+	city: string | undefined,
+	country: string
+): Record<string, string> {
+	const key = country.toLowerCase();
+	return {
+		"@type": "PostalAddress",
+		...(city ? { addressLocality: city } : {}),
+		...(UK_NATIONS.includes(key) ? { addressRegion: country } : {}),
+		addressCountry: COUNTRY_CODES[key] ?? country,
+	};
+}
+
+/**
+ * Builds the HTML description from the description and responsibilities
+ */
+function buildDescription(jobRole: JobRoleDetailedResponse): string {
+	const toParagraphs = (text: string) =>
+		text
+			.split(/\r?\n\s*\r?\n/)
+			.map((paragraph) => paragraph.trim())
+			.filter(Boolean)
+			.map((paragraph) => `<p>${escapeXml(paragraph)}</p>`)
+			.join("");
+
+	const responsibilities = toParagraphs(jobRole.responsibilities);
+	return responsibilities
+		? `${toParagraphs(jobRole.description)}<h2>Responsibilities</h2>${responsibilities}`
+		: toParagraphs(jobRole.description);
+}
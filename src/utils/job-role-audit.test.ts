@@ -0,0 +1,167 @@
+/**
+ * Unit tests for job role audit utilities
+ */
+
+import type { Request } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleAuditStore } from "../services/job-role-audit-store.js";
+import {
+	diffJobRoles,
+	getAuditActor,
+	getUpdateAuditAction,
+	recordJobRoleAudit,
+} from "./job-role-audit.js";
+
+const jobRole: JobRoleDetailedResponse = {
+	jobRoleId: 1,
+	roleName: "Software Engineer",
+	description: "Builds software",
+	responsibilities: "Writes code",
+	jobSpecLink: "https://example.com/spec",
+	location: "Remote",
+	capability: "Engineering",
+	band: "Mid",
+	closingDate: "2099-01-31",
+	status: "Open",
+	numberOfOpenPositions: 2,
+};
+
+const requestWithUser = (user: unknown) =>
+	({ session: { user } }) as unknown as Request;
+
+describe("diffJobRoles", () => {
+	it("should list only the fields that changed", () => {
+		const changes = diffJobRoles(jobRole, {
+			...jobRole,
+			location: "London, England",
+			numberOfOpenPositions: 3,
+		});
+
+		expect(changes).toEqual([
+			{ field: "location", before: "Remote", after: "London, England" },
+			{ field: "numberOfOpenPositions", before: 2, after: 3 },
+		]);
+	});
+
+	it("should record every field as added for a create", () => {
+		const changes = diffJobRoles(null, jobRole);
+
+		expect(changes).toHaveLength(10);
+		expect(changes[0]).toEqual({
+			field: "roleName",
+			before: null,
+			after: "Software Engineer",
+		});
+	});
+
+	it("should record every field as removed for a delete", () => {
+		const changes = diffJobRoles(jobRole, null);
+
+		expect(changes.every((change) => change.after === null)).toBe(true);
+	});
+
+	it("should ignore the job role ID", () => {
+		expect(diffJobRoles(jobRole, { ...jobRole, jobRoleId: 2 })).toEqual([]);
+	});
+});
+
+describe("getUpdateAuditAction", () => {
+	it("should return status_change when only the status changed", () => {
+		expect(
+			getUpdateAuditAction([
+				{ field: "status", before: "Open", after: "Closed" },
+			])
+		).toBe("status_change");
+	});
+
+	it("should return update when other fields changed", () => {
+		expect(
+			getUpdateAuditAction([
+				{ field: "status", before: "Open", after: "Closed" },
+				{ field: "band", before: "Mid", after: "Senior" },
+			])
+		).toBe("update");
+	});
+});
+
+describe("getAuditActor", () => {
+	it("should use forename and surname for auth users", () => {
+		expect(
+			getAuditActor(
+				requestWithUser({
+					userId: "42",
+					email: "ann@kainos.com",
+					forename: "Ann",
+					surname: "Admin",
+					role: "Admin",
+				})
+			)
+		).toEqual({ id: "42", name: "Ann Admin", email: "ann@kainos.com" });
+	});
+
+	it("should use the username for session users", () => {
+		expect(
+			getAuditActor(requestWithUser({ username: "admin", user_type: "Admin" }))
+		).toEqual({ name: "admin" });
+	});
+
+	it("should fall back to Unknown without a session user", () => {
+		expect(getAuditActor({} as Request)).toEqual({ name: "Unknown" });
+	});
+});
+
+describe("recordJobRoleAudit", () => {
+	let store: JobRoleAuditStore;
+	const req = requestWithUser({ username: "admin", user_type: "Admin" });
+
+	beforeEach(() => {
+		store = {
+			record: vi.fn(),
+			getHistory: vi.fn(),
+		};
+	});
+
+	it("should record creates, status changes and deletes", async () => {
+		await recordJobRoleAudit(store, req, 1, null, jobRole);
+		await recordJobRoleAudit(store, req, 1, jobRole, {
+			...jobRole,
+			status: "Closed",
+		});
+		await recordJobRoleAudit(store, req, 1, jobRole, null);
+
+		expect(
+			vi.mocked(store.record).mock.calls.map(([entry]) => entry.action)
+		).toEqual(["create", "status_change", "delete"]);
+		expect(store.record).toHaveBeenCalledWith({
+			jobRoleId: 1,
+			action: "status_change",
+			actor: { name: "admin" },
+			changes: [{ field: "status", before: "Open", after: "Closed" }],
+		});
+	});
+
+	it("should skip updates that change nothing", async () => {
+		await recordJobRoleAudit(store, req, 1, jobRole, { ...jobRole });
+
+		expect(store.record).not.toHaveBeenCalled();
+	});
+
+	it("should do nothing without a store", async () => {
+		await expect(
+			recordJobRoleAudit(null, req, 1, null, jobRole)
+		).resolves.toBeUndefined();
+	});
+
+	it("should log rather than throw when the store fails", async () => {
+		const consoleError = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => {});
+		vi.mocked(store.record).mockRejectedValue(new Error("Disk full"));
+
+		await expect(
+			recordJobRoleAudit(store, req, 1, null, jobRole)
+		).resolves.toBeUndefined();
+		expect(consoleError).toHaveBeenCalled();
+	});
+});
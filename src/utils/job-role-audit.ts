@@ -0,0 +1,160 @@
+/**
+ * Job role audit utilities
+ * Builds field-level diffs and actor details for the audit history
+ */
+
+import type { Request } from "express";
+import type {
+	JobRoleAuditAction,
+	JobRoleAuditActor,
+	JobRoleFieldChange,
+} from "../models/job-role-audit.js";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { JobRoleAuditStore } from "../services/job-role-audit-store.js";
+
+/**
+ * Job role fields compared in the audit diff, in display order
+ */
+export const AUDITED_JOB_ROLE_FIELDS: readonly (keyof JobRoleDetailedResponse)[] =
+	[
+		"roleName",
+		"description",
+		"responsibilities",
+		"jobSpecLink",
+		"location",
+		"capability",
+		"band",
+		"closingDate",
+		"status",
+		"numberOfOpenPositions",
+		"publishDate",
+	];
+
+/**
+ * Human readable labels for audit actions
+ */
+export const JOB_ROLE_AUDIT_ACTION_LABELS: Record<JobRoleAuditAction, string> =
+	{
+		create: "Created",
+		update: "Updated",
+		delete: "Deleted",
+		status_change: "Status changed",
+	};
+
+/**
+ * Compares two versions of a job role field by field
+ * Pass null as before for a create or as after for a delete
+ * @param before The job role before the change
+ * @param after The job role after the change
+ * @returns The fields whose values differ
+ */
+export function diffJobRoles(
+	before: JobRoleDetailedResponse | null,
+	after: JobRoleDetailedResponse | null
+): JobRoleFieldChange[] {
+	const changes: JobRoleFieldChange[] = [];
+
+	for (const field of AUDITED_JOB_ROLE_FIELDS) {
+		const beforeValue = before?.[field] ?? null;
+		const afterValue = after?.[field] ?? null;
+		if (String(beforeValue ?? "") !== String(afterValue ?? "")) {
+			changes.push({ field, before: beforeValue, after: afterValue });
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Works out the audit action for an update
+ * @param changes The field changes made by the update
+ * @returns status_change when only the status changed, otherwise update
+ */
+export function getUpdateAuditAction(
+	changes: JobRoleFieldChange[]
+): JobRoleAuditAction {
+	return changes.length > 0 &&
+		changes.every((change) => change.field === "status")
+		? "status_change"
+		: "update";
+}
+
+/**
+ * Builds the audit actor from the session user
+ * Supports both AuthUser (forename/surname) and User (username) formats
+ * @param req The request carrying the session
+ * @returns The actor, or an "Unknown" actor when no user is signed in
+ */
+export function getAuditActor(req: Request): JobRoleAuditActor {
+	const user = req.session?.user;
+
+	if (!user) {
+		return { name: "Unknown" };
+	}
+
+	if ("forename" in user) {
+		return {
+			id: user.userId,
+			name: `${user.forename} ${user.surname}`.trim() || user.email,
+			email: user.email,
+		};
+	}
+
+	const actor: JobRoleAuditActor = { name: user.username };
+	if (user.id) {
+		actor.id = user.id;
+	}
+	if (user.email) {
+		actor.email = user.email;
+	}
+	return actor;
+}
+
+/**
+ * Records a job role change in the audit store
+ * The action is derived from the snapshots: no after means delete, no before
+ * means create. Updates that change nothing are not recorded, and store
+ * failures are logged so they never fail the admin's request
+ * @param auditStore The store to record into (nothing is recorded when null)
+ * @param req The request carrying the admin's session
+ * @param jobRoleId The job role ID
+ * @param before The job role before the change
+ * @param after The job role after the change
+ */
+export async function recordJobRoleAudit(
+	auditStore: JobRoleAuditStore | null,
+	req: Request,
+	jobRoleId: number,
+	before: JobRoleDetailedResponse | null,
+	after: JobRoleDetailedResponse | null
+): Promise<void> {
+	if (!auditStore) {
+		return;
+	}
+
+	const changes = diffJobRoles(before, after);
+	let action: JobRoleAuditAction;
+	if (!after) {
+		action = "delete";
+	} else if (!before) {
+		action = "create";
+	} else if (changes.length === 0) {
+		return;
+	} else {
+		action = getUpdateAuditAction(changes);
+	}
+
+	try {
+		await auditStore.record({
+			jobRoleId,
+			action,
+			actor: getAuditActor(req),
+			changes,
+		});
+	} catch (error) {
+		console.error(
+			`Error recording audit entry for job role ${jobRoleId}:`,
+			error
+		);
+	}
+}
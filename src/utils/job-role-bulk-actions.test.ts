@@ -0,0 +1,118 @@
+/**
+ * Unit tests for job role bulk action utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	isDestructiveBulkJobRoleAction,
+	MAX_BULK_JOB_ROLES,
+	validateBulkJobRoleAction,
+} from "./job-role-bulk-actions.js";
+
+describe("validateBulkJobRoleAction", () => {
+	it("should accept a single selected ID", () => {
+		const result = validateBulkJobRoleAction({
+			action: "close",
+			jobRoleIds: "3",
+		});
+
+		expect(result).toEqual({ isValid: true, action: "close", jobRoleIds: [3] });
+	});
+
+	it("should parse repeated IDs and drop duplicates", () => {
+		const result = validateBulkJobRoleAction({
+			action: "hold",
+			jobRoleIds: ["1", "2", "2", " 5 "],
+		});
+
+		expect(result.isValid).toBe(true);
+		expect(result.jobRoleIds).toEqual([1, 2, 5]);
+	});
+
+	it("should reject unknown actions", () => {
+		const result = validateBulkJobRoleAction({
+			action: "archive",
+			jobRoleIds: ["1"],
+		});
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toBe("Please choose a bulk action.");
+	});
+
+	it("should require at least one job role", () => {
+		expect(validateBulkJobRoleAction({ action: "reopen" }).error).toBe(
+			"Please select at least one job role."
+		);
+		expect(
+			validateBulkJobRoleAction({ action: "reopen", jobRoleIds: [] }).error
+		).toBe("Please select at least one job role.");
+	});
+
+	it("should reject invalid IDs", () => {
+		const result = validateBulkJobRoleAction({
+			action: "close",
+			jobRoleIds: ["1", "abc"],
+		});
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toBe("Invalid job role ID provided.");
+	});
+
+	it("should reject too many job roles", () => {
+		const jobRoleIds = Array.from({ length: MAX_BULK_JOB_ROLES + 1 }, (_, i) =>
+			String(i + 1)
+		);
+
+		const result = validateBulkJobRoleAction({ action: "close", jobRoleIds });
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toBe(
+			`You can change at most ${MAX_BULK_JOB_ROLES} job roles at once.`
+		);
+	});
+
+	describe("extend", () => {
+		it("should require a valid closing date", () => {
+			const result = validateBulkJobRoleAction({
+				action: "extend",
+				jobRoleIds: ["1"],
+				closingDate: "31/12/2099",
+			});
+
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe(
+				"Please enter a new closing date in YYYY-MM-DD format."
+			);
+		});
+
+		it("should reject closing dates in the past", () => {
+			const result = validateBulkJobRoleAction({
+				action: "extend",
+				jobRoleIds: ["1"],
+				closingDate: "2000-01-01",
+			});
+
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe("New closing date cannot be in the past.");
+		});
+
+		it("should return the new closing date", () => {
+			const result = validateBulkJobRoleAction({
+				action: "extend",
+				jobRoleIds: ["1"],
+				closingDate: "2099-12-31",
+			});
+
+			expect(result.isValid).toBe(true);
+			expect(result.closingDate).toBe("2099-12-31");
+		});
+	});
+});
+
+describe("isDestructiveBulkJobRoleAction", () => {
+	it("should only treat delete as destructive", () => {
+		expect(isDestructiveBulkJobRoleAction("delete")).toBe(true);
+		expect(isDestructiveBulkJobRoleAction("close")).toBe(false);
+		expect(isDestructiveBulkJobRoleAction("extend")).toBe(false);
+	});
+});
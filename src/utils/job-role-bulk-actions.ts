@@ -0,0 +1,167 @@
+/**
+ * Job role bulk action utilities
+ * Validates bulk action requests from the admin job role list
+ */
+
+import { validateDateString, validateJobRoleId } from "./validation.js";
+
+export const BULK_JOB_ROLE_ACTIONS = [
+	"close",
+	"reopen",
+	"hold",
+	"extend",
+	"delete",
+] as const;
+
+export type BulkJobRoleAction = (typeof BULK_JOB_ROLE_ACTIONS)[number];
+
+/**
+ * Human readable labels for each bulk action
+ */
+export const BULK_JOB_ROLE_ACTION_LABELS: Record<BulkJobRoleAction, string> = {
+	close: "Close",
+	reopen: "Reopen",
+	hold: "Put on hold",
+	extend: "Extend closing date",
+	delete: "Delete",
+};
+
+/**
+ * Status applied by each status-changing bulk action
+ */
+export const BULK_JOB_ROLE_ACTION_STATUSES: Partial<
+	Record<BulkJobRoleAction, string>
+> = {
+	close: "Closed",
+	reopen: "Open",
+	hold: "On Hold",
+};
+
+/**
+ * Actions that cannot be undone and must be confirmed before they run
+ */
+export const DESTRUCTIVE_BULK_JOB_ROLE_ACTIONS: readonly BulkJobRoleAction[] = [
+	"delete",
+];
+
+/**
+ * Maximum number of job roles that can be changed in a single request
+ */
+export const MAX_BULK_JOB_ROLES = 100;
+
+/**
+ * Raw form values for a bulk action request
+ * Job role IDs arrive as repeated checkbox values
+ */
+export interface BulkJobRoleActionBody {
+	action?: string;
+	jobRoleIds?: string | string[];
+	closingDate?: string;
+	confirmed?: string;
+}
+
+/**
+ * Validation result for a bulk action request
+ */
+export interface BulkJobRoleActionValidationResult {
+	isValid: boolean;
+	action?: BulkJobRoleAction;
+	jobRoleIds: number[];
+	closingDate?: string;
+	error?: string;
+}
+
+/**
+ * Validates the action, selected job role IDs and (for extend) the new
+ * closing date of a bulk action request
+ * @param body Raw form values
+ * @returns BulkJobRoleActionValidationResult with parsed values or error
+ */
+export function validateBulkJobRoleAction(
+	body: BulkJobRoleActionBody
+): BulkJobRoleActionValidationResult {
+	const action = body.action?.trim() ?? "";
+
+	if (!(BULK_JOB_ROLE_ACTIONS as readonly string[]).includes(action)) {
+		return {
+			isValid: false,
+			jobRoleIds: [],
+			error: "Please choose a bulk action.",
+		};
+	}
+
+	const rawIds = Array.isArray(body.jobRoleIds)
+		? body.jobRoleIds
+		: [body.jobRoleIds ?? ""];
+	const parsedIds = rawIds
+		.filter((value) => String(value).trim() !== "")
+		.map((value) => validateJobRoleId(String(value)));
+
+	if (parsedIds.length === 0) {
+		return {
+			isValid: false,
+			jobRoleIds: [],
+			error: "Please select at least one job role.",
+		};
+	}
+
+	if (parsedIds.some((id) => id === null)) {
+		return {
+			isValid: false,
+			jobRoleIds: [],
+			error: "Invalid job role ID provided.",
+		};
+	}
+
+	const jobRoleIds = [...new Set(parsedIds as number[])];
+
+	if (jobRoleIds.length > MAX_BULK_JOB_ROLES) {
+		return {
+			isValid: false,
+			jobRoleIds: [],
+			error: `You can change at most ${MAX_BULK_JOB_ROLES} job roles at once.`,
+		};
+	}
+
+	const result: BulkJobRoleActionValidationResult = {
+		isValid: true,
+		action: action as BulkJobRoleAction,
+		jobRoleIds,
+	};
+
+	if (action === "extend") {
+		const closingDate = body.closingDate?.trim() ?? "";
+		if (!validateDateString(closingDate)) {
+			return {
+				isValid: false,
+				jobRoleIds: [],
+				error: "Please enter a new closing date in YYYY-MM-DD format.",
+			};
+		}
+
+		const today = new Date();
+		today.setHours(0, 0, 0, 0);
+		if (new Date(closingDate) < today) {
+			return {
+				isValid: false,
+				jobRoleIds: [],
+				error: "New closing date cannot be in the past.",
+			};
+		}
+
+		result.closingDate = closingDate;
+	}
+
+	return result;
+}
+
+/**
+ * Checks whether a bulk action needs an explicit confirmation step
+ * @param action The bulk action
+ * @returns True when the action cannot be undone
+ */
+export function isDestructiveBulkJobRoleAction(
+	action: BulkJobRoleAction
+): boolean {
+	return DESTRUCTIVE_BULK_JOB_ROLE_ACTIONS.includes(action);
+}
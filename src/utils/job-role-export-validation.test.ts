@@ -0,0 +1,104 @@
+/**
+ * Tests for job role export validation utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import { validateJobRoleExportParams } from "./job-role-export-validation.js";
+
+describe("validateJobRoleExportParams", () => {
+	it("should return the default export when no parameters are provided", () => {
+		const result = validateJobRoleExportParams({});
+
+		expect(result.isValid).toBe(true);
+		expect(result.options).toEqual({
+			columns: [
+				"jobRoleId",
+				"roleName",
+				"location",
+				"capability",
+				"band",
+				"closingDate",
+				"status",
+			],
+			delimiter: "comma",
+			includeBom: false,
+			dateFormat: "iso",
+		});
+		expect(result.filters).toEqual({});
+	});
+
+	it("should accept repeated column parameters", () => {
+		const result = validateJobRoleExportParams({
+			columns: ["roleName", "description", "roleName"],
+		});
+
+		expect(result.isValid).toBe(true);
+		expect(result.options.columns).toEqual(["roleName", "description"]);
+	});
+
+	it("should accept a comma separated column list", () => {
+		const result = validateJobRoleExportParams({
+			columns: "roleName, numberOfOpenPositions,responsibilities",
+		});
+
+		expect(result.options.columns).toEqual([
+			"roleName",
+			"numberOfOpenPositions",
+			"responsibilities",
+		]);
+	});
+
+	it("should reject unknown columns", () => {
+		const result = validateJobRoleExportParams({
+			columns: ["roleName", "salary", "toString"],
+		});
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toBe("Unknown export column(s): salary, toString");
+	});
+
+	it("should parse delimiter, BOM and date format options", () => {
+		const result = validateJobRoleExportParams({
+			delimiter: "tab",
+			bom: "on",
+			dateFormat: "long",
+		});
+
+		expect(result.isValid).toBe(true);
+		expect(result.options.delimiter).toBe("tab");
+		expect(result.options.includeBom).toBe(true);
+		expect(result.options.dateFormat).toBe("long");
+	});
+
+	it("should reject an unknown delimiter", () => {
+		const result = validateJobRoleExportParams({ delimiter: "colon" });
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toBe(
+			"Delimiter must be one of: comma, semicolon, tab, pipe"
+		);
+	});
+
+	it("should reject an unknown date format", () => {
+		const result = validateJobRoleExportParams({ dateFormat: "julian" });
+
+		expect(result.isValid).toBe(false);
+		expect(result.error).toBe("Date format must be one of: iso, uk, us, long");
+	});
+
+	it("should collect trimmed search filters and ignore blanks", () => {
+		const result = validateJobRoleExportParams({
+			search: "  engineer ",
+			capability: "Engineering",
+			location: "",
+			band: " ",
+			status: "Open",
+		});
+
+		expect(result.filters).toEqual({
+			search: "engineer",
+			capability: "Engineering",
+			status: "Open",
+		});
+	});
+});
@@ -0,0 +1,141 @@
+/**
+ * Job role export validation utilities
+ * Parses the column, format and filter options for the admin CSV export
+ */
+
+import type {
+	CsvDelimiterName,
+	ExportDateFormat,
+	JobRoleExportColumn,
+	JobRoleExportOptions,
+} from "../models/job-role-export-options.js";
+import type { JobRoleSearchParams } from "../models/job-role-search-params.js";
+import {
+	CSV_DELIMITERS,
+	DEFAULT_JOB_ROLE_EXPORT_COLUMNS,
+	JOB_ROLE_EXPORT_COLUMNS,
+} from "./csv-export.js";
+
+export const EXPORT_DATE_FORMATS: readonly ExportDateFormat[] = [
+	"iso",
+	"uk",
+	"us",
+	"long",
+];
+
+/**
+ * Raw query values for an export request
+ * Columns may arrive as repeated parameters or a comma separated list
+ */
+export interface JobRoleExportQuery {
+	columns?: string | string[];
+	delimiter?: string;
+	bom?: string;
+	dateFormat?: string;
+	search?: string;
+	capability?: string;
+	location?: string;
+	band?: string;
+	status?: string;
+}
+
+/**
+ * Validation result for job role export parameters
+ */
+export interface JobRoleExportValidationResult {
+	isValid: boolean;
+	options: JobRoleExportOptions;
+	filters: Partial<JobRoleSearchParams>;
+	error?: string;
+}
+
+const FILTER_KEYS = [
+	"search",
+	"capability",
+	"location",
+	"band",
+	"status",
+] as const;
+
+/**
+ * Validates and sanitizes export parameters from query strings
+ * @param query Raw export query values
+ * @returns JobRoleExportValidationResult with validated options and filters or error
+ */
+export function validateJobRoleExportParams(
+	query: JobRoleExportQuery
+): JobRoleExportValidationResult {
+	const options: JobRoleExportOptions = {
+		columns: [...DEFAULT_JOB_ROLE_EXPORT_COLUMNS],
+		delimiter: "comma",
+		includeBom: false,
+		dateFormat: "iso",
+	};
+	const filters: Partial<JobRoleSearchParams> = {};
+
+	// Parse columns, keeping the requested order and dropping duplicates
+	const rawColumns = (
+		Array.isArray(query.columns) ? query.columns : [query.columns ?? ""]
+	)
+		.flatMap((value) => String(value).split(","))
+		.map((value) => value.trim())
+		.filter((value) => value.length > 0);
+
+	if (rawColumns.length > 0) {
+		const unknown = rawColumns.filter(
+			(column) => !Object.hasOwn(JOB_ROLE_EXPORT_COLUMNS, column)
+		);
+		if (unknown.length > 0) {
+			return {
+				isValid: false,
+				options,
+				filters,
+				error: `Unknown export column(s): ${unknown.join(", ")}`,
+			};
+		}
+		options.columns = [...new Set(rawColumns)] as JobRoleExportColumn[];
+	}
+
+	if (query.delimiter) {
+		if (!Object.hasOwn(CSV_DELIMITERS, query.delimiter)) {
+			return {
+				isValid: false,
+				options,
+				filters,
+				error: `Delimiter must be one of: ${Object.keys(CSV_DELIMITERS).join(", ")}`,
+			};
+		}
+		options.delimiter = query.delimiter as CsvDelimiterName;
+	}
+
+	if (query.dateFormat) {
+		if (
+			!(EXPORT_DATE_FORMATS as readonly string[]).includes(query.dateFormat)
+		) {
+			return {
+				isValid: false,
+				options,
+				filters,
+				error: `Date format must be one of: ${EXPORT_DATE_FORMATS.join(", ")}`,
+			};
+		}
+		options.dateFormat = query.dateFormat as ExportDateFormat;
+	}
+
+	options.includeBom = ["true", "1", "on", "yes"].includes(
+		(query.bom ?? "").toLowerCase()
+	);
+
+	for (const key of FILTER_KEYS) {
+		const value = query[key];
+		if (typeof value === "string" && value.trim()) {
+			filters[key] = value.trim();
+		}
+	}
+
+	return {
+		isValid: true,
+		options,
+		filters,
+	};
+}
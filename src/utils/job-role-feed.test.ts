@@ -0,0 +1,126 @@
+/**
+ * Tests for job role feed utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import {
+	buildJobRoleAtomFeed,
+	buildJobRoleFeedUrl,
+	buildJobRoleRssFeed,
+	formatFeedDate,
+	getJobRoleFeedSummary,
+	getJobRoleFeedTitle,
+} from "./job-role-feed.js";
+
+describe("job role feeds", () => {
+	const jobRole: JobRoleResponse = {
+		jobRoleId: 7,
+		roleName: "Test & <Quality> Engineer",
+		location: "Belfast",
+		capability: "Engineering",
+		band: "Mid",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 2,
+		publishDate: "2025-01-15",
+	};
+	const options = {
+		title: "Open job roles at Kainos",
+		baseUrl: "https://jobs.example.com",
+		selfUrl:
+			"https://jobs.example.com/job-roles/feed.rss?band=Mid&location=Belfast",
+		now: new Date("2025-02-01T09:30:00Z"),
+	};
+
+	describe("buildJobRoleFeedUrl", () => {
+		it("should keep only the capability, location and band filters", () => {
+			expect(
+				buildJobRoleFeedUrl("rss", {
+					search: "engineer",
+					location: ["Belfast", "Derry & Strabane"],
+					band: ["Mid"],
+					sort: "roleName",
+				})
+			).toBe(
+				"/job-roles/feed.rss?location=Belfast&location=Derry%20%26%20Strabane&band=Mid"
+			);
+		});
+
+		it("should return the plain feed URL without filters", () => {
+			expect(buildJobRoleFeedUrl("atom", null)).toBe("/job-roles/feed.atom");
+		});
+	});
+
+	describe("getJobRoleFeedTitle", () => {
+		it("should name the filters a feed is scoped to", () => {
+			expect(getJobRoleFeedTitle({})).toBe("Open job roles at Kainos");
+			expect(
+				getJobRoleFeedTitle({ location: ["Belfast", "London"], band: ["Mid"] })
+			).toBe("Open job roles at Kainos (Location: Belfast, London; Band: Mid)");
+		});
+	});
+
+	describe("getJobRoleFeedSummary", () => {
+		it("should include the closing date", () => {
+			expect(getJobRoleFeedSummary(jobRole)).toBe(
+				"Location: Belfast | Capability: Engineering | Band: Mid | 2 open positions | Closing date: 31 December 2099"
+			);
+		});
+
+		it("should leave dates it cannot parse unchanged", () => {
+			expect(formatFeedDate("soon")).toBe("soon");
+		});
+	});
+
+	describe("buildJobRoleRssFeed", () => {
+		it("should build an item per job role with escaped text", () => {
+			const feed = buildJobRoleRssFeed([jobRole], options);
+
+			expect(feed).toContain('<rss version="2.0"');
+			expect(feed).toContain(
+				"<title>Test &amp; &lt;Quality&gt; Engineer</title>"
+			);
+			expect(feed).toContain(
+				"<link>https://jobs.example.com/job-roles/7</link>"
+			);
+			expect(feed).toContain(
+				'<guid isPermaLink="true">https://jobs.example.com/job-roles/7</guid>'
+			);
+			expect(feed).toContain("Closing date: 31 December 2099");
+			expect(feed).toContain(
+				"<pubDate>Wed, 15 Jan 2025 00:00:00 GMT</pubDate>"
+			);
+			expect(feed).toContain(
+				'<atom:link href="https://jobs.example.com/job-roles/feed.rss?band=Mid&amp;location=Belfast" rel="self"'
+			);
+			expect(feed).not.toContain("Test & <Quality>");
+		});
+
+		it("should build an empty channel when there are no roles", () => {
+			const feed = buildJobRoleRssFeed([], options);
+
+			expect(feed).toContain("<channel>");
+			expect(feed).not.toContain("<item>");
+		});
+	});
+
+	describe("buildJobRoleAtomFeed", () => {
+		it("should build an entry per job role", () => {
+			const { publishDate: _publishDate, ...unscheduled } = jobRole;
+			const feed = buildJobRoleAtomFeed([jobRole, unscheduled], options);
+
+			expect(feed).toContain('<feed xmlns="http://www.w3.org/2005/Atom"');
+			expect(feed).toContain(
+				'<link rel="alternate" type="text/html" href="https://jobs.example.com/job-roles/7"/>'
+			);
+			expect(feed).toContain("<updated>2025-01-15T00:00:00.000Z</updated>");
+			// Roles without a publish date use the build time
+			expect(feed).toContain("<updated>2025-02-01T09:30:00.000Z</updated>");
+			expect(feed).toContain(
+				"<title>Test &amp; &lt;Quality&gt; Engineer</title>"
+			);
+			expect(feed.match(/<entry>/g)).toHaveLength(2);
+		});
+	});
+});
@@ -0,0 +1,229 @@
+/**
+ * Job role feed utilities
+ * Builds the RSS 2.0 and Atom feeds of open job roles served at
+ * /job-roles/feed.rss and /job-roles/feed.atom
+ */
+
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import type { JobRoleSearchParams } from "../models/job-role-search-params.js";
+import {
+	getFilterValues,
+	getJobRoleFilterLabel,
+	MULTI_VALUE_FILTERS,
+} from "./job-role-filters.js";
+import { buildSearchQueryString } from "./url-builder.js";
+import { escapeXml } from "./xml-escape.js";
+
+export type JobRoleFeedFormat = "rss" | "atom";
+
+/**
+ * Maximum number of job roles in a feed
+ */
+export const JOB_ROLE_FEED_SIZE = 50;
+
+/**
+ * Content types sent with each feed format
+ */
+export const JOB_ROLE_FEED_CONTENT_TYPES: Record<JobRoleFeedFormat, string> = {
+	rss: "application/rss+xml; charset=utf-8",
+	atom: "application/atom+xml; charset=utf-8",
+};
+
+/**
+ * Details shared by both feed formats
+ * baseUrl is the absolute site URL that job role links are built from and
+ * selfUrl the absolute URL the feed was requested from
+ */
+export interface JobRoleFeedOptions {
+	title: string;
+	baseUrl: string;
+	selfUrl: string;
+	now?: Date;
+}
+
+/**
+ * Builds the feed URL for a format, keeping the capability, location and
+ * band filters (the only filters feeds accept)
+ * @param format The feed format
+ * @param searchParams The current search parameters
+ * @returns Relative feed URL (e.g., "/job-roles/feed.rss?location=Belfast")
+ */
+export function buildJobRoleFeedUrl(
+	format: JobRoleFeedFormat,
+	searchParams?: Partial<JobRoleSearchParams> | null
+): string {
+	const query = buildSearchQueryString({
+		...(searchParams?.capability
+			? { capability: searchParams.capability }
+			: {}),
+		...(searchParams?.location ? { location: searchParams.location } : {}),
+		...(searchParams?.band ? { band: searchParams.band } : {}),
+	});
+	return `/job-roles/feed.${format}${query ? `?${query.slice(1)}` : ""}`;
+}
+
+/**
+ * Builds the feed title, naming the filters a scoped feed is limited to
+ * @param searchParams The capability, location and band filters
+ * @returns A title such as "Open job roles at Kainos (Location: Belfast)"
+ */
+export function getJobRoleFeedTitle(
+	searchParams: Partial<JobRoleSearchParams>
+): string {
+	const scope = MULTI_VALUE_FILTERS.map((key) => {
+		const values = getFilterValues(searchParams[key]);
+		return values.length > 0
+			? getJobRoleFilterLabel(key, values.join(", "))
+			: "";
+	}).filter(Boolean);
+	return scope.length > 0
+		? `Open job roles at Kainos (${scope.join("; ")})`
+		: "Open job roles at Kainos";
+}
+
+/**
+ * Formats a YYYY-MM-DD date for display in feed readers
+ * @param dateString The date string
+ * @returns A date such as "31 December 2025", or the input when it is not a date
+ */
+export function formatFeedDate(dateString: string): string {
+	const date = parseFeedDate(dateString);
+	return date
+		? date.toLocaleDateString("en-GB", {
+				day: "numeric",
+				month: "long",
+				year: "numeric",
+				timeZone: "UTC",
+			})
+		: dateString;
+}
+
+/**
+ * Builds the plain text summary of a job role shown in feed readers
+ * @param jobRole The job role
+ * @returns The location, capability, band, open positions and closing date
+ */
+export function getJobRoleFeedSummary(jobRole: JobRoleResponse): string {
+	const positions =
+		jobRole.numberOfOpenPositions === 1
+			? "1 open position"
+			: `${jobRole.numberOfOpenPositions} open positions`;
+	return [
+		`Location: ${jobRole.location}`,
+		`Capability: ${jobRole.capability}`,
+		`Band: ${jobRole.band}`,
+		positions,
+		`Closing date: ${formatFeedDate(jobRole.closingDate)}`,
+	].join(" | ");
+}
+
+/**
+ * Builds an RSS 2.0 feed of job roles
+ * Each item links to the job role page, which also serves as its guid
+ * @param jobRoles The job roles, newest first
+ * @param options Feed title and URLs
+ * @returns The RSS document
+ */
+export function buildJobRoleRssFeed(
+	jobRoles: JobRoleResponse[],
+	options: JobRoleFeedOptions
+): string {
+	const now = options.now ?? new Date();
+	const items = jobRoles.map((jobRole) => {
+		const link = escapeXml(getJobRoleUrl(options.baseUrl, jobRole));
+		const published = jobRole.publishDate
+			? parseFeedDate(jobRole.publishDate)
+			: null;
+		return [
+			"\t\t<item>",
+			`\t\t\t<title>${escapeXml(jobRole.roleName)}</title>`,
+			`\t\t\t<link>${link}</link>`,
+			`\t\t\t<guid isPermaLink="true">${link}</guid>`,
+			`\t\t\t<description>${escapeXml(getJobRoleFeedSummary(jobRole))}</description>`,
+			`\t\t\t<category>${escapeXml(jobRole.capability)}</category>`,
+			...(published
+				? [`\t\t\t<pubDate>${published.toUTCString()}</pubDate>`]
+				: []),
+			"\t\t</item>",
+		].join("\n");
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+		"\t<channel>",
+		`\t\t<title>${escapeXml(options.title)}</title>`,
+		`\t\t<link>${escapeXml(`${options.baseUrl}/job-roles`)}</link>`,
+		`\t\t<description>${escapeXml(`${options.title}, newest first`)}</description>`,
+		"\t\t<language>en-gb</language>",
+		`\t\t<lastBuildDate>${now.toUTCString()}</lastBuildDate>`,
+		`\t\t<atom:link href="${escapeXml(options.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+		...items,
+		"\t</channel>",
+		"</rss>",
+		"",
+	].join("\n");
+}
+
+/**
+ * Builds an Atom feed of job roles
+ * Atom requires an updated time on every entry; roles without a publish
+ * date use the time the feed was built
+ * @param jobRoles The job roles, newest first
+ * @param options Feed title and URLs
+ * @returns The Atom document
+ */
+export function buildJobRoleAtomFeed(
+	jobRoles: JobRoleResponse[],
+	options: JobRoleFeedOptions
+): string {
+	const now = options.now ?? new Date();
+	const entries = jobRoles.map((jobRole) => {
+		const link = escapeXml(getJobRoleUrl(options.baseUrl, jobRole));
+		const updated =
+			(jobRole.publishDate ? parseFeedDate(jobRole.publishDate) : null) ?? now;
+		return [
+			"\t<entry>",
+			`\t\t<id>${link}</id>`,
+			`\t\t<title>${escapeXml(jobRole.roleName)}</title>`,
+			`\t\t<link rel="alternate" type="text/html" href="${link}"/>`,
+			`\t\t<updated>${updated.toISOString()}</updated>`,
+			`\t\t<summary>${escapeXml(getJobRoleFeedSummary(jobRole))}</summary>`,
+			`\t\t<category term="${escapeXml(jobRole.capability)}"/>`,
+			"\t</entry>",
+		].join("\n");
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en-GB">',
+		`\t<id>${escapeXml(options.selfUrl)}</id>`,
+		`\t<title>${escapeXml(options.title)}</title>`,
+		`\t<updated>${now.toISOString()}</updated>`,
+		"\t<author><name>Kainos</name></author>",
+		`\t<link rel="self" type="application/atom+xml" href="${escapeXml(options.selfUrl)}"/>`,
+		`\t<link rel="alternate" type="text/html" href="${escapeXml(`${options.baseUrl}/job-roles`)}"/>`,
+		...entries,
+		"</feed>",
+		"",
+	].join("\n");
+}
+
+/**
+ * Absolute URL of a job role page
+ */
+function getJobRoleUrl(baseUrl: string, jobRole: JobRoleResponse): string {
+	return `${baseUrl}/job-roles/${jobRole.jobRoleId}`;
+}
+
+/**
+ * Parses the date part of a YYYY-MM-DD or ISO date string as a UTC date
+ */
+function parseFeedDate(dateString: string): Date | null {
+	const datePart = dateString.trim().slice(0, 10);
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(datePart)) {
+		return null;
+	}
+	const date = new Date(`${datePart}T00:00:00Z`);
+	return Number.isNaN(date.getTime()) ? null : date;
+}
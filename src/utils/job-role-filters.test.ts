@@ -0,0 +1,198 @@
+/**
+ * Tests for job role filter utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import {
+	filterJobRoles,
+	getBackendFilterParams,
+	getFilterValues,
+	getJobRoleFilterLabel,
+	hasInMemoryFilters,
+	MAX_FILTER_VALUES,
+	validateJobRoleFilterParams,
+} from "./job-role-filters.js";
+
+const jobRole = (
+	jobRoleId: number,
+	overrides: Partial<JobRoleResponse> = {}
+): JobRoleResponse => ({
+	jobRoleId,
+	roleName: `Role ${jobRoleId}`,
+	location: "Belfast",
+	capability: "Engineering",
+	band: "Mid",
+	closingDate: "2030-06-15",
+	status: "Open",
+	numberOfOpenPositions: 1,
+	...overrides,
+});
+
+describe("getFilterValues", () => {
+	it("should accept single and repeated values", () => {
+		expect(getFilterValues(" Belfast ")).toEqual(["Belfast"]);
+		expect(getFilterValues(["Belfast", "", "Remote", "Belfast"])).toEqual([
+			"Belfast",
+			"Remote",
+		]);
+		expect(getFilterValues(undefined)).toEqual([]);
+		expect(getFilterValues({ nested: "value" })).toEqual([]);
+	});
+});
+
+describe("validateJobRoleFilterParams", () => {
+	it("should read multi-value, date range and open positions filters", () => {
+		expect(
+			validateJobRoleFilterParams({
+				capability: ["Engineering", "Testing"],
+				location: "Remote",
+				band: "",
+				closingAfter: "2030-01-01",
+				closingBefore: "2030-12-31",
+				minOpenPositions: "2",
+			})
+		).toEqual({
+			isValid: true,
+			filters: {
+				capability: ["Engineering", "Testing"],
+				location: ["Remote"],
+				closingAfter: "2030-01-01",
+				closingBefore: "2030-12-31",
+				minOpenPositions: 2,
+			},
+		});
+	});
+
+	it("should reject invalid dates and reversed ranges", () => {
+		expect(
+			validateJobRoleFilterParams({ closingAfter: "2030-02-30" })
+		).toMatchObject({
+			isValid: false,
+			error: "Closing dates must be valid dates in YYYY-MM-DD format",
+		});
+		expect(
+			validateJobRoleFilterParams({
+				closingAfter: "2030-06-01",
+				closingBefore: "2030-01-01",
+			})
+		).toMatchObject({
+			isValid: false,
+			error: "The closing date range must start before it ends",
+		});
+	});
+
+	it("should reject a minimum below one or not a whole number", () => {
+		for (const minOpenPositions of ["0", "1.5", "-2", "two"]) {
+			expect(validateJobRoleFilterParams({ minOpenPositions }).isValid).toBe(
+				false
+			);
+		}
+	});
+
+	it("should limit the number of values per filter", () => {
+		const location = Array.from(
+			{ length: MAX_FILTER_VALUES + 1 },
+			(_, i) => `Location ${i}`
+		);
+		expect(validateJobRoleFilterParams({ location })).toMatchObject({
+			isValid: false,
+			error: `You can select at most ${MAX_FILTER_VALUES} values for location`,
+		});
+	});
+});
+
+describe("backend and in-memory filters", () => {
+	it("should send single values to the backend and keep the rest in memory", () => {
+		const params = {
+			search: "data",
+			capability: ["Engineering", "Testing"],
+			location: ["Belfast"],
+			status: "Open",
+		};
+
+		expect(getBackendFilterParams(params)).toEqual({
+			search: "data",
+			location: "Belfast",
+			status: "Open",
+		});
+		expect(hasInMemoryFilters(params)).toBe(true);
+		expect(hasInMemoryFilters({ location: ["Belfast"] })).toBe(false);
+		expect(hasInMemoryFilters({ minOpenPositions: 1 })).toBe(true);
+	});
+});
+
+describe("filterJobRoles", () => {
+	const roles = [
+		jobRole(1, { capability: "Engineering", location: "Belfast" }),
+		jobRole(2, { capability: "Testing", location: "Remote" }),
+		jobRole(3, { capability: "Data", location: "Belfast" }),
+		jobRole(4, { capability: "testing", location: "London" }),
+	];
+
+	it("should match any value of a filter and every filter", () => {
+		expect(
+			filterJobRoles(roles, {
+				capability: ["Engineering", "Testing"],
+				location: ["Belfast", "Remote"],
+			}).map((role) => role.jobRoleId)
+		).toEqual([1, 2]);
+	});
+
+	it("should include both ends of the closing date range", () => {
+		const dated = [
+			jobRole(1, { closingDate: "2030-01-01" }),
+			jobRole(2, { closingDate: "2030-03-31T17:00:00Z" }),
+			jobRole(3, { closingDate: "2030-04-01" }),
+			jobRole(4, { closingDate: "" }),
+		];
+
+		expect(
+			filterJobRoles(dated, {
+				closingAfter: "2030-01-01",
+				closingBefore: "2030-03-31",
+			}).map((role) => role.jobRoleId)
+		).toEqual([1, 2]);
+	});
+
+	it("should require the minimum number of open positions", () => {
+		const staffed = [
+			jobRole(1, { numberOfOpenPositions: 1 }),
+			jobRole(2, { numberOfOpenPositions: 3 }),
+		];
+
+		expect(
+			filterJobRoles(staffed, { minOpenPositions: 2 }).map(
+				(role) => role.jobRoleId
+			)
+		).toEqual([2]);
+	});
+
+	it("should leave out drafts and scheduled roles when only published roles are wanted", () => {
+		const mixed = [
+			jobRole(1),
+			jobRole(2, { status: "Draft" }),
+			jobRole(3, { publishDate: "2099-01-01" }),
+		];
+
+		expect(hasInMemoryFilters({ publishedOnly: true })).toBe(true);
+		expect(
+			filterJobRoles(mixed, { publishedOnly: true }).map(
+				(role) => role.jobRoleId
+			)
+		).toEqual([1]);
+		expect(filterJobRoles(mixed, { publishedOnly: false })).toHaveLength(3);
+	});
+});
+
+describe("getJobRoleFilterLabel", () => {
+	it("should quote search text and describe other filters", () => {
+		expect(getJobRoleFilterLabel("search", "data")).toBe('Search: "data"');
+		expect(getJobRoleFilterLabel("search", "data", "fulltext")).toBe(
+			'Search: "data" (titles and descriptions)'
+		);
+		expect(getJobRoleFilterLabel("closingAfter", "2030-01-01")).toBe(
+			"Closes on or after: 2030-01-01"
+		);
+	});
+});
@@ -0,0 +1,282 @@
+/**
+ * Job role filter utilities
+ * Reads the multi-value, closing date range and minimum open positions
+ * filters from requests and applies the ones the backend cannot handle
+ * (it only supports a single exact value per filter) in memory
+ */
+
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import type {
+	JobRoleFilterType,
+	JobRoleMultiValueFilter,
+	JobRoleSearchMode,
+	JobRoleSearchParams,
+} from "../models/job-role-search-params.js";
+import { isJobRolePublished } from "./job-role-visibility.js";
+import { validateDateString } from "./validation.js";
+
+export const MULTI_VALUE_FILTERS: readonly JobRoleMultiValueFilter[] = [
+	"capability",
+	"location",
+	"band",
+];
+
+/**
+ * Maximum number of values accepted for a single multi-value filter
+ */
+export const MAX_FILTER_VALUES = 20;
+
+/**
+ * Display labels for each filter, in display order
+ */
+export const JOB_ROLE_FILTER_LABELS: Record<JobRoleFilterType, string> = {
+	search: "Search",
+	capability: "Capability",
+	location: "Location",
+	band: "Band",
+	status: "Status",
+	closingAfter: "Closes on or after",
+	closingBefore: "Closes on or before",
+	minOpenPositions: "Minimum open positions",
+};
+
+/**
+ * Filters read by validateJobRoleFilterParams
+ * Multi-value filters are always arrays so views can check membership
+ */
+export interface JobRoleFilters {
+	capability?: string[];
+	location?: string[];
+	band?: string[];
+	closingAfter?: string;
+	closingBefore?: string;
+	minOpenPositions?: number;
+}
+
+/**
+ * Validation result for job role filter parameters
+ */
+export interface JobRoleFilterValidationResult {
+	isValid: boolean;
+	filters: JobRoleFilters;
+	error?: string;
+}
+
+/**
+ * Normalises a filter value to a list of trimmed, distinct values
+ * Accepts a single value or a repeated query parameter
+ * @param value The raw filter value
+ * @returns The non-empty values in their original order
+ */
+export function getFilterValues(value: unknown): string[] {
+	const values = Array.isArray(value) ? value : [value];
+	const result: string[] = [];
+	for (const item of values) {
+		const trimmed = typeof item === "string" ? item.trim() : "";
+		if (trimmed && !result.includes(trimmed)) {
+			result.push(trimmed);
+		}
+	}
+	return result;
+}
+
+/**
+ * Describes a filter value for display
+ * @param type The filter
+ * @param value The value (or values, joined with commas)
+ * @param searchMode How the search text is matched
+ * @returns A label such as "Location: Belfast" or Search: "engineer"
+ */
+export function getJobRoleFilterLabel(
+	type: JobRoleFilterType,
+	value: string,
+	searchMode?: JobRoleSearchMode
+): string {
+	const label = JOB_ROLE_FILTER_LABELS[type];
+	if (type !== "search") {
+		return `${label}: ${value}`;
+	}
+	return searchMode === "fulltext"
+		? `${label}: "${value}" (titles and descriptions)`
+		: `${label}: "${value}"`;
+}
+
+/**
+ * Validates the capability, location, band, closing date range and minimum
+ * open positions filters from a query string or form body
+ * @param source The request query or body
+ * @returns JobRoleFilterValidationResult with validated filters or error
+ */
+export function validateJobRoleFilterParams(
+	source: Record<string, unknown> | undefined
+): JobRoleFilterValidationResult {
+	const filters: JobRoleFilters = {};
+
+	for (const key of MULTI_VALUE_FILTERS) {
+		const values = getFilterValues(source?.[key]);
+		if (values.length > MAX_FILTER_VALUES) {
+			return {
+				isValid: false,
+				filters: {},
+				error: `You can select at most ${MAX_FILTER_VALUES} values for ${key}`,
+			};
+		}
+		if (values.length > 0) {
+			filters[key] = values;
+		}
+	}
+
+	for (const key of ["closingAfter", "closingBefore"] as const) {
+		const raw = source?.[key];
+		const value = typeof raw === "string" ? raw.trim() : "";
+		if (!value) {
+			continue;
+		}
+		if (!validateDateString(value)) {
+			return {
+				isValid: false,
+				filters: {},
+				error: "Closing dates must be valid dates in YYYY-MM-DD format",
+			};
+		}
+		filters[key] = value;
+	}
+
+	if (
+		filters.closingAfter &&
+		filters.closingBefore &&
+		filters.closingAfter > filters.closingBefore
+	) {
+		return {
+			isValid: false,
+			filters: {},
+			error: "The closing date range must start before it ends",
+		};
+	}
+
+	const rawMinimum = source?.["minOpenPositions"];
+	const minimum = typeof rawMinimum === "string" ? rawMinimum.trim() : "";
+	if (minimum) {
+		if (!/^\d+$/.test(minimum) || Number.parseInt(minimum, 10) < 1) {
+			return {
+				isValid: false,
+				filters: {},
+				error: "Minimum open positions must be a whole number of at least 1",
+			};
+		}
+		filters.minOpenPositions = Number.parseInt(minimum, 10);
+	}
+
+	return { isValid: true, filters };
+}
+
+/**
+ * Checks whether any filter needs to be applied in memory
+ * @param params The search parameters
+ * @returns True for several values on one filter, a closing date range, a
+ * minimum number of open positions or a published-only list
+ */
+export function hasInMemoryFilters(
+	params: Partial<JobRoleSearchParams>
+): boolean {
+	return (
+		MULTI_VALUE_FILTERS.some(
+			(key) => getFilterValues(params[key]).length > 1
+		) ||
+		!!params.closingAfter ||
+		!!params.closingBefore ||
+		params.minOpenPositions !== undefined ||
+		params.publishedOnly === true
+	);
+}
+
+/**
+ * Builds the query parameters the backend search endpoint understands
+ * Multi-value filters are only sent when they have a single value
+ * @param params The search parameters
+ * @returns The search, single-value filters and status that have a value
+ */
+export function getBackendFilterParams(
+	params: Partial<JobRoleSearchParams>
+): Record<string, string> {
+	const backendParams: Record<string, string> = {};
+
+	if (params.search?.trim()) {
+		backendParams["search"] = params.search.trim();
+	}
+
+	for (const key of MULTI_VALUE_FILTERS) {
+		const values = getFilterValues(params[key]);
+		if (values.length === 1 && values[0]) {
+			backendParams[key] = values[0];
+		}
+	}
+
+	if (params.status?.trim()) {
+		backendParams["status"] = params.status.trim();
+	}
+
+	return backendParams;
+}
+
+/**
+ * Checks a job role against the filters
+ * Multi-value filters match any of their values, ignoring case, and the
+ * closing date range includes both ends
+ * @param jobRole The job role
+ * @param params The search parameters
+ * @returns True when the role matches every filter
+ */
+export function matchesJobRoleFilters(
+	jobRole: JobRoleResponse,
+	params: Partial<JobRoleSearchParams>
+): boolean {
+	for (const key of MULTI_VALUE_FILTERS) {
+		const values = getFilterValues(params[key]).map((value) =>
+			value.toLowerCase()
+		);
+		if (values.length > 0 && !values.includes(jobRole[key].toLowerCase())) {
+			return false;
+		}
+	}
+
+	if (params.closingAfter || params.closingBefore) {
+		// Roles without a valid closing date never match a date range
+		const closingDate = jobRole.closingDate?.slice(0, 10) ?? "";
+		if (!validateDateString(closingDate)) {
+			return false;
+		}
+		if (params.closingAfter && closingDate < params.closingAfter) {
+			return false;
+		}
+		if (params.closingBefore && closingDate > params.closingBefore) {
+			return false;
+		}
+	}
+
+	if (
+		params.minOpenPositions !== undefined &&
+		jobRole.numberOfOpenPositions < params.minOpenPositions
+	) {
+		return false;
+	}
+
+	if (params.publishedOnly && !isJobRolePublished(jobRole)) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Keeps the job roles that match the filters
+ * @param jobRoles The job roles
+ * @param params The search parameters
+ * @returns A new array of matching roles
+ */
+export function filterJobRoles<T extends JobRoleResponse>(
+	jobRoles: T[],
+	params: Partial<JobRoleSearchParams>
+): T[] {
+	return jobRoles.filter((jobRole) => matchesJobRoleFilters(jobRole, params));
+}
@@ -0,0 +1,56 @@
+/**
+ * Tests for job role search query utilities
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRoleService } from "../services/job-role-service.js";
+import {
+	parseJobRoleSearchQuery,
+	searchJobRolesByMode,
+} from "./job-role-search-query.js";
+
+describe("parseJobRoleSearchQuery", () => {
+	it("should only keep the full-text mode when there is search text", () => {
+		expect(
+			parseJobRoleSearchQuery({ search: " cloud ", searchMode: "fulltext" })
+		).toEqual({
+			isValid: true,
+			searchParams: { search: "cloud", searchMode: "fulltext" },
+			hasFilters: true,
+		});
+		expect(
+			parseJobRoleSearchQuery({ searchMode: "fulltext" }).searchParams
+		).toEqual({});
+	});
+});
+
+describe("searchJobRolesByMode", () => {
+	let jobRoleService: JobRoleService;
+
+	beforeEach(() => {
+		jobRoleService = {
+			searchJobRoles: vi.fn(),
+			searchJobRolesFullText: vi.fn(),
+		} as unknown as JobRoleService;
+	});
+
+	it("should run a full-text search when it is requested with search text", async () => {
+		const params = { search: "cloud", searchMode: "fulltext" as const };
+
+		await searchJobRolesByMode(jobRoleService, params);
+
+		expect(jobRoleService.searchJobRolesFullText).toHaveBeenCalledWith(params);
+		expect(jobRoleService.searchJobRoles).not.toHaveBeenCalled();
+	});
+
+	it("should run a title search otherwise", async () => {
+		await searchJobRolesByMode(jobRoleService, { search: "cloud" });
+		await searchJobRolesByMode(jobRoleService, {
+			search: " ",
+			searchMode: "fulltext",
+		});
+
+		expect(jobRoleService.searchJobRoles).toHaveBeenCalledTimes(2);
+		expect(jobRoleService.searchJobRolesFullText).not.toHaveBeenCalled();
+	});
+});
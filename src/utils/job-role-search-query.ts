@@ -0,0 +1,95 @@
+/**
+ * Job role search query utilities
+ * Reads the search text, filters, search mode and sort shared by the HTML
+ * job role lists and the JSON API
+ */
+
+import type { Request } from "express";
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import type { JobRoleSearchParams } from "../models/job-role-search-params.js";
+import type { JobRoleSearchResult } from "../models/job-role-search-result.js";
+import type { PaginatedResponse } from "../models/pagination.js";
+import type { JobRoleService } from "../services/job-role-service.js";
+import { parseJobRoleSearchMode } from "./full-text-search.js";
+import { validateJobRoleFilterParams } from "./job-role-filters.js";
+import { validateJobRoleSortParams } from "./job-role-sort.js";
+
+/**
+ * Validation result for a job role search query
+ */
+export interface JobRoleSearchQueryResult {
+	isValid: boolean;
+	searchParams: JobRoleSearchParams;
+	hasFilters: boolean; // True when any search text or filter is set (sort alone does not count)
+	error?: string;
+}
+
+/**
+ * Validates the search, filter and sort parameters from a query string
+ * Pagination is validated separately with validatePaginationParams
+ * @param query The request query
+ * @returns JobRoleSearchQueryResult with the search parameters or error
+ */
+export function parseJobRoleSearchQuery(
+	query: Request["query"]
+): JobRoleSearchQueryResult {
+	const sortValidation = validateJobRoleSortParams(
+		query["sort"] as string,
+		query["order"] as string
+	);
+	if (!sortValidation.isValid) {
+		return {
+			isValid: false,
+			searchParams: {},
+			hasFilters: false,
+			...(sortValidation.error ? { error: sortValidation.error } : {}),
+		};
+	}
+
+	const filterValidation = validateJobRoleFilterParams(query);
+	if (!filterValidation.isValid) {
+		return {
+			isValid: false,
+			searchParams: {},
+			hasFilters: false,
+			...(filterValidation.error ? { error: filterValidation.error } : {}),
+		};
+	}
+
+	const search =
+		typeof query["search"] === "string" ? query["search"].trim() : "";
+	const status =
+		typeof query["status"] === "string" ? query["status"].trim() : "";
+	const searchMode = parseJobRoleSearchMode(query["searchMode"]);
+
+	return {
+		isValid: true,
+		searchParams: {
+			...(search ? { search } : {}),
+			...(search && searchMode === "fulltext" ? { searchMode } : {}),
+			...filterValidation.filters,
+			...(status ? { status } : {}),
+			...sortValidation.options,
+		},
+		hasFilters:
+			search !== "" ||
+			status !== "" ||
+			Object.keys(filterValidation.filters).length > 0,
+	};
+}
+
+/**
+ * Runs a title search, or a ranked full-text search when it was requested
+ * and there is search text
+ * @param jobRoleService The job role service
+ * @param searchParams The search, filter, sort and pagination parameters
+ * @returns The requested page of results
+ */
+export function searchJobRolesByMode(
+	jobRoleService: JobRoleService,
+	searchParams: JobRoleSearchParams
+): Promise<PaginatedResponse<JobRoleResponse | JobRoleSearchResult>> {
+	return searchParams.searchMode === "fulltext" && searchParams.search?.trim()
+		? jobRoleService.searchJobRolesFullText(searchParams)
+		: jobRoleService.searchJobRoles(searchParams);
+}
@@ -0,0 +1,124 @@
+/**
+ * Tests for job role sort utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import { sortJobRoles, validateJobRoleSortParams } from "./job-role-sort.js";
+
+const jobRole = (
+	jobRoleId: number,
+	overrides: Partial<JobRoleResponse> = {}
+): JobRoleResponse => ({
+	jobRoleId,
+	roleName: `Role ${jobRoleId}`,
+	location: "Belfast",
+	capability: "Engineering",
+	band: "Mid",
+	closingDate: "2099-12-31",
+	status: "Open",
+	numberOfOpenPositions: 1,
+	...overrides,
+});
+
+const ids = (jobRoles: JobRoleResponse[]) =>
+	jobRoles.map((role) => role.jobRoleId);
+
+describe("validateJobRoleSortParams", () => {
+	it("should keep the default order when no sort is given", () => {
+		expect(validateJobRoleSortParams()).toEqual({ isValid: true, options: {} });
+		expect(validateJobRoleSortParams(undefined, "desc")).toEqual({
+			isValid: true,
+			options: {},
+		});
+	});
+
+	it("should accept a sort field and default to ascending", () => {
+		expect(validateJobRoleSortParams("closingDate").options).toEqual({
+			sort: "closingDate",
+			order: "asc",
+		});
+		expect(validateJobRoleSortParams("band", "DESC").options).toEqual({
+			sort: "band",
+			order: "desc",
+		});
+	});
+
+	it("should reject unknown sort fields and orders", () => {
+		expect(validateJobRoleSortParams("salary")).toMatchObject({
+			isValid: false,
+			error:
+				"Sort must be one of: closingDate, roleName, band, numberOfOpenPositions",
+		});
+		expect(validateJobRoleSortParams("roleName", "up")).toMatchObject({
+			isValid: false,
+			error: "Order must be either asc or desc",
+		});
+	});
+});
+
+describe("sortJobRoles", () => {
+	it("should sort by closing date with invalid dates last", () => {
+		const roles = [
+			jobRole(1, { closingDate: "2030-06-01" }),
+			jobRole(2, { closingDate: "not a date" }),
+			jobRole(3, { closingDate: "2030-01-15" }),
+		];
+
+		expect(ids(sortJobRoles(roles, { sort: "closingDate" }))).toEqual([
+			3, 1, 2,
+		]);
+		expect(
+			ids(sortJobRoles(roles, { sort: "closingDate", order: "desc" }))
+		).toEqual([2, 1, 3]);
+	});
+
+	it("should sort role names case-insensitively", () => {
+		const roles = [
+			jobRole(1, { roleName: "tester" }),
+			jobRole(2, { roleName: "Analyst" }),
+			jobRole(3, { roleName: "Product Owner" }),
+		];
+
+		expect(ids(sortJobRoles(roles, { sort: "roleName" }))).toEqual([2, 3, 1]);
+	});
+
+	it("should sort bands by their configured order", () => {
+		const roles = [
+			jobRole(1, { band: "Senior" }),
+			jobRole(2, { band: "Principal" }),
+			jobRole(3, { band: "junior" }),
+		];
+
+		expect(ids(sortJobRoles(roles, { sort: "band" }))).toEqual([3, 1, 2]);
+		expect(
+			ids(
+				sortJobRoles(roles, { sort: "band" }, ["Junior", "Senior", "Principal"])
+			)
+		).toEqual([3, 1, 2]);
+		expect(
+			ids(
+				sortJobRoles(roles, { sort: "band", order: "desc" }, [
+					"Junior",
+					"Senior",
+					"Principal",
+				])
+			)
+		).toEqual([2, 1, 3]);
+	});
+
+	it("should keep the current order for ties and when no sort is set", () => {
+		const roles = [
+			jobRole(1, { numberOfOpenPositions: 2 }),
+			jobRole(2, { numberOfOpenPositions: 5 }),
+			jobRole(3, { numberOfOpenPositions: 2 }),
+		];
+
+		expect(
+			ids(sortJobRoles(roles, { sort: "numberOfOpenPositions", order: "desc" }))
+		).toEqual([2, 1, 3]);
+		const unsorted = sortJobRoles(roles, {});
+		expect(ids(unsorted)).toEqual([1, 2, 3]);
+		expect(unsorted).not.toBe(roles);
+	});
+});
@@ -0,0 +1,146 @@
+/**
+ * Job role sort utilities
+ * Validates the sort parameters for the job role lists and applies them in
+ * memory, since the backend only returns roles in its own order
+ */
+
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import type {
+	JobRoleSearchParams,
+	JobRoleSortField,
+	JobRoleSortOrder,
+} from "../models/job-role-search-params.js";
+import { VALID_BANDS } from "./job-role-validation-constants.js";
+
+export const JOB_ROLE_SORT_FIELDS: readonly JobRoleSortField[] = [
+	"closingDate",
+	"roleName",
+	"band",
+	"numberOfOpenPositions",
+];
+
+export const JOB_ROLE_SORT_ORDERS: readonly JobRoleSortOrder[] = [
+	"asc",
+	"desc",
+];
+
+export const DEFAULT_JOB_ROLE_ORDER: JobRoleSortOrder = "asc";
+
+/**
+ * Sort options picked out of a job role list query
+ */
+export type JobRoleSortOptions = Pick<JobRoleSearchParams, "sort" | "order">;
+
+/**
+ * Validation result for job role sort parameters
+ */
+export interface JobRoleSortValidationResult {
+	isValid: boolean;
+	options: JobRoleSortOptions;
+	error?: string;
+}
+
+/**
+ * Validates sort parameters from query strings
+ * An order without a sort field is ignored, and a sort field without an
+ * order defaults to ascending
+ * @param sortStr Raw sort parameter from query
+ * @param orderStr Raw order parameter from query
+ * @returns JobRoleSortValidationResult with validated options or error
+ */
+export function validateJobRoleSortParams(
+	sortStr?: string,
+	orderStr?: string
+): JobRoleSortValidationResult {
+	if (!sortStr) {
+		return { isValid: true, options: {} };
+	}
+
+	if (!(JOB_ROLE_SORT_FIELDS as readonly string[]).includes(sortStr)) {
+		return {
+			isValid: false,
+			options: {},
+			error: `Sort must be one of: ${JOB_ROLE_SORT_FIELDS.join(", ")}`,
+		};
+	}
+
+	const order = orderStr ? orderStr.toLowerCase() : DEFAULT_JOB_ROLE_ORDER;
+	if (!(JOB_ROLE_SORT_ORDERS as readonly string[]).includes(order)) {
+		return {
+			isValid: false,
+			options: {},
+			error: "Order must be either asc or desc",
+		};
+	}
+
+	return {
+		isValid: true,
+		options: {
+			sort: sortStr as JobRoleSortField,
+			order: order as JobRoleSortOrder,
+		},
+	};
+}
+
+/**
+ * Position of a band in the band list, used when sorting by band
+ * Unknown bands sort after every known one
+ */
+function bandRank(band: string, bandOrder: readonly string[]): number {
+	const index = bandOrder.findIndex(
+		(value) => value.toLowerCase() === band.toLowerCase()
+	);
+	return index === -1 ? bandOrder.length : index;
+}
+
+/**
+ * Compares two job roles by the given sort field (ascending)
+ * Missing or invalid closing dates count as the latest possible date
+ */
+function compareJobRoles(
+	a: JobRoleResponse,
+	b: JobRoleResponse,
+	sort: JobRoleSortField,
+	bandOrder: readonly string[]
+): number {
+	switch (sort) {
+		case "roleName":
+			return a.roleName.localeCompare(b.roleName, undefined, {
+				sensitivity: "base",
+			});
+		case "band":
+			return bandRank(a.band, bandOrder) - bandRank(b.band, bandOrder);
+		case "numberOfOpenPositions":
+			return a.numberOfOpenPositions - b.numberOfOpenPositions;
+		default: {
+			const aTime = Date.parse(a.closingDate) || Number.MAX_SAFE_INTEGER;
+			const bTime = Date.parse(b.closingDate) || Number.MAX_SAFE_INTEGER;
+			return aTime - bTime;
+		}
+	}
+}
+
+/**
+ * Sorts job roles in memory
+ * The sort is stable, so roles that compare equal keep their current order
+ * (relevance order for full-text results)
+ * @param jobRoles The job roles to sort
+ * @param options Sort field and direction
+ * @param bandOrder Bands from lowest to highest (defaults to the built-in bands)
+ * @returns A new sorted array, or a copy in the same order when no sort is set
+ */
+export function sortJobRoles<T extends JobRoleResponse>(
+	jobRoles: T[],
+	options: JobRoleSortOptions,
+	bandOrder: readonly string[] = VALID_BANDS
+): T[] {
+	if (!options.sort) {
+		return [...jobRoles];
+	}
+
+	const sort = options.sort;
+	const direction = options.order === "desc" ? -1 : 1;
+	return [...jobRoles].sort(
+		(a, b) => compareJobRoles(a, b, sort, bandOrder) * direction
+	);
+}
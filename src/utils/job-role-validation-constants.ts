@@ -1,5 +1,7 @@
 /**
  * Validation constants for job role creation and validation
+ * These are the default reference data lists; admins can change the live
+ * lists from the reference data pages
  */
 
 export const VALID_LOCATIONS = [
@@ -31,4 +33,4 @@ export const VALID_CAPABILITIES = [
 
 export const VALID_BANDS = ["Junior", "Mid", "Senior"] as const;
 
-export const VALID_STATUSES = ["Open", "Closed", "On Hold"] as const;
+export const VALID_STATUSES = ["Open", "Closed", "On Hold", "Draft"] as const;
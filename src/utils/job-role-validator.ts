@@ -2,12 +2,8 @@
  * Validator for job role creation and updates
  */
 
-import {
-	VALID_BANDS,
-	VALID_CAPABILITIES,
-	VALID_LOCATIONS,
-	VALID_STATUSES,
-} from "./job-role-validation-constants.js";
+import type { ReferenceData } from "../models/reference-data.js";
+import { DEFAULT_REFERENCE_DATA } from "./reference-data.js";
 
 export interface ValidationResult {
 	isValid: boolean;
@@ -25,15 +21,24 @@ export interface JobRoleData {
 	closingDate: string;
 	status: string;
 	numberOfOpenPositions: string;
+	publishDate?: string;
 }
 
+/**
+ * Fields that may be left empty
+ */
+const OPTIONAL_FIELDS: readonly (keyof JobRoleData)[] = ["publishDate"];
+
 export class JobRoleValidator {
 	/**
 	 * Validates all fields for job role creation
+	 * Location, capability, band and status are checked against the
+	 * reference data lists (the defaults unless the live lists are passed in)
 	 */
 	public validateJobRole(
 		data: JobRoleData,
-		isUpdate = false
+		isUpdate = false,
+		referenceData: ReferenceData = DEFAULT_REFERENCE_DATA
 	): ValidationResult {
 		// Validate required fields
 		const requiredFieldsResult = this.validateRequiredFields(data);
@@ -42,25 +47,34 @@ export class JobRoleValidator {
 		}
 
 		// Validate location
-		const locationResult = this.validateLocation(data.location);
+		const locationResult = this.validateLocation(
+			data.location,
+			referenceData.locations
+		);
 		if (!locationResult.isValid) {
 			return locationResult;
 		}
 
 		// Validate capability
-		const capabilityResult = this.validateCapability(data.capability);
+		const capabilityResult = this.validateCapability(
+			data.capability,
+			referenceData.capabilities
+		);
 		if (!capabilityResult.isValid) {
 			return capabilityResult;
 		}
 
 		// Validate band
-		const bandResult = this.validateBand(data.band);
+		const bandResult = this.validateBand(data.band, referenceData.bands);
 		if (!bandResult.isValid) {
 			return bandResult;
 		}
 
 		// Validate status
-		const statusResult = this.validateStatus(data.status);
+		const statusResult = this.validateStatus(
+			data.status,
+			referenceData.statuses
+		);
 		if (!statusResult.isValid) {
 			return statusResult;
 		}
@@ -79,6 +93,15 @@ export class JobRoleValidator {
 			return dateResult;
 		}
 
+		// Validate optional publish date
+		const publishDateResult = this.validatePublishDate(
+			data.publishDate,
+			data.closingDate
+		);
+		if (!publishDateResult.isValid) {
+			return publishDateResult;
+		}
+
 		// Validate job spec link
 		const urlResult = this.validateJobSpecLink(data.jobSpecLink);
 		if (!urlResult.isValid) {
@@ -97,6 +120,9 @@ export class JobRoleValidator {
 	private validateRequiredFields(data: JobRoleData): ValidationResult {
 		// Iterate over each field to check for empty values
 		for (const [key, value] of Object.entries(data)) {
+			if (OPTIONAL_FIELDS.includes(key as keyof JobRoleData)) {
+				continue;
+			}
 			// Use optional chaining and trim to handle null/undefined and whitespace
 			if (!value?.trim()) {
 				// Provide a clear error message indicating which field is missing
@@ -110,12 +136,11 @@ export class JobRoleValidator {
 		return { isValid: true };
 	}
 
-	private validateLocation(location: string): ValidationResult {
-		if (
-			!VALID_LOCATIONS.includes(
-				location.trim() as (typeof VALID_LOCATIONS)[number]
-			)
-		) {
+	private validateLocation(
+		location: string,
+		validLocations: readonly string[]
+	): ValidationResult {
+		if (!validLocations.includes(location.trim())) {
 			return {
 				isValid: false,
 				error: `Invalid location: "${location}". Please select a valid location from the dropdown.`,
@@ -124,12 +149,11 @@ export class JobRoleValidator {
 		return { isValid: true };
 	}
 
-	private validateCapability(capability: string): ValidationResult {
-		if (
-			!VALID_CAPABILITIES.includes(
-				capability.trim() as (typeof VALID_CAPABILITIES)[number]
-			)
-		) {
+	private validateCapability(
+		capability: string,
+		validCapabilities: readonly string[]
+	): ValidationResult {
+		if (!validCapabilities.includes(capability.trim())) {
 			return {
 				isValid: false,
 				error: `Invalid capability: "${capability}". Please select a valid capability from the dropdown.`,
@@ -138,8 +162,11 @@ export class JobRoleValidator {
 		return { isValid: true };
 	}
 
-	private validateBand(band: string): ValidationResult {
-		if (!VALID_BANDS.includes(band.trim() as (typeof VALID_BANDS)[number])) {
+	private validateBand(
+		band: string,
+		validBands: readonly string[]
+	): ValidationResult {
+		if (!validBands.includes(band.trim())) {
 			return {
 				isValid: false,
 				error: `Invalid band level: "${band}". Please select a valid band from the dropdown.`,
@@ -148,10 +175,11 @@ export class JobRoleValidator {
 		return { isValid: true };
 	}
 
-	private validateStatus(status: string): ValidationResult {
-		if (
-			!VALID_STATUSES.includes(status.trim() as (typeof VALID_STATUSES)[number])
-		) {
+	private validateStatus(
+		status: string,
+		validStatuses: readonly string[]
+	): ValidationResult {
+		if (!validStatuses.includes(status.trim())) {
 			return {
 				isValid: false,
 				error: `Invalid status: "${status}". Please select a valid status from the dropdown.`,
@@ -205,6 +233,33 @@ export class JobRoleValidator {
 		return { isValid: true };
 	}
 
+	private validatePublishDate(
+		publishDate: string | undefined,
+		closingDate: string
+	): ValidationResult {
+		const trimmedDate = publishDate?.trim() ?? "";
+		if (trimmedDate === "") {
+			return { isValid: true };
+		}
+
+		if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmedDate)) {
+			return {
+				isValid: false,
+				error: "Invalid publish date format. Please use YYYY-MM-DD format.",
+			};
+		}
+
+		// Both dates are YYYY-MM-DD so they compare correctly as strings
+		if (trimmedDate > closingDate.trim()) {
+			return {
+				isValid: false,
+				error: "Publish date must be on or before the closing date.",
+			};
+		}
+
+		return { isValid: true };
+	}
+
 	private validateJobSpecLink(jobSpecLink: string): ValidationResult {
 		try {
 			const url = new URL(jobSpecLink.trim());
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for job role visibility utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	getJobRolePublicationState,
+	isJobRolePublished,
+} from "./job-role-visibility.js";
+
+describe("getJobRolePublicationState", () => {
+	const now = new Date(2025, 5, 15, 12, 0);
+
+	it("should treat Draft roles as drafts regardless of publish date", () => {
+		expect(getJobRolePublicationState({ status: "Draft" }, now)).toBe("draft");
+		expect(
+			getJobRolePublicationState(
+				{ status: "draft", publishDate: "2025-01-01" },
+				now
+			)
+		).toBe("draft");
+	});
+
+	it("should treat roles with a future publish date as scheduled", () => {
+		expect(
+			getJobRolePublicationState(
+				{ status: "Open", publishDate: "2025-06-16" },
+				now
+			)
+		).toBe("scheduled");
+	});
+
+	it("should publish roles from the start of their publish date", () => {
+		expect(
+			getJobRolePublicationState(
+				{ status: "Open", publishDate: "2025-06-15" },
+				now
+			)
+		).toBe("published");
+		expect(
+			getJobRolePublicationState(
+				{ status: "Open", publishDate: "2025-06-15T00:00:00.000Z" },
+				now
+			)
+		).toBe("published");
+	});
+
+	it("should treat roles without a publish date as published", () => {
+		expect(getJobRolePublicationState({ status: "Closed" }, now)).toBe(
+			"published"
+		);
+	});
+});
+
+describe("isJobRolePublished", () => {
+	const now = new Date(2025, 5, 15, 12, 0);
+
+	it("should only return true for published roles", () => {
+		expect(isJobRolePublished({ status: "Open" }, now)).toBe(true);
+		expect(isJobRolePublished({ status: "Draft" }, now)).toBe(false);
+		expect(
+			isJobRolePublished({ status: "Open", publishDate: "2099-01-01" }, now)
+		).toBe(false);
+	});
+});
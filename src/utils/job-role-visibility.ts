@@ -0,0 +1,52 @@
+/**
+ * Job role visibility utilities
+ * Drafts and roles with a future publish date are only visible to admins
+ */
+
+import { toLocalDateString } from "./closing-date.js";
+
+export const DRAFT_STATUS = "Draft";
+
+/**
+ * Where a job role is in the publishing workflow
+ * - draft: saved with the Draft status
+ * - scheduled: has a publish date that has not been reached yet
+ * - published: visible to everyone
+ */
+export type JobRolePublicationState = "draft" | "scheduled" | "published";
+
+/**
+ * Works out the publication state of a job role
+ * A role becomes visible at the start of its publish date
+ * @param jobRole The job role's status and optional publish date
+ * @param now The current time (defaults to now)
+ * @returns The publication state
+ */
+export function getJobRolePublicationState(
+	jobRole: { status?: string | undefined; publishDate?: string | undefined },
+	now: Date = new Date()
+): JobRolePublicationState {
+	if (jobRole.status?.trim().toLowerCase() === DRAFT_STATUS.toLowerCase()) {
+		return "draft";
+	}
+
+	const publishDate = jobRole.publishDate?.trim().slice(0, 10) ?? "";
+	if (publishDate !== "" && publishDate > toLocalDateString(now)) {
+		return "scheduled";
+	}
+
+	return "published";
+}
+
+/**
+ * Checks whether a job role can be shown to the public
+ * @param jobRole The job role's status and optional publish date
+ * @param now The current time (defaults to now)
+ * @returns True when the role is published
+ */
+export function isJobRolePublished(
+	jobRole: { status?: string | undefined; publishDate?: string | undefined },
+	now: Date = new Date()
+): boolean {
+	return getJobRolePublicationState(jobRole, now) === "published";
+}
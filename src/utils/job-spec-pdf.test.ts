@@ -0,0 +1,58 @@
+/**
+ * Tests for job specification PDF utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import {
+	buildJobSpecPdf,
+	getJobSpecBlocks,
+	getJobSpecFileName,
+} from "./job-spec-pdf.js";
+
+describe("job specification PDF", () => {
+	const jobRole: JobRoleDetailedResponse = {
+		jobRoleId: 12,
+		roleName: "Senior Software Engineer (Platform)",
+		description: "Build the platform.",
+		responsibilities: "",
+		jobSpecLink: "https://example.com/spec",
+		location: "Belfast, Northern Ireland",
+		capability: "Engineering",
+		band: "Senior",
+		closingDate: "2099-12-31",
+		status: "Open",
+		numberOfOpenPositions: 2,
+	};
+
+	it("should build a file name from the role name", () => {
+		expect(getJobSpecFileName(jobRole)).toBe(
+			"job-spec-12-senior-software-engineer-platform.pdf"
+		);
+		expect(getJobSpecFileName({ ...jobRole, roleName: "???" })).toBe(
+			"job-spec-12.pdf"
+		);
+	});
+
+	it("should include the band, location, closing date and both sections", () => {
+		const text = getJobSpecBlocks(jobRole)
+			.map((block) => block.text)
+			.join("\n");
+
+		expect(text).toContain("Band: Senior Level");
+		expect(text).toContain("Location: Belfast, Northern Ireland");
+		expect(text).toContain("Closing date: 31 December 2099");
+		expect(text).toContain("Description\nBuild the platform.");
+		expect(text).toContain("Responsibilities\nNot provided");
+		expect(text).toContain("Full job specification: https://example.com/spec");
+	});
+
+	it("should build a PDF titled after the role", () => {
+		const pdf = buildJobSpecPdf(jobRole, new Date("2025-01-01T00:00:00Z"));
+
+		expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+		expect(pdf.toString("latin1")).toContain(
+			"/Title (Senior Software Engineer \\(Platform\\) - Job Specification)"
+		);
+	});
+});
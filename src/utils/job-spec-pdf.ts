@@ -0,0 +1,89 @@
+/**
+ * Job specification PDF utilities
+ * Lays out a job role as a printable PDF for interview panels
+ */
+
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import { formatExportDate } from "./csv-export.js";
+import { buildPdf, type PdfTextBlock } from "./pdf-export.js";
+
+const HEADING_COLOR: [number, number, number] = [0.11, 0.31, 0.85];
+const MUTED_COLOR: [number, number, number] = [0.35, 0.35, 0.35];
+
+/**
+ * Builds the download file name for a job role's specification
+ * @param jobRole The job role
+ * @returns A file name such as "job-spec-12-software-engineer.pdf"
+ */
+export function getJobSpecFileName(jobRole: JobRoleDetailedResponse): string {
+	const slug = jobRole.roleName
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "")
+		.slice(0, 60);
+	return `job-spec-${jobRole.jobRoleId}${slug ? `-${slug}` : ""}.pdf`;
+}
+
+/**
+ * Builds the text blocks of a job specification
+ * @param jobRole The job role
+ * @returns The blocks in print order
+ */
+export function getJobSpecBlocks(
+	jobRole: JobRoleDetailedResponse
+): PdfTextBlock[] {
+	const section = (heading: string, text: string): PdfTextBlock[] => [
+		{
+			text: heading,
+			font: "bold",
+			size: 14,
+			spaceBefore: 18,
+			color: HEADING_COLOR,
+		},
+		{ text: text.trim() || "Not provided", spaceBefore: 4 },
+	];
+
+	return [
+		{ text: "Kainos job specification", size: 10, color: MUTED_COLOR },
+		{ text: jobRole.roleName, font: "bold", size: 22, spaceBefore: 6 },
+		{
+			text: [
+				`Band: ${jobRole.band} Level`,
+				`Location: ${jobRole.location}`,
+				`Capability: ${jobRole.capability}`,
+				`Closing date: ${formatExportDate(jobRole.closingDate, "long")}`,
+				`Open positions: ${jobRole.numberOfOpenPositions}`,
+			].join("\n"),
+			spaceBefore: 12,
+		},
+		...section("Description", jobRole.description),
+		...section("Responsibilities", jobRole.responsibilities),
+		...(jobRole.jobSpecLink
+			? [
+					{
+						text: `Full job specification: ${jobRole.jobSpecLink}`,
+						size: 9,
+						spaceBefore: 18,
+						color: MUTED_COLOR,
+					},
+				]
+			: []),
+	];
+}
+
+/**
+ * Builds the job specification PDF for a job role
+ * @param jobRole The job role
+ * @param now The creation time recorded in the PDF (defaults to now)
+ * @returns The PDF file contents
+ */
+export function buildJobSpecPdf(
+	jobRole: JobRoleDetailedResponse,
+	now: Date = new Date()
+): Buffer {
+	return buildPdf(getJobSpecBlocks(jobRole), {
+		title: `${jobRole.roleName} - Job Specification`,
+		footer: `${jobRole.roleName} - Kainos job specification`,
+		now,
+	});
+}
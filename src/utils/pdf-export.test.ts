@@ -0,0 +1,109 @@
+/**
+ * Tests for the PDF export utility
+ */
+
+import { inflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { buildPdf, measurePdfText, wrapPdfText } from "./pdf-export.js";
+
+/**
+ * Decompresses every page content stream in a PDF
+ */
+function getPageContents(pdf: Buffer): string[] {
+	const contents: string[] = [];
+	let start = pdf.indexOf("stream\n");
+	while (start !== -1) {
+		const end = pdf.indexOf("\nendstream", start);
+		contents.push(
+			inflateSync(pdf.subarray(start + "stream\n".length, end)).toString(
+				"latin1"
+			)
+		);
+		start = pdf.indexOf("stream\n", end + "\nendstream".length);
+	}
+	return contents;
+}
+
+describe("PDF export", () => {
+	describe("measurePdfText", () => {
+		it("should use the Helvetica glyph widths", () => {
+			expect(measurePdfText("il", "regular", 10)).toBeCloseTo(4.44);
+			expect(measurePdfText("il", "bold", 10)).toBeCloseTo(5.56);
+		});
+	});
+
+	describe("wrapPdfText", () => {
+		it("should wrap at spaces and keep line breaks", () => {
+			expect(wrapPdfText("one two three\nfour", "regular", 10, 40)).toEqual([
+				"one two",
+				"three",
+				"four",
+			]);
+		});
+
+		it("should break words longer than a line", () => {
+			const lines = wrapPdfText("x".repeat(30), "regular", 10, 50);
+
+			expect(lines.length).toBeGreaterThan(1);
+			expect(lines.join("")).toBe("x".repeat(30));
+			for (const line of lines) {
+				expect(measurePdfText(line, "regular", 10)).toBeLessThanOrEqual(50);
+			}
+		});
+	});
+
+	describe("buildPdf", () => {
+		const now = new Date("2025-01-02T03:04:05Z");
+
+		it("should build a valid single page document", () => {
+			const pdf = buildPdf([{ text: "Hello (world) \\ café – €5" }], {
+				title: "Test",
+				now,
+			});
+			const text = pdf.toString("latin1");
+
+			expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+			expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+			expect(text).toContain("/Count 1");
+			expect(text).toContain("/Title (Test)");
+			expect(text).toContain("/CreationDate (D:20250102030405Z)");
+			expect(getPageContents(pdf)[0]).toContain(
+				"(Hello \\(world\\) \\\\ caf\\351 \\226 \\2005) Tj"
+			);
+		});
+
+		it("should point the cross-reference table at each object", () => {
+			const pdf = buildPdf([{ text: "Hello" }], { title: "Test", now });
+			const text = pdf.toString("latin1");
+			const startxref = Number(
+				/startxref\n(\d+)/.exec(text)?.[1] ?? Number.NaN
+			);
+			const entries = text
+				.slice(startxref)
+				.split("\n")
+				.filter((line) => / 00000 n $/.test(line));
+
+			expect(text.slice(startxref, startxref + 4)).toBe("xref");
+			entries.forEach((entry, index) => {
+				const offset = Number(entry.slice(0, 10));
+				expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+			});
+		});
+
+		it("should flow long text onto further pages with page numbers", () => {
+			const pdf = buildPdf(
+				[
+					{
+						text: Array.from({ length: 120 }, (_, i) => `Line ${i}`).join("\n"),
+					},
+				],
+				{ title: "Test", footer: "Spec", now }
+			);
+			const pages = getPageContents(pdf);
+
+			expect(pdf.toString("latin1")).toContain("/Count 3");
+			expect(pages[0]).toContain("(Spec - Page 1 of 3) Tj");
+			expect(pages[2]).toContain("(Line 119) Tj");
+		});
+	});
+});
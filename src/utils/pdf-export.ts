@@ -0,0 +1,391 @@
+/**
+ * PDF Export Utility
+ * Builds simple text-only A4 PDF documents without third-party dependencies
+ * Text is set in the standard Helvetica fonts (which every PDF viewer
+ * provides, so nothing is embedded), wrapped to the page width and flowed
+ * across as many pages as needed. Page content is compressed with Node's
+ * built-in zlib
+ */
+
+import { deflateSync } from "node:zlib";
+
+export type PdfFont = "regular" | "bold";
+
+/**
+ * A paragraph of text in the document
+ * Line breaks in the text start new lines within the block
+ */
+export interface PdfTextBlock {
+	text: string;
+	font?: PdfFont;
+	size?: number; // Font size in points (defaults to 11)
+	spaceBefore?: number; // Gap above the block in points
+	color?: [number, number, number]; // RGB components from 0 to 1
+}
+
+/**
+ * Document-wide options
+ * footer is printed at the bottom of every page followed by the page number
+ */
+export interface PdfDocumentOptions {
+	title: string;
+	footer?: string;
+	now?: Date;
+}
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SIZE = 8;
+const LINE_HEIGHT = 1.35;
+const DEFAULT_SIZE = 11;
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+/**
+ * Glyph widths (per 1000 units of font size) for characters 32-126,
+ * taken from the Adobe Helvetica and Helvetica-Bold font metrics
+ */
+const GLYPH_WIDTHS: Record<PdfFont, number[]> = {
+	regular: [
+		278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+		278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+		584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+		833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+		278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+		500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+		500, 334, 260, 334, 584,
+	],
+	bold: [
+		278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+		278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+		584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+		833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+		278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+		556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+		500, 389, 280, 389, 584,
+	],
+};
+
+/**
+ * Width used for characters outside printable ASCII
+ */
+const DEFAULT_GLYPH_WIDTH = 556;
+
+/**
+ * WinAnsiEncoding codes for the characters it places in 0x80-0x9F
+ * Characters 0xA0-0xFF match Latin-1 and need no mapping
+ */
+const WIN_ANSI_CODES: Record<string, number> = {
+	"€": 0x80,
+	"‚": 0x82,
+	ƒ: 0x83,
+	"„": 0x84,
+	"…": 0x85,
+	"†": 0x86,
+	"‡": 0x87,
+	ˆ: 0x88,
+	"‰": 0x89,
+	Š: 0x8a,
+	"‹": 0x8b,
+	Œ: 0x8c,
+	Ž: 0x8e,
+	"‘": 0x91,
+	"’": 0x92,
+	"“": 0x93,
+	"”": 0x94,
+	"•": 0x95,
+	"–": 0x96,
+	"—": 0x97,
+	"˜": 0x98,
+	"™": 0x99,
+	š: 0x9a,
+	"›": 0x9b,
+	œ: 0x9c,
+	ž: 0x9e,
+	Ÿ: 0x9f,
+};
+
+/**
+ * An indirect object in the file, with its stream data for content streams
+ */
+interface PdfObject {
+	body: string;
+	stream?: Buffer;
+}
+
+/**
+ * A laid-out line of text on a page
+ */
+interface PdfLine {
+	text: string;
+	font: PdfFont;
+	size: number;
+	x: number;
+	y: number;
+	color?: [number, number, number];
+}
+
+/**
+ * Measures the width of a line of text
+ * @param text The text
+ * @param font The font
+ * @param size The font size in points
+ * @returns The width in points
+ */
+export function measurePdfText(
+	text: string,
+	font: PdfFont,
+	size: number
+): number {
+	let units = 0;
+	for (const char of text) {
+		const code = char.charCodeAt(0);
+		units +=
+			code >= 32 && code <= 126
+				? (GLYPH_WIDTHS[font][code - 32] ?? DEFAULT_GLYPH_WIDTH)
+				: DEFAULT_GLYPH_WIDTH;
+	}
+	return (units * size) / 1000;
+}
+
+/**
+ * Wraps text into lines that fit a width, breaking at spaces
+ * Words wider than a whole line are broken between characters
+ * @param text The text (line breaks are kept)
+ * @param font The font
+ * @param size The font size in points
+ * @param maxWidth The available width in points
+ * @returns The wrapped lines
+ */
+export function wrapPdfText(
+	text: string,
+	font: PdfFont,
+	size: number,
+	maxWidth: number
+): string[] {
+	const lines: string[] = [];
+
+	for (const paragraph of text.replace(/\r\n?/g, "\n").split("\n")) {
+		let line = "";
+		for (const word of paragraph.split(/[ \t]+/).filter(Boolean)) {
+			const candidate = line ? `${line} ${word}` : word;
+			if (measurePdfText(candidate, font, size) <= maxWidth) {
+				line = candidate;
+				continue;
+			}
+			if (line) {
+				lines.push(line);
+				line = "";
+			}
+			// Break words that do not fit on a line of their own
+			let rest = word;
+			while (measurePdfText(rest, font, size) > maxWidth) {
+				let end = rest.length - 1;
+				while (
+					end > 1 &&
+					measurePdfText(rest.slice(0, end), font, size) > maxWidth
+				) {
+					end--;
+				}
+				lines.push(rest.slice(0, end));
+				rest = rest.slice(end);
+			}
+			line = rest;
+		}
+		lines.push(line);
+	}
+
+	return lines;
+}
+
+/**
+ * Builds a PDF document from blocks of text
+ * @param blocks The paragraphs to print, in order
+ * @param options Document title, footer and creation time
+ * @returns The PDF file contents
+ */
+export function buildPdf(
+	blocks: PdfTextBlock[],
+	options: PdfDocumentOptions
+): Buffer {
+	const pages = layoutPages(blocks);
+	const now = options.now ?? new Date();
+
+	const objects: PdfObject[] = [];
+	const addObject = (body: string, stream?: Buffer): number => {
+		objects.push(stream ? { body, stream } : { body });
+		return objects.length;
+	};
+
+	const catalogId = addObject("");
+	const pagesId = addObject("");
+	const regularFontId = addObject(
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+	);
+	const boldFontId = addObject(
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+	);
+	const infoId = addObject(
+		`<< /Title ${pdfString(options.title)} /Producer ${pdfString("Kainos Job Application")} /CreationDate ${pdfString(pdfDate(now))} >>`
+	);
+
+	const pageIds = pages.map((lines, index) => {
+		const footer: PdfLine[] = [
+			{
+				text: `${options.footer ? `${options.footer} - ` : ""}Page ${index + 1} of ${pages.length}`,
+				font: "regular",
+				size: FOOTER_SIZE,
+				x: MARGIN,
+				y: MARGIN / 2,
+				color: [0.4, 0.4, 0.4],
+			},
+		];
+		const content = deflateSync(
+			Buffer.from(renderContent([...lines, ...footer]), "latin1")
+		);
+		const contentId = addObject(
+			`<< /Length ${content.length} /Filter /FlateDecode >>`,
+			content
+		);
+		return addObject(
+			`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+		);
+	});
+
+	objects[catalogId - 1] = {
+		body: `<< /Type /Catalog /Pages ${pagesId} 0 R >>`,
+	};
+	objects[pagesId - 1] = {
+		body: `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+	};
+
+	// The binary comment marks the file as binary for transfer tools
+	const parts: Buffer[] = [
+		Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1"),
+	];
+	let offset = parts[0]?.length ?? 0;
+	const offsets: number[] = [];
+
+	objects.forEach((object, index) => {
+		offsets.push(offset);
+		const chunks: Buffer[] = [
+			Buffer.from(`${index + 1} 0 obj\n${object.body}\n`, "latin1"),
+		];
+		if (object.stream) {
+			chunks.push(
+				Buffer.from("stream\n", "latin1"),
+				object.stream,
+				Buffer.from("\nendstream\n", "latin1")
+			);
+		}
+		chunks.push(Buffer.from("endobj\n", "latin1"));
+		for (const chunk of chunks) {
+			parts.push(chunk);
+			offset += chunk.length;
+		}
+	});
+
+	const xref = [
+		"xref",
+		`0 ${objects.length + 1}`,
+		"0000000000 65535 f ",
+		...offsets.map((value) => `${String(value).padStart(10, "0")} 00000 n `),
+		"trailer",
+		`<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+		"startxref",
+		String(offset),
+		"%%EOF",
+		"",
+	].join("\n");
+	parts.push(Buffer.from(xref, "latin1"));
+
+	return Buffer.concat(parts);
+}
+
+/**
+ * Flows blocks of text down the page, starting a new page when one is full
+ */
+function layoutPages(blocks: PdfTextBlock[]): PdfLine[][] {
+	const pages: PdfLine[][] = [[]];
+	let y = PAGE_HEIGHT - MARGIN;
+
+	for (const block of blocks) {
+		const font = block.font ?? "regular";
+		const size = block.size ?? DEFAULT_SIZE;
+		const lineHeight = size * LINE_HEIGHT;
+		y -= block.spaceBefore ?? 0;
+
+		for (const text of wrapPdfText(block.text, font, size, CONTENT_WIDTH)) {
+			if (y - lineHeight < MARGIN) {
+				pages.push([]);
+				y = PAGE_HEIGHT - MARGIN;
+			}
+			y -= lineHeight;
+			pages[pages.length - 1]?.push({
+				text,
+				font,
+				size,
+				x: MARGIN,
+				y,
+				...(block.color ? { color: block.color } : {}),
+			});
+		}
+	}
+
+	return pages;
+}
+
+/**
+ * Writes the content stream operators for a page
+ */
+function renderContent(lines: PdfLine[]): string {
+	return lines
+		.filter((line) => line.text !== "")
+		.map((line) => {
+			const [r, g, b] = line.color ?? [0, 0, 0];
+			return [
+				"BT",
+				`${r} ${g} ${b} rg`,
+				`/${FONT_RESOURCES[line.font]} ${line.size} Tf`,
+				`${line.x.toFixed(2)} ${line.y.toFixed(2)} Td`,
+				`${pdfString(line.text)} Tj`,
+				"ET",
+			].join("\n");
+		})
+		.join("\n");
+}
+
+/**
+ * Encodes text as a PDF literal string in WinAnsiEncoding
+ * Characters the encoding cannot represent are replaced with "?"
+ */
+function pdfString(text: string): string {
+	let result = "(";
+	for (const char of text) {
+		const code = char.charCodeAt(0);
+		const byte =
+			WIN_ANSI_CODES[char] ??
+			(code >= 32 && code <= 255 && !(code >= 127 && code < 160)
+				? code
+				: char === "\t"
+					? 32
+					: 63);
+		if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+			result += `\\${String.fromCharCode(byte)}`;
+		} else if (byte > 126) {
+			result += `\\${byte.toString(8).padStart(3, "0")}`;
+		} else {
+			result += String.fromCharCode(byte);
+		}
+	}
+	return `${result})`;
+}
+
+/**
+ * Formats a date in the PDF date format (D:YYYYMMDDHHmmSSZ)
+ */
+function pdfDate(date: Date): string {
+	return `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+}
@@ -0,0 +1,27 @@
+/**
+ * Tests for redirect utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import { getSafeReturnPath } from "./redirect.js";
+
+describe("getSafeReturnPath", () => {
+	it("should accept paths on this site", () => {
+		expect(getSafeReturnPath("/jobs/search?band=Mid", "/shortlist")).toBe(
+			"/jobs/search?band=Mid"
+		);
+	});
+
+	it("should fall back for other sites and missing values", () => {
+		expect(getSafeReturnPath("https://evil.example", "/shortlist")).toBe(
+			"/shortlist"
+		);
+		expect(getSafeReturnPath("//evil.example", "/shortlist")).toBe(
+			"/shortlist"
+		);
+		expect(getSafeReturnPath("/\\evil.example", "/shortlist")).toBe(
+			"/shortlist"
+		);
+		expect(getSafeReturnPath(undefined, "/shortlist")).toBe("/shortlist");
+	});
+});
@@ -0,0 +1,23 @@
+/**
+ * Redirect utilities
+ * Keeps redirects after form submissions on this site
+ */
+
+/**
+ * Picks the page to return to after a form submission
+ * Only paths on this site are accepted so the form cannot redirect elsewhere
+ * @param returnTo The submitted return path
+ * @param fallback The path used when returnTo is missing or unsafe
+ * @returns A site-relative path
+ */
+export function getSafeReturnPath(returnTo: unknown, fallback: string): string {
+	if (
+		typeof returnTo === "string" &&
+		returnTo.startsWith("/") &&
+		!returnTo.startsWith("//") &&
+		!returnTo.includes("\\")
+	) {
+		return returnTo;
+	}
+	return fallback;
+}
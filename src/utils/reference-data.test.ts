@@ -0,0 +1,116 @@
+/**
+ * Unit tests for reference data utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	isReferenceDataType,
+	MAX_REFERENCE_VALUE_LENGTH,
+	validateReferenceDataDeletion,
+	validateReferenceDataValue,
+} from "./reference-data.js";
+
+describe("isReferenceDataType", () => {
+	it("should accept the four reference data lists", () => {
+		expect(isReferenceDataType("locations")).toBe(true);
+		expect(isReferenceDataType("capabilities")).toBe(true);
+		expect(isReferenceDataType("bands")).toBe(true);
+		expect(isReferenceDataType("statuses")).toBe(true);
+	});
+
+	it("should reject anything else", () => {
+		expect(isReferenceDataType("roles")).toBe(false);
+		expect(isReferenceDataType(undefined)).toBe(false);
+	});
+});
+
+describe("validateReferenceDataValue", () => {
+	const bands = ["Junior", "Mid", "Senior"];
+
+	it("should accept and trim a new value", () => {
+		expect(validateReferenceDataValue("bands", "  Lead ", bands)).toEqual({
+			isValid: true,
+			value: "Lead",
+		});
+	});
+
+	it("should reject empty and overly long values", () => {
+		expect(validateReferenceDataValue("bands", "   ", bands).error).toBe(
+			"Please enter a value."
+		);
+		expect(
+			validateReferenceDataValue(
+				"bands",
+				"x".repeat(MAX_REFERENCE_VALUE_LENGTH + 1),
+				bands
+			).isValid
+		).toBe(false);
+	});
+
+	it("should reject duplicates ignoring case", () => {
+		expect(validateReferenceDataValue("bands", "senior", bands).error).toBe(
+			'"Senior" is already in the bands list.'
+		);
+	});
+
+	it("should allow a rename that only changes the case", () => {
+		expect(validateReferenceDataValue("bands", "MID", bands, "Mid")).toEqual({
+			isValid: true,
+			value: "MID",
+		});
+	});
+
+	it("should reject renaming a value that is not in the list", () => {
+		expect(
+			validateReferenceDataValue("bands", "Lead", bands, "Principal").isValid
+		).toBe(false);
+	});
+
+	it("should reject renaming a workflow status", () => {
+		expect(
+			validateReferenceDataValue("statuses", "Live", ["Open", "Closed"], "Open")
+				.error
+		).toBe('"Open" is used by the job role workflow and cannot be renamed.');
+	});
+});
+
+describe("validateReferenceDataDeletion", () => {
+	it("should allow deleting an existing value", () => {
+		expect(
+			validateReferenceDataDeletion("locations", "Remote", [
+				"Belfast",
+				"Remote",
+			])
+		).toEqual({ isValid: true, value: "Remote" });
+	});
+
+	it("should reject values that are not in the list", () => {
+		expect(
+			validateReferenceDataDeletion("locations", "Paris", ["Remote", "Belfast"])
+				.isValid
+		).toBe(false);
+	});
+
+	it("should reject deleting a workflow status", () => {
+		expect(
+			validateReferenceDataDeletion("statuses", "Draft", [
+				"Open",
+				"Draft",
+				"Filled",
+			]).isValid
+		).toBe(false);
+		expect(
+			validateReferenceDataDeletion("statuses", "Filled", [
+				"Open",
+				"Draft",
+				"Filled",
+			]).isValid
+		).toBe(true);
+	});
+
+	it("should keep at least one value in each list", () => {
+		expect(validateReferenceDataDeletion("bands", "Mid", ["Mid"]).error).toBe(
+			"The bands list must contain at least one value."
+		);
+	});
+});
@@ -0,0 +1,200 @@
+/**
+ * Reference data utilities
+ * Defaults and validation for the admin-managed job role reference lists
+ */
+
+import type {
+	ReferenceData,
+	ReferenceDataType,
+} from "../models/reference-data.js";
+import {
+	VALID_BANDS,
+	VALID_CAPABILITIES,
+	VALID_LOCATIONS,
+	VALID_STATUSES,
+} from "./job-role-validation-constants.js";
+
+export const REFERENCE_DATA_TYPES: readonly ReferenceDataType[] = [
+	"locations",
+	"capabilities",
+	"bands",
+	"statuses",
+];
+
+/**
+ * Human readable labels for each list
+ */
+export const REFERENCE_DATA_LABELS: Record<ReferenceDataType, string> = {
+	locations: "Locations",
+	capabilities: "Capabilities",
+	bands: "Bands",
+	statuses: "Statuses",
+};
+
+/**
+ * Lists used until an admin changes them (and whenever they cannot be loaded)
+ */
+export const DEFAULT_REFERENCE_DATA: ReferenceData = {
+	locations: [...VALID_LOCATIONS],
+	capabilities: [...VALID_CAPABILITIES],
+	bands: [...VALID_BANDS],
+	statuses: [...VALID_STATUSES],
+};
+
+/**
+ * Values the job role workflow depends on (publishing, auto close and bulk
+ * actions), which cannot be renamed or deleted
+ */
+export const PROTECTED_REFERENCE_VALUES: Record<ReferenceDataType, string[]> = {
+	locations: [],
+	capabilities: [],
+	bands: [],
+	statuses: [...VALID_STATUSES],
+};
+
+/**
+ * Maximum length of a single reference data value
+ */
+export const MAX_REFERENCE_VALUE_LENGTH = 100;
+
+/**
+ * Validation result for a reference data change
+ */
+export interface ReferenceDataValidationResult {
+	isValid: boolean;
+	value?: string;
+	error?: string;
+}
+
+/**
+ * Checks whether a string names a reference data list
+ * @param type The list name from the URL
+ * @returns True for locations, capabilities, bands and statuses
+ */
+export function isReferenceDataType(type: unknown): type is ReferenceDataType {
+	return REFERENCE_DATA_TYPES.includes(type as ReferenceDataType);
+}
+
+/**
+ * Copies every list so the copy can be changed without touching the original
+ * @param data The reference data to copy
+ * @returns A copy of the lists
+ */
+export function copyReferenceData(data: ReferenceData): ReferenceData {
+	return {
+		locations: [...data.locations],
+		capabilities: [...data.capabilities],
+		bands: [...data.bands],
+		statuses: [...data.statuses],
+	};
+}
+
+/**
+ * Checks whether a value is protected from being renamed or deleted
+ * @param type The reference data list
+ * @param value The value to check
+ * @returns True when the job role workflow depends on the value
+ */
+export function isProtectedReferenceValue(
+	type: ReferenceDataType,
+	value: string
+): boolean {
+	return PROTECTED_REFERENCE_VALUES[type].includes(value);
+}
+
+/**
+ * Validates a new or renamed reference data value
+ * Values are trimmed, must be 1-100 characters and unique (ignoring case)
+ * @param type The reference data list
+ * @param value The submitted value
+ * @param existing The current values in the list
+ * @param currentValue The value being renamed, if any
+ * @returns ReferenceDataValidationResult with the trimmed value or error
+ */
+export function validateReferenceDataValue(
+	type: ReferenceDataType,
+	value: unknown,
+	existing: readonly string[],
+	currentValue?: string
+): ReferenceDataValidationResult {
+	const trimmed = typeof value === "string" ? value.trim() : "";
+	const label = REFERENCE_DATA_LABELS[type].toLowerCase();
+
+	if (currentValue !== undefined) {
+		if (!existing.includes(currentValue)) {
+			return {
+				isValid: false,
+				error: `"${currentValue}" is not in the ${label} list.`,
+			};
+		}
+		if (isProtectedReferenceValue(type, currentValue)) {
+			return {
+				isValid: false,
+				error: `"${currentValue}" is used by the job role workflow and cannot be renamed.`,
+			};
+		}
+	}
+
+	if (trimmed === "") {
+		return { isValid: false, error: "Please enter a value." };
+	}
+
+	if (trimmed.length > MAX_REFERENCE_VALUE_LENGTH) {
+		return {
+			isValid: false,
+			error: `Values must be ${MAX_REFERENCE_VALUE_LENGTH} characters or fewer.`,
+		};
+	}
+
+	const duplicate = existing.find(
+		(existingValue) =>
+			existingValue !== currentValue &&
+			existingValue.toLowerCase() === trimmed.toLowerCase()
+	);
+	if (duplicate) {
+		return {
+			isValid: false,
+			error: `"${duplicate}" is already in the ${label} list.`,
+		};
+	}
+
+	return { isValid: true, value: trimmed };
+}
+
+/**
+ * Validates the removal of a reference data value
+ * @param type The reference data list
+ * @param value The value to delete
+ * @param existing The current values in the list
+ * @returns ReferenceDataValidationResult with the value or error
+ */
+export function validateReferenceDataDeletion(
+	type: ReferenceDataType,
+	value: unknown,
+	existing: readonly string[]
+): ReferenceDataValidationResult {
+	const label = REFERENCE_DATA_LABELS[type].toLowerCase();
+
+	if (typeof value !== "string" || !existing.includes(value)) {
+		return {
+			isValid: false,
+			error: `That value is not in the ${label} list.`,
+		};
+	}
+
+	if (isProtectedReferenceValue(type, value)) {
+		return {
+			isValid: false,
+			error: `"${value}" is used by the job role workflow and cannot be deleted.`,
+		};
+	}
+
+	if (existing.length === 1) {
+		return {
+			isValid: false,
+			error: `The ${label} list must contain at least one value.`,
+		};
+	}
+
+	return { isValid: true, value };
+}
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for saved search utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { SavedSearch } from "../models/saved-search.js";
+import {
+	buildSavedSearchUrl,
+	countNewSavedSearchMatches,
+	getHighestJobRoleId,
+	getSavedSearchFilterLabels,
+	hasSavedSearchFilters,
+	MAX_SAVED_SEARCH_NAME_LENGTH,
+	parseSavedSearchParams,
+	validateSavedSearchName,
+} from "./saved-search.js";
+
+describe("parseSavedSearchParams", () => {
+	it("should keep trimmed filters and drop empty and unknown values", () => {
+		expect(
+			parseSavedSearchParams({
+				search: "  engineer ",
+				capability: "",
+				location: "Belfast, Northern Ireland",
+				band: ["Senior", " Mid "],
+				status: ["Open"],
+				page: "2",
+				name: "My search",
+			})
+		).toEqual({
+			search: "engineer",
+			location: ["Belfast, Northern Ireland"],
+			band: ["Senior", "Mid"],
+		});
+	});
+
+	it("should keep valid closing date and open positions filters", () => {
+		expect(
+			parseSavedSearchParams({
+				closingAfter: "2030-01-01",
+				minOpenPositions: "3",
+			})
+		).toEqual({ closingAfter: "2030-01-01", minOpenPositions: 3 });
+		expect(
+			parseSavedSearchParams({ search: "data", closingAfter: "soon" })
+		).toEqual({ search: "data" });
+	});
+
+	it("should keep the full-text mode only with search text", () => {
+		expect(
+			parseSavedSearchParams({ search: "kafka", searchMode: "fulltext" })
+		).toEqual({ search: "kafka", searchMode: "fulltext" });
+		expect(
+			parseSavedSearchParams({ band: "Mid", searchMode: "fulltext" })
+		).toEqual({ band: ["Mid"] });
+	});
+
+	it("should report whether any filters are set", () => {
+		expect(hasSavedSearchFilters(parseSavedSearchParams({ band: " " }))).toBe(
+			false
+		);
+		expect(hasSavedSearchFilters({ band: "Mid" })).toBe(true);
+	});
+});
+
+describe("buildSavedSearchUrl", () => {
+	it("should encode the filters into a search URL", () => {
+		expect(
+			buildSavedSearchUrl({ search: "c# & .net", location: "Belfast" })
+		).toBe("/jobs/search?search=c%23%20%26%20.net&location=Belfast");
+	});
+
+	it("should return the plain search URL without filters", () => {
+		expect(buildSavedSearchUrl({})).toBe("/jobs/search");
+	});
+});
+
+describe("getSavedSearchFilterLabels", () => {
+	it("should describe each filter in display order", () => {
+		expect(
+			getSavedSearchFilterLabels({ band: "Mid", search: "engineer" })
+		).toEqual(['Search: "engineer"', "Band: Mid"]);
+	});
+
+	it("should list every value of a multi-value filter", () => {
+		expect(
+			getSavedSearchFilterLabels({
+				location: ["Belfast", "Remote"],
+				closingBefore: "2030-06-30",
+				minOpenPositions: 2,
+			})
+		).toEqual([
+			"Location: Belfast, Remote",
+			"Closes on or before: 2030-06-30",
+			"Minimum open positions: 2",
+		]);
+	});
+
+	it("should mention when the search covers descriptions", () => {
+		expect(
+			getSavedSearchFilterLabels({ search: "kafka", searchMode: "fulltext" })
+		).toEqual(['Search: "kafka" (titles and descriptions)']);
+	});
+});
+
+describe("validateSavedSearchName", () => {
+	const existing = [{ name: "Belfast roles" }] as SavedSearch[];
+
+	it("should accept and trim a new name", () => {
+		expect(validateSavedSearchName("  Remote roles ", existing)).toEqual({
+			isValid: true,
+			value: "Remote roles",
+		});
+	});
+
+	it("should reject empty, long and duplicate names", () => {
+		expect(validateSavedSearchName(" ", existing).isValid).toBe(false);
+		expect(
+			validateSavedSearchName(
+				"x".repeat(MAX_SAVED_SEARCH_NAME_LENGTH + 1),
+				existing
+			).isValid
+		).toBe(false);
+		expect(validateSavedSearchName("belfast ROLES", existing).error).toBe(
+			'You already have a saved search called "belfast ROLES".'
+		);
+	});
+});
+
+describe("new match counting", () => {
+	const jobRoles = [{ jobRoleId: 3 }, { jobRoleId: 9 }, { jobRoleId: 12 }];
+
+	it("should find the highest job role ID", () => {
+		expect(getHighestJobRoleId(jobRoles)).toBe(12);
+		expect(getHighestJobRoleId([])).toBe(0);
+	});
+
+	it("should count roles newer than the last one seen", () => {
+		expect(countNewSavedSearchMatches(jobRoles, 9)).toBe(1);
+		expect(countNewSavedSearchMatches(jobRoles, 12)).toBe(0);
+		expect(countNewSavedSearchMatches(jobRoles, 0)).toBe(3);
+	});
+});
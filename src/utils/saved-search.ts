@@ -0,0 +1,172 @@
+/**
+ * Saved search utilities
+ * Reads search filters from requests and works out new matches for the
+ * saved searches shown on a user's account
+ */
+
+import type { JobRoleResponse } from "../models/job-role-response.js";
+import type { JobRoleFilterType } from "../models/job-role-search-params.js";
+import type { SavedSearch, SavedSearchParams } from "../models/saved-search.js";
+import { parseJobRoleSearchMode } from "./full-text-search.js";
+import {
+	getFilterValues,
+	getJobRoleFilterLabel,
+	JOB_ROLE_FILTER_LABELS,
+	validateJobRoleFilterParams,
+} from "./job-role-filters.js";
+import { buildSearchQueryString } from "./url-builder.js";
+
+/**
+ * Maximum number of searches a user can save
+ */
+export const MAX_SAVED_SEARCHES = 20;
+
+/**
+ * Maximum length of a saved search name
+ */
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 60;
+
+/**
+ * Result of validating a saved search name
+ */
+export interface SavedSearchNameValidationResult {
+	isValid: boolean;
+	value?: string;
+	error?: string;
+}
+
+/**
+ * Picks the search filters out of a query string or form body
+ * Empty values are dropped and the rest are trimmed; the full-text search
+ * mode is only kept alongside search text, and the multi-value, closing date
+ * and open positions filters are dropped when they fail validation
+ * @param source The request query or body
+ * @returns The filters to save
+ */
+export function parseSavedSearchParams(
+	source: Record<string, unknown> | undefined
+): SavedSearchParams {
+	const params: SavedSearchParams = {};
+	for (const key of ["search", "status"] as const) {
+		const value = source?.[key];
+		if (typeof value === "string" && value.trim() !== "") {
+			params[key] = value.trim();
+		}
+	}
+	if (
+		params.search &&
+		parseJobRoleSearchMode(source?.["searchMode"]) === "fulltext"
+	) {
+		params.searchMode = "fulltext";
+	}
+	const filterValidation = validateJobRoleFilterParams(source);
+	return filterValidation.isValid
+		? { ...params, ...filterValidation.filters }
+		: params;
+}
+
+/**
+ * Checks whether any filters are set
+ * @param params The saved search filters
+ * @returns True when at least one filter has a value
+ */
+export function hasSavedSearchFilters(params: SavedSearchParams): boolean {
+	return getSavedSearchFilterLabels(params).length > 0;
+}
+
+/**
+ * Builds the /jobs/search URL for a saved search
+ * @param params The saved search filters
+ * @returns The search results URL
+ */
+export function buildSavedSearchUrl(params: SavedSearchParams): string {
+	const queryString = buildSearchQueryString(params).slice(1);
+	return queryString ? `/jobs/search?${queryString}` : "/jobs/search";
+}
+
+/**
+ * Describes each filter in a saved search for display
+ * @param params The saved search filters
+ * @returns Labels such as "Location: Belfast"
+ */
+export function getSavedSearchFilterLabels(
+	params: SavedSearchParams
+): string[] {
+	const labels: string[] = [];
+	for (const type of Object.keys(
+		JOB_ROLE_FILTER_LABELS
+	) as JobRoleFilterType[]) {
+		const value = params[type];
+		const text =
+			typeof value === "number"
+				? String(value)
+				: getFilterValues(value).join(", ");
+		if (text) {
+			labels.push(getJobRoleFilterLabel(type, text, params.searchMode));
+		}
+	}
+	return labels;
+}
+
+/**
+ * Validates the name for a new saved search
+ * @param name The submitted name
+ * @param existing The user's current saved searches
+ * @returns The trimmed name, or an error when it is empty, too long or already used
+ */
+export function validateSavedSearchName(
+	name: unknown,
+	existing: SavedSearch[]
+): SavedSearchNameValidationResult {
+	const value = typeof name === "string" ? name.trim() : "";
+
+	if (!value) {
+		return { isValid: false, error: "Please enter a name for your search." };
+	}
+
+	if (value.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+		return {
+			isValid: false,
+			error: `Search names must be ${MAX_SAVED_SEARCH_NAME_LENGTH} characters or fewer.`,
+		};
+	}
+
+	if (
+		existing.some((search) => search.name.toLowerCase() === value.toLowerCase())
+	) {
+		return {
+			isValid: false,
+			error: `You already have a saved search called "${value}".`,
+		};
+	}
+
+	return { isValid: true, value };
+}
+
+/**
+ * Finds the highest job role ID in a list
+ * @param jobRoles The job roles
+ * @returns The highest ID, or 0 for an empty list
+ */
+export function getHighestJobRoleId(
+	jobRoles: Pick<JobRoleResponse, "jobRoleId">[]
+): number {
+	return jobRoles.reduce(
+		(highest, jobRole) => Math.max(highest, jobRole.jobRoleId),
+		0
+	);
+}
+
+/**
+ * Counts the matching job roles created since a saved search was last viewed
+ * @param jobRoles The job roles matching the saved search
+ * @param lastSeenJobRoleId The highest job role ID when the search was last viewed
+ * @returns The number of new matches
+ */
+export function countNewSavedSearchMatches(
+	jobRoles: Pick<JobRoleResponse, "jobRoleId">[],
+	lastSeenJobRoleId: number
+): number {
+	return jobRoles.filter((jobRole) => jobRole.jobRoleId > lastSeenJobRoleId)
+		.length;
+}
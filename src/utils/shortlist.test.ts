@@ -0,0 +1,65 @@
+/**
+ * Unit tests for shortlist utilities
+ */
+
+import { describe, expect, it } from "vitest";
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import { buildShortlistItem } from "./shortlist.js";
+
+describe("buildShortlistItem", () => {
+	const now = new Date(2025, 5, 15, 12, 0);
+	const entry = { jobRoleId: 4, addedAt: "2025-06-01T09:00:00.000Z" };
+	const jobRole = {
+		jobRoleId: 4,
+		roleName: "Data Engineer",
+		status: "Open",
+		closingDate: "2025-06-30",
+	} as JobRoleDetailedResponse;
+
+	it("should not flag open roles that close later", () => {
+		expect(buildShortlistItem(entry, jobRole, now)).toEqual({
+			...entry,
+			jobRole,
+			isOpen: true,
+			daysUntilClosing: 15,
+			isClosingSoon: false,
+		});
+	});
+
+	it("should flag open roles closing within a week, including today", () => {
+		expect(
+			buildShortlistItem(entry, { ...jobRole, closingDate: "2025-06-22" }, now)
+				.isClosingSoon
+		).toBe(true);
+		expect(
+			buildShortlistItem(entry, { ...jobRole, closingDate: "2025-06-15" }, now)
+				.isClosingSoon
+		).toBe(true);
+	});
+
+	it("should treat closed and expired roles as not open", () => {
+		const closed = buildShortlistItem(
+			entry,
+			{ ...jobRole, status: "Closed", closingDate: "2025-06-16" },
+			now
+		);
+		const expired = buildShortlistItem(
+			entry,
+			{ ...jobRole, closingDate: "2025-06-14" },
+			now
+		);
+
+		expect(closed).toMatchObject({ isOpen: false, isClosingSoon: false });
+		expect(expired).toMatchObject({ isOpen: false, daysUntilClosing: -1 });
+	});
+
+	it("should handle roles that are no longer available", () => {
+		expect(buildShortlistItem(entry, null, now)).toEqual({
+			...entry,
+			jobRole: null,
+			isOpen: false,
+			daysUntilClosing: null,
+			isClosingSoon: false,
+		});
+	});
+});
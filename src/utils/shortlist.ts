@@ -0,0 +1,49 @@
+/**
+ * Shortlist utilities
+ * Builds the shortlist page items
+ */
+
+import type { JobRoleDetailedResponse } from "../models/job-role-detailed-response.js";
+import type { ShortlistEntry, ShortlistItem } from "../models/shortlist.js";
+import { getDaysUntilClosing } from "./closing-date.js";
+
+/**
+ * Maximum number of roles a user can shortlist
+ */
+export const MAX_SHORTLIST_SIZE = 50;
+
+/**
+ * Open roles closing within this many days are flagged on the shortlist
+ */
+export const SHORTLIST_CLOSING_SOON_DAYS = 7;
+
+/**
+ * Builds a shortlist page item from an entry and the role's current details
+ * @param entry The shortlist entry
+ * @param jobRole The current job role, or null if it is no longer available
+ * @param now The current time (defaults to now)
+ * @returns The item with its open state and closing warning
+ */
+export function buildShortlistItem(
+	entry: ShortlistEntry,
+	jobRole: JobRoleDetailedResponse | null,
+	now: Date = new Date()
+): ShortlistItem {
+	const daysUntilClosing = jobRole
+		? getDaysUntilClosing(jobRole.closingDate, now)
+		: null;
+	const isOpen =
+		jobRole?.status.toLowerCase() === "open" &&
+		(daysUntilClosing === null || daysUntilClosing >= 0);
+
+	return {
+		...entry,
+		jobRole,
+		isOpen,
+		daysUntilClosing,
+		isClosingSoon:
+			isOpen &&
+			daysUntilClosing !== null &&
+			daysUntilClosing <= SHORTLIST_CLOSING_SOON_DAYS,
+	};
+}
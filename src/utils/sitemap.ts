@@ -0,0 +1,42 @@
+/**
+ * Sitemap utilities
+ * Builds the sitemap.xml document listing the public pages search engines
+ * should crawl
+ */
+
+import { escapeXml } from "./xml-escape.js";
+
+/**
+ * A page listed in the sitemap
+ * loc is an absolute URL and lastmod a YYYY-MM-DD date
+ */
+export interface SitemapEntry {
+	loc: string;
+	lastmod?: string;
+}
+
+/**
+ * Builds a sitemap.xml document
+ * @param entries The pages to list
+ * @returns The sitemap XML
+ */
+export function buildSitemap(entries: SitemapEntry[]): string {
+	const urls = entries.map((entry) =>
+		[
+			"\t<url>",
+			`\t\t<loc>${escapeXml(entry.loc)}</loc>`,
+			...(entry.lastmod
+				? [`\t\t<lastmod>${escapeXml(entry.lastmod)}</lastmod>`]
+				: []),
+			"\t</url>",
+		].join("\n")
+	);
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+		...urls,
+		"</urlset>",
+		"",
+	].join("\n");
+}
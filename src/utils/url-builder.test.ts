@@ -4,6 +4,8 @@
 
 import type { JobRoleSearchParams } from "../models/job-role-search-params.js";
 import {
+	buildApplicantsPaginationUrls,
+	buildApplicantsQueryString,
 	buildPaginationUrl,
 	buildPaginationUrls,
 	buildSearchQueryString,
@@ -77,6 +79,40 @@ describe("URL Builder Utility", () => {
 			expect(result).toBe("&search=Engineer&band=Senior");
 		});
 
+		it("should keep full-text mode only alongside search text", () => {
+			expect(
+				buildSearchQueryString({ search: "kafka", searchMode: "fulltext" })
+			).toBe("&search=kafka&searchMode=fulltext");
+			expect(
+				buildSearchQueryString({ band: "Mid", searchMode: "fulltext" })
+			).toBe("&band=Mid");
+		});
+
+		it("should repeat multi-value filters and add the range filters", () => {
+			expect(
+				buildSearchQueryString({
+					capability: ["Engineering", "Testing & QA"],
+					location: "Remote",
+					closingAfter: "2030-01-01",
+					closingBefore: "2030-06-30",
+					minOpenPositions: 2,
+				})
+			).toBe(
+				"&capability=Engineering&capability=Testing%20%26%20QA&location=Remote&closingAfter=2030-01-01&closingBefore=2030-06-30&minOpenPositions=2"
+			);
+		});
+
+		it("should keep the sort field and order after the filters", () => {
+			expect(
+				buildSearchQueryString({
+					band: "Mid",
+					sort: "closingDate",
+					order: "desc",
+				})
+			).toBe("&band=Mid&sort=closingDate&order=desc");
+			expect(buildSearchQueryString({ order: "desc" })).toBe("");
+		});
+
 		it("should handle URL-unsafe characters correctly", () => {
 			const params: Partial<JobRoleSearchParams> = {
 				search: "?&=#+%!<>\\|{}[]^`",
@@ -238,6 +274,20 @@ describe("URL Builder Utility", () => {
 			});
 		});
 
+		it("should preserve the sort in every pagination URL", () => {
+			const result = buildPaginationUrls("/job-roles", 2, 3, 10, {
+				sort: "roleName",
+				order: "asc",
+			});
+
+			expect(result.previous).toBe(
+				"/job-roles?page=1&limit=10&sort=roleName&order=asc"
+			);
+			result.pages.forEach((page) => {
+				expect(page.url).toContain("&sort=roleName&order=asc");
+			});
+		});
+
 		it("should work without search parameters", () => {
 			const result = buildPaginationUrls("/job-roles", 2, 5, 10, null);
 
@@ -247,4 +297,55 @@ describe("URL Builder Utility", () => {
 			expect(result.pages).toHaveLength(5);
 		});
 	});
+
+	describe("buildApplicantsQueryString", () => {
+		it("should return empty string when query is null", () => {
+			expect(buildApplicantsQueryString(null)).toBe("");
+		});
+
+		it("should encode sort, order, status and search", () => {
+			const result = buildApplicantsQueryString({
+				sort: "name",
+				order: "asc",
+				status: "under_review",
+				search: "O'Neil & co",
+			});
+			expect(result).toBe(
+				"&sort=name&order=asc&status=under_review&search=O'Neil%20%26%20co"
+			);
+		});
+
+		it("should skip blank filters", () => {
+			const result = buildApplicantsQueryString({
+				sort: "status",
+				status: " ",
+				search: "",
+			});
+			expect(result).toBe("&sort=status");
+		});
+	});
+
+	describe("buildApplicantsPaginationUrls", () => {
+		it("should preserve sort and filters on every link", () => {
+			const result = buildApplicantsPaginationUrls(
+				"/job-roles/4/applicants",
+				2,
+				3,
+				10,
+				{ sort: "name", order: "desc", status: "pending" }
+			);
+
+			const suffix = "&limit=10&sort=name&order=desc&status=pending";
+			expect(result.first).toBe(`/job-roles/4/applicants?page=1${suffix}`);
+			expect(result.previous).toBe(`/job-roles/4/applicants?page=1${suffix}`);
+			expect(result.next).toBe(`/job-roles/4/applicants?page=3${suffix}`);
+			expect(result.last).toBe(`/job-roles/4/applicants?page=3${suffix}`);
+			expect(result.pages).toHaveLength(3);
+			expect(result.pages[1]).toEqual({
+				page: 2,
+				url: `/job-roles/4/applicants?page=2${suffix}`,
+				isCurrent: true,
+			});
+		});
+	});
 });
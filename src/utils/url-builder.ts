@@ -3,7 +3,10 @@
  * Provides functions for building URLs with proper query parameter encoding
  */
 
+import type { Request } from "express";
+import type { ApplicantsQueryOptions } from "../models/applicant-display.js";
 import type { JobRoleSearchParams } from "../models/job-role-search-params.js";
+import { getFilterValues, MULTI_VALUE_FILTERS } from "./job-role-filters.js";
 
 /**
  * Builds a query string from search parameters with proper URL encoding
@@ -24,22 +27,43 @@ export function buildSearchQueryString(
 		params.push(`search=${encodeURIComponent(searchParams.search.trim())}`);
 	}
 
-	if (searchParams.capability?.trim()) {
+	if (searchParams.search?.trim() && searchParams.searchMode === "fulltext") {
+		params.push("searchMode=fulltext");
+	}
+
+	// Multi-value filters repeat the parameter once per value
+	for (const key of MULTI_VALUE_FILTERS) {
+		for (const value of getFilterValues(searchParams[key])) {
+			params.push(`${key}=${encodeURIComponent(value)}`);
+		}
+	}
+
+	if (searchParams.status?.trim()) {
+		params.push(`status=${encodeURIComponent(searchParams.status.trim())}`);
+	}
+
+	if (searchParams.closingAfter) {
 		params.push(
-			`capability=${encodeURIComponent(searchParams.capability.trim())}`
+			`closingAfter=${encodeURIComponent(searchParams.closingAfter)}`
 		);
 	}
 
-	if (searchParams.location?.trim()) {
-		params.push(`location=${encodeURIComponent(searchParams.location.trim())}`);
+	if (searchParams.closingBefore) {
+		params.push(
+			`closingBefore=${encodeURIComponent(searchParams.closingBefore)}`
+		);
 	}
 
-	if (searchParams.band?.trim()) {
-		params.push(`band=${encodeURIComponent(searchParams.band.trim())}`);
+	if (searchParams.minOpenPositions !== undefined) {
+		params.push(`minOpenPositions=${searchParams.minOpenPositions}`);
 	}
 
-	if (searchParams.status?.trim()) {
-		params.push(`status=${encodeURIComponent(searchParams.status.trim())}`);
+	if (searchParams.sort) {
+		params.push(`sort=${encodeURIComponent(searchParams.sort)}`);
+
+		if (searchParams.order) {
+			params.push(`order=${encodeURIComponent(searchParams.order)}`);
+		}
 	}
 
 	// Return with leading & if there are parameters, empty string otherwise
@@ -87,18 +111,101 @@ export function buildPaginationUrls(
 	totalPages: number,
 	limit: number,
 	searchParams?: Partial<JobRoleSearchParams> | null
+): PaginationUrls {
+	return buildPaginationUrlSet(currentPage, totalPages, (page) =>
+		buildPaginationUrl(baseUrl, page, limit, searchParams)
+	);
+}
+
+/**
+ * Builds a query string from applicant list sort and filter options
+ * @param query - The applicant query options
+ * @returns Properly encoded query string (starting with & if parameters exist, empty string otherwise)
+ */
+export function buildApplicantsQueryString(
+	query: ApplicantsQueryOptions | null
+): string {
+	if (!query) {
+		return "";
+	}
+
+	const params: string[] = [];
+
+	if (query.sort) {
+		params.push(`sort=${encodeURIComponent(query.sort)}`);
+	}
+
+	if (query.order) {
+		params.push(`order=${encodeURIComponent(query.order)}`);
+	}
+
+	if (query.status?.trim()) {
+		params.push(`status=${encodeURIComponent(query.status.trim())}`);
+	}
+
+	if (query.search?.trim()) {
+		params.push(`search=${encodeURIComponent(query.search.trim())}`);
+	}
+
+	return params.length > 0 ? `&${params.join("&")}` : "";
+}
+
+/**
+ * Builds pagination URLs for the applicants list, preserving sort and filters
+ * @param baseUrl - The base URL (e.g., "/job-roles/1/applicants")
+ * @param currentPage - Current page number
+ * @param totalPages - Total number of pages
+ * @param limit - Applicants per page
+ * @param query - Optional sort and filter options
+ * @returns Object containing URLs for all pagination controls
+ */
+export function buildApplicantsPaginationUrls(
+	baseUrl: string,
+	currentPage: number,
+	totalPages: number,
+	limit: number,
+	query?: ApplicantsQueryOptions | null
+): PaginationUrls {
+	const queryString = buildApplicantsQueryString(query || null);
+	return buildPaginationUrlSet(
+		currentPage,
+		totalPages,
+		(page) => `${baseUrl}?page=${page}&limit=${limit}${queryString}`
+	);
+}
+
+/**
+ * Works out the absolute base URL for links that leave the site (feeds, sitemaps)
+ * PUBLIC_BASE_URL wins when set, since behind a proxy the request host may
+ * be an internal one
+ * @param req - The current request
+ * @returns Base URL without a trailing slash (e.g., "https://jobs.kainos.com")
+ */
+export function getPublicBaseUrl(req: Request): string {
+	const configured = process.env["PUBLIC_BASE_URL"]?.trim();
+	if (configured) {
+		return configured.replace(/\/+$/, "");
+	}
+	return `${req.protocol}://${req.get("host") ?? "localhost"}`;
+}
+
+/**
+ * Builds the first/previous/next/last and page number links for a pagination set
+ * @param currentPage - Current page number
+ * @param totalPages - Total number of pages
+ * @param urlForPage - Builds the URL for a given page number
+ * @returns Object containing URLs for all pagination controls
+ */
+function buildPaginationUrlSet(
+	currentPage: number,
+	totalPages: number,
+	urlForPage: (page: number) => string
 ): PaginationUrls {
 	const urls: PaginationUrls = {
-		first: buildPaginationUrl(baseUrl, 1, limit, searchParams),
-		previous:
-			currentPage > 1
-				? buildPaginationUrl(baseUrl, currentPage - 1, limit, searchParams)
-				: null,
-		next:
-			currentPage < totalPages
-				? buildPaginationUrl(baseUrl, currentPage + 1, limit, searchParams)
-				: null,
-		last: buildPaginationUrl(baseUrl, totalPages, limit, searchParams),
+		first: urlForPage(1),
+		previous: currentPage > 1 ? urlForPage(currentPage - 1) : null,
+		next: currentPage < totalPages ? urlForPage(currentPage + 1) : null,
+		last: urlForPage(totalPages),
 		pages: [],
 	};
 
@@ -121,7 +228,7 @@ export function buildPaginationUrls(
 	for (let page = startPage; page <= endPage; page++) {
 		urls.pages.push({
 			page,
-			url: buildPaginationUrl(baseUrl, page, limit, searchParams),
+			url: urlForPage(page),
 			isCurrent: page === currentPage,
 		});
 	}
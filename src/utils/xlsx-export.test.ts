@@ -0,0 +1,90 @@
+/**
+ * Tests for XLSX Export Utility
+ */
+
+import { inflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { columnReference, createXlsxWorkbook } from "./xlsx-export.js";
+
+/**
+ * Reads the entries of a ZIP archive by walking its local file headers
+ */
+function readZipEntries(buffer: Buffer): Map<string, string> {
+	const entries = new Map<string, string>();
+	let offset = 0;
+
+	while (buffer.readUInt32LE(offset) === 0x04034b50) {
+		const compressedSize = buffer.readUInt32LE(offset + 18);
+		const nameLength = buffer.readUInt16LE(offset + 26);
+		const extraLength = buffer.readUInt16LE(offset + 28);
+		const nameStart = offset + 30;
+		const dataStart = nameStart + nameLength + extraLength;
+		const name = buffer.toString("utf8", nameStart, nameStart + nameLength);
+		const data = inflateRawSync(
+			buffer.subarray(dataStart, dataStart + compressedSize)
+		);
+		entries.set(name, data.toString("utf8"));
+		offset = dataStart + compressedSize;
+	}
+
+	return entries;
+}
+
+describe("XLSX Export Utility", () => {
+	describe("columnReference", () => {
+		it("should convert column indexes to Excel letters", () => {
+			expect(columnReference(0)).toBe("A");
+			expect(columnReference(25)).toBe("Z");
+			expect(columnReference(26)).toBe("AA");
+			expect(columnReference(701)).toBe("ZZ");
+			expect(columnReference(702)).toBe("AAA");
+		});
+	});
+
+	describe("createXlsxWorkbook", () => {
+		it("should produce a ZIP archive with all required workbook parts", () => {
+			const workbook = createXlsxWorkbook("Applicants", [["Name"]]);
+			const entries = readZipEntries(workbook);
+
+			expect(workbook.subarray(0, 2).toString()).toBe("PK");
+			expect([...entries.keys()]).toEqual([
+				"[Content_Types].xml",
+				"_rels/.rels",
+				"xl/workbook.xml",
+				"xl/_rels/workbook.xml.rels",
+				"xl/styles.xml",
+				"xl/worksheets/sheet1.xml",
+			]);
+			expect(entries.get("xl/workbook.xml")).toContain('name="Applicants"');
+		});
+
+		it("should write typed cells with a bold header row", () => {
+			const workbook = createXlsxWorkbook("Sheet", [
+				["Name", "Count"],
+				["Jane <Doe>", 3],
+				[true, null],
+			]);
+			const sheet = readZipEntries(workbook).get("xl/worksheets/sheet1.xml");
+
+			expect(sheet).toContain(
+				'<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>'
+			);
+			expect(sheet).toContain(
+				'<c r="A2" t="inlineStr"><is><t xml:space="preserve">Jane &lt;Doe&gt;</t></is></c>'
+			);
+			expect(sheet).toContain('<c r="B2"><v>3</v></c>');
+			expect(sheet).toContain('<c r="A3" t="b"><v>1</v></c>');
+			expect(sheet).not.toContain('r="B3"');
+		});
+
+		it("should sanitise and truncate the sheet name", () => {
+			const workbook = createXlsxWorkbook(
+				"Applicants: Senior/Lead Engineer [Belfast office]",
+				[]
+			);
+			const xml = readZipEntries(workbook).get("xl/workbook.xml");
+
+			expect(xml).toContain('name="Applicants  Senior Lead Enginee"');
+		});
+	});
+});
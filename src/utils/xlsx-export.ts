@@ -0,0 +1,207 @@
+/**
+ * XLSX Export Utility
+ * Builds minimal single-sheet Excel workbooks without third-party dependencies
+ * The workbook parts are written as SpreadsheetML and packaged into a ZIP
+ * archive using Node's built-in zlib
+ */
+
+import { deflateRawSync } from "node:zlib";
+import { escapeXml } from "./xml-escape.js";
+
+/**
+ * Value types that can be written to a worksheet cell
+ */
+export type XlsxCellValue = string | number | boolean | null | undefined;
+
+/**
+ * A file to be stored in the ZIP archive
+ */
+export interface ZipEntry {
+	name: string;
+	data: Buffer;
+}
+
+const CRC32_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * Calculates the CRC-32 checksum required for each ZIP entry
+ */
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = (CRC32_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packages entries into a ZIP archive using deflate compression
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+	const localParts: Buffer[] = [];
+	const centralParts: Buffer[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name, "utf8");
+		const compressed = deflateRawSync(entry.data);
+		const checksum = crc32(entry.data);
+
+		const localHeader = Buffer.alloc(30);
+		localHeader.writeUInt32LE(0x04034b50, 0); // local file header signature
+		localHeader.writeUInt16LE(20, 4); // version needed to extract
+		localHeader.writeUInt16LE(0x0800, 6); // UTF-8 file names
+		localHeader.writeUInt16LE(8, 8); // deflate
+		localHeader.writeUInt16LE(0, 10); // modification time
+		localHeader.writeUInt16LE(0x21, 12); // modification date (1980-01-01)
+		localHeader.writeUInt32LE(checksum, 14);
+		localHeader.writeUInt32LE(compressed.length, 18);
+		localHeader.writeUInt32LE(entry.data.length, 22);
+		localHeader.writeUInt16LE(name.length, 26);
+		localHeader.writeUInt16LE(0, 28); // extra field length
+
+		const centralHeader = Buffer.alloc(46);
+		centralHeader.writeUInt32LE(0x02014b50, 0); // central directory signature
+		centralHeader.writeUInt16LE(20, 4); // version made by
+		centralHeader.writeUInt16LE(20, 6); // version needed to extract
+		centralHeader.writeUInt16LE(0x0800, 8);
+		centralHeader.writeUInt16LE(8, 10);
+		centralHeader.writeUInt16LE(0, 12);
+		centralHeader.writeUInt16LE(0x21, 14);
+		centralHeader.writeUInt32LE(checksum, 16);
+		centralHeader.writeUInt32LE(compressed.length, 20);
+		centralHeader.writeUInt32LE(entry.data.length, 24);
+		centralHeader.writeUInt16LE(name.length, 28);
+		// extra, comment, disk number, attributes are all zero
+		centralHeader.writeUInt32LE(offset, 42);
+
+		localParts.push(localHeader, name, compressed);
+		centralParts.push(centralHeader, name);
+		offset += localHeader.length + name.length + compressed.length;
+	}
+
+	const centralDirectory = Buffer.concat(centralParts);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0); // end of central directory signature
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Converts a zero-based column index to an Excel column reference (0 -> A, 26 -> AA)
+ * @param index Zero-based column index
+ * @returns Column letters
+ */
+export function columnReference(index: number): string {
+	let reference = "";
+	let remaining = index + 1;
+	while (remaining > 0) {
+		const mod = (remaining - 1) % 26;
+		reference = String.fromCharCode(65 + mod) + reference;
+		remaining = Math.floor((remaining - 1) / 26);
+	}
+	return reference;
+}
+
+/**
+ * Builds the XML for a single cell
+ * Style index 1 is the bold header style defined in styles.xml
+ */
+function cellXml(
+	value: XlsxCellValue,
+	reference: string,
+	styleIndex: number
+): string {
+	if (value === null || value === undefined || value === "") {
+		return "";
+	}
+	const attributes = `r="${reference}"${styleIndex ? ` s="${styleIndex}"` : ""}`;
+	if (typeof value === "number" && Number.isFinite(value)) {
+		return `<c ${attributes}><v>${value}</v></c>`;
+	}
+	if (typeof value === "boolean") {
+		return `<c ${attributes} t="b"><v>${value ? 1 : 0}</v></c>`;
+	}
+	return `<c ${attributes} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+/**
+ * Builds the worksheet XML for a set of rows
+ * The first row is rendered in bold as a header row
+ */
+function worksheetXml(rows: XlsxCellValue[][]): string {
+	const rowsXml = rows
+		.map((row, rowIndex) => {
+			const rowNumber = rowIndex + 1;
+			const cells = row
+				.map((value, columnIndex) =>
+					cellXml(
+						value,
+						`${columnReference(columnIndex)}${rowNumber}`,
+						rowIndex === 0 ? 1 : 0
+					)
+				)
+				.join("");
+			return `<row r="${rowNumber}">${cells}</row>`;
+		})
+		.join("");
+
+	return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowsXml}</sheetData></worksheet>`;
+}
+
+/**
+ * Creates an XLSX workbook containing a single worksheet
+ * @param sheetName Name of the worksheet tab (truncated to Excel's 31 character limit)
+ * @param rows Rows of cell values; the first row is treated as the header
+ * @returns Buffer containing the .xlsx file
+ */
+export function createXlsxWorkbook(
+	sheetName: string,
+	rows: XlsxCellValue[][]
+): Buffer {
+	const safeSheetName =
+		escapeXml(sheetName.replace(/[[\]:*?/\\]/g, " ").substring(0, 31)) ||
+		"Sheet1";
+
+	const files: Record<string, string> = {
+		"[Content_Types].xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`,
+		"_rels/.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+		"xl/workbook.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+		"xl/_rels/workbook.xml.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+		"xl/styles.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+		"xl/worksheets/sheet1.xml": worksheetXml(rows),
+	};
+
+	return createZip(
+		Object.entries(files).map(([name, content]) => ({
+			name,
+			data: Buffer.from(content, "utf8"),
+		}))
+	);
+}
+
+/**
+ * MIME type for .xlsx downloads
+ */
+export const XLSX_CONTENT_TYPE =
+	"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
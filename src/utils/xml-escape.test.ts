@@ -0,0 +1,20 @@
+/**
+ * Tests for XML escaping
+ */
+
+import { describe, expect, it } from "vitest";
+import { escapeXml } from "./xml-escape.js";
+
+describe("escapeXml", () => {
+	it("should escape XML special characters", () => {
+		expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+			"&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;"
+		);
+	});
+
+	it("should strip control characters that XML does not allow", () => {
+		expect(escapeXml("bad\u0000\u0007value\ttab\nline")).toBe(
+			"badvalue\ttab\nline"
+		);
+	});
+});
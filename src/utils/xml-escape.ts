@@ -0,0 +1,23 @@
+/**
+ * XML escaping
+ * Shared by the XLSX export, job feeds, sitemap and preview HTML builders
+ */
+
+/**
+ * Escapes text for inclusion in XML, dropping characters XML 1.0 forbids
+ * The result is also safe as HTML text or a quoted attribute value
+ * @param value The text to escape
+ * @returns XML-safe text
+ */
+export function escapeXml(value: string): string {
+	return (
+		value
+			// biome-ignore lint/suspicious/noControlCharactersInRegex: stripping characters that are invalid in XML
+			.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;")
+			.replace(/"/g, "&quot;")
+			.replace(/'/g, "&apos;")
+	);
+}
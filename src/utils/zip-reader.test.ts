@@ -0,0 +1,68 @@
+/**
+ * Tests for ZIP Reader Utility
+ */
+
+import { describe, expect, it } from "vitest";
+import { createZip } from "./xlsx-export.js";
+import { isZipArchive, readZipDirectory, readZipEntry } from "./zip-reader.js";
+
+describe("ZIP Reader Utility", () => {
+	const archive = createZip([
+		{ name: "[Content_Types].xml", data: Buffer.from("<Types/>") },
+		{ name: "word/document.xml", data: Buffer.from("<w:document/>") },
+	]);
+
+	it("should recognise ZIP archives", () => {
+		expect(isZipArchive(archive)).toBe(true);
+		expect(isZipArchive(Buffer.from("%PDF-1.4"))).toBe(false);
+	});
+
+	it("should list the central directory entries", () => {
+		const entries = readZipDirectory(archive);
+
+		expect(entries?.map((entry) => entry.name)).toEqual([
+			"[Content_Types].xml",
+			"word/document.xml",
+		]);
+		expect(entries?.[1]).toMatchObject({
+			compressionMethod: 8,
+			size: 13,
+		});
+	});
+
+	it("should find the directory after an archive comment", () => {
+		const withComment = Buffer.concat([archive, Buffer.from("comment")]);
+		withComment.writeUInt16LE(7, archive.length - 2);
+
+		expect(readZipDirectory(withComment)).toHaveLength(2);
+	});
+
+	it("should return null for truncated archives", () => {
+		expect(
+			readZipDirectory(archive.subarray(0, archive.length - 30))
+		).toBeNull();
+		expect(readZipDirectory(Buffer.alloc(10))).toBeNull();
+	});
+
+	it("should read and decompress an entry", () => {
+		expect(
+			readZipEntry(archive, "word/document.xml", 1024)?.toString("utf8")
+		).toBe("<w:document/>");
+	});
+
+	it("should return null for missing or oversized entries", () => {
+		expect(readZipEntry(archive, "word/styles.xml", 1024)).toBeNull();
+		expect(readZipEntry(archive, "word/document.xml", 5)).toBeNull();
+	});
+
+	it("should refuse entries that inflate beyond the limit", () => {
+		const bomb = createZip([
+			{ name: "word/document.xml", data: Buffer.alloc(4096) },
+		]);
+		// Understate the size in the central directory, as a zip bomb would
+		const directoryOffset = bomb.readUInt32LE(bomb.length - 6);
+		bomb.writeUInt32LE(10, directoryOffset + 24);
+
+		expect(readZipEntry(bomb, "word/document.xml", 1024)).toBeNull();
+	});
+});
@@ -0,0 +1,156 @@
+/**
+ * ZIP Reader Utility
+ * Reads the central directory of ZIP archives (such as DOCX files) without
+ * third-party dependencies, so uploads can be inspected before they are stored
+ */
+
+import { inflateRawSync } from "node:zlib";
+
+/**
+ * An entry listed in a ZIP archive's central directory
+ */
+export interface ZipDirectoryEntry {
+	name: string;
+	compressionMethod: number; // 0 = stored, 8 = deflate
+	compressedSize: number;
+	size: number;
+	localHeaderOffset: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const LOCAL_HEADER_SIZE = 30;
+
+/**
+ * Checks whether a buffer starts with a ZIP local file header
+ * @param buffer The file contents
+ */
+export function isZipArchive(buffer: Buffer): boolean {
+	return (
+		buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE
+	);
+}
+
+/**
+ * Lists the entries in a ZIP archive's central directory
+ * ZIP64 archives are not supported, which is fine for uploads capped at 5MB
+ * @param buffer The archive contents
+ * @returns The entries, or null if the archive is malformed
+ */
+export function readZipDirectory(buffer: Buffer): ZipDirectoryEntry[] | null {
+	const endOffset = findEndOfCentralDirectory(buffer);
+	if (endOffset === null) {
+		return null;
+	}
+
+	const entryCount = buffer.readUInt16LE(endOffset + 10);
+	const directorySize = buffer.readUInt32LE(endOffset + 12);
+	const directoryOffset = buffer.readUInt32LE(endOffset + 16);
+	if (directoryOffset + directorySize > endOffset) {
+		return null;
+	}
+
+	const entries: ZipDirectoryEntry[] = [];
+	let offset = directoryOffset;
+	for (let index = 0; index < entryCount; index++) {
+		if (
+			offset + 46 > endOffset ||
+			buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE
+		) {
+			return null;
+		}
+
+		const nameLength = buffer.readUInt16LE(offset + 28);
+		const extraLength = buffer.readUInt16LE(offset + 30);
+		const commentLength = buffer.readUInt16LE(offset + 32);
+		const nameEnd = offset + 46 + nameLength;
+		if (nameEnd > endOffset) {
+			return null;
+		}
+
+		entries.push({
+			name: buffer.toString("utf8", offset + 46, nameEnd),
+			compressionMethod: buffer.readUInt16LE(offset + 10),
+			compressedSize: buffer.readUInt32LE(offset + 20),
+			size: buffer.readUInt32LE(offset + 24),
+			localHeaderOffset: buffer.readUInt32LE(offset + 42),
+		});
+		offset = nameEnd + extraLength + commentLength;
+	}
+
+	return entries;
+}
+
+/**
+ * Reads and decompresses a single entry from a ZIP archive
+ * Entries that would expand beyond maxSize are refused, so a small archive
+ * cannot be used to exhaust memory
+ * @param buffer The archive contents
+ * @param name The entry name (e.g., "word/document.xml")
+ * @param maxSize Largest uncompressed size accepted, in bytes
+ * @returns The entry contents, or null if it is missing, too large or malformed
+ */
+export function readZipEntry(
+	buffer: Buffer,
+	name: string,
+	maxSize: number
+): Buffer | null {
+	const entry = readZipDirectory(buffer)?.find((item) => item.name === name);
+	if (!entry || entry.size > maxSize) {
+		return null;
+	}
+
+	const headerOffset = entry.localHeaderOffset;
+	if (
+		headerOffset + LOCAL_HEADER_SIZE > buffer.length ||
+		buffer.readUInt32LE(headerOffset) !== LOCAL_HEADER_SIGNATURE
+	) {
+		return null;
+	}
+
+	// The local header's name and extra field lengths can differ from the
+	// central directory's, so the data offset is taken from the local header
+	const dataStart =
+		headerOffset +
+		LOCAL_HEADER_SIZE +
+		buffer.readUInt16LE(headerOffset + 26) +
+		buffer.readUInt16LE(headerOffset + 28);
+	const dataEnd = dataStart + entry.compressedSize;
+	if (dataEnd > buffer.length) {
+		return null;
+	}
+	const data = buffer.subarray(dataStart, dataEnd);
+
+	if (entry.compressionMethod === 0) {
+		return Buffer.from(data);
+	}
+	if (entry.compressionMethod !== 8) {
+		return null;
+	}
+
+	try {
+		return inflateRawSync(data, { maxOutputLength: maxSize });
+	} catch {
+		// Corrupt data, or more output than the directory declared
+		return null;
+	}
+}
+
+/**
+ * Finds the end of central directory record, which sits before an optional
+ * archive comment at the end of the file
+ */
+function findEndOfCentralDirectory(buffer: Buffer): number | null {
+	const lastPossible = buffer.length - END_OF_CENTRAL_DIRECTORY_SIZE;
+	const firstPossible = Math.max(0, lastPossible - MAX_COMMENT_LENGTH);
+
+	for (let offset = lastPossible; offset >= firstPossible; offset--) {
+		if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+			return offset;
+		}
+	}
+	return null;
+}